@@ -0,0 +1,116 @@
+import axios from 'axios';
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3001';
+
+// Client seeded by the migrations
+const PREMIUM_CLIENT_ID = '0da1c95b-ac37-4f19-a907-041a458c8e11';
+
+describe('Auth API E2E Tests', () => {
+  const email = `e2e-auth-${Date.now()}@example.com`;
+  const password = 'correct horse battery';
+  let token: string;
+
+  beforeAll(async () => {
+    const registered = await axios.post(`${API_BASE_URL}/api/auth/register`, { email, password, displayName: 'E2E User' });
+    expect(registered.status).toBe(201);
+    token = registered.data.token;
+  });
+
+  const authHeaders = () => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  it('should list the available sign-in methods', async () => {
+    const response = await axios.get(`${API_BASE_URL}/api/auth/providers`);
+
+    expect(response.data.password).toBe(true);
+    expect(typeof response.data.github).toBe('boolean');
+  });
+
+  it('should return the new account without clients after registering', async () => {
+    const me = await axios.get(`${API_BASE_URL}/api/auth/me`, authHeaders());
+
+    expect(me.data.user.email).toBe(email);
+    expect(me.data.user.displayName).toBe('E2E User');
+    expect(me.data.user).not.toHaveProperty('passwordHash');
+    expect(me.data.memberships).toEqual([]);
+    expect(me.data.clientId).toBeNull();
+  });
+
+  it('should reject registering the same email twice', async () => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/auth/register`, { email: email.toUpperCase(), password });
+      fail('Expected request to fail');
+    } catch (error) {
+      expect(error.response.status).toBe(409);
+    }
+  });
+
+  it('should validate the registration payload', async () => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/auth/register`, { email: 'not-an-email', password: 'short' });
+      fail('Expected request to fail');
+    } catch (error) {
+      expect(error.response.status).toBe(400);
+    }
+  });
+
+  it('should sign in with the password', async () => {
+    const response = await axios.post(`${API_BASE_URL}/api/auth/login`, { email, password });
+
+    expect(response.status).toBe(200);
+    expect(response.data.token.split('.')).toHaveLength(3);
+    expect(response.data.user.email).toBe(email);
+  });
+
+  it('should reject a wrong password', async () => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/auth/login`, { email, password: 'wrong password' });
+      fail('Expected request to fail');
+    } catch (error) {
+      expect(error.response.status).toBe(401);
+    }
+  });
+
+  it('should reject requests without a valid token', async () => {
+    for (const headers of [{}, { Authorization: `Bearer ${token}x` }]) {
+      try {
+        await axios.get(`${API_BASE_URL}/api/auth/me`, { headers });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(401);
+      }
+    }
+  });
+
+  it('should not scope a session to a client the user is not a member of', async () => {
+    try {
+      await axios.post(`${API_BASE_URL}/api/auth/session`, { clientId: PREMIUM_CLIENT_ID }, authHeaders());
+      fail('Expected request to fail');
+    } catch (error) {
+      expect(error.response.status).toBe(403);
+    }
+  });
+
+  it('should only let admins of a client manage its members', async () => {
+    try {
+      await axios.get(`${API_BASE_URL}/api/clients/${PREMIUM_CLIENT_ID}/members`, authHeaders());
+      fail('Expected request to fail');
+    } catch (error) {
+      expect(error.response.status).toBe(403);
+    }
+  });
+
+  it('should reject GraphQL mutations without an editor session', async () => {
+    const response = await axios.post(
+      `${API_BASE_URL}/graphql`,
+      {
+        query: `mutation($slug: String!) {
+          createDashboard(input: { dashboard: { name: "E2E unauthorized", slug: $slug } }) { dashboard { id } }
+        }`,
+        variables: { slug: `e2e-unauthorized-${Date.now()}` }
+      },
+      authHeaders()
+    );
+
+    expect(response.data.errors[0].message).toContain('Sign in');
+  });
+});
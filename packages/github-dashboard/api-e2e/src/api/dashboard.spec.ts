@@ -2,9 +2,15 @@ import axios from 'axios';
 
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3001';
 
+// Clients seeded by the migrations
+const BASIC_CLIENT_ID = '2667d6c1-89e6-4848-8e12-03cefeeec0c8';
+const PREMIUM_CLIENT_ID = '0da1c95b-ac37-4f19-a907-041a458c8e11';
+
+// X-Demo-Client-Id only stands in for a signed-in client when the API runs with AUTH_DEMO_CLIENT_HEADER=true
+const itWithDemoClients = process.env.AUTH_DEMO_CLIENT_HEADER === 'true' ? it : it.skip;
+
 describe('Dashboard API E2E Tests', () => {
-  // Note: Dashboard management is done via PostGraphile GraphQL, not REST endpoints
-  // These tests verify the GraphQL infrastructure is working
+  // Note: Dashboard management is available via PostGraphile GraphQL and the REST DashboardsController
   
   beforeAll(async () => {
     // Verify API is running
@@ -87,4 +93,601 @@ describe('Dashboard API E2E Tests', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Dashboards REST API', () => {
+    // Creating and changing dashboards needs a signed-in user
+    let token: string;
+    const signedIn = () => ({ headers: { Authorization: `Bearer ${token}` } });
+
+    beforeAll(async () => {
+      const registered = await axios.post(`${API_BASE_URL}/api/auth/register`, {
+        email: `e2e-dashboards-${Date.now()}@example.com`,
+        password: 'correct horse battery',
+      });
+      token = registered.data.token;
+    });
+
+    it('should list public dashboards', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/dashboards`);
+
+      expect(response.status).toBe(200);
+      expect(Array.isArray(response.data)).toBe(true);
+    });
+
+    it('should list available activity types', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/dashboards/activity-types`);
+
+      expect(response.status).toBe(200);
+      expect(Array.isArray(response.data)).toBe(true);
+    });
+
+    it('should seed commit and issue activity types', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/dashboards/activity-types`);
+
+      const codes = response.data.map((type: { code: string }) => type.code);
+      expect(codes).toEqual(expect.arrayContaining(['commits', 'issues_opened', 'issues_closed', 'issues_commented']));
+    });
+
+    it('should describe activity types with their registry category', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/dashboards/activity-types`);
+
+      const prsCreated = response.data.find((type: { code: string }) => type.code === 'prs_created');
+      expect(prsCreated).toEqual(expect.objectContaining({ displayName: 'PRs Created', category: 'pull_requests' }));
+      expect(response.data[0].code).toBe('prs_created');
+    });
+
+    it('should reject a non-UUID dashboard id', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/not-a-uuid/users`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should return 404 for users of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/users`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    it('should return 404 for the activity summary of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/summary`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    it('should return 404 for the event stream of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/events`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    itWithDemoClients('should return 404 for the export of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/export.csv`, {
+          headers: { 'X-Demo-Client-Id': PREMIUM_CLIENT_ID }
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    itWithDemoClients('should reject unsupported export formats', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/export.pdf`, {
+          headers: { 'X-Demo-Client-Id': PREMIUM_CLIENT_ID }
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should reject exports without a client', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/export.csv`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(403);
+      }
+    });
+
+    it('should reject exports for clients without the export feature', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/export.csv`, {
+          headers: { 'X-Demo-Client-Id': BASIC_CLIENT_ID }
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(403);
+      }
+    });
+
+    it('should require signing in to create dashboards', async () => {
+      try {
+        await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Anonymous ${Date.now()}` });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(401);
+      }
+    });
+
+    it('should require signing in to read or change a private dashboard without a client', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Private ${Date.now()}`, isPublic: false }, signedIn());
+      const id = created.data.id;
+      try {
+        for (const path of ['', '/users', '/configuration', '/events']) {
+          try {
+            await axios.get(`${API_BASE_URL}/api/dashboards/${id}${path}`);
+            fail('Expected request to fail');
+          } catch (error) {
+            expect(error.response.status).toBe(401);
+          }
+        }
+        try {
+          await axios.get(`${API_BASE_URL}/api/github/users/cached-batch-activity-summary`, { params: { dashboard_id: id } });
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(401);
+        }
+        try {
+          await axios.patch(`${API_BASE_URL}/api/dashboards/${id}`, { name: 'Taken over' });
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(401);
+        }
+
+        const fetched = await axios.get(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+        expect(fetched.data.isPublic).toBe(false);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should validate the create dashboard payload', async () => {
+      try {
+        await axios.post(`${API_BASE_URL}/api/dashboards`, { description: 'missing name' }, signedIn());
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should return 404 for the configuration of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/configuration`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    it('should save a dashboard configuration all at once or not at all', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Configuration ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      try {
+        // Every invalid item is reported and nothing is saved
+        try {
+          await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, {
+            isPublic: false,
+            repositories: ['not-a-repository'],
+            users: [],
+            activityTypes: ['prs_created', 'no_such_activity']
+          }, signedIn());
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(400);
+          expect(error.response.data.errors).toEqual(expect.arrayContaining([
+            expect.objectContaining({ field: 'repositories', value: 'not-a-repository' }),
+            expect.objectContaining({ field: 'activityTypes', value: 'no_such_activity' })
+          ]));
+        }
+
+        const unchanged = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/configuration`);
+        expect(unchanged.data).toMatchObject({ isPublic: true, repositories: [], users: [], activityTypes: [] });
+
+        const saved = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, {
+          isPublic: false,
+          excludeMergeCommits: true,
+          repositories: [],
+          users: [],
+          activityTypes: ['prs_created', 'commits']
+        }, signedIn());
+        expect(saved.data).toMatchObject({ isPublic: false, excludeMergeCommits: true });
+        expect([...saved.data.activityTypes].sort()).toEqual(['commits', 'prs_created']);
+
+        // Activity types left out are disabled
+        const trimmed = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, {
+          isPublic: false,
+          repositories: [],
+          users: [],
+          activityTypes: ['commits']
+        }, signedIn());
+        expect(trimmed.data.activityTypes).toEqual(['commits']);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should reject GitHub users that do not exist when saving a configuration', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Unknown User ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      const username = `no-such-user-${Date.now()}`;
+      try {
+        await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, {
+          isPublic: true,
+          repositories: [],
+          users: [username],
+          activityTypes: []
+        }, signedIn());
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+        expect(error.response.data.errors).toEqual([expect.objectContaining({ field: 'users', value: username })]);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should validate the dashboard configuration payload', async () => {
+      try {
+        await axios.put(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/configuration`, { isPublic: true });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should return 404 for the member import preview of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/members/import`, {
+          params: { org: 'github' }
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    it('should validate the member import payload', async () => {
+      try {
+        await axios.post(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/members/import`, {
+          usernames: ['octocat']
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should report no member sync for a new dashboard and stop syncing idempotently', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Member Sync ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      try {
+        const sync = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/member-sync`);
+        expect(sync.status).toBe(200);
+        expect(sync.data || null).toBeNull();
+
+        const stopped = await axios.delete(`${API_BASE_URL}/api/dashboards/${id}/member-sync`, signedIn());
+        expect(stopped.status).toBe(204);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should save a default date range and require a sprint start for the current sprint', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Date Range ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      const configuration = { isPublic: true, repositories: [], users: [], activityTypes: [] };
+      try {
+        try {
+          await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, { ...configuration, defaultDateRange: 'current_sprint' }, signedIn());
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(400);
+          expect(error.response.data.errors).toEqual([expect.objectContaining({ field: 'defaultDateRange', value: 'current_sprint' })]);
+        }
+
+        const saved = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, {
+          ...configuration,
+          defaultDateRange: 'current_sprint',
+          sprintStartDate: '2024-01-08',
+          sprintLengthDays: 10
+        }, signedIn());
+        expect(saved.data).toMatchObject({ defaultDateRange: 'current_sprint', sprintStartDate: '2024-01-08', sprintLengthDays: 10 });
+
+        // Left out, the range stays; null goes back to the standard range
+        const kept = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, configuration, signedIn());
+        expect(kept.data.defaultDateRange).toBe('current_sprint');
+        const cleared = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/configuration`, { ...configuration, defaultDateRange: null }, signedIn());
+        expect(cleared.data.defaultDateRange).toBeNull();
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should reject unknown date range presets', async () => {
+      try {
+        await axios.put(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/configuration`, {
+          isPublic: true,
+          defaultDateRange: 'all_2024',
+          repositories: [],
+          users: [],
+          activityTypes: []
+        });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should return 404 for the saved views of an unknown dashboard', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/dashboards/00000000-0000-0000-0000-000000000000/views`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(404);
+      }
+    });
+
+    it('should create, rename and delete a saved view', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Saved Views ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      try {
+        const view = await axios.post(`${API_BASE_URL}/api/dashboards/${id}/views`, {
+          name: 'Reviews this quarter',
+          dateRange: 'this_quarter',
+          users: ['octocat'],
+          activityTypes: ['prs_reviewed'],
+          sortBy: 'prsReviewed'
+        }, signedIn());
+        expect(view.status).toBe(201);
+        expect(view.data).toMatchObject({ name: 'Reviews this quarter', dateRange: 'this_quarter', users: ['octocat'], repositories: null });
+
+        // Names are unique per dashboard
+        try {
+          await axios.post(`${API_BASE_URL}/api/dashboards/${id}/views`, { name: 'Reviews this quarter' }, signedIn());
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(409);
+        }
+
+        const updated = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/views/${view.data.id}`, {
+          name: 'Q1 2024',
+          startDate: '2024-01-01',
+          endDate: '2024-03-31'
+        }, signedIn());
+        expect(updated.data).toMatchObject({ name: 'Q1 2024', dateRange: null, startDate: '2024-01-01', endDate: '2024-03-31', users: null });
+
+        const views = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/views`);
+        expect(views.data.map((saved: { name: string }) => saved.name)).toEqual(['Q1 2024']);
+
+        const deleted = await axios.delete(`${API_BASE_URL}/api/dashboards/${id}/views/${view.data.id}`, signedIn());
+        expect(deleted.status).toBe(204);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should reject saved views with both a preset and fixed dates', async () => {
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name: `E2E Saved View Range ${Date.now()}` }, signedIn());
+      const id = created.data.id;
+      try {
+        await axios.post(`${API_BASE_URL}/api/dashboards/${id}/views`, {
+          name: 'Both',
+          dateRange: 'last_7_days',
+          startDate: '2024-01-01',
+          endDate: '2024-01-31'
+        }, signedIn());
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      } finally {
+        await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+      }
+    });
+
+    it('should create, read and delete a dashboard with users and repositories', async () => {
+      const name = `E2E Dashboard ${Date.now()}`;
+      const created = await axios.post(`${API_BASE_URL}/api/dashboards`, { name, isPublic: true }, signedIn());
+      expect(created.status).toBe(201);
+      expect(created.data).toHaveProperty('id');
+      expect(created.data).toHaveProperty('slug');
+
+      const id = created.data.id;
+      try {
+        const fetched = await axios.get(`${API_BASE_URL}/api/dashboards/${id}`);
+        expect(fetched.data.name).toBe(name);
+
+        const users = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/users`);
+        expect(users.data).toEqual([]);
+
+        const repositories = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/repositories`);
+        expect(repositories.data).toEqual([]);
+
+        const activityConfig = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/activity-config`);
+        expect(activityConfig.data).toHaveProperty('trackPRsCreated');
+        expect(activityConfig.data.excludeMergeCommits).toBe(false);
+
+        const updatedConfig = await axios.put(`${API_BASE_URL}/api/dashboards/${id}/activity-config`, {
+          configs: [{ activityTypeName: 'commits', enabled: true }, { activityTypeName: 'issues_closed', enabled: true }]
+        }, signedIn());
+        expect(updatedConfig.data.trackCommits).toBe(true);
+        expect(updatedConfig.data.trackIssues).toBe(true);
+
+        const summary = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/summary`);
+        expect(summary.data).toEqual([]);
+
+        const events = await axios.get(`${API_BASE_URL}/api/dashboards/${id}/events`, { responseType: 'stream' });
+        expect(events.headers['content-type']).toContain('text/event-stream');
+        events.data.destroy();
+
+        // The dashboard has no client, so it belongs to no client that may export it
+        try {
+          await axios.get(`${API_BASE_URL}/api/dashboards/${id}/export.csv`, {
+            headers: { 'X-Demo-Client-Id': PREMIUM_CLIENT_ID }
+          });
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(403);
+        }
+
+        // Changing the dashboard type through PostGraphile requires the type_chips feature
+        const types = await axios.post(`${API_BASE_URL}/graphql`, { query: '{ allDashboardTypes { nodes { id } } }' });
+        const typeChange = await axios.post(
+          `${API_BASE_URL}/graphql`,
+          {
+            query: `mutation($id: UUID!, $typeId: UUID!) {
+              updateDashboardById(input: { id: $id, dashboardPatch: { dashboardTypeId: $typeId } }) { dashboard { id } }
+            }`,
+            variables: { id, typeId: types.data.data.allDashboardTypes.nodes[0].id }
+          },
+          { headers: { 'X-Demo-Client-Id': BASIC_CLIENT_ID } }
+        );
+        expect(typeChange.data.errors[0].message).toContain('type_chips');
+      } finally {
+        const deleted = await axios.delete(`${API_BASE_URL}/api/dashboards/${id}`, signedIn());
+        expect(deleted.status).toBe(204);
+      }
+    });
+  });
+
+  describe('Tenant isolation (row-level security)', () => {
+    const graphql = (query: string, variables: Record<string, unknown>, clientId?: string) =>
+      axios.post(
+        `${API_BASE_URL}/graphql`,
+        { query, variables },
+        clientId ? { headers: { 'X-Demo-Client-Id': clientId } } : {}
+      );
+
+    const DASHBOARD_QUERY = `query($id: UUID!) { dashboardById(id: $id) { id } }`;
+
+    it('should only show public dashboards without a client to requests without a session', async () => {
+      const response = await graphql('{ allDashboards { nodes { id clientId isPublic } } }', {});
+
+      expect(response.data.errors).toBeUndefined();
+      for (const dashboard of response.data.data.allDashboards.nodes) {
+        expect(dashboard.clientId).toBeNull();
+        expect(dashboard.isPublic).toBe(true);
+      }
+    });
+
+    it('should not show synced pull requests to requests without a session', async () => {
+      const response = await graphql('{ allPullRequests { nodes { id } } }', {});
+
+      expect(response.data.errors).toBeUndefined();
+      expect(response.data.data.allPullRequests.nodes).toEqual([]);
+    });
+
+    itWithDemoClients('should keep one client from reading the pull requests synced for another', async () => {
+      const PULL_REQUESTS_QUERY = '{ allPullRequests { nodes { id repositoryId } } }';
+      const [basic, premium, basicRepositories] = await Promise.all([
+        graphql(PULL_REQUESTS_QUERY, {}, BASIC_CLIENT_ID),
+        graphql(PULL_REQUESTS_QUERY, {}, PREMIUM_CLIENT_ID),
+        graphql('{ allDashboardRepositories { nodes { repositoryId dashboardByDashboardId { clientId } } } }', {}, BASIC_CLIENT_ID),
+      ]);
+      expect(basic.data.errors).toBeUndefined();
+      expect(premium.data.errors).toBeUndefined();
+
+      // Only pull requests of repositories on the client's own dashboards...
+      const ownRepositoryIds = basicRepositories.data.data.allDashboardRepositories.nodes
+        .filter((node: { dashboardByDashboardId: { clientId: string | null } }) => node.dashboardByDashboardId.clientId === BASIC_CLIENT_ID)
+        .map((node: { repositoryId: string }) => node.repositoryId);
+      for (const pullRequest of basic.data.data.allPullRequests.nodes) {
+        expect(ownRepositoryIds).toContain(pullRequest.repositoryId);
+      }
+
+      // ...synced with its own credentials, so no row is readable by both clients
+      const premiumIds = premium.data.data.allPullRequests.nodes.map((pullRequest: { id: string }) => pullRequest.id);
+      for (const pullRequest of basic.data.data.allPullRequests.nodes) {
+        expect(premiumIds).not.toContain(pullRequest.id);
+      }
+    });
+
+    itWithDemoClients('should keep one client from reading or changing the dashboards of another', async () => {
+      const slug = `e2e-tenant-${Date.now()}`;
+      const created = await graphql(
+        `mutation($slug: String!, $clientId: UUID!) {
+          createDashboard(input: { dashboard: { name: "E2E Tenant", slug: $slug, clientId: $clientId } }) { dashboard { id } }
+        }`,
+        { slug, clientId: BASIC_CLIENT_ID },
+        BASIC_CLIENT_ID
+      );
+      expect(created.data.errors).toBeUndefined();
+      const id = created.data.data.createDashboard.dashboard.id;
+
+      try {
+        // The owner sees it
+        const own = await graphql(DASHBOARD_QUERY, { id }, BASIC_CLIENT_ID);
+        expect(own.data.data.dashboardById.id).toBe(id);
+
+        // Another client can't read it, directly or in lists
+        const other = await graphql(DASHBOARD_QUERY, { id }, PREMIUM_CLIENT_ID);
+        expect(other.data.data.dashboardById).toBeNull();
+
+        const list = await graphql('{ allDashboards { nodes { id } } }', {}, PREMIUM_CLIENT_ID);
+        expect(list.data.data.allDashboards.nodes.map((dashboard: { id: string }) => dashboard.id)).not.toContain(id);
+
+        // ...nor change it or its users, repositories and activity types
+        const update = await graphql(
+          `mutation($id: UUID!) {
+            updateDashboardById(input: { id: $id, dashboardPatch: { name: "Taken over" } }) { dashboard { id } }
+          }`,
+          { id },
+          PREMIUM_CLIENT_ID
+        );
+        expect(update.data.errors).toBeDefined();
+
+        const activityTypes = await graphql('{ allActivityTypes { nodes { id } } }', {}, PREMIUM_CLIENT_ID);
+        const addConfig = await graphql(
+          `mutation($id: UUID!, $typeId: UUID!) {
+            createDashboardActivityConfig(input: { dashboardActivityConfig: { dashboardId: $id, activityTypeId: $typeId } }) {
+              dashboardActivityConfig { id }
+            }
+          }`,
+          { id, typeId: activityTypes.data.data.allActivityTypes.nodes[0].id },
+          PREMIUM_CLIENT_ID
+        );
+        expect(addConfig.data.errors[0].message).toContain('row-level security');
+
+        const remove = await graphql(
+          `mutation($id: UUID!) { deleteDashboardById(input: { id: $id }) { deletedDashboardId } }`,
+          { id },
+          PREMIUM_CLIENT_ID
+        );
+        expect(remove.data.errors).toBeDefined();
+
+        // Creating a dashboard for another client is rejected as well
+        const foreign = await graphql(
+          `mutation($slug: String!, $clientId: UUID!) {
+            createDashboard(input: { dashboard: { name: "E2E Foreign", slug: $slug, clientId: $clientId } }) { dashboard { id } }
+          }`,
+          { slug: `${slug}-foreign`, clientId: BASIC_CLIENT_ID },
+          PREMIUM_CLIENT_ID
+        );
+        expect(foreign.data.errors[0].message).toContain('row-level security');
+
+        const unchanged = await graphql(`query($id: UUID!) { dashboardById(id: $id) { name } }`, { id }, BASIC_CLIENT_ID);
+        expect(unchanged.data.data.dashboardById.name).toBe('E2E Tenant');
+      } finally {
+        const deleted = await graphql(
+          `mutation($id: UUID!) { deleteDashboardById(input: { id: $id }) { deletedDashboardId } }`,
+          { id },
+          BASIC_CLIENT_ID
+        );
+        expect(deleted.data.data.deleteDashboardById.deletedDashboardId).toBeDefined();
+      }
+    });
+  });
+});
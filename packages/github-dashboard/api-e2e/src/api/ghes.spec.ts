@@ -0,0 +1,59 @@
+import axios from 'axios';
+
+import { FakeGhesServer, startFakeGhesServer } from '../support/fake-ghes-server';
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3001';
+// Run with the API started as GITHUB_BASE_URL=http://localhost:$FAKE_GHES_PORT
+const FAKE_GHES_PORT = process.env.FAKE_GHES_PORT;
+
+const describeGhes = FAKE_GHES_PORT ? describe : describe.skip;
+
+describeGhes('GitHub Enterprise Server E2E Tests', () => {
+  let ghes: FakeGhesServer;
+
+  beforeAll(async () => {
+    ghes = await startFakeGhesServer(Number(FAKE_GHES_PORT));
+  });
+
+  afterAll(async () => {
+    await ghes.close();
+  });
+
+  beforeEach(() => {
+    ghes.requests.length = 0;
+  });
+
+  it('should fetch users through the GHES REST API', async () => {
+    const response = await axios.get(`${API_BASE_URL}/api/github/users/ghes-user`);
+
+    expect(response.status).toBe(200);
+    expect(response.data.avatar_url).toBe(`${ghes.url}/avatars/u/ghes-user`);
+    expect(response.data.html_url).toBe(`${ghes.url}/ghes-user`);
+    expect(ghes.requests).toContainEqual({ method: 'GET', path: '/api/v3/users/ghes-user' });
+    expect(JSON.stringify(response.data)).not.toMatch(/github\.com/);
+  });
+
+  it('should fetch repositories through the GHES REST API', async () => {
+    const response = await axios.get(`${API_BASE_URL}/api/github/repos/ghes-org/service`);
+
+    expect(response.status).toBe(200);
+    expect(response.data.html_url).toBe(`${ghes.url}/ghes-org/service`);
+    expect(ghes.requests).toContainEqual({ method: 'GET', path: '/api/v3/repos/ghes-org/service' });
+    expect(JSON.stringify(response.data)).not.toMatch(/github\.com/);
+  });
+
+  it('should send searches to the GHES search API', async () => {
+    const response = await axios.get(`${API_BASE_URL}/api/github/users/ghes-user/activity-summary?repos=ghes-org/service&start_date=2024-01-01&end_date=2024-01-31`);
+
+    expect(response.status).toBe(200);
+    expect(ghes.requests.some(request => request.path === '/api/v3/search/issues')).toBe(true);
+    expect(JSON.stringify(response.data)).not.toMatch(/github\.com/);
+  });
+
+  it('should only ever call the GHES host', async () => {
+    await axios.get(`${API_BASE_URL}/api/github/users/ghes-user/repos?per_page=5`);
+
+    expect(ghes.requests.length).toBeGreaterThan(0);
+    expect(ghes.requests.every(request => request.path.startsWith('/api/'))).toBe(true);
+  });
+});
@@ -1,3 +1,5 @@
+import { createHmac, randomUUID } from 'crypto';
+
 import axios from 'axios';
 
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3001';
@@ -129,6 +131,206 @@ describe('GitHub API E2E Tests', () => {
     }, 15000); // 15 second timeout
   });
 
+  describe('Auth Status', () => {
+    it('should report request queue depth per rate limit bucket', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/github/auth/status`);
+
+      expect(response.status).toBe(200);
+      expect(response.data.queue).toBeDefined();
+      expect(typeof response.data.queue.depth).toBe('number');
+      expect(Object.keys(response.data.queue.buckets)).toEqual(expect.arrayContaining(['core', 'search', 'graphql']));
+    });
+
+    it('should report how the deployment authenticates', async () => {
+      const response = await axios.get(`${API_BASE_URL}/api/github/auth/status`);
+
+      expect(response.status).toBe(200);
+      expect(['app', 'token', 'none']).toContain(response.data.authMode);
+      if (response.data.authMode === 'app') {
+        expect(response.data.scopes).toEqual([]);
+      }
+    });
+  });
+
+  describe('Client GitHub Credentials', () => {
+    const unknownClientId = '00000000-0000-4000-8000-000000000000';
+
+    it('should require signing in to list credentials', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/clients/${unknownClientId}/github-credentials`);
+        fail('Expected request to fail');
+      } catch (error: any) {
+        expect(error.response.status).toBe(401);
+      }
+    });
+
+    it('should require signing in to store credentials', async () => {
+      try {
+        await axios.post(`${API_BASE_URL}/api/clients/${unknownClientId}/github-credentials`, { kind: 'pat' });
+        fail('Expected request to fail');
+      } catch (error: any) {
+        expect(error.response.status).toBe(401);
+      }
+    });
+
+    it('should only let admins of the client manage its credentials', async () => {
+      const registered = await axios.post(`${API_BASE_URL}/api/auth/register`, {
+        email: `e2e-credentials-${Date.now()}@example.com`,
+        password: 'correct horse battery',
+      });
+
+      try {
+        await axios.get(`${API_BASE_URL}/api/clients/${unknownClientId}/github-credentials`, {
+          headers: { Authorization: `Bearer ${registered.data.token}` }
+        });
+        fail('Expected request to fail');
+      } catch (error: any) {
+        expect(error.response.status).toBe(403);
+      }
+    });
+  });
+
+  describe('GitHub Webhooks', () => {
+    // Must match the API's GITHUB_WEBHOOK_SECRET for the signed delivery tests to run
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    const itWithSecret = secret ? it : it.skip;
+
+    const deliver = (body: string, deliveryId: string, signature?: string) =>
+      axios.post(`${API_BASE_URL}/api/github/webhooks`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-GitHub-Event': 'pull_request',
+          'X-GitHub-Delivery': deliveryId,
+          ...(signature ? { 'X-Hub-Signature-256': signature } : {}),
+        },
+      });
+    const sign = (body: string) => `sha256=${createHmac('sha256', secret as string).update(body).digest('hex')}`;
+    const body = JSON.stringify({ action: 'edited', repository: { full_name: 'octocat/Hello-World' } });
+
+    it('should reject unsigned deliveries', async () => {
+      try {
+        await deliver(body, randomUUID());
+        fail('Expected request to fail');
+      } catch (error: any) {
+        // 503 when the API has no webhook secret configured
+        expect([401, 503]).toContain(error.response.status);
+      }
+    });
+
+    itWithSecret('should reject deliveries with an invalid signature', async () => {
+      try {
+        await deliver(body, randomUUID(), `sha256=${'0'.repeat(64)}`);
+        fail('Expected request to fail');
+      } catch (error: any) {
+        expect(error.response.status).toBe(401);
+      }
+    });
+
+    itWithSecret('should accept a signed delivery once and ignore its replay', async () => {
+      const deliveryId = randomUUID();
+
+      const first = await deliver(body, deliveryId, sign(body));
+      expect(first.status).toBe(202);
+      expect(first.data.status).toBe('processed');
+
+      const replay = await deliver(body, deliveryId, sign(body));
+      expect(replay.status).toBe(202);
+      expect(replay.data.status).toBe('duplicate');
+    });
+  });
+
+  describe('Organization Repository Search', () => {
+    let headers: Record<string, string>;
+
+    beforeAll(async () => {
+      const registered = await axios.post(`${API_BASE_URL}/api/auth/register`, {
+        email: `e2e-repo-search-${Date.now()}@example.com`,
+        password: 'correct horse battery',
+      });
+      headers = { Authorization: `Bearer ${registered.data.token}` };
+    });
+
+    it('should require signing in to search or match repositories', async () => {
+      for (const path of ['repos', 'repos/match?pattern=service-*']) {
+        try {
+          await axios.get(`${API_BASE_URL}/api/github/org/octocat/${path}`);
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(401);
+        }
+      }
+    });
+
+    it('should validate the search filters', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/org/octocat/repos`, { headers, params: { visibility: 'secret' } });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should reject search qualifiers in the name query', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/org/octocat/repos`, { headers, params: { q: 'api org:github' } });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should not page past the first 1000 search results', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/org/octocat/repos`, { headers, params: { page: 11, per_page: 100 } });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should require a pattern or a topic to match repositories', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/org/octocat/repos/match`, { headers });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+
+    it('should reject name globs with other characters', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/org/octocat/repos/match`, { headers, params: { pattern: 'service-(a|b)' } });
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(400);
+      }
+    });
+  });
+
+  describe('Organization Teams', () => {
+    it('should require signing in to list teams and team members', async () => {
+      for (const path of ['org/octocat/teams', 'org/octocat/teams/platform/members']) {
+        try {
+          await axios.get(`${API_BASE_URL}/api/github/${path}`);
+          fail('Expected request to fail');
+        } catch (error) {
+          expect(error.response.status).toBe(401);
+        }
+      }
+    });
+  });
+
+  describe('Cache Stats', () => {
+    it('should require signing in', async () => {
+      try {
+        await axios.get(`${API_BASE_URL}/api/github/cache/stats`);
+        fail('Expected request to fail');
+      } catch (error) {
+        expect(error.response.status).toBe(401);
+      }
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle non-existent user gracefully', async () => {
       try {
@@ -0,0 +1,87 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeGhesRequest {
+  method: string;
+  path: string;
+}
+
+export interface FakeGhesServer {
+  /** Web root of the fake instance; REST lives under /api/v3 and GraphQL at /api/graphql */
+  url: string;
+  requests: FakeGhesRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal GitHub Enterprise Server stand-in for the endpoints the API calls.
+ * Every URL it hands out points back at itself, so any github.com URL in an API response leaked from our code.
+ */
+export async function startFakeGhesServer(port: number): Promise<FakeGhesServer> {
+  const requests: FakeGhesRequest[] = [];
+  // Set once the server is listening, so port 0 picks a free port
+  let url = '';
+
+  const user = (login: string) => ({
+    login,
+    id: 1000 + login.length,
+    name: login,
+    avatar_url: `${url}/avatars/u/${login}`,
+    html_url: `${url}/${login}`,
+    public_repos: 1,
+    followers: 0,
+    following: 0,
+  });
+
+  const routes: Array<[string, RegExp, (match: RegExpMatchArray) => unknown]> = [
+    ['GET', /^\/api\/v3\/user$/, () => user('ghes-admin')],
+    ['GET', /^\/api\/v3\/user\/repos$/, () => []],
+    ['GET', /^\/api\/v3\/users\/([^/]+)$/, ([, login]) => user(login)],
+    ['GET', /^\/api\/v3\/users\/([^/]+)\/repos$/, ([, login]) => [
+      { id: 1, name: 'service', full_name: `${login}/service`, html_url: `${url}/${login}/service`, private: false },
+    ]],
+    ['GET', /^\/api\/v3\/repos\/([^/]+)\/([^/]+)$/, ([, owner, repo]) => ({
+      id: 1,
+      name: repo,
+      full_name: `${owner}/${repo}`,
+      html_url: `${url}/${owner}/${repo}`,
+      owner: user(owner),
+    })],
+    ['GET', /^\/api\/v3\/repos\/[^/]+\/[^/]+\/pulls$/, () => []],
+    ['GET', /^\/api\/v3\/search\/issues$/, () => ({ total_count: 0, incomplete_results: false, items: [] })],
+    ['POST', /^\/api\/graphql$/, () => ({
+      data: { repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] } } },
+    })],
+  ];
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const path = (req.url ?? '/').split('?')[0];
+    requests.push({ method: req.method ?? 'GET', path });
+
+    for (const [method, pattern, handler] of routes) {
+      const match = path.match(pattern);
+      if (req.method === method && match) {
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'X-RateLimit-Limit': '5000',
+          'X-RateLimit-Remaining': '4999',
+          'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 3600),
+        });
+        res.end(JSON.stringify(handler(match)));
+        return;
+      }
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'Not Found' }));
+  });
+
+  await new Promise<void>(resolve => server.listen(port, 'localhost', resolve));
+  url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -1,12 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
+import { AuthModule } from '../auth/auth.module';
+import authConfig from '../config/auth.config';
+import cacheConfig from '../config/cache.config';
 import databaseConfig from '../config/database.config';
 import githubConfig from '../config/github.config';
 
 // Database module
 import { DashboardsModule } from '../dashboards/dashboards.module';
 import { DatabaseModule } from '../database/database.module';
+import { FeaturesModule } from '../features/features.module';
 
 // Feature modules
 import { GitHubModule } from '../github/github.module';
@@ -19,10 +23,12 @@ import { AppService } from './app.service';
   imports: [
     ConfigModule.forRoot({ 
       isGlobal: true, 
-      load: [databaseConfig, githubConfig],
+      load: [databaseConfig, githubConfig, cacheConfig, authConfig],
       envFilePath: ['.env', '../.env', '../../.env', '../../../.env'] // Look for .env in multiple locations including root
     }),
     DatabaseModule, // Global database module
+    AuthModule, // Global sign-in, sessions and client roles
+    FeaturesModule, // Global tier feature enforcement
     DashboardsModule,
     GitHubModule,
   ],
@@ -0,0 +1,120 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Logger, Post, Query, Redirect, Req, Res, UseGuards } from '@nestjs/common';
+import type { CookieOptions, Request, Response } from 'express';
+
+import { AuthGuard, type AuthRequest } from './auth.guard';
+import { AuthService, AuthSession } from './auth.service';
+import { AuthSessionDto, LoginDto, RegisterDto, SelectClientDto } from './dto';
+
+// Binds a GitHub sign-in to the browser that started it; only sent back to the GitHub sign-in routes
+const GITHUB_OAUTH_COOKIE = 'github_oauth_nonce';
+const GITHUB_OAUTH_COOKIE_OPTIONS: CookieOptions = { httpOnly: true, sameSite: 'lax', path: '/api/auth/github' };
+
+function readCookie(request: Request, name: string): string | undefined {
+  for (const cookie of request.headers.cookie?.split(';') ?? []) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+@Controller('auth')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Sign-in methods the web app can offer
+   * GET /api/auth/providers
+   */
+  @Get('providers')
+  getProviders(): { password: boolean; github: boolean } {
+    return { password: true, github: this.authService.isGitHubLoginEnabled() };
+  }
+
+  /**
+   * Create a local account and sign it in
+   * POST /api/auth/register
+   */
+  @Post('register')
+  @HttpCode(HttpStatus.CREATED)
+  async register(@Body() dto: RegisterDto): Promise<AuthSessionDto> {
+    return this.authService.register(dto);
+  }
+
+  /**
+   * Sign in with email and password
+   * POST /api/auth/login
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() dto: LoginDto): Promise<AuthSessionDto> {
+    return this.authService.login(dto);
+  }
+
+  /**
+   * The signed-in user with their client memberships
+   * GET /api/auth/me
+   */
+  @Get('me')
+  @UseGuards(AuthGuard)
+  async me(@Req() request: AuthRequest): Promise<Omit<AuthSessionDto, 'token'>> {
+    return this.authService.getCurrentUser(request.auth as AuthSession);
+  }
+
+  /**
+   * Scope the session to one of the user's clients; returns a new token
+   * POST /api/auth/session
+   */
+  @Post('session')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  async selectClient(@Req() request: AuthRequest, @Body() dto: SelectClientDto): Promise<AuthSessionDto> {
+    return this.authService.selectClient(request.auth as AuthSession, dto.clientId);
+  }
+
+  /**
+   * Start "Sign in with GitHub"
+   * GET /api/auth/github
+   */
+  @Get('github')
+  @Redirect()
+  githubLogin(@Req() request: Request, @Res({ passthrough: true }) response: Response): { url: string } {
+    const { url, nonce, ttlSeconds } = this.authService.startGitHubLogin();
+    response.cookie(GITHUB_OAUTH_COOKIE, nonce, { ...GITHUB_OAUTH_COOKIE_OPTIONS, secure: request.secure, maxAge: ttlSeconds * 1000 });
+    return { url };
+  }
+
+  /**
+   * GitHub OAuth callback; sends the browser back to the web app's login page with the token
+   * (or an error) in the URL fragment, which never reaches a server
+   * GET /api/auth/github/callback?code=...&state=...
+   */
+  @Get('github/callback')
+  @Redirect()
+  async githubCallback(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+    @Query('code') code?: string,
+    @Query('state') state?: string
+  ): Promise<{ url: string }> {
+    const loginUrl = `${this.authService.getWebAppUrl()}/login`;
+    // Each nonce is good for one round trip
+    const nonce = readCookie(request, GITHUB_OAUTH_COOKIE);
+    response.clearCookie(GITHUB_OAUTH_COOKIE, GITHUB_OAUTH_COOKIE_OPTIONS);
+    if (!code || !state) {
+      return { url: `${loginUrl}#error=${encodeURIComponent('GitHub sign-in was cancelled')}` };
+    }
+
+    try {
+      const token = await this.authService.loginWithGitHub(code, state, nonce);
+      return { url: `${loginUrl}#token=${encodeURIComponent(token)}` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'GitHub sign-in failed';
+      this.logger.warn(`GitHub sign-in failed: ${message}`);
+      return { url: `${loginUrl}#error=${encodeURIComponent(message)}` };
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+
+import { AuthService, AuthSession } from './auth.service';
+import { ClientRole, hasRole } from './client-role';
+
+export const REQUIRED_ROLE_KEY = 'requiredRole';
+
+export interface AuthRequest extends Request {
+  // Session resolved by the guard
+  auth?: AuthSession;
+}
+
+/**
+ * Requires a signed-in user and, with @RequiresRole, at least that role in the client: the route's
+ * :clientId when it has one, otherwise the client the session is scoped to
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    const session = await this.authService.authenticate(request.headers);
+    if (!session) {
+      throw new UnauthorizedException('Sign in to continue');
+    }
+    request.auth = session;
+
+    const requiredRole = this.reflector.getAllAndOverride<ClientRole | undefined>(REQUIRED_ROLE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredRole) {
+      return true;
+    }
+
+    const clientId = request.params.clientId ?? session.clientId;
+    let role: ClientRole | null = null;
+    if (clientId === session.clientId) {
+      role = session.role;
+    } else if (clientId && session.userId) {
+      role = await this.authService.getRole(session.userId, clientId);
+    }
+    if (!hasRole(role, requiredRole)) {
+      throw new ForbiddenException(`Requires the ${requiredRole} role in this client`);
+    }
+    return true;
+  }
+}
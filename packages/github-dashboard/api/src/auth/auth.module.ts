@@ -0,0 +1,18 @@
+import { HttpModule } from '@nestjs/axios';
+import { Global, Module } from '@nestjs/common';
+
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { ClientMembersController } from './client-members.controller';
+import { ClientMembersService } from './client-members.service';
+
+// Global so any controller can use @RequiresRole
+@Global()
+@Module({
+  imports: [HttpModule],
+  controllers: [AuthController, ClientMembersController],
+  providers: [AuthService, AuthGuard, ClientMembersService],
+  exports: [AuthService, AuthGuard],
+})
+export class AuthModule {}
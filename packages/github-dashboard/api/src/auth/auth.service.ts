@@ -0,0 +1,343 @@
+import { randomBytes } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+import { HttpService } from '@nestjs/axios';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isUUID } from 'class-validator';
+import { firstValueFrom } from 'rxjs';
+
+import { UserAccount } from '../database/entities';
+import { ClientMembershipRepository } from '../database/repositories/client-membership.repository';
+import { UserAccountRepository } from '../database/repositories/user-account.repository';
+
+import { ClientRole, isClientRole } from './client-role';
+import { AuthSessionDto, AuthUserDto, LoginDto, RegisterDto, StreamTicketDto } from './dto';
+import { signJwt, verifyJwt } from './jwt';
+import { hashPassword, verifyPassword } from './password';
+
+// Header local demos send instead of a token when AUTH_DEMO_CLIENT_HEADER is enabled
+export const DEMO_CLIENT_HEADER = 'x-demo-client-id';
+
+// Role changes and removed memberships take effect within this long
+const ROLE_TTL_MS = 60 * 1000;
+// The GitHub sign-in round trip has to finish within this long
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+// A dashboard's event stream has to be opened within this long of getting its ticket
+const STREAM_TICKET_TTL_SECONDS = 60;
+const STREAM_TICKET_SUBJECT = 'dashboard-stream';
+
+/**
+ * The requester as resolved from their bearer token (or the demo header)
+ */
+export interface AuthSession {
+  // Null for demo sessions, which have no account
+  userId: string | null;
+  // Client the session is scoped to; null when none is selected or the membership was removed
+  clientId: string | null;
+  role: ClientRole | null;
+}
+
+interface GitHubProfile {
+  id: number;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatar_url: string | null;
+}
+
+/**
+ * Accounts (local password or GitHub OAuth), HS256 session tokens and the user's role in the client
+ * the token is scoped to. Tokens carry the user and client ids; roles are looked up per request.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly secret: string;
+  private readonly roleCache = new Map<string, { role: ClientRole | null; expiresAt: number }>();
+  private readonly requestSessions = new WeakMap<object, Promise<AuthSession | null>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+    private readonly userAccountRepository: UserAccountRepository,
+    private readonly clientMembershipRepository: ClientMembershipRepository
+  ) {
+    const secret = configService.get<string>('auth.jwtSecret');
+    if (!secret) {
+      this.logger.warn('AUTH_JWT_SECRET is not set - using a random secret, sessions end when the API restarts');
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  async register(dto: RegisterDto): Promise<AuthSessionDto> {
+    const email = dto.email.toLowerCase();
+    if (await this.userAccountRepository.findByEmail(email)) {
+      throw new ConflictException('An account with this email already exists');
+    }
+
+    const account = await this.userAccountRepository.create({
+      email,
+      displayName: dto.displayName || email.split('@')[0],
+      passwordHash: await hashPassword(dto.password),
+    });
+    return this.createSession(account);
+  }
+
+  async login(dto: LoginDto): Promise<AuthSessionDto> {
+    const account = await this.userAccountRepository.findByEmail(dto.email);
+    // Same error for unknown emails, GitHub-only accounts and wrong passwords
+    if (!account?.passwordHash || !(await verifyPassword(dto.password, account.passwordHash))) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+    return this.createSession(account);
+  }
+
+  /**
+   * The signed-in user, their memberships and the selected client
+   */
+  async getCurrentUser(session: AuthSession): Promise<Omit<AuthSessionDto, 'token'>> {
+    const account = await this.requireAccount(session);
+    return {
+      clientId: session.clientId,
+      user: this.toUserDto(account),
+      memberships: await this.clientMembershipRepository.findForUser(account.id),
+    };
+  }
+
+  /**
+   * New token scoped to one of the user's clients
+   */
+  async selectClient(session: AuthSession, clientId: string): Promise<AuthSessionDto> {
+    const account = await this.requireAccount(session);
+    if (!(await this.getRole(account.id, clientId))) {
+      throw new ForbiddenException("You aren't a member of this client");
+    }
+    return this.createSession(account, clientId);
+  }
+
+  isGitHubLoginEnabled(): boolean {
+    return !!this.configService.get<string>('auth.githubOAuth.clientId');
+  }
+
+  /**
+   * GitHub authorize URL for "Sign in with GitHub", and the nonce the browser has to present again on the
+   * callback (in an HttpOnly cookie). The state is a short-lived signed token carrying the nonce, so the
+   * callback only accepts round trips this API started for that same browser.
+   */
+  startGitHubLogin(): { url: string; nonce: string; ttlSeconds: number } {
+    const clientId = this.configService.get<string>('auth.githubOAuth.clientId');
+    if (!clientId) {
+      throw new NotFoundException('GitHub sign-in is not configured');
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const state = signJwt({ sub: 'github-oauth', nonce }, this.secret, OAUTH_STATE_TTL_SECONDS);
+    const params = new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: this.configService.get<string>('auth.githubOAuth.callbackUrl') as string,
+      scope: 'read:user user:email',
+      state,
+    });
+    return { url: `${this.configService.get<string>('github.webUrl')}/login/oauth/authorize?${params}`, nonce, ttlSeconds: OAUTH_STATE_TTL_SECONDS };
+  }
+
+  /**
+   * Finish the GitHub OAuth flow: exchange the code, then sign in the account linked to the GitHub user,
+   * creating it on first sign-in. Returns the session token.
+   * @param nonce Nonce from the browser's cookie; a state started in another browser doesn't match it
+   */
+  async loginWithGitHub(code: string, state: string, nonce: string | undefined): Promise<string> {
+    const claims = verifyJwt(state, this.secret);
+    if (claims?.sub !== 'github-oauth' || !nonce || claims.nonce !== nonce) {
+      throw new BadRequestException('Invalid or expired GitHub sign-in state');
+    }
+
+    const profile = await this.fetchGitHubProfile(code);
+    const githubUserId = String(profile.id);
+    const existing = await this.userAccountRepository.findByGitHubUserId(githubUserId);
+
+    let account: UserAccount;
+    if (existing) {
+      // Usernames can change; the GitHub user id can't
+      account = (await this.userAccountRepository.updateById(existing.id, {
+        githubUsername: profile.login,
+        avatarUrl: profile.avatar_url,
+      })) ?? existing;
+    } else {
+      // Only claim the email when no local account uses it; accounts are never linked by email
+      const email = profile.email?.toLowerCase();
+      const emailTaken = email ? !!(await this.userAccountRepository.findByEmail(email)) : true;
+      account = await this.userAccountRepository.create({
+        email: emailTaken ? null : email,
+        displayName: profile.name || profile.login,
+        githubUserId,
+        githubUsername: profile.login,
+        avatarUrl: profile.avatar_url,
+      });
+    }
+
+    return (await this.createSession(account)).token;
+  }
+
+  getWebAppUrl(): string {
+    return this.configService.get<string>('auth.webAppUrl') as string;
+  }
+
+  /**
+   * Session of a request from its `Authorization: Bearer` token; with AUTH_DEMO_CLIENT_HEADER enabled a
+   * request without a token may name a client in X-Demo-Client-Id instead. Null when unauthenticated.
+   */
+  async authenticate(headers: IncomingHttpHeaders): Promise<AuthSession | null> {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      const claims = verifyJwt(authorization.slice('Bearer '.length).trim(), this.secret);
+      if (!claims || claims.sub === 'github-oauth' || claims.sub === STREAM_TICKET_SUBJECT) {
+        return null;
+      }
+
+      const clientId = typeof claims.client_id === 'string' ? claims.client_id : null;
+      const role = clientId ? await this.getRole(claims.sub, clientId) : null;
+      return { userId: claims.sub, clientId: role ? clientId : null, role };
+    }
+
+    if (this.configService.get<boolean>('auth.demoClientHeader')) {
+      const header = headers[DEMO_CLIENT_HEADER];
+      const clientId = Array.isArray(header) ? header[0] : header;
+      if (clientId && isUUID(clientId)) {
+        return { userId: null, clientId, role: 'editor' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ticket that opens one dashboard's event stream for a session. EventSource can only authenticate in the
+   * URL, where the ticket may end up in logs, so it expires within a minute and opens nothing else.
+   */
+  issueStreamTicket(session: AuthSession, dashboardId: string): StreamTicketDto {
+    const ticket = signJwt(
+      { sub: STREAM_TICKET_SUBJECT, dashboard_id: dashboardId, user_id: session.userId, client_id: session.clientId, role: session.role },
+      this.secret,
+      STREAM_TICKET_TTL_SECONDS
+    );
+    return { ticket, expiresIn: STREAM_TICKET_TTL_SECONDS };
+  }
+
+  /**
+   * Session a stream ticket was issued to, with the role looked up again; null when the ticket is
+   * malformed, expired or for another dashboard
+   */
+  async authenticateStreamTicket(ticket: string, dashboardId: string): Promise<AuthSession | null> {
+    const claims = verifyJwt(ticket, this.secret);
+    if (claims?.sub !== STREAM_TICKET_SUBJECT || claims.dashboard_id !== dashboardId) {
+      return null;
+    }
+
+    const clientId = typeof claims.client_id === 'string' ? claims.client_id : null;
+    if (typeof claims.user_id !== 'string') {
+      // Demo sessions have no account to look the role up for
+      return { userId: null, clientId, role: isClientRole(claims.role) ? claims.role : null };
+    }
+    const role = clientId ? await this.getRole(claims.user_id, clientId) : null;
+    return { userId: claims.user_id, clientId: role ? clientId : null, role };
+  }
+
+  /**
+   * authenticate() once per request, for callers that each need the session (PostGraphile's settings and context)
+   */
+  authenticateRequest(request: { headers: IncomingHttpHeaders }): Promise<AuthSession | null> {
+    let session = this.requestSessions.get(request);
+    if (!session) {
+      session = this.authenticate(request.headers);
+      this.requestSessions.set(request, session);
+    }
+    return session;
+  }
+
+  /**
+   * A user's role in a client (cached briefly); null when they aren't a member
+   */
+  async getRole(userId: string, clientId: string): Promise<ClientRole | null> {
+    const key = `${userId}:${clientId}`;
+    const cached = this.roleCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.role;
+    }
+
+    const role = await this.clientMembershipRepository.findRole(userId, clientId);
+    const result = isClientRole(role) ? role : null;
+    this.roleCache.set(key, { role: result, expiresAt: Date.now() + ROLE_TTL_MS });
+    return result;
+  }
+
+  /**
+   * Drop a cached role after the membership changed, so it applies to the user's next request
+   */
+  forgetRole(userId: string, clientId: string): void {
+    this.roleCache.delete(`${userId}:${clientId}`);
+  }
+
+  toUserDto(account: UserAccount): AuthUserDto {
+    return {
+      id: account.id,
+      email: account.email,
+      displayName: account.displayName,
+      githubUsername: account.githubUsername,
+      avatarUrl: account.avatarUrl,
+    };
+  }
+
+  private async createSession(account: UserAccount, clientId?: string): Promise<AuthSessionDto> {
+    const memberships = await this.clientMembershipRepository.findForUser(account.id);
+    // Users of a single client don't have to pick it
+    const scopedClientId = clientId ?? (memberships.length === 1 ? memberships[0].clientId : null);
+
+    const token = signJwt(
+      { sub: account.id, email: account.email, client_id: scopedClientId },
+      this.secret,
+      this.configService.get<number>('auth.tokenTtlSeconds') as number
+    );
+    return { token, clientId: scopedClientId, user: this.toUserDto(account), memberships };
+  }
+
+  private async requireAccount(session: AuthSession): Promise<UserAccount> {
+    const account = session.userId ? await this.userAccountRepository.findById(session.userId) : null;
+    if (!account) {
+      throw new UnauthorizedException('Sign in with a user account');
+    }
+    return account;
+  }
+
+  private async fetchGitHubProfile(code: string): Promise<GitHubProfile> {
+    const oauth = this.configService.get<{ clientId?: string; clientSecret?: string; callbackUrl: string }>('auth.githubOAuth');
+    if (!oauth?.clientId || !oauth.clientSecret) {
+      throw new NotFoundException('GitHub sign-in is not configured');
+    }
+
+    const exchange = await firstValueFrom(this.httpService.post<{ access_token?: string; error_description?: string }>(
+      `${this.configService.get<string>('github.webUrl')}/login/oauth/access_token`,
+      { client_id: oauth.clientId, client_secret: oauth.clientSecret, code, redirect_uri: oauth.callbackUrl },
+      { headers: { Accept: 'application/json' } }
+    ));
+    // GitHub answers 200 with an error body for bad or reused codes
+    if (!exchange.data.access_token) {
+      throw new UnauthorizedException(exchange.data.error_description || 'GitHub sign-in failed');
+    }
+
+    const response = await firstValueFrom(this.httpService.get<GitHubProfile>(
+      `${this.configService.get<string>('github.baseUrl')}/user`,
+      { headers: { Authorization: `Bearer ${exchange.data.access_token}`, Accept: 'application/vnd.github+json' } }
+    ));
+    return response.data;
+  }
+}
@@ -0,0 +1,61 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Patch, Post } from '@nestjs/common';
+
+import { ClientMember } from '../database/repositories/client-membership.repository';
+
+import { ClientMembersService } from './client-members.service';
+import { AddClientMemberDto, UpdateClientMemberDto } from './dto';
+import { RequiresRole } from './requires-role.decorator';
+
+@Controller('clients/:clientId/members')
+@RequiresRole('admin')
+export class ClientMembersController {
+  constructor(private readonly membersService: ClientMembersService) {}
+
+  /**
+   * List a client's members and their roles
+   * GET /api/clients/:clientId/members
+   */
+  @Get()
+  async findAll(@Param('clientId', ParseUUIDPipe) clientId: string): Promise<ClientMember[]> {
+    return this.membersService.findAll(clientId);
+  }
+
+  /**
+   * Add a user (by email or GitHub username) to a client with a role
+   * POST /api/clients/:clientId/members
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async add(
+    @Param('clientId', ParseUUIDPipe) clientId: string,
+    @Body() dto: AddClientMemberDto
+  ): Promise<ClientMember> {
+    return this.membersService.add(clientId, dto);
+  }
+
+  /**
+   * Change a member's role
+   * PATCH /api/clients/:clientId/members/:userId
+   */
+  @Patch(':userId')
+  async updateRole(
+    @Param('clientId', ParseUUIDPipe) clientId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: UpdateClientMemberDto
+  ): Promise<ClientMember> {
+    return this.membersService.updateRole(clientId, userId, dto.role);
+  }
+
+  /**
+   * Remove a member from a client
+   * DELETE /api/clients/:clientId/members/:userId
+   */
+  @Delete(':userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('clientId', ParseUUIDPipe) clientId: string,
+    @Param('userId', ParseUUIDPipe) userId: string
+  ): Promise<void> {
+    return this.membersService.remove(clientId, userId);
+  }
+}
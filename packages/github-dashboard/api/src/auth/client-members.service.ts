@@ -0,0 +1,87 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { ClientMember, ClientMembershipRepository } from '../database/repositories/client-membership.repository';
+import { ClientRepository } from '../database/repositories/client.repository';
+import { UserAccountRepository } from '../database/repositories/user-account.repository';
+
+import { AuthService } from './auth.service';
+import { ClientRole } from './client-role';
+import { AddClientMemberDto } from './dto';
+
+/**
+ * Manages which users belong to a client and with which role
+ */
+@Injectable()
+export class ClientMembersService {
+  constructor(
+    private readonly clientMembershipRepository: ClientMembershipRepository,
+    private readonly clientRepository: ClientRepository,
+    private readonly userAccountRepository: UserAccountRepository,
+    private readonly authService: AuthService
+  ) {}
+
+  async findAll(clientId: string): Promise<ClientMember[]> {
+    await this.ensureClientExists(clientId);
+    return this.clientMembershipRepository.findForClient(clientId);
+  }
+
+  /**
+   * Add an existing account to the client; an account that's already a member gets the new role
+   */
+  async add(clientId: string, dto: AddClientMemberDto): Promise<ClientMember> {
+    await this.ensureClientExists(clientId);
+    const account = dto.email
+      ? await this.userAccountRepository.findByEmail(dto.email)
+      : await this.userAccountRepository.findByGitHubUsername(dto.githubUsername as string);
+    if (!account) {
+      throw new NotFoundException('No account with that email or GitHub username; they need to sign in once first');
+    }
+
+    return this.setRole(clientId, account.id, dto.role);
+  }
+
+  async updateRole(clientId: string, userId: string, role: ClientRole): Promise<ClientMember> {
+    await this.requireMember(clientId, userId);
+    return this.setRole(clientId, userId, role);
+  }
+
+  async remove(clientId: string, userId: string): Promise<void> {
+    await this.requireMember(clientId, userId);
+    await this.ensureAdminRemains(clientId, userId, null);
+    await this.clientMembershipRepository.remove(clientId, userId);
+    this.authService.forgetRole(userId, clientId);
+  }
+
+  private async setRole(clientId: string, userId: string, role: ClientRole): Promise<ClientMember> {
+    await this.ensureAdminRemains(clientId, userId, role);
+    await this.clientMembershipRepository.upsertRole(clientId, userId, role);
+    this.authService.forgetRole(userId, clientId);
+    return this.requireMember(clientId, userId);
+  }
+
+  // Demoting or removing the last admin would leave nobody able to manage the client
+  private async ensureAdminRemains(clientId: string, userId: string, newRole: ClientRole | null): Promise<void> {
+    if (newRole === 'admin') {
+      return;
+    }
+
+    const admins = (await this.clientMembershipRepository.findForClient(clientId)).filter(member => member.role === 'admin');
+    if (admins.length === 1 && admins[0].userId === userId) {
+      throw new BadRequestException('A client needs at least one admin');
+    }
+  }
+
+  private async requireMember(clientId: string, userId: string): Promise<ClientMember> {
+    const member = (await this.clientMembershipRepository.findForClient(clientId)).find(m => m.userId === userId);
+    if (!member) {
+      throw new NotFoundException(`User '${userId}' is not a member of this client`);
+    }
+    return member;
+  }
+
+  private async ensureClientExists(clientId: string): Promise<void> {
+    if (!(await this.clientRepository.findById(clientId))) {
+      throw new NotFoundException(`Client ${clientId} not found`);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// Roles of a user in a client, least to most privileged
+export const CLIENT_ROLES = ['viewer', 'editor', 'admin'] as const;
+export type ClientRole = typeof CLIENT_ROLES[number];
+
+export function isClientRole(value: unknown): value is ClientRole {
+  return CLIENT_ROLES.includes(value as ClientRole);
+}
+
+/**
+ * Whether a role grants at least the required one, e.g. an admin may do what an editor may
+ */
+export function hasRole(role: ClientRole | null | undefined, required: ClientRole): boolean {
+  return role != null && CLIENT_ROLES.indexOf(role) >= CLIENT_ROLES.indexOf(required);
+}
@@ -0,0 +1,60 @@
+import { IsEmail, IsOptional, IsString, IsUUID, MaxLength, MinLength } from 'class-validator';
+
+export class RegisterDto {
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  displayName?: string;
+}
+
+export class LoginDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  password: string;
+}
+
+// Scope the session to one of the user's clients
+export class SelectClientDto {
+  @IsUUID()
+  clientId: string;
+}
+
+// Response shapes; password hashes are never returned
+export interface AuthUserDto {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+  githubUsername: string | null;
+  avatarUrl: string | null;
+}
+
+export interface ClientMembershipDto {
+  clientId: string;
+  clientName: string;
+  role: string;
+}
+
+export interface AuthSessionDto {
+  token: string;
+  // Client the token is scoped to, null until one is selected
+  clientId: string | null;
+  user: AuthUserDto;
+  memberships: ClientMembershipDto[];
+}
+
+export interface StreamTicketDto {
+  // Passed as ?ticket= when opening the dashboard's event stream
+  ticket: string;
+  expiresIn: number;
+}
@@ -0,0 +1,23 @@
+import { IsEmail, IsIn, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+
+import { CLIENT_ROLES, type ClientRole } from '../client-role';
+
+// The account is found by email or by GitHub username; it must have signed in before
+export class AddClientMemberDto {
+  @ValidateIf(o => !o.githubUsername)
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  githubUsername?: string;
+
+  @IsIn(CLIENT_ROLES)
+  role: ClientRole;
+}
+
+export class UpdateClientMemberDto {
+  @IsIn(CLIENT_ROLES)
+  role: ClientRole;
+}
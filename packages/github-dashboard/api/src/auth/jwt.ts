@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Compact HS256 JSON Web Token with iat/exp set from the time to live
+ */
+export function signJwt(claims: Record<string, unknown> & { sub: string }, secret: string, ttlSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat: now, exp: now + ttlSeconds }));
+  return `${HEADER}.${payload}.${signature(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Claims of an HS256 token signed with the secret; null when malformed, tampered with or expired
+ */
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+  const [header, payload, tokenSignature, ...rest] = token.split('.');
+  if (!header || !payload || !tokenSignature || rest.length > 0 || header !== HEADER) {
+    return null;
+  }
+
+  const expected = Buffer.from(signature(`${header}.${payload}`, secret));
+  const actual = Buffer.from(tokenSignature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as JwtClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp <= Date.now() / 1000) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function signature(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
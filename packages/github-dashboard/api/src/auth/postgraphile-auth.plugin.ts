@@ -0,0 +1,39 @@
+import { ForbiddenException } from '@nestjs/common';
+import { makeWrapResolversPlugin } from 'postgraphile';
+
+import { AuthSession } from './auth.service';
+import { hasRole } from './client-role';
+
+// Database role PostGraphile switches to; row-level security policies apply to it (see the 0010 migration)
+export const POSTGRAPHILE_ROLE = 'github_dashboard_web';
+
+/**
+ * PostGraphile pgSettings: the session's client and role as jwt.claims.* settings for the RLS policies.
+ * Requests without a session still run as the restricted role, with empty claims.
+ */
+export function pgSettingsForSession(session: AuthSession | null): Record<string, string> {
+  return {
+    role: POSTGRAPHILE_ROLE,
+    'jwt.claims.user_id': session?.userId ?? '',
+    'jwt.claims.client_id': session?.clientId ?? '',
+    'jwt.claims.role': session?.role ?? '',
+  };
+}
+
+/**
+ * Root mutations require an editor (or admin) session; the session comes from the GraphQL context
+ */
+export function makeMutationAuthPlugin() {
+  return makeWrapResolversPlugin(
+    context => (context.scope.isRootMutation ? {} : null),
+    () => async (resolve, source, args, context, resolveInfo) => {
+      const session: AuthSession | null = context.session ?? null;
+      if (!hasRole(session?.role, 'editor')) {
+        throw new ForbiddenException(
+          session?.clientId ? 'Requires the editor role in this client' : 'Sign in and select a client to make changes'
+        );
+      }
+      return resolve(source, args, context, resolveInfo);
+    }
+  );
+}
@@ -0,0 +1,10 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+
+import { AuthGuard, REQUIRED_ROLE_KEY } from './auth.guard';
+import { ClientRole } from './client-role';
+
+/**
+ * Restrict a route or controller to users with at least the role in the client, e.g. @RequiresRole('admin')
+ */
+export const RequiresRole = (role: ClientRole) =>
+  applyDecorators(SetMetadata(REQUIRED_ROLE_KEY, role), UseGuards(AuthGuard));
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('auth', () => ({
+  // HMAC secret for session tokens (HS256); without one a random secret is used and sessions end on restart
+  jwtSecret: process.env.AUTH_JWT_SECRET,
+  tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS ?? '', 10) || 12 * 60 * 60,
+  // Where the GitHub sign-in callback sends the browser back to
+  webAppUrl: process.env.WEB_APP_URL || 'http://localhost:4202',
+  // GitHub OAuth App used for "Sign in with GitHub"; the button is hidden when no client id is configured
+  githubOAuth: {
+    clientId: process.env.GITHUB_OAUTH_CLIENT_ID,
+    clientSecret: process.env.GITHUB_OAUTH_CLIENT_SECRET,
+    callbackUrl: process.env.GITHUB_OAUTH_CALLBACK_URL || 'http://localhost:3001/api/auth/github/callback',
+  },
+  // Local demos and e2e runs: X-Demo-Client-Id acts as an editor session of that client when no token is sent
+  demoClientHeader: process.env.AUTH_DEMO_CLIENT_HEADER === 'true',
+}));
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('cache', () => ({
+  driver: process.env.CACHE_DRIVER || 'memory', // 'memory' | 'redis'
+  maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES ?? '', 10) || 5000,
+  maxBytes: parseInt(process.env.CACHE_MAX_BYTES ?? '', 10) || 100 * 1024 * 1024, // 100 MB
+  redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+  keyPrefix: process.env.CACHE_KEY_PREFIX || 'github-dashboard:',
+}));
@@ -1,10 +1,72 @@
+import { readFileSync } from 'fs';
+
 import { registerAs } from '@nestjs/config';
 
-export default registerAs('github', () => ({
-  token: process.env.GITHUB_TOKEN,
-  baseUrl: process.env.GITHUB_BASE_URL || 'https://api.github.com',
-  rateLimit: {
-    unauthenticated: 60, // requests per hour
-    authenticated: 5000, // requests per hour
-  },
-}));
+// The App private key can be given inline (newlines may be escaped as \n) or as a PEM file path
+const readAppPrivateKey = (): string | undefined => {
+  if (process.env.GITHUB_APP_PRIVATE_KEY) {
+    return process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
+  }
+  if (process.env.GITHUB_APP_PRIVATE_KEY_PATH) {
+    return readFileSync(process.env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf8');
+  }
+  return undefined;
+};
+
+/**
+ * REST, GraphQL and web URLs for github.com or a GitHub Enterprise Server host.
+ * GITHUB_BASE_URL may be the GHES host (https://ghe.example.com) or its REST root (https://ghe.example.com/api/v3).
+ */
+export const resolveGitHubUrls = (baseUrl?: string): { apiUrl: string; graphqlUrl: string; webUrl: string } => {
+  const url = new URL(baseUrl || 'https://api.github.com');
+  if (url.hostname === 'api.github.com' || url.hostname === 'github.com') {
+    return { apiUrl: 'https://api.github.com', graphqlUrl: 'https://api.github.com/graphql', webUrl: 'https://github.com' };
+  }
+
+  // GHES serves REST under /api/v3 and GraphQL under /api/graphql, next to the web UI
+  const root = `${url.origin}${url.pathname.replace(/\/+$/, '').replace(/\/api\/v3$/, '')}`;
+  return { apiUrl: `${root}/api/v3`, graphqlUrl: `${root}/api/graphql`, webUrl: root };
+};
+
+export default registerAs('github', () => {
+  const urls = resolveGitHubUrls(process.env.GITHUB_BASE_URL);
+
+  return {
+    token: process.env.GITHUB_TOKEN,
+    // GitHub App mode: used instead of GITHUB_TOKEN when an app id and private key are configured
+    app: {
+      id: process.env.GITHUB_APP_ID,
+      privateKey: readAppPrivateKey(),
+      // Installation used for requests that don't target a specific org (optional)
+      defaultInstallationId: process.env.GITHUB_APP_INSTALLATION_ID,
+    },
+    // Secret used to encrypt per-client credentials stored in github_credential
+    credentialsKey: process.env.GITHUB_CREDENTIALS_KEY,
+    // Shared secret of the repository/org webhook, used to verify X-Hub-Signature-256
+    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET,
+    // REST API root; GraphQL endpoint and web (html/avatar) URLs follow the same host
+    baseUrl: urls.apiUrl,
+    graphqlUrl: urls.graphqlUrl,
+    webUrl: urls.webUrl,
+    // 'rest' (default) or 'graphql' for the single-query-per-repository activity source
+    activitySource: process.env.GITHUB_ACTIVITY_SOURCE === 'graphql' ? 'graphql' : 'rest',
+    rateLimit: {
+      unauthenticated: 60, // requests per hour
+      authenticated: 5000, // requests per hour
+    },
+    scheduler: {
+      concurrency: parseInt(process.env.GITHUB_MAX_CONCURRENCY ?? '', 10) || 4,
+      // GitHub's secondary limits are strictest for search, so it runs one request at a time by default
+      searchConcurrency: parseInt(process.env.GITHUB_SEARCH_CONCURRENCY ?? '', 10) || 1,
+      maxRetries: parseInt(process.env.GITHUB_MAX_RETRIES ?? '', 10) || 3,
+      maxWaitMs: parseInt(process.env.GITHUB_MAX_RATE_LIMIT_WAIT_MS ?? '', 10) || 60 * 1000,
+    },
+    sync: {
+      enabled: process.env.GITHUB_SYNC_ENABLED !== 'false',
+      intervalMs: parseInt(process.env.GITHUB_SYNC_INTERVAL_MS ?? '', 10) || 10 * 60 * 1000,
+      initialLookbackDays: parseInt(process.env.GITHUB_SYNC_LOOKBACK_DAYS ?? '', 10) || 90,
+      // Dashboards kept in sync with a GitHub organization or team
+      memberIntervalMs: parseInt(process.env.GITHUB_MEMBER_SYNC_INTERVAL_MS ?? '', 10) || 60 * 60 * 1000,
+    },
+  };
+});
@@ -0,0 +1,82 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+
+import { ActivityType } from '../database/entities';
+import { ActivityTypeRepository } from '../database/repositories/activity-type.repository';
+import { ContributionActivity, GitHubRepoActivity } from '../github/interfaces';
+
+export type ActivityTypeCategory = 'pull_requests' | 'commits' | 'issues';
+
+export type ActivityCounts = ContributionActivity & Pick<GitHubRepoActivity, 'prsCreated' | 'prsReviewed' | 'prsMerged'>;
+
+export interface ActivityTypeDefinition {
+  code: string;
+  displayName: string;
+  category: ActivityTypeCategory;
+  // Value of this activity type in a user's activity, overall or in one repository
+  metric: (activity: ActivityCounts) => number;
+}
+
+// An activity_type row described by its registry definition
+export interface ActivityTypeDescription {
+  id: string;
+  code: string;
+  displayName: string;
+  category: ActivityTypeCategory | null;
+}
+
+const ACTIVITY_TYPES: ActivityTypeDefinition[] = [
+  { code: 'prs_created', displayName: 'PRs Created', category: 'pull_requests', metric: activity => activity.prsCreated },
+  { code: 'prs_merged', displayName: 'PRs Merged', category: 'pull_requests', metric: activity => activity.prsMerged },
+  { code: 'prs_reviewed', displayName: 'PRs Reviewed', category: 'pull_requests', metric: activity => activity.prsReviewed },
+  { code: 'commits', displayName: 'Commits', category: 'commits', metric: activity => activity.commits ?? 0 },
+  { code: 'issues_opened', displayName: 'Issues Opened', category: 'issues', metric: activity => activity.issuesOpened ?? 0 },
+  { code: 'issues_closed', displayName: 'Issues Closed', category: 'issues', metric: activity => activity.issuesClosed ?? 0 },
+  { code: 'issues_commented', displayName: 'Issues Commented', category: 'issues', metric: activity => activity.issuesCommented ?? 0 },
+];
+
+/**
+ * The activity types the API knows how to compute. Definitions are written to activity_type on
+ * startup, so a database seeded with different ids (or missing types) still matches by code.
+ */
+@Injectable()
+export class ActivityTypeRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ActivityTypeRegistry.name);
+  private readonly definitions = new Map(ACTIVITY_TYPES.map(definition => [definition.code, definition]));
+
+  constructor(private readonly activityTypeRepository: ActivityTypeRepository) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      for (const definition of this.definitions.values()) {
+        await this.activityTypeRepository.upsertByCode(definition.code, definition.displayName);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to sync activity types: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  list(): ActivityTypeDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  get(code: string): ActivityTypeDefinition | undefined {
+    return this.definitions.get(code);
+  }
+
+  /**
+   * Describe stored activity types in registry order; types the registry doesn't know come last
+   */
+  describe(activityTypes: ActivityType[]): ActivityTypeDescription[] {
+    const order = [...this.definitions.keys()];
+    const rank = (code: string) => (order.includes(code) ? order.indexOf(code) : order.length);
+
+    return [...activityTypes]
+      .sort((a, b) => rank(a.code) - rank(b.code))
+      .map(type => ({
+        id: type.id,
+        code: type.code,
+        displayName: type.displayName,
+        category: this.get(type.code)?.category ?? null,
+      }));
+  }
+}
@@ -0,0 +1,50 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+
+import type { AuthRequest } from '../auth/auth.guard';
+import { AuthService } from '../auth/auth.service';
+import { ClientRole, hasRole } from '../auth/client-role';
+import { DashboardRepository } from '../database/repositories/dashboard.repository';
+
+/**
+ * Changes to a dashboard that belongs to a client require the editor role in that client.
+ * Dashboards without a client (created through this REST API) may be changed by any signed-in user.
+ */
+@Injectable()
+export class DashboardEditorGuard implements CanActivate {
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly authService: AuthService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    // Guards run before pipes; invalid ids and unknown dashboards get their 400/404 from the handler
+    const dashboard = isUUID(request.params.id) ? await this.dashboardRepository.findById(request.params.id) : null;
+    if (!dashboard) {
+      return true;
+    }
+
+    const session = await this.authService.authenticate(request.headers);
+    if (!session) {
+      throw new UnauthorizedException('Sign in to change this dashboard');
+    }
+    if (!dashboard.clientId) {
+      request.auth = session;
+      return true;
+    }
+
+    let role: ClientRole | null = null;
+    if (session.clientId === dashboard.clientId) {
+      role = session.role;
+    } else if (session.userId) {
+      role = await this.authService.getRole(session.userId, dashboard.clientId);
+    }
+    if (!hasRole(role, 'editor')) {
+      throw new ForbiddenException('Requires the editor role in the client that owns this dashboard');
+    }
+
+    request.auth = session;
+    return true;
+  }
+}
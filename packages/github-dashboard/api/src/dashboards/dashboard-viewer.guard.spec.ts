@@ -0,0 +1,85 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AuthRequest } from '../auth/auth.guard';
+import { AuthService, AuthSession } from '../auth/auth.service';
+import { signJwt } from '../auth/jwt';
+import { Dashboard } from '../database/entities';
+
+import { DashboardViewerGuard } from './dashboard-viewer.guard';
+
+const SECRET = 'test-secret';
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const DASHBOARD_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const OTHER_DASHBOARD_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+
+const viewer: AuthSession = { userId: 'user-1', clientId: CLIENT_ID, role: 'viewer' };
+
+function createAuthService(): AuthService {
+  const configService = new ConfigService({ auth: { jwtSecret: SECRET, tokenTtlSeconds: 3600 } });
+  const clientMembershipRepository = { findRole: async (userId: string) => (userId === 'user-1' ? 'viewer' : null) };
+  return new AuthService(configService, {} as never, {} as never, clientMembershipRepository as never);
+}
+
+/**
+ * Runs the guard for a request to the events of the private dashboard
+ */
+async function authorizeStream(authService: AuthService, query: Record<string, string>, headers: Record<string, string> = {}) {
+  const dashboard = { id: DASHBOARD_ID, clientId: CLIENT_ID, isPublic: false } as Dashboard;
+  const dashboardRepository = { findById: async (id: string) => (id === DASHBOARD_ID ? dashboard : null) };
+  const request = { headers, params: { id: DASHBOARD_ID }, query } as unknown as AuthRequest;
+  const context = { switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+
+  const allowed = await new DashboardViewerGuard(dashboardRepository as never, authService).canActivate(context);
+  return { allowed, request };
+}
+
+describe('DashboardViewerGuard', () => {
+  describe('event stream tickets', () => {
+    let authService: AuthService;
+
+    beforeEach(() => {
+      authService = createAuthService();
+    });
+
+    it('opens a private dashboard with a ticket issued for it', async () => {
+      const { ticket } = authService.issueStreamTicket(viewer, DASHBOARD_ID);
+
+      const { allowed, request } = await authorizeStream(authService, { ticket });
+
+      expect(allowed).toBe(true);
+      expect(request.auth).toEqual(viewer);
+    });
+
+    it('rejects a ticket issued for another dashboard', async () => {
+      const { ticket } = authService.issueStreamTicket(viewer, OTHER_DASHBOARD_ID);
+
+      await expect(authorizeStream(authService, { ticket })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects an expired ticket', async () => {
+      const ticket = signJwt({ sub: 'dashboard-stream', dashboard_id: DASHBOARD_ID, user_id: 'user-1', client_id: CLIENT_ID }, SECRET, -1);
+
+      await expect(authorizeStream(authService, { ticket })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('looks the role up again instead of trusting the ticket', async () => {
+      const { ticket } = authService.issueStreamTicket({ userId: 'user-2', clientId: CLIENT_ID, role: 'admin' }, DASHBOARD_ID);
+
+      await expect(authorizeStream(authService, { ticket })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('no longer accepts the session token in the URL', async () => {
+      const token = signJwt({ sub: 'user-1', client_id: CLIENT_ID }, SECRET, 3600);
+
+      await expect(authorizeStream(authService, { access_token: token })).rejects.toThrow(UnauthorizedException);
+      await expect(authorizeStream(authService, { ticket: token })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('does not accept a ticket as a session token', async () => {
+      const { ticket } = authService.issueStreamTicket(viewer, DASHBOARD_ID);
+
+      await expect(authorizeStream(authService, {}, { authorization: `Bearer ${ticket}` })).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+
+import type { AuthRequest } from '../auth/auth.guard';
+import { AuthService, type AuthSession } from '../auth/auth.service';
+import { ClientRole, hasRole } from '../auth/client-role';
+import { Dashboard } from '../database/entities';
+import { DashboardRepository } from '../database/repositories/dashboard.repository';
+
+/**
+ * Reading a dashboard or its activity: public dashboards are open to everyone, private ones require any
+ * role in the client that owns them, or a signed-in user when they don't belong to a client.
+ * The dashboard is the route's :id or :slug, or the dashboard_id query of the GitHub activity endpoints.
+ * Without an Authorization header, a stream ticket for the dashboard (?ticket=) stands in for the session.
+ */
+@Injectable()
+export class DashboardViewerGuard implements CanActivate {
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly authService: AuthService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    // Guards run before pipes; invalid ids and unknown dashboards get their 400/404 from the handler
+    const dashboard = await this.findDashboard(request);
+    if (!dashboard || dashboard.isPublic !== false) {
+      return true;
+    }
+
+    const session = await this.authenticate(request, dashboard.id);
+    if (!session) {
+      throw new UnauthorizedException('Sign in to view this dashboard');
+    }
+
+    if (dashboard.clientId) {
+      let role: ClientRole | null = null;
+      if (session.clientId === dashboard.clientId) {
+        role = session.role;
+      } else if (session.userId) {
+        role = await this.authService.getRole(session.userId, dashboard.clientId);
+      }
+      if (!hasRole(role, 'viewer')) {
+        throw new ForbiddenException('Requires a role in the client that owns this dashboard');
+      }
+    }
+
+    request.auth = session;
+    return true;
+  }
+
+  private async findDashboard(request: AuthRequest): Promise<Dashboard | null> {
+    const { id, slug } = request.params;
+    const dashboardId = id ?? request.query.dashboard_id;
+    if (typeof dashboardId === 'string') {
+      return isUUID(dashboardId) ? this.dashboardRepository.findById(dashboardId) : null;
+    }
+    return slug ? this.dashboardRepository.findBySlug(slug) : null;
+  }
+
+  /**
+   * EventSource can't send headers, so the event stream passes a ticket issued for this dashboard instead
+   */
+  private authenticate(request: AuthRequest, dashboardId: string): Promise<AuthSession | null> {
+    const ticket = request.query.ticket;
+    if (request.headers.authorization || typeof ticket !== 'string') {
+      return this.authService.authenticate(request.headers);
+    }
+    return this.authService.authenticateStreamTicket(ticket, dashboardId);
+  }
+}
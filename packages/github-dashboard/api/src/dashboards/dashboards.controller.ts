@@ -0,0 +1,429 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MessageEvent,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Req,
+  Sse,
+  StreamableFile,
+  UseGuards
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import { AuthGuard, type AuthRequest } from '../auth/auth.guard';
+import type { AuthSession } from '../auth/auth.service';
+import { StreamTicketDto } from '../auth/dto';
+import type { ClientRequest } from '../features/feature.guard';
+import { RequiresFeature } from '../features/requires-feature.decorator';
+
+import { DashboardEditorGuard } from './dashboard-editor.guard';
+import { DashboardViewerGuard } from './dashboard-viewer.guard';
+import { DashboardsService } from './dashboards.service';
+import {
+  AddRepositoryToDashboardDto,
+  AddUserToDashboardDto,
+  CreateDashboardDto,
+  ImportDashboardMembersDto,
+  MemberSourceDto,
+  SaveDashboardViewDto,
+  UpdateActivityConfigDto,
+  UpdateDashboardConfigurationDto,
+  UpdateDashboardDto
+} from './dto';
+import { DashboardExportService } from './export/dashboard-export.service';
+import { DashboardMemberImportService } from './members/dashboard-member-import.service';
+import { DashboardMemberSyncService } from './members/dashboard-member-sync.service';
+import { DashboardViewService } from './views/dashboard-view.service';
+
+@Controller('dashboards')
+export class DashboardsController {
+  constructor(
+    private readonly dashboardsService: DashboardsService,
+    private readonly dashboardExportService: DashboardExportService,
+    private readonly memberImportService: DashboardMemberImportService,
+    private readonly memberSyncService: DashboardMemberSyncService,
+    private readonly viewService: DashboardViewService
+  ) {}
+
+  /**
+   * List public dashboards with their user counts
+   * GET /api/dashboards
+   */
+  @Get()
+  async findAllPublic() {
+    return this.dashboardsService.findAllPublic();
+  }
+
+  /**
+   * List the activity types a dashboard can track
+   * GET /api/dashboards/activity-types
+   */
+  @Get('activity-types')
+  async getAvailableActivityTypes() {
+    return this.dashboardsService.getAvailableActivityTypes();
+  }
+
+  /**
+   * Get dashboard by slug
+   * GET /api/dashboards/slug/:slug
+   */
+  @Get('slug/:slug')
+  @UseGuards(DashboardViewerGuard)
+  async findBySlug(@Param('slug') slug: string) {
+    return this.dashboardsService.findBySlug(slug);
+  }
+
+  /**
+   * Get dashboard by ID
+   * GET /api/dashboards/:id
+   */
+  @Get(':id')
+  @UseGuards(DashboardViewerGuard)
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.dashboardsService.findOne(id);
+  }
+
+  /**
+   * Create a dashboard; requires a signed-in user
+   * POST /api/dashboards
+   */
+  @Post()
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.CREATED)
+  async create(@Body() createDashboardDto: CreateDashboardDto) {
+    return this.dashboardsService.create(createDashboardDto);
+  }
+
+  /**
+   * Update a dashboard
+   * PATCH /api/dashboards/:id
+   */
+  @Patch(':id')
+  @UseGuards(DashboardEditorGuard)
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDashboardDto: UpdateDashboardDto
+  ) {
+    return this.dashboardsService.update(id, updateDashboardDto);
+  }
+
+  /**
+   * Delete a dashboard
+   * DELETE /api/dashboards/:id
+   */
+  @Delete(':id')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.dashboardsService.remove(id);
+  }
+
+  /**
+   * Get users tracked by a dashboard
+   * GET /api/dashboards/:id/users
+   */
+  @Get(':id/users')
+  @UseGuards(DashboardViewerGuard)
+  async getDashboardUsers(@Param('id', ParseUUIDPipe) id: string) {
+    return this.dashboardsService.getDashboardUsers(id);
+  }
+
+  /**
+   * Add a GitHub user to a dashboard
+   * POST /api/dashboards/:id/users
+   */
+  @Post(':id/users')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.CREATED)
+  async addUserToDashboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addUserDto: AddUserToDashboardDto
+  ) {
+    return this.dashboardsService.addUserToDashboard(id, addUserDto);
+  }
+
+  /**
+   * Remove a GitHub user from a dashboard
+   * DELETE /api/dashboards/:id/users/:username
+   */
+  @Delete(':id/users/:username')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeUserFromDashboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('username') username: string
+  ): Promise<void> {
+    await this.dashboardsService.removeUserFromDashboard(id, username);
+  }
+
+  /**
+   * Preview the members of a GitHub organization or team for import, marking those already on the dashboard
+   * GET /api/dashboards/:id/members/import?org=my-org&team=platform-team
+   */
+  @Get(':id/members/import')
+  @UseGuards(DashboardEditorGuard)
+  async previewMemberImport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() source: MemberSourceDto
+  ) {
+    return this.memberImportService.preview(id, source);
+  }
+
+  /**
+   * Add the selected members of a GitHub organization or team, optionally keeping them in sync
+   * POST /api/dashboards/:id/members/import
+   */
+  @Post(':id/members/import')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.OK)
+  async importMembers(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() importDto: ImportDashboardMembersDto
+  ) {
+    return this.memberImportService.import(id, importDto);
+  }
+
+  /**
+   * Get the organization or team a dashboard keeps its members in sync with (null when none)
+   * GET /api/dashboards/:id/member-sync
+   */
+  @Get(':id/member-sync')
+  @UseGuards(DashboardViewerGuard)
+  async getMemberSync(@Param('id', ParseUUIDPipe) id: string) {
+    return this.memberSyncService.getSync(id);
+  }
+
+  /**
+   * Keep a dashboard's members in sync with an organization or team, adding its current members now
+   * PUT /api/dashboards/:id/member-sync
+   */
+  @Put(':id/member-sync')
+  @UseGuards(DashboardEditorGuard)
+  async setMemberSync(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() source: MemberSourceDto
+  ) {
+    return this.memberSyncService.setSync(id, source);
+  }
+
+  /**
+   * Stop syncing a dashboard's members; its users stay
+   * DELETE /api/dashboards/:id/member-sync
+   */
+  @Delete(':id/member-sync')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteMemberSync(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.memberSyncService.deleteSync(id);
+  }
+
+  /**
+   * List the saved filter views of a dashboard
+   * GET /api/dashboards/:id/views
+   */
+  @Get(':id/views')
+  @UseGuards(DashboardViewerGuard)
+  async getViews(@Param('id', ParseUUIDPipe) id: string) {
+    return this.viewService.listViews(id);
+  }
+
+  /**
+   * Save a named view: a date range and a subset of the dashboard's users, repositories and activity types
+   * POST /api/dashboards/:id/views
+   */
+  @Post(':id/views')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.CREATED)
+  async createView(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() viewDto: SaveDashboardViewDto
+  ) {
+    return this.viewService.createView(id, viewDto);
+  }
+
+  /**
+   * Replace a saved view's name and filters
+   * PUT /api/dashboards/:id/views/:viewId
+   */
+  @Put(':id/views/:viewId')
+  @UseGuards(DashboardEditorGuard)
+  async updateView(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('viewId', ParseUUIDPipe) viewId: string,
+    @Body() viewDto: SaveDashboardViewDto
+  ) {
+    return this.viewService.updateView(id, viewId, viewDto);
+  }
+
+  /**
+   * Delete a saved view
+   * DELETE /api/dashboards/:id/views/:viewId
+   */
+  @Delete(':id/views/:viewId')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteView(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('viewId', ParseUUIDPipe) viewId: string
+  ): Promise<void> {
+    await this.viewService.deleteView(id, viewId);
+  }
+
+  /**
+   * Get repositories (owner/repo) tracked by a dashboard
+   * GET /api/dashboards/:id/repositories
+   */
+  @Get(':id/repositories')
+  @UseGuards(DashboardViewerGuard)
+  async getDashboardRepositories(@Param('id', ParseUUIDPipe) id: string): Promise<string[]> {
+    return this.dashboardsService.getDashboardRepositories(id);
+  }
+
+  /**
+   * Add a repository to a dashboard
+   * POST /api/dashboards/:id/repositories
+   */
+  @Post(':id/repositories')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.CREATED)
+  async addRepositoryToDashboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addRepositoryDto: AddRepositoryToDashboardDto
+  ): Promise<void> {
+    await this.dashboardsService.addRepositoryToDashboard(id, addRepositoryDto.name);
+  }
+
+  /**
+   * Remove a repository from a dashboard
+   * DELETE /api/dashboards/:id/repositories/:owner/:repo
+   */
+  @Delete(':id/repositories/:owner/:repo')
+  @UseGuards(DashboardEditorGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeRepositoryFromDashboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('owner') owner: string,
+    @Param('repo') repo: string
+  ): Promise<void> {
+    await this.dashboardsService.removeRepositoryFromDashboard(id, `${owner}/${repo}`);
+  }
+
+  /**
+   * Get activity summary computed from synced pull requests, reviews and merges
+   * GET /api/dashboards/:id/summary?start_date=2024-01-01&end_date=2024-12-31
+   */
+  @Get(':id/summary')
+  @UseGuards(DashboardViewerGuard)
+  async getActivitySummary(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string
+  ) {
+    return this.dashboardsService.getActivitySummary(id, startDate, endDate);
+  }
+
+  /**
+   * Download per-user and per-repository activity as CSV or XLSX; requires the export feature
+   * GET /api/dashboards/:id/export.csv?start_date=2024-01-01&end_date=2024-12-31 (or export.xlsx)
+   */
+  @Get(':id/export.:format')
+  @RequiresFeature('export')
+  async export(
+    @Req() request: ClientRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('format') format: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string
+  ): Promise<StreamableFile> {
+    return this.dashboardExportService.export(id, request.clientId as string, format, startDate, endDate);
+  }
+
+  /**
+   * Short-lived ticket that opens the dashboard's event stream for the signed-in user
+   * POST /api/dashboards/:id/events/ticket
+   */
+  @Post(':id/events/ticket')
+  @UseGuards(AuthGuard, DashboardViewerGuard)
+  @HttpCode(HttpStatus.CREATED)
+  async issueStreamTicket(
+    @Req() request: AuthRequest,
+    @Param('id', ParseUUIDPipe) id: string
+  ): Promise<StreamTicketDto> {
+    return this.dashboardsService.issueStreamTicket(id, request.auth as AuthSession);
+  }
+
+  /**
+   * Server-sent events with the dashboard's per-user activity, pushed again whenever it changes.
+   * Private dashboards are opened with a ticket from POST /api/dashboards/:id/events/ticket
+   * GET /api/dashboards/:id/events?ticket=...&repos=owner/repo1,owner/repo2&start_date=2024-01-01&end_date=2024-12-31
+   */
+  @Sse(':id/events')
+  @UseGuards(DashboardViewerGuard)
+  async streamEvents(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('repos') repos?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+    @Query('include_reviews') includeReviews?: string
+  ): Promise<Observable<MessageEvent>> {
+    const repoList = repos ? repos.split(',').map(r => r.trim()).filter(Boolean) : [];
+    return this.dashboardsService.streamActivityEvents(id, repoList, startDate, endDate, includeReviews !== 'false');
+  }
+
+  /**
+   * Get activity configuration for a dashboard
+   * GET /api/dashboards/:id/activity-config
+   */
+  @Get(':id/activity-config')
+  @UseGuards(DashboardViewerGuard)
+  async getActivityConfiguration(@Param('id', ParseUUIDPipe) id: string) {
+    return this.dashboardsService.getActivityConfiguration(id);
+  }
+
+  /**
+   * Enable or disable activity types for a dashboard
+   * PUT /api/dashboards/:id/activity-config
+   */
+  @Put(':id/activity-config')
+  @UseGuards(DashboardEditorGuard)
+  async updateActivityConfiguration(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateActivityConfigDto
+  ) {
+    return this.dashboardsService.updateActivityConfiguration(id, updateDto);
+  }
+
+  /**
+   * Get the full configuration of a dashboard
+   * GET /api/dashboards/:id/configuration
+   */
+  @Get(':id/configuration')
+  @UseGuards(DashboardViewerGuard)
+  async getConfiguration(@Param('id', ParseUUIDPipe) id: string) {
+    return this.dashboardsService.getConfiguration(id);
+  }
+
+  /**
+   * Replace the configuration of a dashboard in one transaction; invalid items come back as a 400 with `errors`
+   * PUT /api/dashboards/:id/configuration
+   */
+  @Put(':id/configuration')
+  @UseGuards(DashboardEditorGuard)
+  async saveConfiguration(
+    @Req() request: AuthRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateDashboardConfigurationDto
+  ) {
+    // The guard resolves the session of every existing dashboard; unknown ones 404 in the service
+    return this.dashboardsService.saveConfiguration(id, updateDto, request.auth?.clientId ?? null);
+  }
+}
@@ -1,22 +1,20 @@
 import { Module } from '@nestjs/common';
 
-import { ActivityTypeRepository } from '../database/repositories/activity-type.repository';
-import { DashboardActivityConfigRepository } from '../database/repositories/dashboard-activity-config.repository';
-import { DashboardRepositoryRepository } from '../database/repositories/dashboard-repository.repository';
-import { DashboardUserRepository } from '../database/repositories/dashboard-user.repository';
 import { GitHubModule } from '../github/github.module';
 
+import { ActivityTypeRegistry } from './activity-type.registry';
+import { DashboardsController } from './dashboards.controller';
 import { DashboardsService } from './dashboards.service';
+import { DashboardExportService } from './export/dashboard-export.service';
+import { DashboardMemberImportService } from './members/dashboard-member-import.service';
+import { DashboardMemberSyncService } from './members/dashboard-member-sync.service';
+import { DashboardViewService } from './views/dashboard-view.service';
 
+// Repositories are provided by the global DatabaseModule
 @Module({
   imports: [GitHubModule],
-  providers: [
-    DashboardsService, 
-    DashboardUserRepository, 
-    DashboardRepositoryRepository,
-    ActivityTypeRepository,
-    DashboardActivityConfigRepository
-  ],
-  exports: [DashboardsService],
+  controllers: [DashboardsController],
+  providers: [DashboardsService, DashboardExportService, DashboardMemberImportService, DashboardMemberSyncService, DashboardViewService, ActivityTypeRegistry],
+  exports: [DashboardsService, ActivityTypeRegistry],
 })
 export class DashboardsModule {}
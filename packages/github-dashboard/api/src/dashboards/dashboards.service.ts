@@ -1,15 +1,44 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
-
-import { Dashboard, DashboardGithubUser, GitHubUser, ActivityType, DashboardActivityConfig } from '../database/entities';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  MessageEvent
+} from '@nestjs/common';
+import { catchError, interval, map, merge, Observable, of } from 'rxjs';
+
+import { AuthService, type AuthSession } from '../auth/auth.service';
+import { StreamTicketDto } from '../auth/dto';
+import { Dashboard, DashboardGithubUser, GitHubUser, NewRepository } from '../database/entities';
 import { ActivityTypeRepository } from '../database/repositories/activity-type.repository';
 import { DashboardActivityConfigRepository } from '../database/repositories/dashboard-activity-config.repository';
 import { DashboardRepositoryRepository } from '../database/repositories/dashboard-repository.repository';
 import { DashboardUserRepository } from '../database/repositories/dashboard-user.repository';
 import { DashboardRepository } from '../database/repositories/dashboard.repository';
-import { GitHubUserRepository } from '../database/repositories/github-user.repository';
+import { GitHubUserProfile, GitHubUserRepository } from '../database/repositories/github-user.repository';
+import { ClientFeaturesService } from '../features/client-features.service';
+import { GitHubClientContext } from '../github/credentials/github-client-context';
 import { GitHubService } from '../github/github.service';
-
-import { CreateDashboardDto, UpdateDashboardDto, AddUserToDashboardDto, UpdateActivityConfigDto, ActivityConfigDto } from './dto';
+import { GitHubUser as GitHubApiUser, GitHubRepo, GitHubUserActivitySummary } from '../github/interfaces';
+
+import { ActivityTypeDescription, ActivityTypeRegistry } from './activity-type.registry';
+import {
+  CreateDashboardDto,
+  UpdateDashboardDto,
+  AddUserToDashboardDto,
+  UpdateActivityConfigDto,
+  ActivityConfigDto,
+  ConfigurationItemErrorDto,
+  DashboardConfigurationDto,
+  DateRangePreset,
+  UpdateDashboardConfigurationDto
+} from './dto';
+
+// Keeps idle event streams from being closed by proxies
+const EVENT_STREAM_HEARTBEAT_MS = 30 * 1000;
+const REPOSITORY_NAME_PATTERN = /^[\w.-]+\/[\w.-]+$/;
 
 
 @Injectable()
@@ -21,11 +50,14 @@ export class DashboardsService {
     private readonly dashboardRepositoryRepository: DashboardRepositoryRepository,
     private readonly activityTypeRepository: ActivityTypeRepository,
     private readonly dashboardActivityConfigRepository: DashboardActivityConfigRepository,
-    private readonly githubService: GitHubService
+    private readonly githubService: GitHubService,
+    private readonly activityTypeRegistry: ActivityTypeRegistry,
+    private readonly clientFeatures: ClientFeaturesService,
+    private readonly authService: AuthService
   ) {}
 
   async create(createDashboardDto: CreateDashboardDto): Promise<Dashboard> {
-    const { name, description, isPublic } = createDashboardDto;
+    const { name, description, isPublic, excludeMergeCommits } = createDashboardDto;
     const slug = this.generateSlug(name);
 
     // Check if slug already exists
@@ -39,6 +71,7 @@ export class DashboardsService {
       slug,
       description,
       isPublic: isPublic ?? true,
+      excludeMergeCommits: excludeMergeCommits ?? false,
     });
   }
 
@@ -51,7 +84,7 @@ export class DashboardsService {
         const users = await this.dashboardUserRepository.getUsersForDashboard(dashboard.id);
         return {
           ...dashboard,
-          githubUsers: users.map(user => user.githubUsername),
+          githubUsers: users.map(user => user.user.githubUsername),
           userCount: users.length
         };
       })
@@ -70,7 +103,21 @@ export class DashboardsService {
     const users = await this.dashboardUserRepository.getUsersForDashboard(dashboard.id);
     return {
       ...dashboard,
-      githubUsers: users.map(user => user.githubUsername),
+      githubUsers: users.map(user => user.user.githubUsername),
+      userCount: users.length
+    };
+  }
+
+  async findOne(id: string): Promise<any> {
+    const dashboard = await this.dashboardRepository.findById(id);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with id '${id}' not found`);
+    }
+
+    const users = await this.dashboardUserRepository.getUsersForDashboard(dashboard.id);
+    return {
+      ...dashboard,
+      githubUsers: users.map(user => user.user.githubUsername),
       userCount: users.length
     };
   }
@@ -81,7 +128,7 @@ export class DashboardsService {
       throw new NotFoundException(`Dashboard with id '${id}' not found`);
     }
 
-    const updateData: Partial<UpdateDashboardDto> = { ...updateDashboardDto };
+    const updateData: Partial<UpdateDashboardDto> & { slug?: string } = { ...updateDashboardDto };
     
     // If name is being updated, generate new slug
     if (updateDashboardDto.name && updateDashboardDto.name !== existing.name) {
@@ -116,17 +163,10 @@ export class DashboardsService {
       throw new NotFoundException(`Dashboard with id '${dashboardId}' not found`);
     }
 
-    // Get user info from GitHub
-    const userInfo = await this.githubService.getUser(addUserDto.githubUsername);
-    
-    // Create or update the GitHub user in our database
-    const githubUser = await this.githubUserRepository.upsertUser({
-      githubUserId: userInfo.id.toString(),
-      githubUsername: userInfo.login,
-      displayName: addUserDto.displayName || userInfo.name || userInfo.login,
-      avatarUrl: userInfo.avatar_url,
-      profileUrl: userInfo.html_url,
-    });
+    // Resolve the username to the GitHub user and store it by id
+    const githubUser = await this.githubUserRepository.upsertUser(
+      this.toGitHubUserProfile(await this.githubService.getCachedUser(addUserDto.githubUsername), addUserDto.displayName)
+    );
 
     // Check if user is already in dashboard
     const existing = await this.dashboardUserRepository.isUserInDashboard(dashboardId, githubUser.id);
@@ -150,9 +190,8 @@ export class DashboardsService {
       return;
     }
 
-    const removed = await this.dashboardUserRepository.removeUserFromDashboard(dashboardId, githubUser.id);
     // Idempotent: if link not found, treat as success
-    return;
+    await this.dashboardUserRepository.removeUserFromDashboard(dashboardId, githubUser.id);
   }
 
   async getDashboardUsers(dashboardId: string): Promise<(DashboardGithubUser & { user: GitHubUser })[]> {
@@ -185,15 +224,11 @@ export class DashboardsService {
     }
 
     try {
-      // Get repository information from GitHub API
-      const repoInfo = await this.githubService.getRepository(owner, repoName);
-      await this.dashboardRepositoryRepository.addRepositoryToDashboard(
-        dashboardId, 
-        name, 
-        repoInfo.id
-      );
+      // Get repository information from GitHub API, with the credentials of the dashboard's client
+      const repoInfo = await GitHubClientContext.run(dashboard.clientId, () => this.githubService.getRepository(owner, repoName));
+      await this.dashboardRepositoryRepository.addRepositoryToDashboard(dashboardId, this.toRepositoryRecord(repoInfo));
     } catch (error) {
-      throw new ConflictException(`Failed to fetch repository information: ${error.message}`);
+      throw new ConflictException(`Failed to fetch repository information: ${(error as Error).message}`);
     }
   }
 
@@ -226,28 +261,24 @@ export class DashboardsService {
     // Get all activity types
     const activityTypes = await this.activityTypeRepository.findAll();
     
-    // Get dashboard-specific configurations
+    // A config row exists only for enabled activity types
     const configs = await this.dashboardActivityConfigRepository.getDashboardConfigs(dashboardId);
-    
-    // Create a map of activity type name to configuration
-    const configMap = new Map(
-      configs.map(config => [
-        activityTypes.find(type => type.id === config.activityTypeId)?.name,
-        config
-      ]).filter(([name]) => name) // Filter out undefined names
+    const enabledCodes = new Set(
+      configs
+        .map(config => activityTypes.find(type => type.id === config.activityTypeId)?.code)
+        .filter((code): code is string => Boolean(code))
     );
 
+    const enabledCategories = new Set([...enabledCodes].map(code => this.activityTypeRegistry.get(code)?.category));
+
     // Build the activity configuration object
     const activityConfig: ActivityConfigDto = {
-      trackPRsCreated: configMap.get('prs_created')?.enabled ?? true,
-      trackPRsMerged: configMap.get('prs_merged')?.enabled ?? true,
-      trackPRReviews: configMap.get('pr_reviews')?.enabled ?? true,
-      trackCommits: configMap.get('commits')?.enabled ?? false,
-      trackIssues: configMap.get('issues')?.enabled ?? false,
-      dateRange: {
-        start: configMap.get('prs_created')?.dateRangeStart?.toISOString() || '',
-        end: configMap.get('prs_created')?.dateRangeEnd?.toISOString() || ''
-      }
+      trackPRsCreated: enabledCodes.has('prs_created'),
+      trackPRsMerged: enabledCodes.has('prs_merged'),
+      trackPRReviews: enabledCodes.has('prs_reviewed'),
+      trackCommits: enabledCategories.has('commits'),
+      trackIssues: enabledCategories.has('issues'),
+      excludeMergeCommits: dashboard.excludeMergeCommits
     };
 
     return activityConfig;
@@ -261,15 +292,23 @@ export class DashboardsService {
 
     // Get all activity types
     const activityTypes = await this.activityTypeRepository.findAll();
-    const activityTypeMap = new Map(activityTypes.map(type => [type.name, type]));
+    const activityTypeMap = new Map(activityTypes.map(type => [type.code, type]));
+
+    const configsToUpdate: Array<{ activityTypeId: string; enabled: boolean }> = [];
+    const unknown: string[] = [];
+    for (const config of updateDto.configs) {
+      const activityType = activityTypeMap.get(config.activityTypeName);
+      if (activityType) {
+        configsToUpdate.push({ activityTypeId: activityType.id, enabled: config.enabled });
+      } else {
+        unknown.push(config.activityTypeName);
+      }
+    }
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown activity types: ${unknown.join(', ')}`);
+    }
 
     // Update configurations
-    const configsToUpdate = updateDto.configs.map(config => ({
-      activityTypeId: activityTypeMap.get(config.activityTypeName)?.id,
-      enabled: config.enabled,
-      dateRangeStart: config.dateRangeStart ? new Date(config.dateRangeStart) : null,
-      dateRangeEnd: config.dateRangeEnd ? new Date(config.dateRangeEnd) : null
-    })).filter(config => config.activityTypeId); // Filter out invalid activity types
 
     await this.dashboardActivityConfigRepository.updateDashboardConfigs(dashboardId, configsToUpdate);
 
@@ -277,8 +316,283 @@ export class DashboardsService {
     return this.getActivityConfiguration(dashboardId);
   }
 
-  async getAvailableActivityTypes(): Promise<ActivityType[]> {
-    return await this.activityTypeRepository.findAll();
+  /**
+   * Visibility, type, default date range, repositories, users and enabled activity types of a dashboard
+   */
+  async getConfiguration(dashboardId: string): Promise<DashboardConfigurationDto> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+
+    const [type, repositories, users, activityTypes] = await Promise.all([
+      dashboard.dashboardTypeId ? this.dashboardRepository.findTypeById(dashboard.dashboardTypeId) : null,
+      this.dashboardRepositoryRepository.getDashboardRepositories(dashboardId),
+      this.dashboardUserRepository.getUsersForDashboard(dashboardId),
+      this.dashboardActivityConfigRepository.getEnabledActivityTypeCodes(dashboardId),
+    ]);
+
+    return {
+      isPublic: dashboard.isPublic ?? true,
+      excludeMergeCommits: dashboard.excludeMergeCommits,
+      dashboardTypeCode: type?.code ?? null,
+      defaultDateRange: dashboard.defaultDateRange as DateRangePreset | null,
+      sprintStartDate: dashboard.sprintStartDate,
+      sprintLengthDays: dashboard.sprintLengthDays,
+      repositories,
+      users: users.map(({ user }) => user.githubUsername),
+      activityTypes,
+    };
+  }
+
+  /**
+   * Replace a dashboard's configuration with the desired state. New repositories and users are resolved
+   * on GitHub first; if any item is invalid nothing is saved and every problem is reported (400 with
+   * `errors`), otherwise the difference to the current state is applied in one transaction.
+   */
+  async saveConfiguration(
+    dashboardId: string,
+    dto: UpdateDashboardConfigurationDto,
+    clientId: string | null
+  ): Promise<DashboardConfigurationDto> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+
+    const errors: ConfigurationItemErrorDto[] = [];
+
+    let dashboardTypeId: string | undefined;
+    if (dto.dashboardTypeCode) {
+      const type = await this.dashboardRepository.findTypeByCode(dto.dashboardTypeCode);
+      if (!type) {
+        errors.push({ field: 'dashboardTypeCode', value: dto.dashboardTypeCode, message: `Unknown dashboard type '${dto.dashboardTypeCode}'` });
+      } else if (type.id !== dashboard.dashboardTypeId) {
+        dashboardTypeId = type.id;
+      }
+    }
+    if (dashboardTypeId) {
+      await this.clientFeatures.assertFeatures(clientId, ['type_chips']);
+    }
+
+    // The current sprint is counted from a sprint start date, saved now or earlier
+    const defaultDateRange = dto.defaultDateRange !== undefined ? dto.defaultDateRange : dashboard.defaultDateRange;
+    const sprintStartDate = dto.sprintStartDate !== undefined ? dto.sprintStartDate : dashboard.sprintStartDate;
+    if (defaultDateRange === 'current_sprint' && !sprintStartDate) {
+      errors.push({ field: 'defaultDateRange', value: defaultDateRange, message: 'The current sprint range needs a sprint start date' });
+    }
+
+    const activityTypes = await this.activityTypeRepository.findAll();
+    const activityTypeIds = new Map(activityTypes.map(type => [type.code, type.id]));
+    const desiredActivityTypes = [...new Set(dto.activityTypes)];
+    for (const code of desiredActivityTypes.filter(code => !activityTypeIds.has(code))) {
+      errors.push({ field: 'activityTypes', value: code, message: `Unknown activity type '${code}'` });
+    }
+
+    const [currentRepositories, currentUsers, currentActivityTypes] = await Promise.all([
+      this.dashboardRepositoryRepository.getDashboardRepositories(dashboardId),
+      this.dashboardUserRepository.getUsersForDashboard(dashboardId),
+      this.dashboardActivityConfigRepository.getEnabledActivityTypeCodes(dashboardId),
+    ]);
+
+    // Names are matched case-insensitively, like GitHub does
+    const desiredRepositories = this.uniqueNames(dto.repositories);
+    const currentRepositoryNames = new Set(currentRepositories.map(name => name.toLowerCase()));
+    const repositories = await this.resolveRepositories(
+      desiredRepositories.filter(name => !currentRepositoryNames.has(name.toLowerCase())),
+      dashboard.clientId,
+      errors
+    );
+
+    const desiredUsers = this.uniqueNames(dto.users);
+    const currentUsernames = new Set(currentUsers.map(({ user }) => user.githubUsername.toLowerCase()));
+    const users = await this.resolveUsers(
+      desiredUsers.filter(username => !currentUsernames.has(username.toLowerCase())),
+      errors
+    );
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `The dashboard configuration has ${errors.length} invalid item${errors.length === 1 ? '' : 's'}`,
+        errors,
+      });
+    }
+
+    // Stored by GitHub user id, which also picks up renames
+    const userRecords = await Promise.all(users.map(user => this.githubUserRepository.upsertUser(user)));
+
+    const keptRepositories = new Set(desiredRepositories.map(name => name.toLowerCase()));
+    const keptUsernames = new Set(desiredUsers.map(username => username.toLowerCase()));
+    // A user added under a new username is the same GitHub user, so their old entry stays
+    const resolvedUserIds = new Set(users.map(user => user.githubUserId));
+
+    await this.dashboardRepository.applyConfiguration(dashboardId, {
+      dashboard: {
+        isPublic: dto.isPublic,
+        ...(dto.excludeMergeCommits !== undefined && { excludeMergeCommits: dto.excludeMergeCommits }),
+        ...(dashboardTypeId && { dashboardTypeId }),
+        ...(dto.defaultDateRange !== undefined && { defaultDateRange: dto.defaultDateRange }),
+        ...(dto.sprintStartDate !== undefined && { sprintStartDate: dto.sprintStartDate }),
+        ...(dto.sprintLengthDays !== undefined && { sprintLengthDays: dto.sprintLengthDays }),
+      },
+      addRepositories: repositories,
+      removeRepositories: currentRepositories.filter(name => !keptRepositories.has(name.toLowerCase())),
+      addUsers: userRecords.map(user => user.id),
+      removeUsers: currentUsers
+        .filter(({ user }) => !keptUsernames.has(user.githubUsername.toLowerCase()) && !resolvedUserIds.has(user.githubUserId))
+        .map(({ user }) => user.id),
+      addActivityTypeIds: desiredActivityTypes
+        .filter(code => !currentActivityTypes.includes(code))
+        .map(code => activityTypeIds.get(code) as string),
+      removeActivityTypeIds: currentActivityTypes
+        .filter(code => !desiredActivityTypes.includes(code) && activityTypeIds.has(code))
+        .map(code => activityTypeIds.get(code) as string),
+    });
+
+    return this.getConfiguration(dashboardId);
+  }
+
+  /**
+   * Live activity stream of a dashboard: the current per-user activity as an 'activity' event,
+   * then again whenever it is recomputed (cache refresh or webhook), plus periodic heartbeats
+   */
+  async streamActivityEvents(
+    dashboardId: string,
+    repos: string[],
+    startDate?: string,
+    endDate?: string,
+    includeReviews = true
+  ): Promise<Observable<MessageEvent>> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+
+    // Rejected here rather than as an activity-error event on the open stream
+    const scopedRepos = await this.githubService.scopeDashboardRepositories(dashboardId, repos);
+    const activity = this.githubService.watchBatchUserActivitySummary(dashboardId, scopedRepos, startDate, endDate, includeReviews).pipe(
+      map((data): MessageEvent => ({ type: 'activity', data })),
+      catchError(error => of<MessageEvent>({ type: 'activity-error', data: { message: error instanceof Error ? error.message : 'Failed to load activity' } }))
+    );
+    const heartbeat = interval(EVENT_STREAM_HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: { at: new Date().toISOString() } }))
+    );
+
+    return merge(activity, heartbeat);
+  }
+
+  /**
+   * Ticket for opening the dashboard's event stream, since EventSource can't send the session token
+   */
+  async issueStreamTicket(dashboardId: string, session: AuthSession): Promise<StreamTicketDto> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+
+    return this.authService.issueStreamTicket(session, dashboardId);
+  }
+
+  /**
+   * Activity summary per dashboard user computed in SQL from synced pull requests, reviews and merges
+   * Returns the same shape as the GitHub batch activity summary
+   */
+  async getActivitySummary(dashboardId: string, startDate?: string, endDate?: string): Promise<GitHubUserActivitySummary[]> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000); // default 30d
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException('start_date and end_date must be valid dates');
+    }
+
+    return this.githubService.getStoredActivitySummary(dashboardId, start, end);
+  }
+
+  async getAvailableActivityTypes(): Promise<ActivityTypeDescription[]> {
+    return this.activityTypeRegistry.describe(await this.activityTypeRepository.findAll());
+  }
+
+  // Trimmed, non-empty and without case-insensitive duplicates
+  private uniqueNames(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names
+      .map(name => name.trim())
+      .filter(name => {
+        const key = name.toLowerCase();
+        if (!name || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  // Looked up with the credentials of the dashboard's client, which may see its private repositories
+  private async resolveRepositories(names: string[], clientId: string | null, errors: ConfigurationItemErrorDto[]): Promise<NewRepository[]> {
+    const results = await Promise.all(names.map(async (name): Promise<NewRepository | null> => {
+      if (!REPOSITORY_NAME_PATTERN.test(name)) {
+        errors.push({ field: 'repositories', value: name, message: 'Repository must be in owner/repo format' });
+        return null;
+      }
+
+      const [owner, repoName] = name.split('/');
+      try {
+        return this.toRepositoryRecord(await GitHubClientContext.run(clientId, () => this.githubService.getRepository(owner, repoName)));
+      } catch (error) {
+        errors.push({ field: 'repositories', value: name, message: (error as Error).message });
+        return null;
+      }
+    }));
+
+    return results.filter((repo): repo is NewRepository => repo !== null);
+  }
+
+  private async resolveUsers(usernames: string[], errors: ConfigurationItemErrorDto[]): Promise<GitHubUserProfile[]> {
+    const results = await Promise.all(usernames.map(async (username): Promise<GitHubUserProfile | null> => {
+      try {
+        return this.toGitHubUserProfile(await this.githubService.getCachedUser(username));
+      } catch (error) {
+        const message = error instanceof HttpException && error.getStatus() === HttpStatus.NOT_FOUND
+          ? `GitHub user '${username}' does not exist`
+          : (error as Error).message;
+        errors.push({ field: 'users', value: username, message });
+        return null;
+      }
+    }));
+
+    return results.filter((user): user is GitHubUserProfile => user !== null);
+  }
+
+  // Repository record with the metadata GitHub reports for it
+  private toRepositoryRecord(repoInfo: GitHubRepo): NewRepository {
+    return {
+      githubRepoId: repoInfo.id,
+      name: repoInfo.name,
+      owner: repoInfo.owner.login,
+      fullName: repoInfo.full_name,
+      description: repoInfo.description ?? null,
+      language: repoInfo.language ?? null,
+      visibility: repoInfo.visibility ?? null,
+      archived: repoInfo.archived ?? false,
+      topics: repoInfo.topics ?? [],
+      pushedAt: repoInfo.pushed_at ? new Date(repoInfo.pushed_at) : null,
+    };
+  }
+
+  private toGitHubUserProfile(userInfo: GitHubApiUser, displayName?: string): GitHubUserProfile {
+    return {
+      githubUserId: userInfo.id.toString(),
+      githubUsername: userInfo.login,
+      displayName: displayName || userInfo.name || userInfo.login,
+      avatarUrl: userInfo.avatar_url,
+      profileUrl: userInfo.html_url,
+    };
   }
 
   private generateSlug(name: string): string {
@@ -27,6 +27,10 @@ export class ActivityConfigDto {
   @IsBoolean()
   trackIssues: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  excludeMergeCommits?: boolean;
+
   @IsOptional()
   @ValidateNested()
   @Type(() => DateRangeDto)
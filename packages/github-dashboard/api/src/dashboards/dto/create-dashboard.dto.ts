@@ -12,4 +12,9 @@ export class CreateDashboardDto {
   @IsOptional()
   @IsBoolean()
   isPublic?: boolean;
+
+  // Leave merge commits out of the commits activity type
+  @IsOptional()
+  @IsBoolean()
+  excludeMergeCommits?: boolean;
 }
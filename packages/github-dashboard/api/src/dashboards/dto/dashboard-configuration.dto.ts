@@ -0,0 +1,84 @@
+import { IsArray, IsBoolean, IsDateString, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+// Rolling date ranges a dashboard or saved view can open with; the web app resolves them to dates on load
+export const DATE_RANGE_PRESETS = [
+  'last_7_days',
+  'last_14_days',
+  'last_30_days',
+  'last_90_days',
+  'this_month',
+  'last_month',
+  'this_quarter',
+  'last_quarter',
+  'this_year',
+  'current_sprint',
+] as const;
+
+export type DateRangePreset = typeof DATE_RANGE_PRESETS[number];
+
+/**
+ * Full desired configuration of a dashboard; anything not listed is removed
+ */
+export class UpdateDashboardConfigurationDto {
+  @IsBoolean()
+  isPublic: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  excludeMergeCommits?: boolean;
+
+  // Changing the type requires the type_chips feature
+  @IsOptional()
+  @IsString()
+  dashboardTypeCode?: string;
+
+  // Range the dashboard opens with; null opens the last 30 days
+  @IsOptional()
+  @IsIn(DATE_RANGE_PRESETS)
+  defaultDateRange?: DateRangePreset | null;
+
+  // First day of any sprint, e.g. 2024-01-08; 'current_sprint' needs it
+  @IsOptional()
+  @IsDateString()
+  sprintStartDate?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(56)
+  sprintLengthDays?: number;
+
+  // owner/repo
+  @IsArray()
+  @IsString({ each: true })
+  repositories: string[];
+
+  // GitHub usernames
+  @IsArray()
+  @IsString({ each: true })
+  users: string[];
+
+  // Codes of the enabled activity types, e.g. 'prs_created'
+  @IsArray()
+  @IsString({ each: true })
+  activityTypes: string[];
+}
+
+export interface DashboardConfigurationDto {
+  isPublic: boolean;
+  excludeMergeCommits: boolean;
+  dashboardTypeCode: string | null;
+  defaultDateRange: DateRangePreset | null;
+  sprintStartDate: string | null;
+  sprintLengthDays: number;
+  repositories: string[];
+  users: string[];
+  activityTypes: string[];
+}
+
+// One item of the desired configuration that couldn't be resolved or doesn't exist
+export interface ConfigurationItemErrorDto {
+  field: 'dashboardTypeCode' | 'defaultDateRange' | 'repositories' | 'users' | 'activityTypes';
+  value: string;
+  message: string;
+}
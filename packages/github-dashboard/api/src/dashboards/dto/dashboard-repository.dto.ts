@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty, Matches } from 'class-validator';
+
+export class AddRepositoryToDashboardDto {
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[\w.-]+\/[\w.-]+$/, { message: 'name must be in owner/repo format' })
+  name: string;
+}
@@ -0,0 +1,63 @@
+import { IsArray, IsDateString, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+import { DATE_RANGE_PRESETS, type DateRangePreset } from './dashboard-configuration.dto';
+
+// Fields the dashboard's users can be ranked by
+export const VIEW_SORT_FIELDS = ['totalActivity', 'prsCreated', 'prsReviewed', 'prsMerged'] as const;
+
+/**
+ * A saved view of a dashboard; filters left out show everything the dashboard tracks
+ */
+export class SaveDashboardViewDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  // A preset, or a fixed startDate and endDate; neither keeps the dashboard's default range
+  @IsOptional()
+  @IsIn(DATE_RANGE_PRESETS)
+  dateRange?: DateRangePreset;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  // GitHub usernames
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  users?: string[];
+
+  // owner/repo
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  repositories?: string[];
+
+  // Activity type codes, e.g. 'prs_created'
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  activityTypes?: string[];
+
+  @IsOptional()
+  @IsIn(VIEW_SORT_FIELDS)
+  sortBy?: typeof VIEW_SORT_FIELDS[number];
+}
+
+export interface DashboardViewDto {
+  id: string;
+  name: string;
+  dateRange: DateRangePreset | null;
+  startDate: string | null;
+  endDate: string | null;
+  users: string[] | null;
+  repositories: string[] | null;
+  activityTypes: string[] | null;
+  sortBy: string | null;
+}
@@ -1,4 +1,8 @@
 export * from './create-dashboard.dto';
 export * from './update-dashboard.dto';
 export * from './dashboard-user.dto';
+export * from './dashboard-repository.dto';
 export * from './activity-config.dto';
+export * from './dashboard-configuration.dto';
+export * from './member-import.dto';
+export * from './dashboard-view.dto';
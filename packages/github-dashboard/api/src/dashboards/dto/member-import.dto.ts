@@ -0,0 +1,52 @@
+import { IsArray, IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * GitHub organization, or one of its teams, to take dashboard members from
+ */
+export class MemberSourceDto {
+  @IsString()
+  @IsNotEmpty()
+  org: string;
+
+  // Team slug; without it the whole organization is used
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  team?: string;
+}
+
+export class ImportDashboardMembersDto extends MemberSourceDto {
+  // GitHub usernames of the selected members
+  @IsArray()
+  @IsString({ each: true })
+  usernames: string[];
+
+  // Keep the dashboard's members in sync with the source from now on
+  @IsOptional()
+  @IsBoolean()
+  keepInSync?: boolean;
+}
+
+// A member of the source as shown in the import preview
+export interface MemberImportCandidateDto {
+  githubUserId: string;
+  githubUsername: string;
+  avatarUrl: string;
+  profileUrl: string;
+  onDashboard: boolean;
+}
+
+export interface MemberSyncDto {
+  org: string;
+  team: string | null;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}
+
+export interface MemberImportResultDto {
+  // GitHub usernames added to the dashboard
+  added: string[];
+  // Selected usernames that aren't members of the source
+  errors: { value: string; message: string }[];
+  sync: MemberSyncDto | null;
+}
@@ -0,0 +1,13 @@
+import { CellValue } from './xlsx';
+
+/**
+ * One CSV line (RFC 4180): fields with commas, quotes or line breaks are quoted
+ */
+export function csvLine(values: CellValue[]): string {
+  return values.map(value => {
+    let text = value == null ? '' : String(value);
+    // Spreadsheets would evaluate text such as a display name starting with '=' as a formula
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
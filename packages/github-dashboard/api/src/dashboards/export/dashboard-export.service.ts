@@ -0,0 +1,118 @@
+import { Readable } from 'stream';
+
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException, StreamableFile } from '@nestjs/common';
+
+import { DashboardActivityConfigRepository } from '../../database/repositories/dashboard-activity-config.repository';
+import { DashboardRepository } from '../../database/repositories/dashboard.repository';
+import { GitHubService } from '../../github/github.service';
+import { GitHubUserActivitySummary } from '../../github/interfaces';
+import { ActivityCounts, ActivityTypeDefinition, ActivityTypeRegistry } from '../activity-type.registry';
+
+import { csvLine } from './csv';
+import { buildXlsx, CellValue } from './xlsx';
+
+const DEFAULT_ACTIVITY_TYPES = ['prs_created', 'prs_merged', 'prs_reviewed'];
+
+/**
+ * Per-user and per-repository activity of a dashboard as a CSV or XLSX download.
+ * The route requires the export feature; the dashboard must belong to the requesting client.
+ */
+@Injectable()
+export class DashboardExportService {
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly dashboardActivityConfigRepository: DashboardActivityConfigRepository,
+    private readonly githubService: GitHubService,
+    private readonly activityTypeRegistry: ActivityTypeRegistry
+  ) {}
+
+  async export(dashboardId: string, clientId: string, format: string, startDate?: string, endDate?: string): Promise<StreamableFile> {
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new BadRequestException(`Unsupported export format '${format}'; use csv or xlsx`);
+    }
+
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+    if (dashboard.clientId !== clientId) {
+      throw new ForbiddenException('Dashboard belongs to another client');
+    }
+
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000); // default 30d
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException('start_date and end_date must be valid dates');
+    }
+
+    const enabledCodes = await this.dashboardActivityConfigRepository.getEnabledActivityTypeCodes(dashboardId);
+    const columns = this.activityTypeRegistry.list()
+      .filter(definition => (enabledCodes.length > 0 ? enabledCodes : DEFAULT_ACTIVITY_TYPES).includes(definition.code));
+    const includeReviews = columns.some(definition => definition.code === 'prs_reviewed');
+
+    const summaries = await this.githubService.getCachedBatchUserActivitySummaryByDashboard(
+      dashboardId,
+      [],
+      start.toISOString(),
+      end.toISOString(),
+      includeReviews
+    );
+
+    const filename = `${dashboard.slug}-activity-${this.dateKey(start)}-${this.dateKey(end)}.${format}`;
+    if (format === 'xlsx') {
+      const workbook = buildXlsx([
+        { name: 'Users', rows: [...this.userRows(summaries, columns)] },
+        { name: 'Repositories', rows: [...this.repoRows(summaries, columns)] },
+      ]);
+      return new StreamableFile(workbook, {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        disposition: `attachment; filename="${filename}"`,
+        length: workbook.length,
+      });
+    }
+
+    return new StreamableFile(Readable.from(this.csvLines(summaries, columns)), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
+  /**
+   * One file for both levels: each user's totals (blank repository) followed by their per-repository rows
+   */
+  private *csvLines(summaries: GitHubUserActivitySummary[], columns: ActivityTypeDefinition[]): Generator<string> {
+    yield csvLine(['Login', 'Name', 'Repository', ...columns.map(definition => definition.displayName), 'Total Activity']);
+    for (const summary of summaries) {
+      yield csvLine([summary.user.login, summary.user.name, '', ...this.counts(summary.activity, columns)]);
+      for (const repo of summary.activity.repos) {
+        yield csvLine([summary.user.login, summary.user.name, repo.repo, ...this.counts(repo, columns)]);
+      }
+    }
+  }
+
+  private *userRows(summaries: GitHubUserActivitySummary[], columns: ActivityTypeDefinition[]): Generator<CellValue[]> {
+    yield ['Login', 'Name', ...columns.map(definition => definition.displayName), 'Total Activity', 'Error'];
+    for (const summary of summaries) {
+      yield [summary.user.login, summary.user.name, ...this.counts(summary.activity, columns), summary.error];
+    }
+  }
+
+  private *repoRows(summaries: GitHubUserActivitySummary[], columns: ActivityTypeDefinition[]): Generator<CellValue[]> {
+    yield ['Login', 'Repository', ...columns.map(definition => definition.displayName), 'Total Activity'];
+    for (const summary of summaries) {
+      for (const repo of summary.activity.repos) {
+        yield [summary.user.login, repo.repo, ...this.counts(repo, columns)];
+      }
+    }
+  }
+
+  // Exported activity types followed by their total
+  private counts(activity: ActivityCounts, columns: ActivityTypeDefinition[]): number[] {
+    const values = columns.map(definition => definition.metric(activity));
+    return [...values, values.reduce((sum, value) => sum + value, 0)];
+  }
+
+  private dateKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { Dashboard } from '../../database/entities';
+import { DashboardMemberSyncRepository } from '../../database/repositories/dashboard-member-sync.repository';
+import { DashboardUserRepository } from '../../database/repositories/dashboard-user.repository';
+import { DashboardRepository } from '../../database/repositories/dashboard.repository';
+import { GitHubUserRepository } from '../../database/repositories/github-user.repository';
+import { ImportDashboardMembersDto, MemberImportCandidateDto, MemberImportResultDto, MemberSourceDto } from '../dto';
+
+import { DashboardMemberSyncService } from './dashboard-member-sync.service';
+
+/**
+ * Bulk import of dashboard users from the members of a GitHub organization or team:
+ * a preview of the members, then adding the selected ones in one go
+ */
+@Injectable()
+export class DashboardMemberImportService {
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly dashboardUserRepository: DashboardUserRepository,
+    private readonly dashboardMemberSyncRepository: DashboardMemberSyncRepository,
+    private readonly githubUserRepository: GitHubUserRepository,
+    private readonly memberSyncService: DashboardMemberSyncService
+  ) {}
+
+  /**
+   * Members of the source, marked when they already are on the dashboard
+   */
+  async preview(dashboardId: string, source: MemberSourceDto): Promise<MemberImportCandidateDto[]> {
+    const dashboard = await this.findDashboard(dashboardId);
+    const [members, currentUsers] = await Promise.all([
+      this.memberSyncService.fetchMembers(dashboard.clientId, source.org, source.team),
+      this.dashboardUserRepository.getUsersForDashboard(dashboardId),
+    ]);
+
+    const onDashboard = new Set(currentUsers.map(({ user }) => user.githubUserId));
+    return members
+      .map(member => ({
+        githubUserId: String(member.id),
+        githubUsername: member.login,
+        avatarUrl: member.avatar_url,
+        profileUrl: member.html_url,
+        onDashboard: onDashboard.has(String(member.id)),
+      }))
+      .sort((a, b) => a.githubUsername.localeCompare(b.githubUsername));
+  }
+
+  /**
+   * Add the selected members to the dashboard. The member list is fetched again, so only current members
+   * are added; other usernames come back as errors. With keepInSync the dashboard follows the source from
+   * now on, and members left unselected stay off it.
+   */
+  async import(dashboardId: string, dto: ImportDashboardMembersDto): Promise<MemberImportResultDto> {
+    const dashboard = await this.findDashboard(dashboardId);
+    const members = await this.memberSyncService.fetchMembers(dashboard.clientId, dto.org, dto.team);
+
+    const membersByLogin = new Map(members.map(member => [member.login.toLowerCase(), member]));
+    const selected = [...new Set(dto.usernames.map(username => username.trim().toLowerCase()).filter(Boolean))];
+    const errors = selected
+      .filter(username => !membersByLogin.has(username))
+      .map(username => ({
+        value: username,
+        message: `'${username}' is not a member of ${dto.team ? `team '${dto.org}/${dto.team}'` : `organization '${dto.org}'`}`,
+      }));
+
+    const toAdd = selected.flatMap(username => membersByLogin.get(username) ?? []);
+    const records = await Promise.all(toAdd.map(member => this.githubUserRepository.upsertUser(this.memberSyncService.toProfile(member))));
+    // Synced dashboards may remove imported members again once they leave the source
+    const added = await this.dashboardUserRepository.addUsersToDashboard(dashboardId, records.map(user => user.id), !!dto.keepInSync);
+    const addedIds = new Set(added.map(relation => relation.githubUserId));
+    if (added.length > 0) {
+      await this.memberSyncService.invalidateActivity(dashboardId);
+    }
+
+    let sync: MemberImportResultDto['sync'] = null;
+    if (dto.keepInSync) {
+      sync = this.memberSyncService.toDto(await this.dashboardMemberSyncRepository.upsertForDashboard(
+        dashboardId,
+        dto.org,
+        dto.team ?? null,
+        members.map(member => String(member.id))
+      ));
+    }
+
+    return {
+      added: records.filter(user => addedIds.has(user.id)).map(user => user.githubUsername),
+      errors,
+      sync,
+    };
+  }
+
+  private async findDashboard(dashboardId: string): Promise<Dashboard> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+    return dashboard;
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { Dashboard, DashboardMemberSync } from '../../database/entities';
+import { DashboardMemberSyncRepository } from '../../database/repositories/dashboard-member-sync.repository';
+import { DashboardUserRepository } from '../../database/repositories/dashboard-user.repository';
+import { DashboardRepository } from '../../database/repositories/dashboard.repository';
+import { GitHubUserProfile, GitHubUserRepository } from '../../database/repositories/github-user.repository';
+import { CacheKeys } from '../../github/cache/cache-keys';
+import { GitHubCacheService } from '../../github/cache/github-cache.service';
+import { GitHubClientContext } from '../../github/credentials/github-client-context';
+import { DashboardActivityEvents } from '../../github/events/dashboard-activity-events.service';
+import { GitHubService } from '../../github/github.service';
+import { GitHubMember } from '../../github/interfaces';
+import { MemberSourceDto, MemberSyncDto } from '../dto';
+
+/**
+ * Keeps a dashboard's members in line with a GitHub organization or team. Each run adds members who
+ * joined since the previous run and removes departed members the sync added; users added by hand stay.
+ */
+@Injectable()
+export class DashboardMemberSyncService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DashboardMemberSyncService.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly dashboardMemberSyncRepository: DashboardMemberSyncRepository,
+    private readonly dashboardUserRepository: DashboardUserRepository,
+    private readonly githubUserRepository: GitHubUserRepository,
+    private readonly githubService: GitHubService,
+    private readonly cacheService: GitHubCacheService,
+    private readonly activityEvents: DashboardActivityEvents,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.configService.get<boolean>('github.sync.enabled', true)) {
+      this.logger.log('Background member sync disabled');
+      return;
+    }
+
+    const intervalMs = this.configService.get<number>('github.sync.memberIntervalMs', 60 * 60 * 1000);
+    this.timer = setInterval(() => void this.syncAll(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Background member sync every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  async syncAll(): Promise<void> {
+    // Skip overlapping runs when a sync takes longer than the interval
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const sync of await this.dashboardMemberSyncRepository.findAllWithClient()) {
+        try {
+          const result = await this.reconcile(sync, sync.clientId);
+          this.logger.log(`Synced members of dashboard ${sync.dashboardId}: ${result.added} added, ${result.removed} removed`);
+        } catch (error: unknown) {
+          this.logger.warn(`Member sync failed for dashboard ${sync.dashboardId}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Members of a GitHub organization or team, fetched with the credentials of the dashboard's client
+   */
+  async fetchMembers(clientId: string | null, org: string, teamSlug?: string | null): Promise<GitHubMember[]> {
+    const members = await GitHubClientContext.run(clientId, () => teamSlug
+      ? this.githubService.getTeamMembers(org, teamSlug)
+      : this.githubService.getOrganizationMembers(org));
+    // Bots and organizations can't be tracked as dashboard users
+    return members.filter(member => member.type === 'User');
+  }
+
+  async getSync(dashboardId: string): Promise<MemberSyncDto | null> {
+    await this.findDashboard(dashboardId);
+    const sync = await this.dashboardMemberSyncRepository.findByDashboardId(dashboardId);
+    return sync ? this.toDto(sync) : null;
+  }
+
+  /**
+   * Keep a dashboard in sync with an organization or team and add all of its current members right away
+   */
+  async setSync(dashboardId: string, source: MemberSourceDto): Promise<MemberSyncDto> {
+    const dashboard = await this.findDashboard(dashboardId);
+    // Unknown or inaccessible sources fail with the GitHub error before anything is saved
+    const members = await this.fetchMembers(dashboard.clientId, source.org, source.team);
+
+    const sync = await this.dashboardMemberSyncRepository.upsertForDashboard(dashboardId, source.org, source.team ?? null);
+    await this.applyMembers(sync, members);
+    return this.toDto(await this.dashboardMemberSyncRepository.findByDashboardId(dashboardId) ?? sync);
+  }
+
+  /**
+   * Stop syncing a dashboard's members; the users already on it stay
+   */
+  async deleteSync(dashboardId: string): Promise<void> {
+    await this.findDashboard(dashboardId);
+    await this.dashboardMemberSyncRepository.deleteForDashboard(dashboardId);
+  }
+
+  /**
+   * Sync a dashboard with the current members of its source; failures are recorded on the sync and rethrown
+   */
+  async reconcile(sync: DashboardMemberSync, clientId: string | null): Promise<{ added: number; removed: number }> {
+    try {
+      return await this.applyMembers(sync, await this.fetchMembers(clientId, sync.org, sync.teamSlug));
+    } catch (error: unknown) {
+      await this.dashboardMemberSyncRepository.recordFailure(sync.id, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  toProfile(member: GitHubMember): GitHubUserProfile {
+    return {
+      githubUserId: String(member.id),
+      githubUsername: member.login,
+      avatarUrl: member.avatar_url,
+      profileUrl: member.html_url,
+    };
+  }
+
+  toDto(sync: DashboardMemberSync): MemberSyncDto {
+    return {
+      org: sync.org,
+      team: sync.teamSlug,
+      lastSyncedAt: sync.lastSyncedAt,
+      lastError: sync.lastError,
+    };
+  }
+
+  /**
+   * Add members who joined since the last run and remove departed members the sync added
+   */
+  private async applyMembers(sync: DashboardMemberSync, members: GitHubMember[]): Promise<{ added: number; removed: number }> {
+    const memberIds = members.map(member => String(member.id));
+    const previousIds = new Set(sync.memberIds ?? []);
+    const currentUsers = await this.dashboardUserRepository.getUsersForDashboard(sync.dashboardId);
+    const onDashboard = new Set(currentUsers.map(({ user }) => user.githubUserId));
+
+    // Members deselected at import time were already seen, so they aren't added behind the user's back
+    const joined = members.filter(member => !previousIds.has(String(member.id)) && !onDashboard.has(String(member.id)));
+    const records = await Promise.all(joined.map(member => this.githubUserRepository.upsertUser(this.toProfile(member))));
+    const added = await this.dashboardUserRepository.addUsersToDashboard(sync.dashboardId, records.map(user => user.id), true);
+
+    const stillMembers = new Set(memberIds);
+    const removed = await this.dashboardUserRepository.removeSyncedUsers(
+      sync.dashboardId,
+      currentUsers.filter(({ addedBySync, user }) => addedBySync && !stillMembers.has(user.githubUserId)).map(({ user }) => user.id)
+    );
+
+    await this.dashboardMemberSyncRepository.recordSuccess(sync.id, memberIds);
+    if (added.length > 0 || removed > 0) {
+      await this.invalidateActivity(sync.dashboardId);
+    }
+    return { added: added.length, removed };
+  }
+
+  /**
+   * Drop the dashboard's cached batch activity after its users changed, and tell open event streams to recompute
+   */
+  async invalidateActivity(dashboardId: string): Promise<void> {
+    await this.cacheService.deleteByPrefix(CacheKeys.dashboardBatchPrefix(dashboardId));
+    this.activityEvents.publish({ type: 'invalidated', dashboardId });
+  }
+
+  private async findDashboard(dashboardId: string): Promise<Dashboard> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+    return dashboard;
+  }
+}
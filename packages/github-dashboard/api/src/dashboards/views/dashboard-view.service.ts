@@ -0,0 +1,112 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { Dashboard, DashboardView } from '../../database/entities';
+import { DashboardViewRepository } from '../../database/repositories/dashboard-view.repository';
+import { DashboardRepository } from '../../database/repositories/dashboard.repository';
+import { DashboardViewDto, DateRangePreset, SaveDashboardViewDto } from '../dto';
+
+/**
+ * Named filter views of a dashboard, shared by everyone who can see it
+ */
+@Injectable()
+export class DashboardViewService {
+  constructor(
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly dashboardViewRepository: DashboardViewRepository
+  ) {}
+
+  async listViews(dashboardId: string): Promise<DashboardViewDto[]> {
+    await this.findDashboard(dashboardId);
+    const views = await this.dashboardViewRepository.findByDashboardId(dashboardId);
+    return views.map(view => this.toDto(view));
+  }
+
+  async createView(dashboardId: string, dto: SaveDashboardViewDto): Promise<DashboardViewDto> {
+    const dashboard = await this.findDashboard(dashboardId);
+    this.validateDateRange(dashboard, dto);
+    await this.assertNameAvailable(dashboardId, dto.name);
+
+    const view = await this.dashboardViewRepository.create({ dashboardId, ...this.toRecord(dto) });
+    return this.toDto(view);
+  }
+
+  /**
+   * Replace a saved view's name and filters
+   */
+  async updateView(dashboardId: string, viewId: string, dto: SaveDashboardViewDto): Promise<DashboardViewDto> {
+    const dashboard = await this.findDashboard(dashboardId);
+    this.validateDateRange(dashboard, dto);
+    await this.assertNameAvailable(dashboardId, dto.name, viewId);
+
+    const view = await this.dashboardViewRepository.updateForDashboard(dashboardId, viewId, this.toRecord(dto));
+    if (!view) {
+      throw new NotFoundException(`View with ID '${viewId}' not found on this dashboard`);
+    }
+    return this.toDto(view);
+  }
+
+  async deleteView(dashboardId: string, viewId: string): Promise<void> {
+    await this.findDashboard(dashboardId);
+    const deleted = await this.dashboardViewRepository.deleteForDashboard(dashboardId, viewId);
+    if (!deleted) {
+      throw new NotFoundException(`View with ID '${viewId}' not found on this dashboard`);
+    }
+  }
+
+  private validateDateRange(dashboard: Dashboard, dto: SaveDashboardViewDto): void {
+    if (dto.dateRange && (dto.startDate || dto.endDate)) {
+      throw new BadRequestException('Use either a date range preset or fixed dates, not both');
+    }
+    if (!dto.startDate !== !dto.endDate) {
+      throw new BadRequestException('A fixed date range needs both startDate and endDate');
+    }
+    if (dto.startDate && dto.endDate && dto.startDate > dto.endDate) {
+      throw new BadRequestException('startDate must not be after endDate');
+    }
+    if (dto.dateRange === 'current_sprint' && !dashboard.sprintStartDate) {
+      throw new BadRequestException('The current sprint range needs a sprint start date on the dashboard');
+    }
+  }
+
+  private async assertNameAvailable(dashboardId: string, name: string, viewId?: string): Promise<void> {
+    const existing = await this.dashboardViewRepository.findByName(dashboardId, name);
+    if (existing && existing.id !== viewId) {
+      throw new ConflictException(`A view named '${name}' already exists on this dashboard`);
+    }
+  }
+
+  private toRecord(dto: SaveDashboardViewDto) {
+    return {
+      name: dto.name,
+      dateRange: dto.dateRange ?? null,
+      startDate: dto.startDate ?? null,
+      endDate: dto.endDate ?? null,
+      users: dto.users ?? null,
+      repositories: dto.repositories ?? null,
+      activityTypes: dto.activityTypes ?? null,
+      sortBy: dto.sortBy ?? null,
+    };
+  }
+
+  private toDto(view: DashboardView): DashboardViewDto {
+    return {
+      id: view.id,
+      name: view.name,
+      dateRange: view.dateRange as DateRangePreset | null,
+      startDate: view.startDate,
+      endDate: view.endDate,
+      users: view.users,
+      repositories: view.repositories,
+      activityTypes: view.activityTypes,
+      sortBy: view.sortBy,
+    };
+  }
+
+  private async findDashboard(dashboardId: string): Promise<Dashboard> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    if (!dashboard) {
+      throw new NotFoundException(`Dashboard with ID '${dashboardId}' not found`);
+    }
+    return dashboard;
+  }
+}
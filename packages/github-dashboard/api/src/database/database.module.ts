@@ -2,11 +2,20 @@ import { Global, Module } from '@nestjs/common';
 
 import { DatabaseConnection } from './connection';
 import { ActivityTypeRepository } from './repositories/activity-type.repository';
+import { ClientMembershipRepository } from './repositories/client-membership.repository';
+import { ClientRepository } from './repositories/client.repository';
 import { DashboardActivityConfigRepository } from './repositories/dashboard-activity-config.repository';
+import { DashboardMemberSyncRepository } from './repositories/dashboard-member-sync.repository';
 import { DashboardRepositoryRepository } from './repositories/dashboard-repository.repository';
 import { DashboardUserRepository } from './repositories/dashboard-user.repository';
+import { DashboardViewRepository } from './repositories/dashboard-view.repository';
 import { DashboardRepository } from './repositories/dashboard.repository';
+import { GitHubCredentialRepository } from './repositories/github-credential.repository';
 import { GitHubUserRepository } from './repositories/github-user.repository';
+import { PullRequestRepository } from './repositories/pull-request.repository';
+import { RepositoryRepository } from './repositories/repository.repository';
+import { UserAccountRepository } from './repositories/user-account.repository';
+import { WebhookDeliveryRepository } from './repositories/webhook-delivery.repository';
 
 @Global()
 @Module({
@@ -21,6 +30,15 @@ import { GitHubUserRepository } from './repositories/github-user.repository';
     DashboardRepositoryRepository,
     ActivityTypeRepository,
     DashboardActivityConfigRepository,
+    RepositoryRepository,
+    PullRequestRepository,
+    ClientRepository,
+    GitHubCredentialRepository,
+    WebhookDeliveryRepository,
+    UserAccountRepository,
+    ClientMembershipRepository,
+    DashboardMemberSyncRepository,
+    DashboardViewRepository,
   ],
   exports: [
     DatabaseConnection,
@@ -30,6 +48,15 @@ import { GitHubUserRepository } from './repositories/github-user.repository';
     DashboardRepositoryRepository,
     ActivityTypeRepository,
     DashboardActivityConfigRepository,
+    RepositoryRepository,
+    PullRequestRepository,
+    ClientRepository,
+    GitHubCredentialRepository,
+    WebhookDeliveryRepository,
+    UserAccountRepository,
+    ClientMembershipRepository,
+    DashboardMemberSyncRepository,
+    DashboardViewRepository,
   ],
 })
 export class DatabaseModule {}
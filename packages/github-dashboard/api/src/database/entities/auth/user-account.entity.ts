@@ -0,0 +1,17 @@
+import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+// People who sign in to the dashboard app, with a local password, a GitHub account or both
+export const userAccount = pgTable('user_account', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  email: varchar('email', { length: 255 }).unique(), // Stored lowercase; null for GitHub accounts without a public email
+  displayName: varchar('display_name', { length: 255 }),
+  passwordHash: varchar('password_hash', { length: 255 }), // scrypt; null when the account only signs in with GitHub
+  githubUserId: varchar('github_user_id', { length: 50 }).unique(), // GitHub user ID (immutable)
+  githubUsername: varchar('github_username', { length: 255 }),
+  avatarUrl: varchar('avatar_url', { length: 500 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export type UserAccount = typeof userAccount.$inferSelect;
+export type NewUserAccount = typeof userAccount.$inferInsert;
@@ -0,0 +1,21 @@
+import { pgTable, uuid, varchar, timestamp, unique, index } from 'drizzle-orm/pg-core';
+
+import { userAccount } from '../auth/user-account.entity';
+
+import { client } from './client.entity';
+
+// A user's role in a client (tenant): 'viewer' | 'editor' | 'admin'
+export const clientMembership = pgTable('client_membership', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientId: uuid('client_id').notNull().references(() => client.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => userAccount.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 16 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  clientUserUnique: unique('client_membership_client_user_unique').on(table.clientId, table.userId),
+  userIdx: index('client_membership_user_id_idx').on(table.userId),
+}));
+
+export type ClientMembership = typeof clientMembership.$inferSelect;
+export type NewClientMembership = typeof clientMembership.$inferInsert;
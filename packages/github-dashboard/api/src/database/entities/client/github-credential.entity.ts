@@ -0,0 +1,22 @@
+import { pgTable, uuid, varchar, text, timestamp, index } from 'drizzle-orm/pg-core';
+
+import { client } from './client.entity';
+
+// GitHub credentials owned by a client; secrets are stored AES-256-GCM encrypted
+export const githubCredential = pgTable('github_credential', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientId: uuid('client_id').notNull().references(() => client.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 32 }).notNull(), // 'pat' | 'app_installation'
+  label: varchar('label', { length: 255 }),
+  encryptedToken: text('encrypted_token'), // PAT
+  appId: varchar('app_id', { length: 64 }), // GitHub App installation
+  installationId: varchar('installation_id', { length: 64 }),
+  encryptedPrivateKey: text('encrypted_private_key'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  clientIdx: index('github_credential_client_id_idx').on(table.clientId),
+}));
+
+export type GitHubCredential = typeof githubCredential.$inferSelect;
+export type NewGitHubCredential = typeof githubCredential.$inferInsert;
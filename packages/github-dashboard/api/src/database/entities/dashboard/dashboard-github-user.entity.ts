@@ -1,4 +1,4 @@
-import { pgTable, uuid, timestamp, unique } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, boolean, timestamp, unique } from 'drizzle-orm/pg-core';
 
 import { githubUser } from '../github/github-user.entity';
 
@@ -10,6 +10,8 @@ export const dashboardGithubUser = pgTable('dashboard_github_user', {
   dashboardId: uuid('dashboard_id').references(() => dashboard.id, { onDelete: 'cascade' }).notNull(),
   githubUserId: uuid('github_user_id').references(() => githubUser.id, { onDelete: 'cascade' }).notNull(),
   addedAt: timestamp('added_at').defaultNow(),
+  // Added by the dashboard's member sync, which may also remove it again
+  addedBySync: boolean('added_by_sync').notNull().default(false),
 }, (table) => ({
   // Ensure unique combination of dashboard and GitHub user
   uniqueDashboardUser: unique().on(table.dashboardId, table.githubUserId),
@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, text, timestamp } from 'drizzle-orm/pg-core';
+
+import { dashboard } from './dashboard.entity';
+
+// GitHub organization or team whose members a dashboard keeps in sync; one source per dashboard
+export const dashboardMemberSync = pgTable('dashboard_member_sync', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  dashboardId: uuid('dashboard_id').references(() => dashboard.id, { onDelete: 'cascade' }).notNull().unique(),
+  org: varchar('org', { length: 255 }).notNull(),
+  teamSlug: varchar('team_slug', { length: 255 }), // null syncs the whole organization
+  // GitHub user ids of the members at the last sync; only members who joined since are added
+  memberIds: text('member_ids').array(),
+  lastSyncedAt: timestamp('last_synced_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at'),
+});
+
+export type DashboardMemberSync = typeof dashboardMemberSync.$inferSelect;
+export type NewDashboardMemberSync = typeof dashboardMemberSync.$inferInsert;
@@ -0,0 +1,26 @@
+import { pgTable, uuid, varchar, text, date, timestamp, unique } from 'drizzle-orm/pg-core';
+
+import { dashboard } from './dashboard.entity';
+
+// Named filter view of a dashboard: a date range and a subset of its users, repositories and activity types
+export const dashboardView = pgTable('dashboard_view', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  dashboardId: uuid('dashboard_id').references(() => dashboard.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  // A preset such as 'this_quarter', or a fixed start and end date; neither keeps the dashboard's default range
+  dateRange: varchar('date_range', { length: 32 }),
+  startDate: date('start_date', { mode: 'string' }),
+  endDate: date('end_date', { mode: 'string' }),
+  // null shows everything the dashboard tracks
+  users: text('users').array(),
+  repositories: text('repositories').array(),
+  activityTypes: text('activity_types').array(),
+  sortBy: varchar('sort_by', { length: 32 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at'),
+}, (table) => ({
+  uniqueDashboardViewName: unique('dashboard_view_dashboard_id_name_unique').on(table.dashboardId, table.name),
+}));
+
+export type DashboardView = typeof dashboardView.$inferSelect;
+export type NewDashboardView = typeof dashboardView.$inferInsert;
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, boolean, date, integer, timestamp } from 'drizzle-orm/pg-core';
 
 import { client } from '../client/client.entity';
 
@@ -13,6 +13,13 @@ export const dashboard = pgTable('dashboard', {
   isPublic: boolean('is_public').default(true),
   clientId: uuid('client_id').references(() => client.id),
   dashboardTypeId: uuid('dashboard_type_id').references(() => dashboardTypes.id),
+  // Leave merge commits out of the commits activity type
+  excludeMergeCommits: boolean('exclude_merge_commits').notNull().default(false),
+  // Date range preset the dashboard opens with, e.g. 'last_14_days'; null opens the last 30 days
+  defaultDateRange: varchar('default_date_range', { length: 32 }),
+  // Any sprint's first day and the sprint length, which place the 'current_sprint' range
+  sprintStartDate: date('sprint_start_date', { mode: 'string' }),
+  sprintLengthDays: integer('sprint_length_days').notNull().default(14),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at'),
 });
@@ -3,7 +3,7 @@ import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
 // Activity Types table - lookup table for available activity types
 export const activityType = pgTable('activity_type', {
   id: uuid('id').primaryKey().defaultRandom(),
-  code: varchar('name', { length: 100 }).notNull().unique(), // e.g., 'prs_opened', 'pr_reviews'
+  code: varchar('code', { length: 100 }).notNull().unique(), // e.g., 'prs_created', 'commits'
   displayName: varchar('display_name', { length: 100 }).notNull(), // e.g., 'PRs Opened', 'PR Reviews'
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
@@ -0,0 +1,21 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+
+import { pullRequest } from './pull-request.entity';
+import { repository } from './repository.entity';
+
+// Merge Events table - one row per merged pull request
+export const mergeEvent = pgTable('merge_event', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  pullRequestId: uuid('pull_request_id').notNull().unique().references(() => pullRequest.id, { onDelete: 'cascade' }),
+  repositoryId: uuid('repository_id').notNull().references(() => repository.id, { onDelete: 'cascade' }),
+  mergedByGithubId: varchar('merged_by_github_id', { length: 255 }), // only known from PR details or webhooks
+  mergedByLogin: varchar('merged_by_login', { length: 255 }),
+  mergeCommitSha: varchar('merge_commit_sha', { length: 64 }),
+  mergedAt: timestamp('merged_at').notNull(),
+}, (table) => ({
+  repoMergedIdx: index('me_repository_id_merged_at_idx').on(table.repositoryId, table.mergedAt),
+}));
+
+// Export types for TypeScript
+export type MergeEvent = typeof mergeEvent.$inferSelect;
+export type NewMergeEvent = typeof mergeEvent.$inferInsert;
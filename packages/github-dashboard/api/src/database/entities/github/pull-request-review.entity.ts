@@ -0,0 +1,22 @@
+import { pgTable, uuid, varchar, bigint, timestamp, index } from 'drizzle-orm/pg-core';
+
+import { pullRequest } from './pull-request.entity';
+import { repository } from './repository.entity';
+
+// Pull Request Reviews table - submitted reviews synced from GitHub
+export const pullRequestReview = pgTable('pull_request_review', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  pullRequestId: uuid('pull_request_id').notNull().references(() => pullRequest.id, { onDelete: 'cascade' }),
+  repositoryId: uuid('repository_id').notNull().references(() => repository.id, { onDelete: 'cascade' }),
+  githubReviewId: bigint('github_review_id', { mode: 'number' }).notNull().unique(),
+  reviewerGithubId: varchar('reviewer_github_id', { length: 255 }),
+  reviewerLogin: varchar('reviewer_login', { length: 255 }),
+  state: varchar('state', { length: 30 }).notNull(), // e.g., 'APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'
+  submittedAt: timestamp('submitted_at'),
+}, (table) => ({
+  repoSubmittedIdx: index('prr_repository_id_submitted_at_idx').on(table.repositoryId, table.submittedAt),
+}));
+
+// Export types for TypeScript
+export type PullRequestReview = typeof pullRequestReview.$inferSelect;
+export type NewPullRequestReview = typeof pullRequestReview.$inferInsert;
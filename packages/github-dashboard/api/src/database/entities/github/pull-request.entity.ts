@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, integer, bigint, timestamp, unique, index } from 'drizzle-orm/pg-core';
+
+import { repository } from './repository.entity';
+
+// Pull Requests table - PRs synced from GitHub per repository
+export const pullRequest = pgTable('pull_request', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  repositoryId: uuid('repository_id').notNull().references(() => repository.id, { onDelete: 'cascade' }),
+  githubPrId: bigint('github_pr_id', { mode: 'number' }).notNull().unique(),
+  number: integer('number').notNull(),
+  title: varchar('title', { length: 1024 }).notNull(),
+  state: varchar('state', { length: 20 }).notNull(), // 'open' | 'closed'
+  authorGithubId: varchar('author_github_id', { length: 255 }), // null for deleted (ghost) accounts
+  authorLogin: varchar('author_login', { length: 255 }),
+  githubCreatedAt: timestamp('github_created_at').notNull(),
+  githubUpdatedAt: timestamp('github_updated_at').notNull(),
+  closedAt: timestamp('closed_at'),
+  mergedAt: timestamp('merged_at'),
+  syncedAt: timestamp('synced_at').defaultNow(),
+}, (table) => ({
+  uniqueRepoNumber: unique('pr_repository_id_number_unique').on(table.repositoryId, table.number),
+  repoCreatedIdx: index('pr_repository_id_github_created_at_idx').on(table.repositoryId, table.githubCreatedAt),
+}));
+
+// Export types for TypeScript
+export type PullRequest = typeof pullRequest.$inferSelect;
+export type NewPullRequest = typeof pullRequest.$inferInsert;
@@ -1,4 +1,6 @@
-import { pgTable, uuid, varchar, integer, } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, integer, boolean, timestamp } from 'drizzle-orm/pg-core';
+
+import { client } from '../client/client.entity';
 
 // Repository table - stores unique repository information
 export const repository = pgTable('repository', {
@@ -7,6 +9,22 @@ export const repository = pgTable('repository', {
   name: varchar('name', { length: 255 }).notNull(),
   owner: varchar('owner', { length: 255 }).notNull(),
   fullName: varchar('full_name', { length: 255 }).notNull(),
+  // Metadata from GitHub, refreshed whenever the repository is added to a dashboard
+  description: text('description'),
+  language: varchar('language', { length: 100 }),
+  visibility: varchar('visibility', { length: 20 }), // 'public' | 'private' | 'internal'
+  archived: boolean('archived').notNull().default(false),
+  topics: text('topics').array(),
+  pushedAt: timestamp('pushed_at'),
+  // Incremental sync watermark: highest PR updated_at already stored
+  syncWatermark: timestamp('sync_watermark'),
+  // A sync that hit its page cap continues from this page; the watermark advances to the
+  // resume watermark (newest PR updated_at it saw) once the remaining pages are stored
+  syncResumePage: integer('sync_resume_page'),
+  syncResumeWatermark: timestamp('sync_resume_watermark'),
+  // Client whose credentials synced the stored PRs (null: the deployment's); only its dashboards read them
+  syncClientId: uuid('sync_client_id').references(() => client.id),
+  lastSyncedAt: timestamp('last_synced_at'),
 });
 
 // Export types for TypeScript
@@ -0,0 +1,11 @@
+import { pgTable, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+// GitHub webhook deliveries already processed, keyed by X-GitHub-Delivery, so replays are ignored
+export const webhookDelivery = pgTable('webhook_delivery', {
+  deliveryId: varchar('delivery_id', { length: 64 }).primaryKey(),
+  event: varchar('event', { length: 64 }).notNull(),
+  receivedAt: timestamp('received_at').defaultNow(),
+});
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDelivery.$inferInsert;
@@ -11,13 +11,24 @@ export * from './dashboard/dashboard-type.entity';
 export * from './dashboard/dashboard-activity-config.entity';
 export * from './dashboard/dashboard-github-user.entity';
 export * from './dashboard/dashboard-repository.entity';
+export * from './dashboard/dashboard-member-sync.entity';
+export * from './dashboard/dashboard-view.entity';
 
 // GitHub entities
 export * from './github/github-user.entity';
 export * from './github/activity-type.entity';
 export * from './github/repository.entity';
+export * from './github/pull-request.entity';
+export * from './github/pull-request-review.entity';
+export * from './github/merge-event.entity';
+export * from './github/webhook-delivery.entity';
 
 // Client entities
 export * from './client/client.entity';
+export * from './client/github-credential.entity';
+export * from './client/client-membership.entity';
+
+// Auth entities
+export * from './auth/user-account.entity';
 
 
@@ -0,0 +1,51 @@
+CREATE TABLE "pull_request" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"repository_id" uuid NOT NULL,
+	"github_pr_id" bigint NOT NULL,
+	"number" integer NOT NULL,
+	"title" varchar(1024) NOT NULL,
+	"state" varchar(20) NOT NULL,
+	"author_github_id" varchar(255),
+	"author_login" varchar(255),
+	"github_created_at" timestamp NOT NULL,
+	"github_updated_at" timestamp NOT NULL,
+	"closed_at" timestamp,
+	"merged_at" timestamp,
+	"synced_at" timestamp DEFAULT now(),
+	CONSTRAINT "pull_request_github_pr_id_unique" UNIQUE("github_pr_id"),
+	CONSTRAINT "pr_repository_id_number_unique" UNIQUE("repository_id","number")
+);
+--> statement-breakpoint
+CREATE TABLE "pull_request_review" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pull_request_id" uuid NOT NULL,
+	"repository_id" uuid NOT NULL,
+	"github_review_id" bigint NOT NULL,
+	"reviewer_github_id" varchar(255),
+	"reviewer_login" varchar(255),
+	"state" varchar(30) NOT NULL,
+	"submitted_at" timestamp,
+	CONSTRAINT "pull_request_review_github_review_id_unique" UNIQUE("github_review_id")
+);
+--> statement-breakpoint
+CREATE TABLE "merge_event" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pull_request_id" uuid NOT NULL,
+	"repository_id" uuid NOT NULL,
+	"merged_by_github_id" varchar(255),
+	"merged_by_login" varchar(255),
+	"merge_commit_sha" varchar(64),
+	"merged_at" timestamp NOT NULL,
+	CONSTRAINT "merge_event_pull_request_id_unique" UNIQUE("pull_request_id")
+);
+--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "sync_watermark" timestamp;--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "last_synced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pull_request" ADD CONSTRAINT "pull_request_repository_id_repository_id_fk" FOREIGN KEY ("repository_id") REFERENCES "public"."repository"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pull_request_review" ADD CONSTRAINT "pull_request_review_pull_request_id_pull_request_id_fk" FOREIGN KEY ("pull_request_id") REFERENCES "public"."pull_request"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pull_request_review" ADD CONSTRAINT "pull_request_review_repository_id_repository_id_fk" FOREIGN KEY ("repository_id") REFERENCES "public"."repository"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_event" ADD CONSTRAINT "merge_event_pull_request_id_pull_request_id_fk" FOREIGN KEY ("pull_request_id") REFERENCES "public"."pull_request"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_event" ADD CONSTRAINT "merge_event_repository_id_repository_id_fk" FOREIGN KEY ("repository_id") REFERENCES "public"."repository"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "pr_repository_id_github_created_at_idx" ON "pull_request" USING btree ("repository_id","github_created_at");--> statement-breakpoint
+CREATE INDEX "prr_repository_id_submitted_at_idx" ON "pull_request_review" USING btree ("repository_id","submitted_at");--> statement-breakpoint
+CREATE INDEX "me_repository_id_merged_at_idx" ON "merge_event" USING btree ("repository_id","merged_at");
\ No newline at end of file
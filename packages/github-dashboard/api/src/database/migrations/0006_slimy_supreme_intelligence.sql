@@ -0,0 +1,15 @@
+CREATE TABLE "github_credential" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_id" uuid NOT NULL,
+	"kind" varchar(32) NOT NULL,
+	"label" varchar(255),
+	"encrypted_token" text,
+	"app_id" varchar(64),
+	"installation_id" varchar(64),
+	"encrypted_private_key" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "github_credential" ADD CONSTRAINT "github_credential_client_id_client_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."client"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "github_credential_client_id_idx" ON "github_credential" USING btree ("client_id");
\ No newline at end of file
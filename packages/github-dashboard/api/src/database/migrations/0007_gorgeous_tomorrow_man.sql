@@ -0,0 +1,5 @@
+CREATE TABLE "webhook_delivery" (
+	"delivery_id" varchar(64) PRIMARY KEY NOT NULL,
+	"event" varchar(64) NOT NULL,
+	"received_at" timestamp DEFAULT now()
+);
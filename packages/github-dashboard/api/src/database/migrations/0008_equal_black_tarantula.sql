@@ -0,0 +1,13 @@
+ALTER TABLE "dashboard" ADD COLUMN "exclude_merge_commits" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+INSERT INTO public.activity_type (id, code, display_name)
+VALUES ('80a0d984-8d19-4b9d-b524-d8779848da50', 'commits', 'Commits')
+ON CONFLICT (id) DO NOTHING;--> statement-breakpoint
+INSERT INTO public.activity_type (id, code, display_name)
+VALUES ('0bde2bf5-9bff-492c-8842-2fb48f49854d', 'issues_opened', 'Issues Opened')
+ON CONFLICT (id) DO NOTHING;--> statement-breakpoint
+INSERT INTO public.activity_type (id, code, display_name)
+VALUES ('82dea739-a917-478d-a3b0-907cf5887ded', 'issues_closed', 'Issues Closed')
+ON CONFLICT (id) DO NOTHING;--> statement-breakpoint
+INSERT INTO public.activity_type (id, code, display_name)
+VALUES ('aa6b6263-9f5c-43c3-b9ef-5cd2148a0a06', 'issues_commented', 'Issues Commented')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,31 @@
+CREATE TABLE "client_membership" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(16) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "client_membership_client_user_unique" UNIQUE("client_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "user_account" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255),
+	"display_name" varchar(255),
+	"password_hash" varchar(255),
+	"github_user_id" varchar(50),
+	"github_username" varchar(255),
+	"avatar_url" varchar(500),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_account_email_unique" UNIQUE("email"),
+	CONSTRAINT "user_account_github_user_id_unique" UNIQUE("github_user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "client_membership" ADD CONSTRAINT "client_membership_client_id_client_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."client"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_membership" ADD CONSTRAINT "client_membership_user_id_user_account_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "client_membership_user_id_idx" ON "client_membership" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "client_membership" ADD CONSTRAINT "client_membership_role_check" CHECK ("role" IN ('viewer', 'editor', 'admin'));--> statement-breakpoint
+-- Accounts and memberships are managed through /api/auth and /api/clients/:clientId/members, not PostGraphile
+COMMENT ON TABLE "user_account" IS E'@omit';--> statement-breakpoint
+COMMENT ON TABLE "client_membership" IS E'@omit';
@@ -0,0 +1,52 @@
+-- PostGraphile runs every request as github_dashboard_web with the session's client and role in
+-- jwt.claims.* settings; the API's own connection (the table owner) is not subject to these policies
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'github_dashboard_web') THEN
+    CREATE ROLE github_dashboard_web NOLOGIN;
+  END IF;
+END
+$$;--> statement-breakpoint
+GRANT github_dashboard_web TO CURRENT_USER;--> statement-breakpoint
+GRANT USAGE ON SCHEMA public TO github_dashboard_web;--> statement-breakpoint
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO github_dashboard_web;--> statement-breakpoint
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO github_dashboard_web;--> statement-breakpoint
+-- Tenants, tiers and type lookups are read-only through GraphQL; accounts and credentials are API-only
+REVOKE INSERT, UPDATE, DELETE ON "client", "tier_type", "feature", "tier_type_feature", "dashboard_type", "activity_type" FROM github_dashboard_web;--> statement-breakpoint
+REVOKE ALL ON "user_account", "client_membership", "github_credential", "webhook_delivery" FROM github_dashboard_web;--> statement-breakpoint
+COMMENT ON TABLE "github_credential" IS E'@omit';--> statement-breakpoint
+COMMENT ON TABLE "webhook_delivery" IS E'@omit';--> statement-breakpoint
+CREATE SCHEMA IF NOT EXISTS app_private;--> statement-breakpoint
+GRANT USAGE ON SCHEMA app_private TO github_dashboard_web;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION app_private.current_client_id() RETURNS uuid AS $$
+  SELECT nullif(current_setting('jwt.claims.client_id', true), '')::uuid
+$$ LANGUAGE sql STABLE;--> statement-breakpoint
+-- Editors and admins of the session's client may change its dashboards
+CREATE OR REPLACE FUNCTION app_private.current_client_can_edit() RETURNS boolean AS $$
+  SELECT coalesce(current_setting('jwt.claims.role', true), '') IN ('editor', 'admin')
+$$ LANGUAGE sql STABLE;--> statement-breakpoint
+ALTER TABLE "dashboard" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+-- Dashboards without a client (created through the REST API) stay readable by everyone
+CREATE POLICY dashboard_select ON "dashboard" FOR SELECT
+  USING ("client_id" IS NULL OR "client_id" = app_private.current_client_id());--> statement-breakpoint
+CREATE POLICY dashboard_modify ON "dashboard" FOR ALL
+  USING ("client_id" = app_private.current_client_id() AND app_private.current_client_can_edit())
+  WITH CHECK ("client_id" = app_private.current_client_id() AND app_private.current_client_can_edit());--> statement-breakpoint
+ALTER TABLE "dashboard_github_user" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY dashboard_github_user_select ON "dashboard_github_user" FOR SELECT
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id"));--> statement-breakpoint
+CREATE POLICY dashboard_github_user_modify ON "dashboard_github_user" FOR ALL
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit())
+  WITH CHECK (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit());--> statement-breakpoint
+ALTER TABLE "dashboard_repository" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY dashboard_repository_select ON "dashboard_repository" FOR SELECT
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id"));--> statement-breakpoint
+CREATE POLICY dashboard_repository_modify ON "dashboard_repository" FOR ALL
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit())
+  WITH CHECK (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit());--> statement-breakpoint
+ALTER TABLE "dashboard_activity_config" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY dashboard_activity_config_select ON "dashboard_activity_config" FOR SELECT
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id"));--> statement-breakpoint
+CREATE POLICY dashboard_activity_config_modify ON "dashboard_activity_config" FOR ALL
+  USING (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit())
+  WITH CHECK (EXISTS (SELECT 1 FROM "dashboard" d WHERE d."id" = "dashboard_id" AND d."client_id" = app_private.current_client_id()) AND app_private.current_client_can_edit());
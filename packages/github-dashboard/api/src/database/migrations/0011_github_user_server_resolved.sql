@@ -0,0 +1,2 @@
+-- GitHub users are resolved to their immutable ids by the API; GraphQL may read them but not write them
+REVOKE INSERT, UPDATE, DELETE ON "github_user" FROM github_dashboard_web;
@@ -0,0 +1,17 @@
+CREATE TABLE "dashboard_member_sync" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dashboard_id" uuid NOT NULL,
+	"org" varchar(255) NOT NULL,
+	"team_slug" varchar(255),
+	"member_ids" text[],
+	"last_synced_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp,
+	CONSTRAINT "dashboard_member_sync_dashboard_id_unique" UNIQUE("dashboard_id")
+);
+--> statement-breakpoint
+ALTER TABLE "dashboard_github_user" ADD COLUMN "added_by_sync" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "dashboard_member_sync" ADD CONSTRAINT "dashboard_member_sync_dashboard_id_dashboard_id_fk" FOREIGN KEY ("dashboard_id") REFERENCES "public"."dashboard"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Member syncs are managed through the REST API only
+COMMENT ON TABLE "dashboard_member_sync" IS E'@omit';
@@ -0,0 +1,6 @@
+ALTER TABLE "repository" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "language" varchar(100);--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "visibility" varchar(20);--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "archived" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "topics" text[];--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "pushed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "dashboard_view" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dashboard_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"date_range" varchar(32),
+	"start_date" date,
+	"end_date" date,
+	"users" text[],
+	"repositories" text[],
+	"activity_types" text[],
+	"sort_by" varchar(32),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp,
+	CONSTRAINT "dashboard_view_dashboard_id_name_unique" UNIQUE("dashboard_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "dashboard" ADD COLUMN "default_date_range" varchar(32);--> statement-breakpoint
+ALTER TABLE "dashboard" ADD COLUMN "sprint_start_date" date;--> statement-breakpoint
+ALTER TABLE "dashboard" ADD COLUMN "sprint_length_days" integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+ALTER TABLE "dashboard_view" ADD CONSTRAINT "dashboard_view_dashboard_id_dashboard_id_fk" FOREIGN KEY ("dashboard_id") REFERENCES "public"."dashboard"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Saved views are managed through the REST API only
+COMMENT ON TABLE "dashboard_view" IS E'@omit';
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- github_dashboard_web only gets the tables GraphQL exposes, table by table: dashboards and their
+-- users, repositories and activity types (row-level security), read-only lookups, and read-only
+-- GitHub data shared by every client (written by the API's sync and webhooks). Anything else,
+-- including tables added later, stays out of reach until it is granted here
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM github_dashboard_web;--> statement-breakpoint
+GRANT SELECT, INSERT, UPDATE, DELETE ON "dashboard", "dashboard_github_user", "dashboard_repository", "dashboard_activity_config" TO github_dashboard_web;--> statement-breakpoint
+GRANT SELECT ON "client", "tier_type", "feature", "tier_type_feature", "dashboard_type", "activity_type" TO github_dashboard_web;--> statement-breakpoint
+GRANT SELECT ON "github_user", "repository", "pull_request", "pull_request_review", "merge_event" TO github_dashboard_web;
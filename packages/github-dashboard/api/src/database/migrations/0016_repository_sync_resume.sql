@@ -0,0 +1,2 @@
+ALTER TABLE "repository" ADD COLUMN "sync_resume_page" integer;--> statement-breakpoint
+ALTER TABLE "repository" ADD COLUMN "sync_resume_watermark" timestamp;
\ No newline at end of file
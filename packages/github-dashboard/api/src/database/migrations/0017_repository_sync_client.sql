@@ -0,0 +1,4 @@
+ALTER TABLE "repository" ADD COLUMN "sync_client_id" uuid;--> statement-breakpoint
+ALTER TABLE "repository" ADD CONSTRAINT "repository_sync_client_id_client_id_fk" FOREIGN KEY ("sync_client_id") REFERENCES "public"."client"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Earlier syncs didn't record their client, so every repository syncs again before its stored activity is served
+UPDATE "repository" SET "sync_watermark" = NULL, "sync_resume_page" = NULL, "sync_resume_watermark" = NULL;
@@ -0,0 +1,36 @@
+-- Private dashboards without a client need a signed-in user, as DashboardViewerGuard requires on REST
+CREATE OR REPLACE FUNCTION app_private.current_user_signed_in() RETURNS boolean AS $$
+  SELECT coalesce(current_setting('jwt.claims.user_id', true), '') <> ''
+$$ LANGUAGE sql STABLE;--> statement-breakpoint
+DROP POLICY dashboard_select ON "dashboard";--> statement-breakpoint
+CREATE POLICY dashboard_select ON "dashboard" FOR SELECT
+  USING (("client_id" IS NULL AND ("is_public" OR app_private.current_user_signed_in())) OR "client_id" = app_private.current_client_id());--> statement-breakpoint
+-- GitHub users and repositories are readable through the dashboards the session can see
+ALTER TABLE "github_user" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY github_user_select ON "github_user" FOR SELECT
+  USING (EXISTS (SELECT 1 FROM "dashboard_github_user" dgu WHERE dgu."github_user_id" = "github_user"."id"));--> statement-breakpoint
+ALTER TABLE "repository" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY repository_select ON "repository" FOR SELECT
+  USING (EXISTS (SELECT 1 FROM "dashboard_repository" dr WHERE dr."repository_id" = "repository"."id"));--> statement-breakpoint
+-- Synced pull requests, reviews and merges were fetched with one client's credentials, so only that client
+-- reads them, and only for repositories on its own dashboards
+CREATE OR REPLACE FUNCTION app_private.current_client_reads_repository(repository_id uuid) RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM "repository" r
+    JOIN "dashboard_repository" dr ON dr."repository_id" = r."id"
+    JOIN "dashboard" d ON d."id" = dr."dashboard_id"
+    WHERE r."id" = $1
+      AND d."client_id" = app_private.current_client_id()
+      AND r."sync_client_id" = d."client_id"
+  )
+$$ LANGUAGE sql STABLE;--> statement-breakpoint
+ALTER TABLE "pull_request" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY pull_request_select ON "pull_request" FOR SELECT
+  USING (app_private.current_client_reads_repository("repository_id"));--> statement-breakpoint
+ALTER TABLE "pull_request_review" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY pull_request_review_select ON "pull_request_review" FOR SELECT
+  USING (app_private.current_client_reads_repository("repository_id"));--> statement-breakpoint
+ALTER TABLE "merge_event" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY merge_event_select ON "merge_event" FOR SELECT
+  USING (app_private.current_client_reads_repository("repository_id"));
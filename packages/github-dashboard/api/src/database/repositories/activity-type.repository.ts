@@ -2,21 +2,14 @@ import { Injectable } from '@nestjs/common';
 import { eq } from 'drizzle-orm';
 
 import { BaseRepository } from '../base.repository';
-import { activityType, ActivityType } from '../entities';
+import { activityType, ActivityType, NewActivityType } from '../entities';
 
 @Injectable()
-export class ActivityTypeRepository extends BaseRepository<typeof activityType> {
+export class ActivityTypeRepository extends BaseRepository<ActivityType, NewActivityType, Partial<NewActivityType>> {
   constructor() {
     super(activityType);
   }
 
-  /**
-   * Get all activity types
-   */
-  async findAll(): Promise<ActivityType[]> {
-    return await this.db.select().from(this.table);
-  }
-
   /**
    * Get activity type by name
    */
@@ -27,6 +20,22 @@ export class ActivityTypeRepository extends BaseRepository<typeof activityType>
       .where(eq(this.table.code, name))
       .limit(1);
     
-    return result[0] || null;
+    return (result[0] as ActivityType) || null;
+  }
+
+  /**
+   * Insert an activity type, or update the display name of the one with the same code
+   */
+  async upsertByCode(code: string, displayName: string): Promise<ActivityType> {
+    const [result] = await this.db
+      .insert(this.table)
+      .values({ code, displayName })
+      .onConflictDoUpdate({
+        target: this.table.code,
+        set: { displayName, updatedAt: new Date() },
+      })
+      .returning();
+
+    return result as ActivityType;
   }
 }
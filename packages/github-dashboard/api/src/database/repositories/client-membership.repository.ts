@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { and, asc, eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { client, clientMembership, ClientMembership, NewClientMembership, userAccount } from '../entities';
+
+export interface UserMembership {
+  clientId: string;
+  clientName: string;
+  role: string;
+}
+
+export interface ClientMember {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  githubUsername: string | null;
+  role: string;
+}
+
+@Injectable()
+export class ClientMembershipRepository extends BaseRepository<ClientMembership, NewClientMembership, Partial<NewClientMembership>> {
+  constructor() {
+    super(clientMembership);
+  }
+
+  /**
+   * A user's role in a client, or null when they aren't a member
+   */
+  async findRole(userId: string, clientId: string): Promise<string | null> {
+    const [membership] = await this.db
+      .select({ role: clientMembership.role })
+      .from(clientMembership)
+      .where(and(eq(clientMembership.userId, userId), eq(clientMembership.clientId, clientId)))
+      .limit(1);
+    return membership?.role ?? null;
+  }
+
+  /**
+   * Clients a user belongs to, by client name
+   */
+  async findForUser(userId: string): Promise<UserMembership[]> {
+    return this.db
+      .select({ clientId: client.id, clientName: client.name, role: clientMembership.role })
+      .from(clientMembership)
+      .innerJoin(client, eq(client.id, clientMembership.clientId))
+      .where(eq(clientMembership.userId, userId))
+      .orderBy(asc(client.name));
+  }
+
+  /**
+   * Members of a client with their accounts, oldest membership first
+   */
+  async findForClient(clientId: string): Promise<ClientMember[]> {
+    return this.db
+      .select({
+        userId: userAccount.id,
+        email: userAccount.email,
+        displayName: userAccount.displayName,
+        githubUsername: userAccount.githubUsername,
+        role: clientMembership.role,
+      })
+      .from(clientMembership)
+      .innerJoin(userAccount, eq(userAccount.id, clientMembership.userId))
+      .where(eq(clientMembership.clientId, clientId))
+      .orderBy(asc(clientMembership.createdAt));
+  }
+
+  /**
+   * Add a user to a client, or change their role when they're already a member
+   */
+  async upsertRole(clientId: string, userId: string, role: string): Promise<ClientMembership> {
+    const [membership] = await this.db
+      .insert(clientMembership)
+      .values({ clientId, userId, role })
+      .onConflictDoUpdate({
+        target: [clientMembership.clientId, clientMembership.userId],
+        set: { role, updatedAt: new Date() },
+      })
+      .returning();
+    return membership as ClientMembership;
+  }
+
+  /**
+   * Remove a user from a client; returns false when they weren't a member
+   */
+  async remove(clientId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(clientMembership)
+      .where(and(eq(clientMembership.clientId, clientId), eq(clientMembership.userId, userId)))
+      .returning({ id: clientMembership.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { client, Client, feature, NewClient, tierTypeFeature } from '../entities';
+
+@Injectable()
+export class ClientRepository extends BaseRepository<Client, NewClient, Partial<NewClient>> {
+  constructor() {
+    super(client);
+  }
+
+  /**
+   * Codes of the features included in a client's tier, e.g. 'export', 'summary'
+   */
+  async getFeatureCodes(clientId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ code: feature.code })
+      .from(this.table)
+      .innerJoin(tierTypeFeature, eq(tierTypeFeature.tierTypeId, this.table.tierTypeId))
+      .innerJoin(feature, eq(feature.id, tierTypeFeature.featureId))
+      .where(eq(this.table.id, clientId));
+
+    return rows.map(row => row.code);
+  }
+}
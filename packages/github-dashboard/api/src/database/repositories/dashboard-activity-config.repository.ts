@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { eq, and } from 'drizzle-orm';
 
 import { BaseRepository } from '../base.repository';
-import { dashboardActivityConfigs, DashboardActivityConfig, NewDashboardActivityConfig } from '../entities';
+import { activityType, dashboardActivityConfigs, DashboardActivityConfig, NewDashboardActivityConfig } from '../entities';
 
 @Injectable()
 export class DashboardActivityConfigRepository extends BaseRepository<DashboardActivityConfig, NewDashboardActivityConfig, Partial<NewDashboardActivityConfig>> {
@@ -28,6 +28,19 @@ export class DashboardActivityConfigRepository extends BaseRepository<DashboardA
     return await this.getDashboardConfigs(dashboardId);
   }
 
+  /**
+   * Codes of the activity types enabled for a dashboard
+   */
+  async getEnabledActivityTypeCodes(dashboardId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ code: activityType.code })
+      .from(this.table)
+      .innerJoin(activityType, eq(activityType.id, this.table.activityTypeId))
+      .where(eq(this.table.dashboardId, dashboardId));
+
+    return rows.map(row => row.code);
+  }
+
   /**
    * Add activity type to dashboard (enable it)
    */
@@ -66,6 +79,34 @@ export class DashboardActivityConfigRepository extends BaseRepository<DashboardA
       );
   }
 
+  /**
+   * Enable or disable a set of activity types for a dashboard in one transaction
+   */
+  async updateDashboardConfigs(
+    dashboardId: string,
+    configs: Array<{ activityTypeId: string; enabled: boolean }>
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const config of configs) {
+        if (config.enabled) {
+          await tx
+            .insert(this.table)
+            .values({ dashboardId, activityTypeId: config.activityTypeId })
+            .onConflictDoNothing();
+        } else {
+          await tx
+            .delete(this.table)
+            .where(
+              and(
+                eq(this.table.dashboardId, dashboardId),
+                eq(this.table.activityTypeId, config.activityTypeId)
+              )
+            );
+        }
+      }
+    });
+  }
+
   /**
    * Delete all activity configurations for a dashboard
    */
@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { asc, eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { dashboard, dashboardMemberSync, DashboardMemberSync, NewDashboardMemberSync } from '../entities';
+
+@Injectable()
+export class DashboardMemberSyncRepository extends BaseRepository<DashboardMemberSync, NewDashboardMemberSync, Partial<NewDashboardMemberSync>> {
+  constructor() {
+    super(dashboardMemberSync);
+  }
+
+  /**
+   * Get the member sync of a dashboard, if it has one
+   */
+  async findByDashboardId(dashboardId: string): Promise<DashboardMemberSync | undefined> {
+    const [sync] = await this.db
+      .select()
+      .from(dashboardMemberSync)
+      .where(eq(dashboardMemberSync.dashboardId, dashboardId))
+      .limit(1);
+    return sync as DashboardMemberSync | undefined;
+  }
+
+  /**
+   * Get every member sync with the client of its dashboard, oldest first
+   */
+  async findAllWithClient(): Promise<(DashboardMemberSync & { clientId: string | null })[]> {
+    return this.db
+      .select({
+        id: dashboardMemberSync.id,
+        dashboardId: dashboardMemberSync.dashboardId,
+        org: dashboardMemberSync.org,
+        teamSlug: dashboardMemberSync.teamSlug,
+        memberIds: dashboardMemberSync.memberIds,
+        lastSyncedAt: dashboardMemberSync.lastSyncedAt,
+        lastError: dashboardMemberSync.lastError,
+        createdAt: dashboardMemberSync.createdAt,
+        updatedAt: dashboardMemberSync.updatedAt,
+        clientId: dashboard.clientId,
+      })
+      .from(dashboardMemberSync)
+      .innerJoin(dashboard, eq(dashboardMemberSync.dashboardId, dashboard.id))
+      .orderBy(asc(dashboardMemberSync.createdAt));
+  }
+
+  /**
+   * Set the organization or team a dashboard syncs its members from, replacing any previous source.
+   * Without member ids the next sync adds every current member.
+   */
+  async upsertForDashboard(dashboardId: string, org: string, teamSlug: string | null, memberIds: string[] | null = null): Promise<DashboardMemberSync> {
+    const lastSyncedAt = memberIds ? new Date() : null;
+    const [sync] = await this.db
+      .insert(dashboardMemberSync)
+      .values({ dashboardId, org, teamSlug, memberIds, lastSyncedAt })
+      .onConflictDoUpdate({
+        target: dashboardMemberSync.dashboardId,
+        set: { org, teamSlug, memberIds, lastSyncedAt, lastError: null, updatedAt: new Date() },
+      })
+      .returning();
+    return sync as DashboardMemberSync;
+  }
+
+  /**
+   * Record a successful sync run with the members seen
+   */
+  async recordSuccess(id: string, memberIds: string[]): Promise<void> {
+    await this.db
+      .update(dashboardMemberSync)
+      .set({ memberIds, lastSyncedAt: new Date(), lastError: null })
+      .where(eq(dashboardMemberSync.id, id));
+  }
+
+  /**
+   * Record a failed sync run; the members of the last successful run are kept
+   */
+  async recordFailure(id: string, error: string): Promise<void> {
+    await this.db
+      .update(dashboardMemberSync)
+      .set({ lastError: error })
+      .where(eq(dashboardMemberSync.id, id));
+  }
+
+  /**
+   * Stop syncing a dashboard's members; returns false when it wasn't synced
+   */
+  async deleteForDashboard(dashboardId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(dashboardMemberSync)
+      .where(eq(dashboardMemberSync.dashboardId, dashboardId))
+      .returning({ id: dashboardMemberSync.id });
+    return deleted.length > 0;
+  }
+}
@@ -4,6 +4,8 @@ import { eq, and } from 'drizzle-orm';
 import { BaseRepository } from '../base.repository';
 import { dashboardRepository, repository, type DashboardRepository, type NewDashboardRepository, type Repository, type NewRepository } from '../entities';
 
+import { repositoryMetadata } from './repository.repository';
+
 @Injectable()
 export class DashboardRepositoryRepository extends BaseRepository<DashboardRepository, NewDashboardRepository, Partial<NewDashboardRepository>> {
   constructor() {
@@ -11,38 +13,34 @@ export class DashboardRepositoryRepository extends BaseRepository<DashboardRepos
   }
 
   /**
-   * Add a repository to a dashboard
+   * Add a repository to a dashboard, storing it or refreshing its name and metadata
    */
-  async addRepositoryToDashboard(dashboardId: string, name: string, githubRepoId: number): Promise<DashboardRepository> {
-    const [owner, repoName] = name.split('/');
-    
-    // First, find or create the repository record
-    let repoRecord = await this.db
-      .select()
+  async addRepositoryToDashboard(dashboardId: string, repo: NewRepository): Promise<DashboardRepository> {
+    // github_repo_id isn't unique, so look the record up first
+    const [existing] = await this.db
+      .select({ id: repository.id })
       .from(repository)
-      .where(eq(repository.githubRepoId, githubRepoId))
+      .where(eq(repository.githubRepoId, repo.githubRepoId))
       .limit(1);
-    
-    if (repoRecord.length === 0) {
-      // Create new repository record
-      const newRepo: NewRepository = {
-        githubRepoId,
-        name: repoName,
-        owner,
-        fullName: name,
-      };
-      const [createdRepo] = await this.db.insert(repository).values(newRepo).returning();
-      repoRecord = [createdRepo];
+
+    let repositoryId = existing?.id;
+    if (repositoryId) {
+      await this.db
+        .update(repository)
+        .set(repositoryMetadata(repo))
+        .where(eq(repository.id, repositoryId));
+    } else {
+      const [created] = await this.db.insert(repository).values(repo).returning({ id: repository.id });
+      repositoryId = created.id;
     }
-    
-    // Now create the dashboard-repository junction
+
     const newDashboardRepo: NewDashboardRepository = {
       dashboardId,
-      repositoryId: repoRecord[0].id,
+      repositoryId,
     };
-    
+
     const [result] = await this.db.insert(this.table).values(newDashboardRepo).returning();
-    return result;
+    return result as DashboardRepository;
   }
 
   /**
@@ -92,6 +90,19 @@ export class DashboardRepositoryRepository extends BaseRepository<DashboardRepos
       .where(eq(repository.fullName, name));
   }
 
+  /**
+   * Get the ids of all dashboards tracking a repository
+   */
+  async getDashboardIdsByRepository(name: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ dashboardId: this.table.dashboardId })
+      .from(this.table)
+      .innerJoin(repository, eq(this.table.repositoryId, repository.id))
+      .where(eq(repository.fullName, name));
+
+    return rows.map(row => row.dashboardId);
+  }
+
   /**
    * Check if a repository is already in a dashboard
    */
@@ -1,11 +1,11 @@
 import { Injectable } from '@nestjs/common';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 
 import { BaseRepository } from '../base.repository';
 import { dashboardGithubUser, githubUser, DashboardGithubUser, NewDashboardGithubUser, GitHubUser } from '../entities';
 
 @Injectable()
-export class DashboardUserRepository extends BaseRepository<typeof dashboardGithubUser> {
+export class DashboardUserRepository extends BaseRepository<DashboardGithubUser, NewDashboardGithubUser, Partial<NewDashboardGithubUser>> {
   constructor() {
     super(dashboardGithubUser);
   }
@@ -26,19 +26,56 @@ export class DashboardUserRepository extends BaseRepository<typeof dashboardGith
     return relation;
   }
 
+  /**
+   * Add several GitHub users to a dashboard, skipping those already on it; returns the new relations
+   */
+  async addUsersToDashboard(dashboardId: string, githubUserIds: string[], addedBySync = false): Promise<DashboardGithubUser[]> {
+    if (githubUserIds.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .insert(dashboardGithubUser)
+      .values(githubUserIds.map(githubUserId => ({ dashboardId, githubUserId, addedBySync })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  /**
+   * Remove users the member sync added from a dashboard; users added by hand are kept
+   */
+  async removeSyncedUsers(dashboardId: string, githubUserIds: string[]): Promise<number> {
+    if (githubUserIds.length === 0) {
+      return 0;
+    }
+
+    const removed = await this.db
+      .delete(dashboardGithubUser)
+      .where(
+        and(
+          eq(dashboardGithubUser.dashboardId, dashboardId),
+          eq(dashboardGithubUser.addedBySync, true),
+          inArray(dashboardGithubUser.githubUserId, githubUserIds)
+        )
+      )
+      .returning({ id: dashboardGithubUser.id });
+    return removed.length;
+  }
+
   /**
    * Remove a GitHub user from a dashboard
    */
   async removeUserFromDashboard(dashboardId: string, githubUserId: string): Promise<boolean> {
-    const result = await this.db
+    const removed = await this.db
       .delete(dashboardGithubUser)
       .where(
         and(
           eq(dashboardGithubUser.dashboardId, dashboardId),
           eq(dashboardGithubUser.githubUserId, githubUserId)
         )
-      );
-    return result.rowCount > 0;
+      )
+      .returning({ id: dashboardGithubUser.id });
+    return removed.length > 0;
   }
 
   /**
@@ -51,6 +88,7 @@ export class DashboardUserRepository extends BaseRepository<typeof dashboardGith
         dashboardId: dashboardGithubUser.dashboardId,
         githubUserId: dashboardGithubUser.githubUserId,
         addedAt: dashboardGithubUser.addedAt,
+        addedBySync: dashboardGithubUser.addedBySync,
         user: {
           id: githubUser.id,
           githubUserId: githubUser.githubUserId,
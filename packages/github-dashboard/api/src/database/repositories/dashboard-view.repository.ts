@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { and, asc, eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { dashboardView, DashboardView, NewDashboardView } from '../entities';
+
+@Injectable()
+export class DashboardViewRepository extends BaseRepository<DashboardView, NewDashboardView, Partial<NewDashboardView>> {
+  constructor() {
+    super(dashboardView);
+  }
+
+  /**
+   * Get the saved views of a dashboard by name
+   */
+  async findByDashboardId(dashboardId: string): Promise<DashboardView[]> {
+    const views = await this.db
+      .select()
+      .from(dashboardView)
+      .where(eq(dashboardView.dashboardId, dashboardId))
+      .orderBy(asc(dashboardView.name));
+    return views as DashboardView[];
+  }
+
+  /**
+   * Get one saved view of a dashboard
+   */
+  async findForDashboard(dashboardId: string, id: string): Promise<DashboardView | undefined> {
+    const [view] = await this.db
+      .select()
+      .from(dashboardView)
+      .where(and(eq(dashboardView.dashboardId, dashboardId), eq(dashboardView.id, id)))
+      .limit(1);
+    return view as DashboardView | undefined;
+  }
+
+  /**
+   * Get a dashboard's saved view by name; names are unique per dashboard
+   */
+  async findByName(dashboardId: string, name: string): Promise<DashboardView | undefined> {
+    const [view] = await this.db
+      .select()
+      .from(dashboardView)
+      .where(and(eq(dashboardView.dashboardId, dashboardId), eq(dashboardView.name, name)))
+      .limit(1);
+    return view as DashboardView | undefined;
+  }
+
+  /**
+   * Replace the filters of a dashboard's saved view; returns undefined when it doesn't exist
+   */
+  async updateForDashboard(dashboardId: string, id: string, view: Omit<NewDashboardView, 'dashboardId'>): Promise<DashboardView | undefined> {
+    const [updated] = await this.db
+      .update(dashboardView)
+      .set({ ...view, updatedAt: new Date() })
+      .where(and(eq(dashboardView.dashboardId, dashboardId), eq(dashboardView.id, id)))
+      .returning();
+    return updated as DashboardView | undefined;
+  }
+
+  /**
+   * Delete a dashboard's saved view; returns false when it doesn't exist
+   */
+  async deleteForDashboard(dashboardId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(dashboardView)
+      .where(and(eq(dashboardView.dashboardId, dashboardId), eq(dashboardView.id, id)))
+      .returning({ id: dashboardView.id });
+    return deleted.length > 0;
+  }
+}
@@ -1,13 +1,40 @@
 import { Injectable } from '@nestjs/common';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 
 import { BaseRepository } from '../base.repository';
-import { dashboards, Dashboard, NewDashboard } from '../schema';
+import {
+  dashboard,
+  Dashboard,
+  dashboardActivityConfigs,
+  dashboardGithubUser,
+  dashboardRepository,
+  DashboardType,
+  dashboardTypes,
+  NewDashboard,
+  NewRepository,
+  repository
+} from '../schema';
+
+import { repositoryMetadata } from './repository.repository';
+
+/**
+ * Changes to a dashboard's settings, repositories, users and activity types, applied together
+ */
+export interface DashboardConfigurationChanges {
+  dashboard: Partial<NewDashboard>;
+  // Resolved from GitHub; repository records are created or refreshed
+  addRepositories: NewRepository[];
+  removeRepositories: string[]; // full names
+  addUsers: string[]; // github_user ids
+  removeUsers: string[]; // github_user ids
+  addActivityTypeIds: string[];
+  removeActivityTypeIds: string[];
+}
 
 @Injectable()
 export class DashboardRepository extends BaseRepository<Dashboard, NewDashboard, Partial<NewDashboard>> {
   constructor() {
-    super(dashboards);
+    super(dashboard);
   }
 
   // Find dashboard by slug
@@ -15,8 +42,8 @@ export class DashboardRepository extends BaseRepository<Dashboard, NewDashboard,
     try {
       const [result] = await this.db
         .select()
-        .from(dashboards)
-        .where(eq(dashboards.slug, slug))
+        .from(dashboard)
+        .where(eq(dashboard.slug, slug))
         .limit(1);
       
       return result || null;
@@ -31,9 +58,9 @@ export class DashboardRepository extends BaseRepository<Dashboard, NewDashboard,
     try {
       return await this.db
         .select()
-        .from(dashboards)
-        .where(eq(dashboards.isPublic, true))
-        .orderBy(dashboards.createdAt);
+        .from(dashboard)
+        .where(eq(dashboard.isPublic, true))
+        .orderBy(dashboard.createdAt);
     } catch (error) {
       this.logger.error('Failed to find public dashboards', error);
       throw error;
@@ -44,9 +71,9 @@ export class DashboardRepository extends BaseRepository<Dashboard, NewDashboard,
   async updateSlug(id: string, slug: string): Promise<Dashboard | null> {
     try {
       const [result] = await this.db
-        .update(dashboards)
+        .update(dashboard)
         .set({ slug, updatedAt: new Date() })
-        .where(eq(dashboards.id, id))
+        .where(eq(dashboard.id, id))
         .returning();
       
       return result || null;
@@ -55,6 +82,117 @@ export class DashboardRepository extends BaseRepository<Dashboard, NewDashboard,
       throw error;
     }
   }
-}
 
+  /**
+   * Get a dashboard type by code
+   */
+  async findTypeByCode(code: string): Promise<DashboardType | null> {
+    const [result] = await this.db
+      .select()
+      .from(dashboardTypes)
+      .where(eq(dashboardTypes.code, code))
+      .limit(1);
+
+    return (result as DashboardType) || null;
+  }
+
+  /**
+   * Get a dashboard type by id
+   */
+  async findTypeById(id: string): Promise<DashboardType | null> {
+    const [result] = await this.db
+      .select()
+      .from(dashboardTypes)
+      .where(eq(dashboardTypes.id, id))
+      .limit(1);
+
+    return (result as DashboardType) || null;
+  }
+
+  /**
+   * Apply a configuration diff to a dashboard in one transaction; nothing changes if any step fails
+   */
+  async applyConfiguration(dashboardId: string, changes: DashboardConfigurationChanges): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(dashboard)
+        .set({ ...changes.dashboard, updatedAt: new Date() })
+        .where(eq(dashboard.id, dashboardId));
 
+      if (changes.removeRepositories.length > 0) {
+        await tx
+          .delete(dashboardRepository)
+          .where(
+            and(
+              eq(dashboardRepository.dashboardId, dashboardId),
+              inArray(
+                dashboardRepository.repositoryId,
+                tx.select({ id: repository.id }).from(repository).where(inArray(repository.fullName, changes.removeRepositories))
+              )
+            )
+          );
+      }
+
+      for (const repo of changes.addRepositories) {
+        // github_repo_id isn't unique, so look the record up first; known repositories get their current name and metadata
+        const [existing] = await tx
+          .select({ id: repository.id })
+          .from(repository)
+          .where(eq(repository.githubRepoId, repo.githubRepoId))
+          .limit(1);
+
+        let repositoryId = existing?.id;
+        if (repositoryId) {
+          await tx
+            .update(repository)
+            .set(repositoryMetadata(repo))
+            .where(eq(repository.id, repositoryId));
+        } else {
+          const [created] = await tx.insert(repository).values(repo).returning({ id: repository.id });
+          repositoryId = created.id;
+        }
+
+        await tx
+          .insert(dashboardRepository)
+          .values({ dashboardId, repositoryId })
+          .onConflictDoNothing();
+      }
+
+      if (changes.removeUsers.length > 0) {
+        await tx
+          .delete(dashboardGithubUser)
+          .where(
+            and(
+              eq(dashboardGithubUser.dashboardId, dashboardId),
+              inArray(dashboardGithubUser.githubUserId, changes.removeUsers)
+            )
+          );
+      }
+
+      if (changes.addUsers.length > 0) {
+        await tx
+          .insert(dashboardGithubUser)
+          .values(changes.addUsers.map(githubUserId => ({ dashboardId, githubUserId })))
+          .onConflictDoNothing();
+      }
+
+      if (changes.removeActivityTypeIds.length > 0) {
+        await tx
+          .delete(dashboardActivityConfigs)
+          .where(
+            and(
+              eq(dashboardActivityConfigs.dashboardId, dashboardId),
+              inArray(dashboardActivityConfigs.activityTypeId, changes.removeActivityTypeIds)
+            )
+          );
+      }
+
+      if (changes.addActivityTypeIds.length > 0) {
+        await tx
+          .insert(dashboardActivityConfigs)
+          .values(changes.addActivityTypeIds.map(activityTypeId => ({ dashboardId, activityTypeId })))
+          .onConflictDoNothing();
+      }
+    });
+  }
+}
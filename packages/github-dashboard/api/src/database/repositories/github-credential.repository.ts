@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { and, asc, eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { githubCredential, GitHubCredential, NewGitHubCredential } from '../entities';
+
+@Injectable()
+export class GitHubCredentialRepository extends BaseRepository<GitHubCredential, NewGitHubCredential, Partial<NewGitHubCredential>> {
+  constructor() {
+    super(githubCredential);
+  }
+
+  /**
+   * Get all credentials of a client, oldest first
+   */
+  async findByClientId(clientId: string): Promise<GitHubCredential[]> {
+    return this.db
+      .select()
+      .from(githubCredential)
+      .where(eq(githubCredential.clientId, clientId))
+      .orderBy(asc(githubCredential.createdAt));
+  }
+
+  /**
+   * Delete one credential of a client; returns false when it doesn't belong to the client
+   */
+  async deleteForClient(clientId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(githubCredential)
+      .where(and(eq(githubCredential.clientId, clientId), eq(githubCredential.id, id)))
+      .returning({ id: githubCredential.id });
+    return deleted.length > 0;
+  }
+}
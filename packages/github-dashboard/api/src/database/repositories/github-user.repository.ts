@@ -1,11 +1,20 @@
 import { Injectable } from '@nestjs/common';
-import { eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 
 import { BaseRepository } from '../base.repository';
 import { githubUser, GitHubUser, NewGitHubUser } from '../entities';
 
+// Profile of a GitHub user as resolved from the GitHub API
+export interface GitHubUserProfile {
+  githubUserId: string;
+  githubUsername: string;
+  displayName?: string;
+  avatarUrl?: string;
+  profileUrl?: string;
+}
+
 @Injectable()
-export class GitHubUserRepository extends BaseRepository<typeof githubUser> {
+export class GitHubUserRepository extends BaseRepository<GitHubUser, NewGitHubUser, Partial<NewGitHubUser>> {
   constructor() {
     super(githubUser);
   }
@@ -19,7 +28,7 @@ export class GitHubUserRepository extends BaseRepository<typeof githubUser> {
       .from(this.table)
       .where(eq(this.table.githubUserId, githubUserId))
       .limit(1);
-    return user;
+    return user as GitHubUser | undefined;
   }
 
   /**
@@ -31,37 +40,51 @@ export class GitHubUserRepository extends BaseRepository<typeof githubUser> {
       .from(this.table)
       .where(eq(this.table.githubUsername, githubUsername))
       .limit(1);
-    return user;
+    return user as GitHubUser | undefined;
+  }
+
+  /**
+   * Find a user stored before usernames were resolved server-side, whose GitHub user ID holds the username
+   */
+  async findUnresolvedByGitHubUsername(githubUsername: string): Promise<GitHubUser | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(this.table)
+      .where(
+        and(
+          sql`lower(${this.table.githubUsername}) = ${githubUsername.toLowerCase()}`,
+          sql`${this.table.githubUserId} !~ '^[0-9]+$'`
+        )
+      )
+      .limit(1);
+    return user as GitHubUser | undefined;
   }
 
   /**
    * Create or update a GitHub user
-   * If user exists, update their information; if not, create new user
+   * Users are matched by their immutable GitHub user ID, so a renamed user keeps their record and gets the new username
    */
-  async upsertUser(userData: {
-    githubUserId: string;
-    githubUsername: string;
-    displayName?: string;
-    avatarUrl?: string;
-    profileUrl?: string;
-  }): Promise<GitHubUser> {
-    // Try to find existing user by GitHub user ID
-    const existingUser = await this.findByGitHubUserId(userData.githubUserId);
+  async upsertUser(userData: GitHubUserProfile): Promise<GitHubUser> {
+    // Try to find existing user by GitHub user ID, then an unresolved record of the same username to repair
+    const existingUser = await this.findByGitHubUserId(userData.githubUserId)
+      ?? await this.findUnresolvedByGitHubUsername(userData.githubUsername);
     
     if (existingUser) {
       // Update existing user
       const [updatedUser] = await this.db
         .update(this.table)
         .set({
+          githubUserId: userData.githubUserId,
           githubUsername: userData.githubUsername,
-          displayName: userData.displayName || userData.githubUsername,
+          // Member lists carry no names, so keep the one stored
+          displayName: userData.displayName || existingUser.displayName || userData.githubUsername,
           avatarUrl: userData.avatarUrl,
           profileUrl: userData.profileUrl,
           updatedAt: new Date(),
         })
         .where(eq(this.table.id, existingUser.id))
         .returning();
-      return updatedUser;
+      return updatedUser as GitHubUser;
     } else {
       // Create new user
       const newUser: NewGitHubUser = {
@@ -76,7 +99,7 @@ export class GitHubUserRepository extends BaseRepository<typeof githubUser> {
         .insert(this.table)
         .values(newUser)
         .returning();
-      return createdUser;
+      return createdUser as GitHubUser;
     }
   }
 }
@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { sql } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import {
+  mergeEvent,
+  pullRequest,
+  pullRequestReview,
+  PullRequest,
+  NewPullRequest,
+  NewMergeEvent,
+  NewPullRequestReview
+} from '../entities';
+
+export interface DashboardActivitySummaryRow {
+  githubUserId: string;
+  repo: string;
+  prsCreated: number;
+  prsReviewed: number;
+  prsMerged: number;
+  totalRecentPRs: number;
+}
+
+@Injectable()
+export class PullRequestRepository extends BaseRepository<PullRequest, NewPullRequest, Partial<NewPullRequest>> {
+  constructor() {
+    super(pullRequest);
+  }
+
+  /**
+   * Insert or update a pull request keyed by its GitHub id
+   */
+  async upsertPullRequest(data: NewPullRequest): Promise<PullRequest> {
+    const [result] = await this.db
+      .insert(pullRequest)
+      .values(data)
+      .onConflictDoUpdate({
+        target: pullRequest.githubPrId,
+        set: {
+          number: data.number,
+          title: data.title,
+          state: data.state,
+          authorGithubId: data.authorGithubId,
+          authorLogin: data.authorLogin,
+          githubUpdatedAt: data.githubUpdatedAt,
+          closedAt: data.closedAt,
+          mergedAt: data.mergedAt,
+          syncedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  /**
+   * Insert or update reviews keyed by their GitHub id
+   */
+  async upsertReviews(reviews: NewPullRequestReview[]): Promise<void> {
+    if (reviews.length === 0) return;
+    await this.db
+      .insert(pullRequestReview)
+      .values(reviews)
+      .onConflictDoUpdate({
+        target: pullRequestReview.githubReviewId,
+        set: {
+          state: sql`excluded.state`,
+          reviewerGithubId: sql`excluded.reviewer_github_id`,
+          reviewerLogin: sql`excluded.reviewer_login`,
+          submittedAt: sql`excluded.submitted_at`,
+        },
+      });
+  }
+
+  /**
+   * Record the merge of a pull request (one event per PR)
+   * Keeps a previously known merger when the new data doesn't include one
+   */
+  async upsertMergeEvent(data: NewMergeEvent): Promise<void> {
+    await this.db
+      .insert(mergeEvent)
+      .values(data)
+      .onConflictDoUpdate({
+        target: mergeEvent.pullRequestId,
+        set: {
+          mergedAt: data.mergedAt,
+          mergeCommitSha: data.mergeCommitSha,
+          mergedByGithubId: sql`coalesce(excluded.merged_by_github_id, ${mergeEvent.mergedByGithubId})`,
+          mergedByLogin: sql`coalesce(excluded.merged_by_login, ${mergeEvent.mergedByLogin})`,
+        },
+      });
+  }
+
+  /**
+   * Per user, per repository activity counts for a dashboard computed from stored activity
+   * prsMerged counts the user's own PRs merged in range; prsReviewed counts distinct PRs by others
+   * @param repositories Full names of the dashboard repositories to include; empty includes all of them
+   */
+  async getDashboardActivitySummary(dashboardId: string, start: Date, end: Date, repositories: string[] = []): Promise<DashboardActivitySummaryRow[]> {
+    const rows = await this.db.execute(sql`
+      WITH dash_users AS (
+        SELECT gu.github_user_id
+        FROM dashboard_github_user dgu
+        JOIN github_user gu ON gu.id = dgu.github_user_id
+        WHERE dgu.dashboard_id = ${dashboardId}
+      ),
+      dash_repos AS (
+        SELECT r.id, r.full_name
+        FROM dashboard_repository dr
+        JOIN dashboard d ON d.id = dr.dashboard_id
+        JOIN repository r ON r.id = dr.repository_id
+        WHERE dr.dashboard_id = ${dashboardId}
+          -- Only rows fetched with the dashboard client's own credentials
+          AND r.sync_client_id IS NOT DISTINCT FROM d.client_id
+          ${repositories.length > 0 ? sql`AND r.full_name IN (${sql.join(repositories.map(name => sql`${name}`), sql`, `)})` : sql``}
+      ),
+      created AS (
+        SELECT pr.repository_id, pr.author_github_id AS github_user_id, count(*)::int AS n
+        FROM pull_request pr
+        WHERE pr.repository_id IN (SELECT id FROM dash_repos)
+          AND pr.github_created_at BETWEEN ${start} AND ${end}
+        GROUP BY 1, 2
+      ),
+      merged AS (
+        SELECT me.repository_id, pr.author_github_id AS github_user_id, count(*)::int AS n
+        FROM merge_event me
+        JOIN pull_request pr ON pr.id = me.pull_request_id
+        WHERE me.repository_id IN (SELECT id FROM dash_repos)
+          AND me.merged_at BETWEEN ${start} AND ${end}
+        GROUP BY 1, 2
+      ),
+      reviewed AS (
+        SELECT rv.repository_id, rv.reviewer_github_id AS github_user_id, count(DISTINCT rv.pull_request_id)::int AS n
+        FROM pull_request_review rv
+        JOIN pull_request pr ON pr.id = rv.pull_request_id
+        WHERE rv.repository_id IN (SELECT id FROM dash_repos)
+          AND rv.submitted_at BETWEEN ${start} AND ${end}
+          AND pr.author_github_id IS DISTINCT FROM rv.reviewer_github_id
+        GROUP BY 1, 2
+      ),
+      totals AS (
+        SELECT repository_id, sum(n)::int AS n FROM created GROUP BY 1
+      )
+      SELECT
+        du.github_user_id AS "githubUserId",
+        dr.full_name AS "repo",
+        coalesce(c.n, 0) AS "prsCreated",
+        coalesce(rv.n, 0) AS "prsReviewed",
+        coalesce(m.n, 0) AS "prsMerged",
+        coalesce(t.n, 0) AS "totalRecentPRs"
+      FROM dash_users du
+      CROSS JOIN dash_repos dr
+      LEFT JOIN created c ON c.repository_id = dr.id AND c.github_user_id = du.github_user_id
+      LEFT JOIN merged m ON m.repository_id = dr.id AND m.github_user_id = du.github_user_id
+      LEFT JOIN reviewed rv ON rv.repository_id = dr.id AND rv.github_user_id = du.github_user_id
+      LEFT JOIN totals t ON t.repository_id = dr.id
+      ORDER BY du.github_user_id, dr.full_name
+    `);
+    return rows as unknown as DashboardActivitySummaryRow[];
+  }
+}
@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { dashboard, dashboardRepository, repository, Repository, NewRepository } from '../entities';
+
+/**
+ * Name and GitHub metadata of a repository record, the part refreshed when a known repository is added again.
+ * Renamed repositories keep their record (matched by GitHub id) and get the new name.
+ */
+export function repositoryMetadata(repo: NewRepository): Partial<NewRepository> {
+  return {
+    name: repo.name,
+    owner: repo.owner,
+    fullName: repo.fullName,
+    description: repo.description,
+    language: repo.language,
+    visibility: repo.visibility,
+    archived: repo.archived,
+    topics: repo.topics,
+    pushedAt: repo.pushedAt,
+  };
+}
+
+@Injectable()
+export class RepositoryRepository extends BaseRepository<Repository, NewRepository, Partial<NewRepository>> {
+  constructor() {
+    super(repository);
+  }
+
+  /**
+   * Find a repository by its full name (owner/repo)
+   */
+  async findByFullName(fullName: string): Promise<Repository | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(repository)
+      .where(eq(repository.fullName, fullName))
+      .limit(1);
+    return result;
+  }
+
+  /**
+   * Find repositories by their full names (owner/repo)
+   */
+  async findByFullNames(fullNames: string[]): Promise<Repository[]> {
+    if (fullNames.length === 0) {
+      return [];
+    }
+    return this.db
+      .select()
+      .from(repository)
+      .where(inArray(repository.fullName, fullNames));
+  }
+
+  /**
+   * Get all repositories attached to at least one dashboard
+   */
+  async findTrackedRepositories(): Promise<Repository[]> {
+    return this.db
+      .selectDistinct({
+        id: repository.id,
+        githubRepoId: repository.githubRepoId,
+        name: repository.name,
+        owner: repository.owner,
+        fullName: repository.fullName,
+        description: repository.description,
+        language: repository.language,
+        visibility: repository.visibility,
+        archived: repository.archived,
+        topics: repository.topics,
+        pushedAt: repository.pushedAt,
+        syncWatermark: repository.syncWatermark,
+        syncResumePage: repository.syncResumePage,
+        syncResumeWatermark: repository.syncResumeWatermark,
+        syncClientId: repository.syncClientId,
+        lastSyncedAt: repository.lastSyncedAt,
+      })
+      .from(repository)
+      .innerJoin(dashboardRepository, eq(dashboardRepository.repositoryId, repository.id));
+  }
+
+  /**
+   * Get the client of a dashboard tracking this repository, used to pick GitHub credentials for syncs
+   */
+  async findClientIdForRepository(repositoryId: string): Promise<string | null> {
+    const [result] = await this.db
+      .select({ clientId: dashboard.clientId })
+      .from(dashboardRepository)
+      .innerJoin(dashboard, eq(dashboard.id, dashboardRepository.dashboardId))
+      .where(and(eq(dashboardRepository.repositoryId, repositoryId), isNotNull(dashboard.clientId)))
+      .orderBy(dashboard.createdAt)
+      .limit(1);
+    return result?.clientId ?? null;
+  }
+
+  /**
+   * Record a completed sync by a client's credentials and advance the updated_at watermark
+   */
+  async updateSyncWatermark(id: string, syncWatermark: Date | null, syncClientId: string | null): Promise<void> {
+    await this.db
+      .update(repository)
+      .set({ syncWatermark, syncResumePage: null, syncResumeWatermark: null, syncClientId, lastSyncedAt: new Date() })
+      .where(eq(repository.id, id));
+  }
+
+  /**
+   * Record a sync that stopped at its page cap; the watermark stays until the remaining pages are stored
+   */
+  async updateSyncResume(id: string, syncResumePage: number, syncResumeWatermark: Date | null, syncClientId: string | null): Promise<void> {
+    await this.db
+      .update(repository)
+      .set({ syncResumePage, syncResumeWatermark, syncClientId })
+      .where(eq(repository.id, id));
+  }
+}
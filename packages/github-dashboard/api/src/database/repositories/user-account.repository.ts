@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { eq, sql } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { NewUserAccount, userAccount, UserAccount } from '../entities';
+
+@Injectable()
+export class UserAccountRepository extends BaseRepository<UserAccount, NewUserAccount, Partial<NewUserAccount>> {
+  constructor() {
+    super(userAccount);
+  }
+
+  /**
+   * Find an account by email (compared lowercase)
+   */
+  async findByEmail(email: string): Promise<UserAccount | null> {
+    const [account] = await this.db
+      .select()
+      .from(userAccount)
+      .where(eq(userAccount.email, email.toLowerCase()))
+      .limit(1);
+    return (account as UserAccount) ?? null;
+  }
+
+  /**
+   * Find an account by GitHub user ID
+   */
+  async findByGitHubUserId(githubUserId: string): Promise<UserAccount | null> {
+    const [account] = await this.db
+      .select()
+      .from(userAccount)
+      .where(eq(userAccount.githubUserId, githubUserId))
+      .limit(1);
+    return (account as UserAccount) ?? null;
+  }
+
+  /**
+   * Find an account by its GitHub username (case-insensitive, like GitHub)
+   */
+  async findByGitHubUsername(githubUsername: string): Promise<UserAccount | null> {
+    const [account] = await this.db
+      .select()
+      .from(userAccount)
+      .where(sql`lower(${userAccount.githubUsername}) = ${githubUsername.toLowerCase()}`)
+      .limit(1);
+    return (account as UserAccount) ?? null;
+  }
+}
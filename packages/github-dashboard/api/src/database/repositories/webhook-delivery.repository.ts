@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+
+import { BaseRepository } from '../base.repository';
+import { webhookDelivery, WebhookDelivery, NewWebhookDelivery } from '../entities';
+
+@Injectable()
+export class WebhookDeliveryRepository extends BaseRepository<WebhookDelivery, NewWebhookDelivery, Partial<NewWebhookDelivery>> {
+  constructor() {
+    super(webhookDelivery);
+  }
+
+  /**
+   * Record a delivery; returns false when it was already recorded (a replay)
+   */
+  async recordDelivery(deliveryId: string, event: string): Promise<boolean> {
+    const inserted = await this.db
+      .insert(webhookDelivery)
+      .values({ deliveryId, event })
+      .onConflictDoNothing()
+      .returning({ deliveryId: webhookDelivery.deliveryId });
+    return inserted.length > 0;
+  }
+
+  /**
+   * Forget a delivery that failed to process so GitHub's redelivery is accepted
+   */
+  async deleteDelivery(deliveryId: string): Promise<void> {
+    await this.db
+      .delete(webhookDelivery)
+      .where(eq(webhookDelivery.deliveryId, deliveryId));
+  }
+}
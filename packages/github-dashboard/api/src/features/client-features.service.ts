@@ -0,0 +1,42 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+
+import { ClientRepository } from '../database/repositories/client.repository';
+
+// Tier changes take effect within this long
+const FEATURES_TTL_MS = 60 * 1000;
+
+/**
+ * Features a client's tier includes (tier_type_feature), for enforcing premium features server-side
+ */
+@Injectable()
+export class ClientFeaturesService {
+  private readonly cache = new Map<string, { features: string[]; expiresAt: number }>();
+
+  constructor(private readonly clientRepository: ClientRepository) {}
+
+  async getFeatures(clientId: string): Promise<string[]> {
+    const cached = this.cache.get(clientId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.features;
+    }
+
+    const features = await this.clientRepository.getFeatureCodes(clientId);
+    this.cache.set(clientId, { features, expiresAt: Date.now() + FEATURES_TTL_MS });
+    return features;
+  }
+
+  /**
+   * Reject with 403 unless the client's tier includes every one of the features
+   */
+  async assertFeatures(clientId: string | null, features: string[]): Promise<void> {
+    if (!clientId) {
+      throw new ForbiddenException(`Requires a client with the ${features.join(', ')} feature; sign in and select a client`);
+    }
+
+    const available = await this.getFeatures(clientId);
+    const missing = features.filter(feature => !available.includes(feature));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`The client's tier doesn't include the ${missing.join(', ')} feature`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+
+import { AuthService } from '../auth/auth.service';
+
+import { ClientFeaturesService } from './client-features.service';
+
+export const REQUIRED_FEATURES_KEY = 'requiredFeatures';
+
+export interface ClientRequest extends Request {
+  // Client resolved by the guard, for handlers that check ownership
+  clientId?: string;
+}
+
+/**
+ * Resolves the requesting client from the session and checks its tier against the route's @RequiresFeature features
+ */
+@Injectable()
+export class FeatureGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly clientFeatures: ClientFeaturesService,
+    private readonly authService: AuthService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const features = this.reflector.getAllAndOverride<string[] | undefined>(REQUIRED_FEATURES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!features || features.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<ClientRequest>();
+    const clientId = (await this.authService.authenticate(request.headers))?.clientId ?? null;
+    await this.clientFeatures.assertFeatures(clientId, features);
+    request.clientId = clientId as string;
+    return true;
+  }
+}
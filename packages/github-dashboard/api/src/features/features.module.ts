@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+
+import { ClientFeaturesService } from './client-features.service';
+import { FeatureGuard } from './feature.guard';
+
+// Global so any controller can use @RequiresFeature
+@Global()
+@Module({
+  providers: [ClientFeaturesService, FeatureGuard],
+  exports: [ClientFeaturesService, FeatureGuard],
+})
+export class FeaturesModule {}
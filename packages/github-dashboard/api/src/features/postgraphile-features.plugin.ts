@@ -0,0 +1,38 @@
+import { makeWrapResolversPlugin } from 'postgraphile';
+
+import { ClientFeaturesService } from './client-features.service';
+
+interface MutationFeatureRule {
+  feature: string;
+  // Whether a root mutation with this input uses the feature
+  applies: (mutationName: string, input: Record<string, any> | undefined) => boolean;
+}
+
+// Mutations the web app only offers to tiers with the feature
+const MUTATION_FEATURE_RULES: MutationFeatureRule[] = [
+  {
+    feature: 'type_chips',
+    applies: (mutationName, input) =>
+      (/^updateDashboard(By\w+)?$/.test(mutationName) && input?.dashboardPatch?.dashboardTypeId != null)
+      || (mutationName === 'createDashboard' && input?.dashboard?.dashboardTypeId != null),
+  },
+];
+
+/**
+ * PostGraphile counterpart of @RequiresFeature: root mutations using a premium feature are rejected
+ * unless the client of the session in the GraphQL context has it
+ */
+export function makeFeatureEnforcementPlugin(clientFeatures: ClientFeaturesService) {
+  return makeWrapResolversPlugin(
+    context => (context.scope.isRootMutation ? { mutationName: context.scope.fieldName as string } : null),
+    ({ mutationName }) => async (resolve, source, args, context, resolveInfo) => {
+      const features = MUTATION_FEATURE_RULES
+        .filter(rule => rule.applies(mutationName, args.input))
+        .map(rule => rule.feature);
+      if (features.length > 0) {
+        await clientFeatures.assertFeatures(context.session?.clientId ?? null, features);
+      }
+      return resolve(source, args, context, resolveInfo);
+    }
+  );
+}
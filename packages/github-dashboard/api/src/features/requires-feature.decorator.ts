@@ -0,0 +1,9 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+
+import { FeatureGuard, REQUIRED_FEATURES_KEY } from './feature.guard';
+
+/**
+ * Restrict a route or controller to clients whose tier includes the features, e.g. @RequiresFeature('export')
+ */
+export const RequiresFeature = (...features: string[]) =>
+  applyDecorators(SetMetadata(REQUIRED_FEATURES_KEY, features), UseGuards(FeatureGuard));
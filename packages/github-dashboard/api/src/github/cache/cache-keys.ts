@@ -7,30 +7,33 @@ export class CacheKeys {
    * Generate cache key for PR list in a repository
    * @param owner Repository owner
    * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
    * @param windowDays Number of days to look back (e.g., 90 for last 90 days)
    */
-  static prList(owner: string, repo: string, windowDays = 90): string {
-    return `repo:${owner}/${repo}:prs:updated:${windowDays}d`;
+  static prList(owner: string, repo: string, clientId: string | null, windowDays = 90): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}prs:updated:${windowDays}d`;
   }
 
   /**
    * Generate cache key for reviews of a specific PR
    * @param owner Repository owner
    * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
    * @param prNumber Pull request number
    */
-  static prReviews(owner: string, repo: string, prNumber: number): string {
-    return `repo:${owner}/${repo}:pr:${prNumber}:reviews`;
+  static prReviews(owner: string, repo: string, clientId: string | null, prNumber: number): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}pr:${prNumber}:reviews`;
   }
 
   /**
    * Generate cache key for reactions of a specific PR
    * @param owner Repository owner
    * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
    * @param prNumber Pull request number
    */
-  static prReactions(owner: string, repo: string, prNumber: number): string {
-    return `repo:${owner}/${repo}:pr:${prNumber}:reactions`;
+  static prReactions(owner: string, repo: string, clientId: string | null, prNumber: number): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}pr:${prNumber}:reactions`;
   }
 
   /**
@@ -73,4 +76,84 @@ export class CacheKeys {
   static orgMembers(orgName: string): string {
     return `org:${orgName}:members`;
   }
+
+  /**
+   * Generate cache key for repo-wide created/merged aggregation over a date range
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
+   * @param startISO Range start (YYYY-MM-DD)
+   * @param endISO Range end (YYYY-MM-DD)
+   */
+  static repoActivityAggregate(owner: string, repo: string, clientId: string | null, startISO: string, endISO: string): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}agg:${startISO}:${endISO}`;
+  }
+
+  /**
+   * Generate cache key for a repository's PRs, reviews and reactions fetched over GraphQL
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
+   * @param startKey Range start (ISO timestamp)
+   * @param endKey Range end (ISO timestamp)
+   * @param includeReviews Whether reviews and reactions were fetched
+   */
+  static repoActivityGraphQL(owner: string, repo: string, clientId: string | null, startKey: string, endKey: string, includeReviews: boolean): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}graphql:${startKey}:${endKey}:${includeReviews ? 'rev1' : 'rev0'}`;
+  }
+
+  /**
+   * Generate cache key for per-user commit and issue counts of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
+   * @param startKey Range start (YYYY-MM-DD)
+   * @param endKey Range end (YYYY-MM-DD)
+   * @param kinds Which counts were fetched, e.g. 'commits,issues_opened'
+   */
+  static repoContributions(owner: string, repo: string, clientId: string | null, startKey: string, endKey: string, kinds: string): string {
+    return `${CacheKeys.repositoryScope(owner, repo, clientId)}contributions:${startKey}:${endKey}:${kinds}`;
+  }
+
+  /**
+   * Prefix shared by every cache key for a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   */
+  static repositoryPrefix(owner: string, repo: string): string {
+    return `repo:${owner}/${repo}:`;
+  }
+
+  /**
+   * Prefix of a repository's keys read with one client's credentials; data read with one tenant's
+   * credentials (e.g. a private repository) is never served to another. Falls under repositoryPrefix
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param clientId Client whose credentials read the repository (null for the default credentials)
+   */
+  static repositoryScope(owner: string, repo: string, clientId: string | null): string {
+    return `${CacheKeys.repositoryPrefix(owner, repo)}${clientId ? `client:${clientId}` : 'default'}:`;
+  }
+
+  /**
+   * Generate cache key for a dashboard's batch activity summary
+   * @param dashboardId Dashboard ID
+   * @param repos Repositories in the request (owner/repo)
+   * @param startKey Range start, ISO timestamp or 'auto30d'
+   * @param endKey Range end, ISO timestamp or 'now'
+   * @param includeReviews Whether reviews were counted
+   * @param contributionsKey Commit and issue activity types counted, if any
+   */
+  static dashboardBatch(dashboardId: string, repos: string[], startKey: string, endKey: string, includeReviews: boolean, contributionsKey = ''): string {
+    const key = `${CacheKeys.dashboardBatchPrefix(dashboardId)}${repos.join('|')}:${startKey}:${endKey}:${includeReviews ? 'rev1' : 'rev0'}`;
+    return contributionsKey ? `${key}:${contributionsKey}` : key;
+  }
+
+  /**
+   * Prefix shared by every batch activity summary of a dashboard
+   * @param dashboardId Dashboard ID
+   */
+  static dashboardBatchPrefix(dashboardId: string): string {
+    return `batch:${dashboardId}:`;
+  }
 }
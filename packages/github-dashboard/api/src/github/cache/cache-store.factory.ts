@@ -0,0 +1,25 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { CacheStore } from './cache-store.interface';
+import { MemoryCacheStore } from './memory-cache.store';
+import { RedisCacheStore } from './redis-cache.store';
+
+/**
+ * Build the cache backend selected by CACHE_DRIVER ('memory' | 'redis')
+ */
+export function createCacheStore(configService: ConfigService): CacheStore {
+  const logger = new Logger('CacheStoreFactory');
+  const driver = configService.get<string>('cache.driver', 'memory');
+
+  if (driver === 'redis') {
+    const url = configService.get<string>('cache.redisUrl', 'redis://localhost:6379');
+    logger.log(`Using Redis cache store at ${new URL(url).host}`);
+    return new RedisCacheStore(url, configService.get<string>('cache.keyPrefix', 'github-dashboard:'));
+  }
+
+  const maxEntries = configService.get<number>('cache.maxEntries', 5000);
+  const maxBytes = configService.get<number>('cache.maxBytes', 100 * 1024 * 1024);
+  logger.log(`Using in-memory LRU cache store (max ${maxEntries} entries, ${maxBytes} bytes)`);
+  return new MemoryCacheStore(maxEntries, maxBytes);
+}
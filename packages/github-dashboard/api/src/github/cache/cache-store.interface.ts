@@ -0,0 +1,51 @@
+/**
+ * Pluggable storage backend for GitHubCacheService
+ */
+
+export const CACHE_STORE = Symbol('CACHE_STORE');
+
+export interface CacheStoreStats {
+  backend: 'memory' | 'redis';
+  size: number;
+  bytes?: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface CacheStore {
+  /**
+   * Get a value, or null when missing or expired
+   */
+  get<T>(key: string): Promise<T | null>;
+
+  /**
+   * Store a value with a TTL in milliseconds
+   */
+  set<T>(key: string, data: T, ttl: number): Promise<void>;
+
+  /**
+   * Delete a single key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Delete every key starting with the given prefix; returns the number deleted
+   */
+  deleteByPrefix(prefix: string): Promise<number>;
+
+  /**
+   * Remove all entries owned by this store
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Remove expired entries; returns the number removed
+   */
+  cleanup(): Promise<number>;
+
+  /**
+   * Entry count and hit/miss/eviction counters
+   */
+  getStats(): Promise<CacheStoreStats>;
+}
@@ -1,89 +1,74 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-}
+import { CACHE_STORE } from './cache-store.interface';
+import type { CacheStore, CacheStoreStats } from './cache-store.interface';
 
 @Injectable()
 export class GitHubCacheService {
   private readonly logger = new Logger(GitHubCacheService.name);
-  private cache = new Map<string, CacheEntry<any>>();
   private readonly DEFAULT_TTL = 15 * 60 * 1000; // 15 minutes
 
+  constructor(@Inject(CACHE_STORE) private readonly store: CacheStore) {}
+
   /**
    * Get cached data if it exists and hasn't expired
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) {
-      return null;
-    }
-
-    const now = Date.now();
-    if (now - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      this.logger.debug(`Cache expired for key: ${key}`);
-      return null;
-    }
-
-    this.logger.debug(`Cache hit for key: ${key}`);
-    return entry.data;
+  async get<T>(key: string): Promise<T | null> {
+    const data = await this.store.get<T>(key);
+    this.logger.debug(`Cache ${data === null ? 'miss' : 'hit'} for key: ${key}`);
+    return data;
   }
 
   /**
    * Store data in cache with TTL
    */
-  set<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
-    });
+  async set<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): Promise<void> {
+    await this.store.set(key, data, ttl);
     this.logger.debug(`Cached data for key: ${key} (TTL: ${ttl}ms)`);
   }
 
   /**
    * Delete specific cache entry
    */
-  delete(key: string): void {
-    this.cache.delete(key);
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
     this.logger.debug(`Deleted cache entry: ${key}`);
   }
 
+  /**
+   * Delete all cache entries whose key starts with the prefix (see CacheKeys)
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const deleted = await this.store.deleteByPrefix(prefix);
+    this.logger.debug(`Deleted ${deleted} cache entries with prefix: ${prefix}`);
+    return deleted;
+  }
+
   /**
    * Clear all cache entries
    */
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.store.clear();
     this.logger.debug('Cleared all cache entries');
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, including hit/miss/eviction counters
    */
-  getStats(): { size: number; keys: string[] } {
+  async getStats(): Promise<CacheStoreStats & { hitRate: number }> {
+    const stats = await this.store.getStats();
+    const lookups = stats.hits + stats.misses;
     return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
+      ...stats,
+      hitRate: lookups > 0 ? stats.hits / lookups : 0,
     };
   }
 
   /**
    * Clean up expired entries
    */
-  cleanup(): void {
-    const now = Date.now();
-    let cleaned = 0;
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
-        cleaned++;
-      }
-    }
-    
+  async cleanup(): Promise<void> {
+    const cleaned = await this.store.cleanup();
     if (cleaned > 0) {
       this.logger.debug(`Cleaned up ${cleaned} expired cache entries`);
     }
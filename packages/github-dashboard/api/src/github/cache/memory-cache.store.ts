@@ -0,0 +1,128 @@
+import { Logger } from '@nestjs/common';
+
+import { CacheStore, CacheStoreStats } from './cache-store.interface';
+
+interface CacheEntry<T> {
+  data: T;
+  expiresAt: number;
+  bytes: number;
+}
+
+/**
+ * In-process LRU cache bounded by entry count and approximate size in bytes.
+ * Map insertion order doubles as recency order: reads move an entry to the end, evictions take from the front.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly logger = new Logger(MemoryCacheStore.name);
+  private readonly cache = new Map<string, CacheEntry<any>>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly maxBytes: number
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.remove(key, entry);
+      this.misses++;
+      return null;
+    }
+
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.hits++;
+    return entry.data;
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    const bytes = this.sizeOf(data);
+    if (bytes > this.maxBytes) {
+      this.logger.warn(`Not caching ${key}: ${bytes} bytes exceeds the ${this.maxBytes} byte limit`);
+      return;
+    }
+
+    const existing = this.cache.get(key);
+    if (existing) this.remove(key, existing);
+
+    this.cache.set(key, { data, expiresAt: Date.now() + ttl, bytes });
+    this.bytes += bytes;
+    this.evictToLimits();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.cache.get(key);
+    if (entry) this.remove(key, entry);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const [key, entry] of this.cache.entries()) {
+      if (key.startsWith(prefix)) {
+        this.remove(key, entry);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+    this.bytes = 0;
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [key, entry] of this.cache.entries()) {
+      if (now > entry.expiresAt) {
+        this.remove(key, entry);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    return {
+      backend: 'memory',
+      size: this.cache.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private evictToLimits(): void {
+    while (this.cache.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.cache.keys().next();
+      if (oldest.done) return;
+      this.remove(oldest.value, this.cache.get(oldest.value));
+      this.evictions++;
+    }
+  }
+
+  private remove(key: string, entry: CacheEntry<any> | undefined): void {
+    this.cache.delete(key);
+    if (entry) this.bytes -= entry.bytes;
+  }
+
+  private sizeOf(data: unknown): number {
+    try {
+      return Buffer.byteLength(JSON.stringify(data) ?? '', 'utf8');
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import * as net from 'net';
+
+import { RedisCacheStore } from './redis-cache.store';
+import { RespClient } from './resp.client';
+
+/**
+ * In-process stand-in for a Redis server: enough of RESP2 and GET/SET/DEL/SCAN/INFO/AUTH/SELECT
+ * for the cache store, recording every command it receives
+ */
+class FakeRedisServer {
+  readonly data = new Map<string, string>();
+  readonly commands: string[][] = [];
+  // While set, commands are recorded but never answered
+  stalled = false;
+  private readonly server = net.createServer(socket => this.accept(socket));
+  private readonly sockets = new Set<net.Socket>();
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `redis://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let parsed: { args: string[]; rest: string } | null;
+      while ((parsed = this.parse(buffer))) {
+        buffer = parsed.rest;
+        this.commands.push(parsed.args);
+        if (!this.stalled) socket.write(this.execute(parsed.args));
+      }
+    });
+  }
+
+  // Commands arrive as arrays of bulk strings
+  private parse(input: string): { args: string[]; rest: string } | null {
+    const lines = input.split('\r\n');
+    if (lines.length < 2 || !lines[0].startsWith('*')) return null;
+    const count = Number(lines[0].slice(1));
+    if (lines.length < 1 + count * 2 + 1) return null;
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      args.push(lines[2 + i * 2]);
+    }
+    return { args, rest: lines.slice(1 + count * 2).join('\r\n') };
+  }
+
+  private execute([name, ...args]: string[]): string {
+    switch (name.toUpperCase()) {
+      case 'GET': {
+        const value = this.data.get(args[0]);
+        return value === undefined ? '$-1\r\n' : this.bulk(value);
+      }
+      case 'SET':
+        this.data.set(args[0], args[1]);
+        return '+OK\r\n';
+      case 'DEL':
+        return `:${args.filter(key => this.data.delete(key)).length}\r\n`;
+      case 'SCAN': {
+        const pattern = this.globToRegExp(args[args.indexOf('MATCH') + 1]);
+        const keys = [...this.data.keys()].filter(key => pattern.test(key));
+        return `*2\r\n${this.bulk('0')}*${keys.length}\r\n${keys.map(key => this.bulk(key)).join('')}`;
+      }
+      case 'INFO':
+        return this.bulk('# Stats\r\nevicted_keys:3\r\n');
+      case 'AUTH':
+        return args[args.length - 1] === 'secret' ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+
+  private bulk(value: string): string {
+    return `$${Buffer.byteLength(value, 'utf8')}\r\n${value}\r\n`;
+  }
+
+  private globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '\\') source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      else if (char === '*') source += '.*';
+      else if (char === '?') source += '.';
+      else source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
+
+describe('RedisCacheStore', () => {
+  let server: FakeRedisServer;
+  let url: string;
+  let store: RedisCacheStore;
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    url = await server.start();
+    store = new RedisCacheStore(url, 'test:');
+  });
+
+  // Stopping the server also drops the store's connection
+  afterEach(() => server.stop());
+
+  it('stores JSON under the key prefix with a millisecond TTL', async () => {
+    await store.set('user:octocat', { login: 'octocat' }, 1500);
+
+    expect(server.data.get('test:user:octocat')).toBe('{"login":"octocat"}');
+    expect(server.commands).toContainEqual(['SET', 'test:user:octocat', '{"login":"octocat"}', 'PX', '1500']);
+    await expect(store.get('user:octocat')).resolves.toEqual({ login: 'octocat' });
+  });
+
+  it('counts hits and misses and reads evictions from INFO', async () => {
+    await store.set('a', 1, 1000);
+    await store.get('a');
+    await store.get('missing');
+
+    await expect(store.getStats()).resolves.toEqual({ backend: 'redis', size: 1, hits: 1, misses: 1, evictions: 3 });
+  });
+
+  it('deletes keys by prefix, treating glob characters in the prefix literally', async () => {
+    await store.set('repo:a/b:prs', 1, 1000);
+    await store.set('repo:a/b:reviews', 2, 1000);
+    await store.set('repo:a/bc:prs', 3, 1000);
+    await store.set('repo:a*:prs', 4, 1000);
+    server.data.set('other:repo:a/b:prs', '5');
+
+    await expect(store.deleteByPrefix('repo:a/b:')).resolves.toBe(2);
+    await expect(store.deleteByPrefix('repo:a*')).resolves.toBe(1);
+
+    expect([...server.data.keys()].sort()).toEqual(['other:repo:a/b:prs', 'test:repo:a/bc:prs']);
+  });
+
+  it('clears only its own keys', async () => {
+    await store.set('a', 1, 1000);
+    server.data.set('other:a', '1');
+
+    await store.clear();
+
+    expect([...server.data.keys()]).toEqual(['other:a']);
+  });
+
+  it('authenticates and selects the database from the URL', async () => {
+    const authenticated = new RedisCacheStore(url.replace('redis://', 'redis://:secret@') + '/2', 'test:');
+    await authenticated.set('a', 1, 1000);
+
+    expect(server.commands.slice(0, 3)).toEqual([
+      ['AUTH', 'secret'],
+      ['SELECT', '2'],
+      ['SET', 'test:a', '1', 'PX', '1000'],
+    ]);
+  });
+
+  it('degrades to misses and no-ops when the server is unreachable', async () => {
+    await server.stop();
+
+    await expect(store.get('a')).resolves.toBeNull();
+    await expect(store.set('a', 1, 1000)).resolves.toBeUndefined();
+    await expect(store.delete('a')).resolves.toBeUndefined();
+    await expect(store.deleteByPrefix('a')).resolves.toBe(0);
+    await expect(store.getStats()).resolves.toMatchObject({ size: 0, misses: 1 });
+  });
+});
+
+describe('RespClient', () => {
+  let server: FakeRedisServer;
+  let client: RespClient;
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    client = new RespClient(new URL(await server.start()), 50);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  it('rejects a command that gets no reply and reconnects for the next one', async () => {
+    await client.command(['SET', 'a', '1']);
+    server.stalled = true;
+
+    await expect(client.command(['GET', 'a'])).rejects.toThrow('Redis command timed out after 50ms');
+
+    server.stalled = false;
+    await expect(client.command(['GET', 'a'])).resolves.toBe('1');
+  });
+
+  it('fails every pipelined command when one times out', async () => {
+    await client.command(['SET', 'a', '1']);
+    server.stalled = true;
+
+    const results = await Promise.allSettled([client.command(['GET', 'a']), client.command(['GET', 'b'])]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('rejects error replies without affecting later commands', async () => {
+    await expect(client.command(['NOPE'])).rejects.toThrow("ERR unknown command 'NOPE'");
+    await expect(client.command(['GET', 'missing'])).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { Logger } from '@nestjs/common';
+
+import { CacheStore, CacheStoreStats } from './cache-store.interface';
+import { RespClient } from './resp.client';
+
+/**
+ * Cache backed by any Redis-protocol server, shared across API instances.
+ * Connection failures degrade to cache misses so GitHub requests still go through.
+ */
+export class RedisCacheStore implements CacheStore {
+  private readonly logger = new Logger(RedisCacheStore.name);
+  private readonly client: RespClient;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    url: string,
+    private readonly keyPrefix: string
+  ) {
+    this.client = new RespClient(new URL(url));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.client.command(['GET', this.keyPrefix + key]);
+      if (typeof raw !== 'string') {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return JSON.parse(raw) as T;
+    } catch (error: unknown) {
+      this.misses++;
+      this.logger.warn(`Redis GET failed for ${key}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    try {
+      await this.client.command(['SET', this.keyPrefix + key, JSON.stringify(data), 'PX', Math.max(1, Math.round(ttl))]);
+    } catch (error: unknown) {
+      this.logger.warn(`Redis SET failed for ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.command(['DEL', this.keyPrefix + key]);
+    } catch (error: unknown) {
+      this.logger.warn(`Redis DEL failed for ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    try {
+      for (const keys of await this.scan(prefix)) {
+        deleted += Number(await this.client.command(['DEL', ...keys]));
+      }
+    } catch (error: unknown) {
+      this.logger.warn(`Redis DEL failed for prefix ${prefix}: ${error instanceof Error ? error.message : error}`);
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix('');
+  }
+
+  async cleanup(): Promise<number> {
+    // Redis expires keys itself
+    return 0;
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    let size = 0;
+    let evictions = 0;
+    try {
+      size = (await this.scan('')).reduce((sum, keys) => sum + keys.length, 0);
+      const info = await this.client.command(['INFO', 'stats']);
+      const match = typeof info === 'string' ? /evicted_keys:(\d+)/.exec(info) : null;
+      evictions = match ? Number(match[1]) : 0;
+    } catch (error: unknown) {
+      this.logger.warn(`Redis stats unavailable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return { backend: 'redis', size, hits: this.hits, misses: this.misses, evictions };
+  }
+
+  /**
+   * SCAN all keys under this store's prefix, in batches
+   */
+  private async scan(prefix: string): Promise<string[][]> {
+    const pattern = (this.keyPrefix + prefix).replace(/[*?[\]\\]/g, '\\$&') + '*';
+    const batches: string[][] = [];
+    let cursor = '0';
+    do {
+      const reply = await this.client.command(['SCAN', cursor, 'MATCH', pattern, 'COUNT', 500]) as [string, string[]];
+      cursor = reply[0];
+      if (reply[1].length > 0) batches.push(reply[1]);
+    } while (cursor !== '0');
+    return batches;
+  }
+}
@@ -0,0 +1,180 @@
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type RespValue = string | number | null | RespValue[];
+
+interface Connection {
+  socket: net.Socket;
+  // Unparsed reply bytes and the commands waiting for a reply, in the order they were sent
+  buffer: Buffer;
+  pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Minimal RESP2 client for a single Redis-protocol connection (Redis, Valkey, KeyDB, Dragonfly).
+ * Commands are pipelined over one socket and replies matched in FIFO order; the socket reconnects lazily.
+ * Connecting and every command give up after timeoutMs.
+ */
+export class RespClient {
+  private connection?: Connection;
+  private connecting?: Promise<Connection>;
+
+  constructor(
+    private readonly url: URL,
+    private readonly timeoutMs = 5000
+  ) {}
+
+  async command(args: Array<string | number>): Promise<RespValue> {
+    const connection = await this.connect();
+    return this.send(connection, args);
+  }
+
+  close(): void {
+    this.connection?.socket.end();
+    this.connection = undefined;
+  }
+
+  private async connect(): Promise<Connection> {
+    if (this.connection) return this.connection;
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  private open(): Promise<Connection> {
+    return new Promise((resolve, reject) => {
+      const port = Number(this.url.port) || 6379;
+      const host = this.url.hostname || 'localhost';
+      const socket = this.url.protocol === 'rediss:'
+        ? tls.connect({ port, host, servername: host })
+        : net.connect({ port, host });
+      const connection: Connection = { socket, buffer: Buffer.alloc(0), pending: [] };
+
+      socket.setTimeout(this.timeoutMs);
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', async () => {
+        socket.setTimeout(0);
+        try {
+          if (this.url.password) {
+            const user = decodeURIComponent(this.url.username);
+            const password = decodeURIComponent(this.url.password);
+            await this.send(connection, user ? ['AUTH', user, password] : ['AUTH', password]);
+          }
+          const db = this.url.pathname.replace('/', '');
+          if (db) await this.send(connection, ['SELECT', db]);
+          this.connection = connection;
+          resolve(connection);
+        } catch (error: unknown) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+      socket.on('data', (chunk: Buffer) => this.onData(connection, chunk));
+      socket.on('timeout', () => socket.destroy(new Error('Redis connection timed out')));
+      socket.on('error', (error: Error) => {
+        this.drop(connection, error);
+        reject(error);
+      });
+      // A dropped socket closes asynchronously, possibly after its replacement took new commands
+      socket.on('close', () => this.drop(connection, new Error('Redis connection closed')));
+    });
+  }
+
+  private send(connection: Connection, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      // Replies are matched in order, so one that never arrives leaves the connection unusable:
+      // drop it, failing every pending command, and reconnect on the next one
+      const timer = setTimeout(() => {
+        this.drop(connection, new Error(`Redis command timed out after ${this.timeoutMs}ms`));
+        connection.socket.destroy();
+      }, this.timeoutMs);
+      connection.pending.push({
+        resolve: value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      connection.socket.write(this.encode(args));
+    });
+  }
+
+  private encode(args: Array<string | number>): string {
+    let out = `*${args.length}\r\n`;
+    for (const arg of args) {
+      const value = String(arg);
+      out += `$${Buffer.byteLength(value, 'utf8')}\r\n${value}\r\n`;
+    }
+    return out;
+  }
+
+  private onData(connection: Connection, chunk: Buffer): void {
+    connection.buffer = Buffer.concat([connection.buffer, chunk]);
+    for (;;) {
+      const parsed = this.parse(connection.buffer, 0);
+      if (!parsed) return;
+      connection.buffer = connection.buffer.subarray(parsed.offset);
+      const waiter = connection.pending.shift();
+      if (!waiter) continue;
+      if (parsed.value instanceof Error) waiter.reject(parsed.value);
+      else waiter.resolve(parsed.value);
+    }
+  }
+
+  /**
+   * Parse one reply starting at offset; returns null when the buffer holds an incomplete reply
+   */
+  private parse(buffer: Buffer, offset: number): { value: RespValue | Error; offset: number } | null {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: new Error(line), offset: next };
+      case ':':
+        return { value: Number(line), offset: next };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) return { value: null, offset: next };
+        if (buffer.length < next + length + 2) return null;
+        return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) return { value: null, offset: next };
+        const items: RespValue[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(buffer, cursor);
+          if (!item) return null;
+          items.push(item.value instanceof Error ? item.value.message : item.value);
+          cursor = item.offset;
+        }
+        return { value: items, offset: cursor };
+      }
+      default:
+        return { value: new Error(`Unexpected RESP type '${type}'`), offset: next };
+    }
+  }
+
+  /**
+   * Stop using a connection and fail the commands still waiting on it
+   */
+  private drop(connection: Connection, error: Error): void {
+    if (this.connection === connection) this.connection = undefined;
+    while (connection.pending.length > 0) {
+      connection.pending.shift()?.reject(error);
+    }
+  }
+}
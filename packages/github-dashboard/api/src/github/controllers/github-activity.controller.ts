@@ -1,5 +1,6 @@
-import { Controller, Get, Post, Param, Query, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
 
+import { DashboardViewerGuard } from '../../dashboards/dashboard-viewer.guard';
 import { GitHubActivityService } from '../services/github-activity.service';
 
 @Controller('github/activity')
@@ -11,6 +12,7 @@ export class GitHubActivityController {
    * GET /api/github/activity/batch-summary?dashboard_id=uuid&repos=owner/repo1&start_date=2024-01-01&end_date=2024-12-31
    */
   @Get('batch-summary')
+  @UseGuards(DashboardViewerGuard)
   async getCachedBatchUserActivitySummary(
     @Query('dashboard_id') dashboardId: string,
     @Query('repos') repos?: string | string[],
@@ -0,0 +1,61 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+
+import { AuthGuard, AuthRequest } from '../../auth/auth.guard';
+import { AuthService, AuthSession } from '../../auth/auth.service';
+import { ClientRole } from '../../auth/client-role';
+
+import { GitHubCredentialsController } from './github-credentials.controller';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+
+const handlers = ['findAll', 'create', 'remove'] as const;
+
+/**
+ * Runs the controller's guard for one of its handlers, as Nest would for a request to the client's credentials
+ */
+async function authorize(
+  handler: typeof handlers[number],
+  session: AuthSession | null,
+  roleInClient: ClientRole | null = null
+): Promise<boolean> {
+  const authService = {
+    authenticate: async () => session,
+    getRole: async (_userId: string, clientId: string) => (clientId === CLIENT_ID ? roleInClient : null),
+  } as unknown as AuthService;
+  const request = { headers: {}, params: { clientId: CLIENT_ID } } as unknown as AuthRequest;
+  const context = {
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => GitHubCredentialsController.prototype[handler],
+    getClass: () => GitHubCredentialsController,
+  } as unknown as ExecutionContext;
+
+  return new AuthGuard(new Reflector(), authService).canActivate(context);
+}
+
+describe('GitHubCredentialsController', () => {
+  it('guards every route with the AuthGuard', () => {
+    expect(Reflect.getMetadata(GUARDS_METADATA, GitHubCredentialsController)).toContain(AuthGuard);
+  });
+
+  describe.each(handlers)('%s', handler => {
+    it('rejects requests without a session', async () => {
+      await expect(authorize(handler, null)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it.each(['viewer', 'editor'] as const)('rejects the %s role in the client', async role => {
+      await expect(authorize(handler, { userId: 'user-1', clientId: CLIENT_ID, role })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('rejects an admin of another client', async () => {
+      await expect(authorize(handler, { userId: 'user-1', clientId: OTHER_CLIENT_ID, role: 'admin' })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('allows an admin of the client, whichever client the session is scoped to', async () => {
+      await expect(authorize(handler, { userId: 'user-1', clientId: CLIENT_ID, role: 'admin' })).resolves.toBe(true);
+      await expect(authorize(handler, { userId: 'user-1', clientId: OTHER_CLIENT_ID, role: 'viewer' }, 'admin')).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post } from '@nestjs/common';
+
+import { RequiresRole } from '../../auth/requires-role.decorator';
+import { GitHubCredentialsService } from '../credentials/github-credentials.service';
+import { CreateGitHubCredentialDto, GitHubCredentialDto } from '../dto';
+
+@Controller('clients/:clientId/github-credentials')
+@RequiresRole('admin')
+export class GitHubCredentialsController {
+  constructor(private readonly credentialsService: GitHubCredentialsService) {}
+
+  /**
+   * List a client's GitHub credentials (without secrets) and their last known rate limits
+   * GET /api/clients/:clientId/github-credentials
+   */
+  @Get()
+  async findAll(@Param('clientId', ParseUUIDPipe) clientId: string): Promise<GitHubCredentialDto[]> {
+    return this.credentialsService.findAll(clientId);
+  }
+
+  /**
+   * Store a PAT or GitHub App installation for a client; secrets are encrypted at rest
+   * POST /api/clients/:clientId/github-credentials
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('clientId', ParseUUIDPipe) clientId: string,
+    @Body() dto: CreateGitHubCredentialDto
+  ): Promise<GitHubCredentialDto> {
+    return this.credentialsService.create(clientId, dto);
+  }
+
+  /**
+   * Delete a client's GitHub credential
+   * DELETE /api/clients/:clientId/github-credentials/:credentialId
+   */
+  @Delete(':credentialId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('clientId', ParseUUIDPipe) clientId: string,
+    @Param('credentialId', ParseUUIDPipe) credentialId: string
+  ): Promise<void> {
+    return this.credentialsService.remove(clientId, credentialId);
+  }
+}
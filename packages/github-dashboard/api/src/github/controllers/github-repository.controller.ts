@@ -1,6 +1,6 @@
 import { Controller, Get, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
 
-import { GitHubRepo, GitHubPullRequest } from '../interfaces';
+import { GitHubRepo, GitHubPullRequest, GitHubReview, PaginatedResult } from '../interfaces';
 import { GitHubRepositoryService } from '../services/github-repository.service';
 
 @Controller('github/repos')
@@ -43,7 +43,7 @@ export class GitHubRepositoryController {
     @Param('owner') owner: string,
     @Param('repo') repo: string,
     @Param('pullNumber') pullNumber: number
-  ): Promise<any[]> {
+  ): Promise<PaginatedResult<GitHubReview>> {
     return this.githubRepositoryService.getPullRequestReviews(owner, repo, pullNumber);
   }
 }
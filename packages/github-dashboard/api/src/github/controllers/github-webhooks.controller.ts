@@ -0,0 +1,27 @@
+import { Body, Controller, Headers, HttpCode, HttpStatus, Post, Req } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+
+import { GitHubWebhookService } from '../webhooks/github-webhook.service';
+import type { GitHubWebhookPayload, GitHubWebhookResult } from '../webhooks/github-webhook.service';
+
+@Controller('github/webhooks')
+export class GitHubWebhooksController {
+  constructor(private readonly webhookService: GitHubWebhookService) {}
+
+  /**
+   * Receive a signed GitHub webhook delivery (pull_request, pull_request_review, push)
+   * POST /api/github/webhooks
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-github-event') event: string,
+    @Headers('x-github-delivery') deliveryId: string | undefined,
+    @Headers('x-hub-signature-256') signature: string | undefined,
+    @Body() payload: GitHubWebhookPayload
+  ): Promise<GitHubWebhookResult> {
+    return this.webhookService.handleDelivery({ event, deliveryId, signature, rawBody: req.rawBody, payload });
+  }
+}
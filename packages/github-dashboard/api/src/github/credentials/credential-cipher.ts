@@ -0,0 +1,52 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * AES-256-GCM encryption for credentials at rest.
+ * The key is derived from GITHUB_CREDENTIALS_KEY; ciphertexts look like `v1:<iv>:<tag>:<data>` (base64 parts).
+ */
+@Injectable()
+export class CredentialCipher {
+  private readonly key: Buffer | null;
+
+  constructor(configService: ConfigService) {
+    const secret = configService.get<string>('github.credentialsKey');
+    this.key = secret ? createHash('sha256').update(secret).digest() : null;
+  }
+
+  isConfigured(): boolean {
+    return this.key !== null;
+  }
+
+  encrypt(plaintext: string): string {
+    const key = this.requireKey();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+  }
+
+  decrypt(ciphertext: string): string {
+    const key = this.requireKey();
+    const [version, iv, tag, data] = ciphertext.split(':');
+    if (version !== VERSION || !iv || !tag || data === undefined) {
+      throw new Error('Unrecognized credential ciphertext');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('GITHUB_CREDENTIALS_KEY is not configured');
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,205 @@
+import { createSign } from 'crypto';
+
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+
+// Installation tokens live for an hour; refresh a little before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Which installation covers an org rarely changes; look it up again at most this often
+const INSTALLATION_LOOKUP_TTL_MS = 60 * 60 * 1000;
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface InstallationLookup {
+  installationId: string | null;
+  checkedAt: number;
+}
+
+export interface DeploymentInstallation {
+  installationId: string;
+  resolveToken: () => Promise<string>;
+}
+
+/**
+ * Mints GitHub App installation access tokens from an app id and private key (RS256 JWT)
+ * and caches them per installation until shortly before expiry.
+ * When the deployment itself runs as a GitHub App (GITHUB_APP_ID / GITHUB_APP_PRIVATE_KEY),
+ * also resolves which installation covers each org.
+ */
+@Injectable()
+export class GitHubAppTokenService {
+  private readonly logger = new Logger(GitHubAppTokenService.name);
+  private readonly tokens = new Map<string, InstallationToken>();
+  private readonly inFlight = new Map<string, Promise<InstallationToken>>();
+  private readonly installations = new Map<string, InstallationLookup>();
+  private readonly inFlightLookups = new Map<string, Promise<string | null>>();
+  private readonly appId?: string;
+  private readonly privateKey?: string;
+  private readonly defaultInstallationId?: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService
+  ) {
+    this.appId = configService.get<string>('github.app.id');
+    this.privateKey = configService.get<string>('github.app.privateKey');
+    this.defaultInstallationId = configService.get<string>('github.app.defaultInstallationId');
+  }
+
+  /**
+   * Whether the deployment authenticates as a GitHub App instead of with GITHUB_TOKEN
+   */
+  isAppModeConfigured(): boolean {
+    return !!this.appId && !!this.privateKey;
+  }
+
+  /**
+   * The deployment app's installation for an org or user, falling back to GITHUB_APP_INSTALLATION_ID
+   * when the app isn't installed there. Returns null outside app mode or when no installation applies.
+   */
+  async getDeploymentInstallation(owner?: string): Promise<DeploymentInstallation | null> {
+    const { appId, privateKey } = this;
+    if (!appId || !privateKey) return null;
+
+    let installationId: string | null = null;
+    if (owner) {
+      try {
+        installationId = await this.findInstallationId(owner.toLowerCase());
+      } catch (error: unknown) {
+        // Not cached, so the next request looks it up again
+        this.logger.warn(`Failed to look up app installation for ${owner}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    installationId = installationId ?? this.defaultInstallationId ?? null;
+    if (!installationId) return null;
+
+    return {
+      installationId,
+      resolveToken: () => this.getInstallationToken(appId, privateKey, installationId),
+    };
+  }
+
+  /**
+   * Get a valid installation token, minting a new one when the cached token is near expiry
+   */
+  async getInstallationToken(appId: string, privateKey: string, installationId: string): Promise<string> {
+    const cacheKey = `${appId}:${installationId}`;
+    const cached = this.tokens.get(cacheKey);
+    if (cached && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return cached.token;
+    }
+
+    let pending = this.inFlight.get(cacheKey);
+    if (!pending) {
+      pending = this.mintInstallationToken(appId, privateKey, installationId)
+        .then(token => {
+          this.tokens.set(cacheKey, token);
+          return token;
+        })
+        .finally(() => this.inFlight.delete(cacheKey));
+      this.inFlight.set(cacheKey, pending);
+    }
+    return (await pending).token;
+  }
+
+  /**
+   * The deployment app as GitHub sees it; fails when the app id or private key is rejected
+   */
+  async getApp(): Promise<{ id: number; slug: string }> {
+    if (!this.appId || !this.privateKey) {
+      throw new Error('GitHub App mode is not configured');
+    }
+
+    const response = await firstValueFrom(
+      this.httpService.get<{ id: number; slug: string }>(`${this.getBaseUrl()}/app`, { headers: this.appHeaders(this.appId, this.privateKey) })
+    );
+    return response.data;
+  }
+
+  /**
+   * Sign a short-lived JWT identifying the app itself
+   */
+  createAppJwt(appId: string, privateKey: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    // Backdate iat to tolerate clock drift; GitHub caps exp at 10 minutes
+    const header = this.base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = this.base64url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }));
+    const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+    return `${header}.${payload}.${this.base64url(signature)}`;
+  }
+
+  /**
+   * Cached installation lookup for an owner, negative results included
+   */
+  private async findInstallationId(owner: string): Promise<string | null> {
+    const cached = this.installations.get(owner);
+    if (cached && Date.now() - cached.checkedAt < INSTALLATION_LOOKUP_TTL_MS) {
+      return cached.installationId;
+    }
+
+    let pending = this.inFlightLookups.get(owner);
+    if (!pending) {
+      pending = this.lookupInstallationId(owner)
+        .then(installationId => {
+          this.installations.set(owner, { installationId, checkedAt: Date.now() });
+          return installationId;
+        })
+        .finally(() => this.inFlightLookups.delete(owner));
+      this.inFlightLookups.set(owner, pending);
+    }
+    return pending;
+  }
+
+  private async lookupInstallationId(owner: string): Promise<string | null> {
+    const baseUrl = this.getBaseUrl();
+    const headers = this.appHeaders(this.appId as string, this.privateKey as string);
+
+    // Owners can be orgs or user accounts; each has its own lookup endpoint
+    for (const path of [`orgs/${owner}`, `users/${owner}`]) {
+      try {
+        const response = await firstValueFrom(this.httpService.get<{ id: number }>(`${baseUrl}/${path}/installation`, { headers }));
+        return String(response.data.id);
+      } catch (error: unknown) {
+        // 404 means not installed there; anything else is worth retrying later
+        if ((error as any)?.response?.status !== 404) throw error;
+      }
+    }
+
+    this.logger.log(`GitHub App ${this.appId} is not installed for ${owner}`);
+    return null;
+  }
+
+  private async mintInstallationToken(appId: string, privateKey: string, installationId: string): Promise<InstallationToken> {
+    const response = await firstValueFrom(
+      this.httpService.post<{ token: string; expires_at: string }>(
+        `${this.getBaseUrl()}/app/installations/${installationId}/access_tokens`,
+        {},
+        { headers: this.appHeaders(appId, privateKey) }
+      )
+    );
+
+    this.logger.log(`Minted installation token for app ${appId} installation ${installationId}, expires ${response.data.expires_at}`);
+    return { token: response.data.token, expiresAt: Date.parse(response.data.expires_at) };
+  }
+
+  private appHeaders(appId: string, privateKey: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.createAppJwt(appId, privateKey)}`,
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'GitHub-Dashboard-API'
+    };
+  }
+
+  private getBaseUrl(): string {
+    return this.configService.get<string>('github.baseUrl', 'https://api.github.com');
+  }
+
+  private base64url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+  }
+}
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface GitHubClientScope {
+  clientId: string | null;
+}
+
+const storage = new AsyncLocalStorage<GitHubClientScope>();
+
+/**
+ * Carries the client (tenant) a unit of work runs for, so GitHub requests made anywhere
+ * below it use that client's credentials without threading the id through every call
+ */
+export class GitHubClientContext {
+  static run<T>(clientId: string | null | undefined, work: () => Promise<T>): Promise<T> {
+    return storage.run({ clientId: clientId ?? null }, work);
+  }
+
+  static currentClientId(): string | null {
+    return storage.getStore()?.clientId ?? null;
+  }
+}
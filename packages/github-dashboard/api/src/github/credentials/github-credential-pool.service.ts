@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosResponseHeaders, RawAxiosResponseHeaders } from 'axios';
+
+import { GitHubCredential } from '../../database/entities';
+import { GitHubCredentialRepository } from '../../database/repositories/github-credential.repository';
+import { RateLimitResource } from '../rate-limit.service';
+
+import { CredentialCipher } from './credential-cipher';
+import { GitHubAppTokenService } from './github-app-token.service';
+import { GitHubClientContext } from './github-client-context';
+
+// Client credentials are reloaded from the database at most this often
+const CLIENT_CACHE_TTL_MS = 60 * 1000;
+// A credential that fails to produce a token is skipped for this long
+const FAILED_CREDENTIAL_BACKOFF_MS = 60 * 1000;
+export const ENV_CREDENTIAL_ID = 'env';
+// Deployment App installations are tracked as `${APP_CREDENTIAL_PREFIX}${installationId}`
+export const APP_CREDENTIAL_PREFIX = 'app:';
+
+export interface GitHubCredentialLease {
+  credentialId: string;
+  authorization?: string;
+}
+
+export interface CredentialRateLimit {
+  remaining: number;
+  resetTime: number;
+}
+
+interface PooledCredential {
+  id: string;
+  resolveToken: () => Promise<string | undefined>;
+}
+
+/**
+ * Picks the GitHub credential for each request.
+ * Requests running for a client (see GitHubClientContext) rotate across that client's stored
+ * PATs and App installations, preferring the one with the most budget left in the request's
+ * rate limit bucket; everything else uses the deployment credential: the GitHub App installation
+ * covering the request's owner when the deployment runs as an App, otherwise GITHUB_TOKEN.
+ */
+@Injectable()
+export class GitHubCredentialPool {
+  private readonly logger = new Logger(GitHubCredentialPool.name);
+  private readonly envCredential: PooledCredential;
+  private readonly clients = new Map<string, { loadedAt: number; credentials: PooledCredential[] }>();
+  // Keyed by `${credentialId}:${resource}`
+  private readonly limits = new Map<string, CredentialRateLimit>();
+
+  constructor(
+    private readonly credentialRepository: GitHubCredentialRepository,
+    private readonly cipher: CredentialCipher,
+    private readonly appTokenService: GitHubAppTokenService,
+    configService: ConfigService
+  ) {
+    const token = configService.get<string>('github.token');
+    this.envCredential = { id: ENV_CREDENTIAL_ID, resolveToken: async () => token };
+  }
+
+  /**
+   * Lease a credential with budget left for the bucket, or report how long until the first one resets
+   * @param owner Org or user the request targets, used to pick the deployment App installation
+   */
+  async acquire(resource: RateLimitResource, owner?: string): Promise<{ lease: GitHubCredentialLease } | { waitMs: number }> {
+    const credentials = await this.getCredentials(GitHubClientContext.currentClientId(), owner);
+    const now = Date.now();
+
+    const candidates = credentials
+      .map(credential => ({ credential, limit: this.getLimit(credential.id, resource, now) }))
+      .sort((a, b) => (b.limit?.remaining ?? Infinity) - (a.limit?.remaining ?? Infinity));
+
+    for (const { credential, limit } of candidates) {
+      if (limit && limit.remaining <= 0) continue;
+      try {
+        const token = await credential.resolveToken();
+        return { lease: { credentialId: credential.id, authorization: token ? `token ${token}` : undefined } };
+      } catch (error: unknown) {
+        this.logger.warn(`Credential ${credential.id} could not provide a token: ${error instanceof Error ? error.message : error}`);
+        this.limits.set(`${credential.id}:${resource}`, { remaining: 0, resetTime: now + FAILED_CREDENTIAL_BACKOFF_MS });
+      }
+    }
+
+    const nextReset = Math.min(...candidates.map(({ credential }) => this.limits.get(`${credential.id}:${resource}`)?.resetTime ?? now));
+    return { waitMs: Math.max(0, nextReset - now) };
+  }
+
+  /**
+   * Record the rate limit headers a credential got back
+   */
+  report(credentialId: string, resource: RateLimitResource, headers: RawAxiosResponseHeaders | AxiosResponseHeaders): void {
+    if (!headers || headers['x-ratelimit-remaining'] === undefined) return;
+
+    const bucket = String(headers['x-ratelimit-resource'] || resource);
+    this.limits.set(`${credentialId}:${bucket}`, {
+      remaining: parseInt(String(headers['x-ratelimit-remaining']), 10),
+      resetTime: parseInt(String(headers['x-ratelimit-reset'] || '0'), 10) * 1000,
+    });
+  }
+
+  /**
+   * Last known rate limit of a credential per bucket
+   */
+  getRateLimits(credentialId: string): Partial<Record<RateLimitResource, CredentialRateLimit>> {
+    const result: Partial<Record<RateLimitResource, CredentialRateLimit>> = {};
+    for (const resource of ['core', 'search', 'graphql'] as RateLimitResource[]) {
+      const limit = this.limits.get(`${credentialId}:${resource}`);
+      if (limit) result[resource] = limit;
+    }
+    return result;
+  }
+
+  /**
+   * Drop a client's cached credentials after they change
+   */
+  invalidate(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  private getLimit(credentialId: string, resource: RateLimitResource, now: number): CredentialRateLimit | undefined {
+    const limit = this.limits.get(`${credentialId}:${resource}`);
+    // Past the reset time the bucket is full again
+    return limit && limit.resetTime > now ? limit : undefined;
+  }
+
+  private async getCredentials(clientId: string | null, owner?: string): Promise<PooledCredential[]> {
+    if (!clientId) return [await this.getDeploymentCredential(owner)];
+
+    const cached = this.clients.get(clientId);
+    if (cached && Date.now() - cached.loadedAt < CLIENT_CACHE_TTL_MS) {
+      return cached.credentials.length > 0 ? cached.credentials : [await this.getDeploymentCredential(owner)];
+    }
+
+    const stored = await this.credentialRepository.findByClientId(clientId);
+    const credentials = stored
+      .map(credential => this.toPooledCredential(credential))
+      .filter((credential): credential is PooledCredential => credential !== null);
+    this.clients.set(clientId, { loadedAt: Date.now(), credentials });
+
+    // Clients without their own credentials share the deployment credential
+    return credentials.length > 0 ? credentials : [await this.getDeploymentCredential(owner)];
+  }
+
+  /**
+   * The deployment App's installation for the owner, or GITHUB_TOKEN when there is none
+   */
+  private async getDeploymentCredential(owner?: string): Promise<PooledCredential> {
+    const installation = await this.appTokenService.getDeploymentInstallation(owner);
+    if (!installation) return this.envCredential;
+
+    return { id: `${APP_CREDENTIAL_PREFIX}${installation.installationId}`, resolveToken: installation.resolveToken };
+  }
+
+  private toPooledCredential(credential: GitHubCredential): PooledCredential | null {
+    try {
+      if (credential.kind === 'pat' && credential.encryptedToken) {
+        const token = this.cipher.decrypt(credential.encryptedToken);
+        return { id: credential.id, resolveToken: async () => token };
+      }
+
+      if (credential.kind === 'app_installation' && credential.appId && credential.installationId && credential.encryptedPrivateKey) {
+        const { appId, installationId } = credential;
+        const privateKey = this.cipher.decrypt(credential.encryptedPrivateKey);
+        return {
+          id: credential.id,
+          resolveToken: () => this.appTokenService.getInstallationToken(appId, privateKey, installationId),
+        };
+      }
+
+      this.logger.warn(`Credential ${credential.id} of kind '${credential.kind}' is incomplete; skipping`);
+    } catch (error: unknown) {
+      this.logger.error(`Failed to decrypt credential ${credential.id}: ${error instanceof Error ? error.message : error}`);
+    }
+    return null;
+  }
+}
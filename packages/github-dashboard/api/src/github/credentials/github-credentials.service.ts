@@ -0,0 +1,89 @@
+import { createPrivateKey } from 'crypto';
+
+import { BadRequestException, Injectable, Logger, NotFoundException, ServiceUnavailableException } from '@nestjs/common';
+
+import { GitHubCredential } from '../../database/entities';
+import { ClientRepository } from '../../database/repositories/client.repository';
+import { GitHubCredentialRepository } from '../../database/repositories/github-credential.repository';
+import { CreateGitHubCredentialDto, GitHubCredentialDto } from '../dto';
+
+import { CredentialCipher } from './credential-cipher';
+import { GitHubCredentialPool } from './github-credential-pool.service';
+
+/**
+ * Manages the encrypted GitHub credentials of a client
+ */
+@Injectable()
+export class GitHubCredentialsService {
+  private readonly logger = new Logger(GitHubCredentialsService.name);
+
+  constructor(
+    private readonly credentialRepository: GitHubCredentialRepository,
+    private readonly clientRepository: ClientRepository,
+    private readonly cipher: CredentialCipher,
+    private readonly credentialPool: GitHubCredentialPool
+  ) {}
+
+  async findAll(clientId: string): Promise<GitHubCredentialDto[]> {
+    await this.ensureClientExists(clientId);
+    const credentials = await this.credentialRepository.findByClientId(clientId);
+    return credentials.map(credential => this.toDto(credential));
+  }
+
+  async create(clientId: string, dto: CreateGitHubCredentialDto): Promise<GitHubCredentialDto> {
+    await this.ensureClientExists(clientId);
+    if (!this.cipher.isConfigured()) {
+      throw new ServiceUnavailableException('GITHUB_CREDENTIALS_KEY must be configured to store GitHub credentials');
+    }
+
+    if (dto.kind === 'app_installation') {
+      try {
+        createPrivateKey(dto.privateKey as string);
+      } catch {
+        throw new BadRequestException('privateKey must be a PEM encoded private key');
+      }
+    }
+
+    const credential = await this.credentialRepository.create({
+      clientId,
+      kind: dto.kind,
+      label: dto.label ?? null,
+      encryptedToken: dto.kind === 'pat' ? this.cipher.encrypt(dto.token as string) : null,
+      appId: dto.kind === 'app_installation' ? dto.appId : null,
+      installationId: dto.kind === 'app_installation' ? dto.installationId : null,
+      encryptedPrivateKey: dto.kind === 'app_installation' ? this.cipher.encrypt(dto.privateKey as string) : null,
+    });
+    this.credentialPool.invalidate(clientId);
+
+    this.logger.log(`Added ${dto.kind} credential ${credential.id} for client ${clientId}`);
+    return this.toDto(credential);
+  }
+
+  async remove(clientId: string, credentialId: string): Promise<void> {
+    const deleted = await this.credentialRepository.deleteForClient(clientId, credentialId);
+    if (!deleted) {
+      throw new NotFoundException(`GitHub credential ${credentialId} not found for client ${clientId}`);
+    }
+    this.credentialPool.invalidate(clientId);
+  }
+
+  private async ensureClientExists(clientId: string): Promise<void> {
+    const client = await this.clientRepository.findById(clientId);
+    if (!client) {
+      throw new NotFoundException(`Client ${clientId} not found`);
+    }
+  }
+
+  private toDto(credential: GitHubCredential): GitHubCredentialDto {
+    return {
+      id: credential.id,
+      clientId: credential.clientId,
+      kind: credential.kind,
+      label: credential.label,
+      appId: credential.appId,
+      installationId: credential.installationId,
+      createdAt: credential.createdAt,
+      rateLimits: this.credentialPool.getRateLimits(credential.id),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString, Matches, MaxLength, ValidateIf } from 'class-validator';
+
+export const GITHUB_CREDENTIAL_KINDS = ['pat', 'app_installation'] as const;
+export type GitHubCredentialKind = typeof GITHUB_CREDENTIAL_KINDS[number];
+
+export class CreateGitHubCredentialDto {
+  @IsIn(GITHUB_CREDENTIAL_KINDS)
+  kind: GitHubCredentialKind;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  label?: string;
+
+  // Personal access token (kind 'pat')
+  @ValidateIf(o => o.kind === 'pat')
+  @IsString()
+  @IsNotEmpty()
+  token?: string;
+
+  // GitHub App installation (kind 'app_installation')
+  @ValidateIf(o => o.kind === 'app_installation')
+  @Matches(/^\d+$/)
+  appId?: string;
+
+  @ValidateIf(o => o.kind === 'app_installation')
+  @Matches(/^\d+$/)
+  installationId?: string;
+
+  @ValidateIf(o => o.kind === 'app_installation')
+  @IsString()
+  @IsNotEmpty()
+  privateKey?: string;
+}
+
+// Response shape; secrets are never returned
+export interface GitHubCredentialDto {
+  id: string;
+  clientId: string;
+  kind: string;
+  label: string | null;
+  appId: string | null;
+  installationId: string | null;
+  createdAt: Date | null;
+  rateLimits: Record<string, { remaining: number; resetTime: number }>;
+}
@@ -0,0 +1,2 @@
+export * from './github-credential.dto';
+export * from './repository-search.dto';
@@ -0,0 +1,62 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsIn, IsInt, IsOptional, Matches, Max, Min } from 'class-validator';
+
+/**
+ * Query of GET /api/github/org/:orgName/repos; every filter is optional
+ */
+export class RepositorySearchQueryDto {
+  // Part of the repository name; name characters only, so it can't add qualifiers such as org:
+  @IsOptional()
+  @Matches(/^[\w.-]+$/, { message: 'q may only contain letters, digits, ., _ and -' })
+  q?: string;
+
+  // Language name as GitHub spells it, e.g. C++, C# or Jupyter Notebook
+  @IsOptional()
+  @Matches(/^[\w .+#-]+$/, { message: 'language may only contain letters, digits, spaces, ., _, +, # and -' })
+  language?: string;
+
+  // Leave out to include archived and active repositories
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  archived?: 'true' | 'false';
+
+  @IsOptional()
+  @IsIn(['public', 'private', 'internal'])
+  visibility?: 'public' | 'private' | 'internal';
+
+  @IsOptional()
+  @Matches(/^[a-z0-9][a-z0-9-]*$/)
+  topic?: string;
+
+  // Only repositories pushed to on or after this day, e.g. 2024-01-01
+  @IsOptional()
+  @IsDateString()
+  pushed_after?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  per_page?: number;
+}
+
+/**
+ * Query of GET /api/github/org/:orgName/repos/match; needs a name glob, a topic or both
+ */
+export class RepositoryMatchQueryDto {
+  // Repository name with * and ? wildcards, e.g. service-*
+  @IsOptional()
+  @Matches(/^[\w.*?-]+$/, { message: 'pattern may only contain letters, digits, ., _, -, * and ?' })
+  pattern?: string;
+
+  @IsOptional()
+  @Matches(/^[a-z0-9][a-z0-9-]*$/)
+  topic?: string;
+}
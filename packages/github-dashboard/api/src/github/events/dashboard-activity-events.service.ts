@@ -0,0 +1,33 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { filter, Observable, Subject } from 'rxjs';
+
+import { GitHubUserActivitySummary } from '../interfaces';
+
+export type DashboardActivityEvent =
+  // A batch summary was recomputed and cached under cacheKey
+  | { type: 'refreshed'; dashboardId: string; cacheKey: string; data: GitHubUserActivitySummary[] }
+  // Cached activity was dropped (e.g. by a webhook) and should be recomputed by whoever is watching
+  | { type: 'invalidated'; dashboardId: string };
+
+/**
+ * In-process bus for changes to a dashboard's activity, feeding the dashboard event streams
+ */
+@Injectable()
+export class DashboardActivityEvents implements OnModuleDestroy {
+  private readonly events = new Subject<DashboardActivityEvent>();
+
+  publish(event: DashboardActivityEvent): void {
+    this.events.next(event);
+  }
+
+  /**
+   * Events of one dashboard
+   */
+  forDashboard(dashboardId: string): Observable<DashboardActivityEvent> {
+    return this.events.pipe(filter(event => event.dashboardId === dashboardId));
+  }
+
+  onModuleDestroy(): void {
+    this.events.complete();
+  }
+}
@@ -1,17 +1,28 @@
-import { Controller, Get, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Param, Query, HttpCode, HttpStatus, Req, UseGuards } from '@nestjs/common';
 
+import { AuthGuard, type AuthRequest } from '../auth/auth.guard';
+import { DashboardViewerGuard } from '../dashboards/dashboard-viewer.guard';
+
+import { GitHubCacheService } from './cache/github-cache.service';
+import { GitHubClientContext } from './credentials/github-client-context';
+import { RepositoryMatchQueryDto, RepositorySearchQueryDto } from './dto';
 import { GitHubService } from './github.service';
-import { GitHubUser, GitHubRepo, GitHubPullRequest } from './interfaces';
+import { GitHubMember, GitHubPullRequest, GitHubRepo, GitHubReview, GitHubTeam, GitHubUser, PaginatedResult, RepositorySearchPage } from './interfaces';
+import { RequestQueueStats } from './request-scheduler.service';
 
 @Controller('github')
 export class GitHubController {
-  constructor(private readonly githubService: GitHubService) {}
+  constructor(
+    private readonly githubService: GitHubService,
+    private readonly cacheService: GitHubCacheService
+  ) {}
 
   /**
    * Get batch activity summary for multiple users by dashboard ID
    * GET /api/github/users/batch-activity-summary?dashboard_id=uuid&repos=owner/repo1&start_date=2024-01-01&end_date=2024-12-31
    */
   @Get('users/batch-activity-summary')
+  @UseGuards(DashboardViewerGuard)
   @HttpCode(HttpStatus.OK)
   async getBatchUserActivitySummary(
     @Query('dashboard_id') dashboardId: string,
@@ -31,6 +42,7 @@ export class GitHubController {
    * GET /api/github/users/cached-batch-activity-summary?dashboard_id=uuid&repos=owner/repo1&start_date=2024-01-01&end_date=2024-12-31
    */
   @Get('users/cached-batch-activity-summary')
+  @UseGuards(DashboardViewerGuard)
   @HttpCode(HttpStatus.OK)
   async getCachedBatchUserActivitySummary(
     @Query('dashboard_id') dashboardId: string,
@@ -53,12 +65,12 @@ export class GitHubController {
   }
 
   /**
-   * Get GitHub user information
+   * Get GitHub user information (cached); 404 for users that don't exist
    * GET /api/github/users/:username
    */
   @Get('users/:username')
   async getUser(@Param('username') username: string): Promise<GitHubUser> {
-    return this.githubService.getUser(username);
+    return this.githubService.getCachedUser(username);
   }
 
   /**
@@ -207,6 +219,7 @@ export class GitHubController {
   @HttpCode(HttpStatus.OK)
   async getAuthStatus(): Promise<{
     authenticated: boolean;
+    authMode: 'app' | 'token' | 'none';
     hasToken: boolean;
     scopes: string[];
     rateLimit: {
@@ -214,10 +227,22 @@ export class GitHubController {
       remaining: number;
       reset: number;
     };
+    queue: RequestQueueStats;
   }> {
     return this.githubService.getAuthStatus();
   }
 
+  /**
+   * Get cache backend, size and hit/miss/eviction counters
+   * GET /api/github/cache/stats
+   */
+  @Get('cache/stats')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getCacheStats() {
+    return this.cacheService.getStats();
+  }
+
   /**
    * Get reviews for a specific pull request
    * GET /api/github/repos/:owner/:repo/pulls/:pullNumber/reviews
@@ -228,7 +253,7 @@ export class GitHubController {
     @Param('owner') owner: string,
     @Param('repo') repo: string,
     @Param('pullNumber') pullNumber: string
-  ): Promise<any[]> {
+  ): Promise<PaginatedResult<GitHubReview>> {
     return this.githubService.getPullRequestReviews(owner, repo, parseInt(pullNumber, 10));
   }
 
@@ -258,26 +283,89 @@ export class GitHubController {
   }
 
   /**
-   * Get organization repositories
-   * GET /api/github/org/:orgName/repos
+   * Search organization repositories by name, language, archived state, visibility, topic and last push, one page at a time,
+   * with the signed-in client's GitHub credentials
+   * GET /api/github/org/:orgName/repos?q=api&language=TypeScript&archived=false&visibility=private&pushed_after=2024-01-01&page=1&per_page=30
    */
   @Get('org/:orgName/repos')
+  @UseGuards(AuthGuard)
   @HttpCode(HttpStatus.OK)
-  async getOrganizationRepositories(
-    @Param('orgName') orgName: string
-  ): Promise<any[]> {
-    return this.githubService.getOrganizationRepositories(orgName);
+  async searchOrganizationRepositories(
+    @Req() request: AuthRequest,
+    @Param('orgName') orgName: string,
+    @Query() query: RepositorySearchQueryDto
+  ): Promise<RepositorySearchPage> {
+    return GitHubClientContext.run(request.auth?.clientId, () => this.githubService.searchOrganizationRepositories(orgName, {
+      query: query.q?.trim() || undefined,
+      language: query.language,
+      archived: query.archived === undefined ? undefined : query.archived === 'true',
+      visibility: query.visibility,
+      topic: query.topic,
+      pushedAfter: query.pushed_after?.slice(0, 10),
+      page: query.page ?? 1,
+      perPage: query.per_page ?? 30,
+    }));
+  }
+
+  /**
+   * Get every organization repository whose name matches a glob and/or that has a topic, with the signed-in client's GitHub credentials
+   * GET /api/github/org/:orgName/repos/match?pattern=service-*&topic=backend
+   */
+  @Get('org/:orgName/repos/match')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async matchOrganizationRepositories(
+    @Req() request: AuthRequest,
+    @Param('orgName') orgName: string,
+    @Query() query: RepositoryMatchQueryDto
+  ): Promise<GitHubRepo[]> {
+    if (!query.pattern && !query.topic) {
+      throw new BadRequestException('Provide a pattern, a topic or both');
+    }
+    return GitHubClientContext.run(
+      request.auth?.clientId,
+      () => this.githubService.matchOrganizationRepositories(orgName, query.pattern, query.topic)
+    );
   }
 
   /**
-   * Get organization members (past and present)
+   * Get every member of an organization
    * GET /api/github/org/:orgName/members
    */
   @Get('org/:orgName/members')
   @HttpCode(HttpStatus.OK)
   async getOrganizationMembers(
     @Param('orgName') orgName: string
-  ): Promise<any[]> {
+  ): Promise<GitHubMember[]> {
     return this.githubService.getOrganizationMembers(orgName);
   }
+
+  /**
+   * Get the teams of an organization, with the signed-in client's GitHub credentials
+   * GET /api/github/org/:orgName/teams
+   */
+  @Get('org/:orgName/teams')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getOrganizationTeams(
+    @Req() request: AuthRequest,
+    @Param('orgName') orgName: string
+  ): Promise<GitHubTeam[]> {
+    return GitHubClientContext.run(request.auth?.clientId, () => this.githubService.getOrganizationTeams(orgName));
+  }
+
+  /**
+   * Get the members of a team, including its child teams, with the signed-in client's GitHub credentials
+   * GET /api/github/org/:orgName/teams/:teamSlug/members
+   */
+  @Get('org/:orgName/teams/:teamSlug/members')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getTeamMembers(
+    @Req() request: AuthRequest,
+    @Param('orgName') orgName: string,
+    @Param('teamSlug') teamSlug: string
+  ): Promise<GitHubMember[]> {
+    return GitHubClientContext.run(request.auth?.clientId, () => this.githubService.getTeamMembers(orgName, teamSlug));
+  }
 }
@@ -1,19 +1,34 @@
 import { HttpModule } from '@nestjs/axios';
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
+import { createCacheStore } from './cache/cache-store.factory';
+import { CACHE_STORE } from './cache/cache-store.interface';
 import { GitHubCacheService } from './cache/github-cache.service';
 import { GitHubActivityController } from './controllers/github-activity.controller';
+import { GitHubCredentialsController } from './controllers/github-credentials.controller';
 import { GitHubRepositoryController } from './controllers/github-repository.controller';
 import { GitHubUserController } from './controllers/github-user.controller';
+import { GitHubWebhooksController } from './controllers/github-webhooks.controller';
+import { CredentialCipher } from './credentials/credential-cipher';
+import { GitHubAppTokenService } from './credentials/github-app-token.service';
+import { GitHubCredentialPool } from './credentials/github-credential-pool.service';
+import { GitHubCredentialsService } from './credentials/github-credentials.service';
+import { DashboardActivityEvents } from './events/dashboard-activity-events.service';
 import { GitHubController } from './github.controller';
 import { GitHubService } from './github.service';
 import { RateLimitService } from './rate-limit.service';
+import { GitHubRequestScheduler } from './request-scheduler.service';
 
 // New services
+import { GitHubActivitySyncService } from './services/github-activity-sync.service';
 import { GitHubActivityService } from './services/github-activity.service';
 import { GitHubBaseService } from './services/github-base.service';
+import { GitHubContributionActivitySource } from './services/github-contribution-activity-source.service';
+import { GitHubGraphQLActivitySource } from './services/github-graphql-activity-source.service';
 import { GitHubRepositoryService } from './services/github-repository.service';
 import { GitHubUserService } from './services/github-user.service';
+import { GitHubWebhookService } from './webhooks/github-webhook.service';
 
 // New controllers
 
@@ -24,30 +39,52 @@ import { GitHubUserService } from './services/github-user.service';
     GitHubUserController,
     GitHubRepositoryController,
     GitHubActivityController,
+    GitHubCredentialsController,
+    GitHubWebhooksController,
   ],
   providers: [
     // Original services (keep for backward compatibility)
     GitHubService,
     RateLimitService,
+    GitHubRequestScheduler,
     GitHubCacheService,
+    CredentialCipher,
+    GitHubAppTokenService,
+    GitHubCredentialPool,
+    GitHubCredentialsService,
+    GitHubWebhookService,
+    DashboardActivityEvents,
+    {
+      provide: CACHE_STORE,
+      useFactory: createCacheStore,
+      inject: [ConfigService],
+    },
     
     // New services
     GitHubBaseService,
     GitHubUserService,
     GitHubRepositoryService,
     GitHubActivityService,
+    GitHubActivitySyncService,
+    GitHubGraphQLActivitySource,
+    GitHubContributionActivitySource,
   ],
   exports: [
     // Original exports (keep for backward compatibility)
     GitHubService,
     RateLimitService,
+    GitHubRequestScheduler,
     GitHubCacheService,
+    DashboardActivityEvents,
     
     // New exports
     GitHubBaseService,
     GitHubUserService,
     GitHubRepositoryService,
     GitHubActivityService,
+    GitHubActivitySyncService,
+    GitHubGraphQLActivitySource,
+    GitHubContributionActivitySource,
   ],
 })
 export class GitHubModule {}
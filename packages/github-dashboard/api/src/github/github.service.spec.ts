@@ -0,0 +1,414 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+
+import { GitHubService } from './github.service';
+import { GitHubReview, GitHubUser, GitHubUserActivitySummary } from './interfaces';
+import { GitHubRequestScheduler } from './request-scheduler.service';
+import { GitHubBaseService } from './services/github-base.service';
+import { GitHubGraphQLActivitySource } from './services/github-graphql-activity-source.service';
+
+const API = 'https://api.github.com';
+
+/**
+ * GitHub REST stand-in: answers each URL with its page and a Link header to the next one
+ */
+function fakeGitHub(pages: Record<string, { data: unknown; next?: string }>) {
+  const get = jest.fn((url: string) => {
+    const page = pages[url];
+    if (!page) throw new Error(`Unexpected request to ${url}`);
+    return of({ data: page.data, headers: page.next ? { link: `<${page.next}>; rel="next"` } : {} });
+  });
+  return { get, httpService: { get } as unknown as HttpService };
+}
+
+// Runs every request right away with a token, like a scheduler with one credential to spare
+const requestScheduler = {
+  schedule: (_url: string, request: (authorization?: string) => Promise<unknown>) => request('Bearer test-token'),
+} as unknown as GitHubRequestScheduler;
+
+interface ServiceDependencies {
+  httpService: HttpService;
+  cacheService: unknown;
+  dashboardUserRepository: unknown;
+  dashboardRepositoryRepository: unknown;
+  dashboardRepository: unknown;
+  activityEvents: unknown;
+  dashboardActivityConfigRepository: unknown;
+  configService: ConfigService;
+  graphqlActivitySource: unknown;
+  contributionSource: unknown;
+  pullRequestRepository: unknown;
+  repositoryRepository: unknown;
+}
+
+function createService(dependencies: Partial<ServiceDependencies> = {}): GitHubService {
+  const httpService = dependencies.httpService ?? fakeGitHub({}).httpService;
+  const configService = dependencies.configService ?? new ConfigService({});
+  const githubApi = new GitHubBaseService(httpService, {} as never, {} as never, requestScheduler, configService);
+  const appTokenService = { isAppModeConfigured: () => false };
+
+  return new GitHubService(
+    httpService,
+    {} as never,
+    (dependencies.cacheService ?? {}) as never,
+    (dependencies.dashboardUserRepository ?? {}) as never,
+    (dependencies.dashboardRepositoryRepository ?? {}) as never,
+    (dependencies.dashboardRepository ?? {}) as never,
+    githubApi,
+    (dependencies.graphqlActivitySource ?? {}) as never,
+    configService,
+    requestScheduler,
+    appTokenService as never,
+    (dependencies.activityEvents ?? {}) as never,
+    (dependencies.dashboardActivityConfigRepository ?? {}) as never,
+    (dependencies.contributionSource ?? {}) as never,
+    (dependencies.pullRequestRepository ?? {}) as never,
+    (dependencies.repositoryRepository ?? {}) as never
+  );
+}
+
+function mapCache() {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    get: async (key: string) => entries.get(key) ?? null,
+    set: async (key: string, value: unknown) => {
+      entries.set(key, value);
+    },
+  };
+}
+
+function reviews(from: number, count: number): GitHubReview[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: from + i,
+    user: { id: 1, login: 'octocat' },
+    state: 'APPROVED',
+    submitted_at: '2026-01-01T00:00:00Z',
+  }));
+}
+
+describe('GitHubService', () => {
+  describe('getPullRequestReviews', () => {
+    const reviewsUrl = `${API}/repos/acme/api/pulls/7/reviews`;
+
+    it('requests 100 reviews per page and follows Link headers to the last page', async () => {
+      const { get, httpService } = fakeGitHub({
+        [`${reviewsUrl}?per_page=100`]: { data: reviews(0, 100), next: `${reviewsUrl}?per_page=100&page=2` },
+        [`${reviewsUrl}?per_page=100&page=2`]: { data: reviews(100, 30) },
+      });
+
+      const result = await createService({ httpService }).getPullRequestReviews('acme', 'api', 7);
+
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(result.items.map(review => review.id)).toEqual(Array.from({ length: 130 }, (_, i) => i));
+      expect(result).toMatchObject({ totalCount: 130, truncated: false });
+    });
+
+    it('flags reviews beyond the page limit as truncated', async () => {
+      const pages: Record<string, { data: unknown; next?: string }> = {};
+      for (let page = 1; page <= 11; page++) {
+        const url = page === 1 ? `${reviewsUrl}?per_page=100` : `${reviewsUrl}?per_page=100&page=${page}`;
+        pages[url] = { data: reviews((page - 1) * 100, 100), next: `${reviewsUrl}?per_page=100&page=${page + 1}` };
+      }
+      const { get, httpService } = fakeGitHub(pages);
+
+      const result = await createService({ httpService }).getPullRequestReviews('acme', 'api', 7);
+
+      expect(get).toHaveBeenCalledTimes(10);
+      expect(result.items).toHaveLength(1000);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe('getCachedBatchUserActivitySummaryByDashboard', () => {
+    const dashboardId = 'dashboard-1';
+    const users = [
+      { user: { githubUsername: 'octocat', githubUserId: '1', displayName: 'The Octocat' } },
+      { user: { githubUsername: 'hubot', githubUserId: '2', displayName: null } },
+    ];
+    let cache: Map<string, { data: GitHubUserActivitySummary[]; fetchedAt: number }>;
+    let publish: jest.Mock;
+    let service: GitHubService;
+    let getCachedUser: jest.SpyInstance<Promise<GitHubUser>, [string]>;
+
+    // A dashboard without repositories, so a computation only looks up its users' profiles
+    beforeEach(() => {
+      const cacheService = mapCache();
+      cache = cacheService.entries as typeof cache;
+      publish = jest.fn();
+      service = createService({
+        cacheService,
+        dashboardUserRepository: { getUsersForDashboard: async () => users },
+        dashboardRepositoryRepository: { getDashboardRepositories: async () => [] },
+        dashboardRepository: { findById: async () => ({ id: dashboardId, clientId: null }) },
+        activityEvents: { publish },
+        dashboardActivityConfigRepository: { getEnabledActivityTypeCodes: async () => [] },
+      });
+      getCachedUser = jest.spyOn(service, 'getCachedUser').mockImplementation(async login => ({ login } as GitHubUser));
+    });
+
+    function cachedEntry(fetchedAt: number) {
+      const data = [{
+        user: { login: 'cached' } as GitHubUser,
+        activity: { prsCreated: 1, prsReviewed: 0, prsMerged: 0, totalActivity: 1, repos: [] },
+      }];
+      const [key] = [...cache.keys()];
+      cache.set(key, { data, fetchedAt });
+      return data;
+    }
+
+    it('computes and caches on a miss, announcing the result to event streams', async () => {
+      const results = await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId);
+
+      expect(results.map(result => result.user.login)).toEqual(['octocat', 'hubot']);
+      expect([...cache.values()][0].data).toEqual(results);
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({ type: 'refreshed', dashboardId, data: results }));
+    });
+
+    it('serves a fresh entry without recomputing', async () => {
+      await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId);
+      const data = cachedEntry(Date.now());
+      getCachedUser.mockClear();
+
+      await expect(service.getCachedBatchUserActivitySummaryByDashboard(dashboardId)).resolves.toEqual(data);
+      expect(getCachedUser).not.toHaveBeenCalled();
+    });
+
+    it('serves a stale entry immediately and refreshes it once in the background', async () => {
+      await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId);
+      const stale = cachedEntry(Date.now() - 5 * 60 * 1000);
+      getCachedUser.mockClear();
+      const pendingLookups: Array<() => void> = [];
+      getCachedUser.mockImplementation(login => new Promise(resolve => {
+        pendingLookups.push(() => resolve({ login } as GitHubUser));
+      }));
+
+      // Both viewers get the stale entry while the refresh is still running
+      await expect(service.getCachedBatchUserActivitySummaryByDashboard(dashboardId)).resolves.toEqual(stale);
+      await expect(service.getCachedBatchUserActivitySummaryByDashboard(dashboardId)).resolves.toEqual(stale);
+      expect(getCachedUser).toHaveBeenCalledTimes(users.length);
+
+      pendingLookups.forEach(finish => finish());
+      await new Promise(resolve => setImmediate(resolve));
+
+      const refreshed = [...cache.values()][0];
+      expect(refreshed.data.map(result => result.user.login)).toEqual(['octocat', 'hubot']);
+      expect(publish).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'refreshed', data: refreshed.data }));
+    });
+
+    it('coalesces concurrent misses onto one computation', async () => {
+      const results = await Promise.all([
+        service.getCachedBatchUserActivitySummaryByDashboard(dashboardId),
+        service.getCachedBatchUserActivitySummaryByDashboard(dashboardId),
+        service.getCachedBatchUserActivitySummaryByDashboard(dashboardId),
+      ]);
+
+      expect(getCachedUser).toHaveBeenCalledTimes(users.length);
+      expect(results[1]).toBe(results[0]);
+      expect(results[2]).toBe(results[0]);
+    });
+
+    it('recomputes on noCache even when the entry is fresh', async () => {
+      await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId);
+      cachedEntry(Date.now());
+      getCachedUser.mockClear();
+
+      const results = await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId, [], undefined, undefined, true, [], true);
+
+      expect(getCachedUser).toHaveBeenCalledTimes(users.length);
+      expect(results.map(result => result.user.login)).toEqual(['octocat', 'hubot']);
+    });
+
+    it('falls back to the stored user when a profile lookup fails', async () => {
+      getCachedUser.mockImplementation(async login => {
+        if (login === 'hubot') throw new Error('GitHub is down');
+        return { login } as GitHubUser;
+      });
+
+      const results = await service.getCachedBatchUserActivitySummaryByDashboard(dashboardId);
+
+      expect(results[0]).toEqual(expect.objectContaining({ user: { login: 'octocat' } }));
+      expect(results[0].error).toBeUndefined();
+      expect(results[1]).toEqual(expect.objectContaining({
+        user: { login: 'hubot', id: 2, name: 'hubot' },
+        error: 'GitHub is down',
+      }));
+    });
+  });
+
+  describe('activity sources', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const daysAgo = (days: number) => new Date(now - days * DAY).toISOString();
+    const repoUrl = `${API}/repos/acme/api`;
+    const octocat = { id: 1, login: 'octocat' } as GitHubUser;
+    const hubot = { id: 2, login: 'hubot' } as GitHubUser;
+
+    // One repository's PRs, most recently updated first, as both APIs describe them
+    const pullRequests = [
+      {
+        number: 2, author: hubot, createdAt: daysAgo(15), updatedAt: daysAgo(2), mergedAt: null,
+        reviews: [{ user: octocat, submittedAt: daysAgo(3) }], reactions: [],
+      },
+      {
+        number: 1, author: octocat, createdAt: daysAgo(10), updatedAt: daysAgo(5), mergedAt: daysAgo(5),
+        reviews: [{ user: hubot, submittedAt: daysAgo(6) }], reactions: [],
+      },
+      {
+        // Created before the range; octocat's reaction inside it counts as a review
+        number: 3, author: hubot, createdAt: daysAgo(40), updatedAt: daysAgo(8), mergedAt: null,
+        reviews: [], reactions: [{ user: octocat, createdAt: daysAgo(8) }],
+      },
+      {
+        number: 4, author: octocat, createdAt: daysAgo(60), updatedAt: daysAgo(30), mergedAt: daysAgo(30),
+        reviews: [{ user: hubot, submittedAt: daysAgo(31) }], reactions: [],
+      },
+    ];
+
+    function restPages() {
+      const pages: Record<string, { data: unknown }> = {
+        [`${repoUrl}/pulls?state=all&per_page=100&sort=updated&direction=desc`]: {
+          data: pullRequests.map(pr => ({
+            number: pr.number,
+            user: pr.author,
+            created_at: pr.createdAt,
+            updated_at: pr.updatedAt,
+            merged_at: pr.mergedAt,
+          })),
+        },
+      };
+      for (const pr of pullRequests) {
+        pages[`${repoUrl}/pulls/${pr.number}/reviews?per_page=100`] = {
+          data: pr.reviews.map((review, i) => ({ id: i, user: review.user, state: 'APPROVED', submitted_at: review.submittedAt })),
+        };
+        pages[`${repoUrl}/issues/${pr.number}/reactions`] = {
+          data: pr.reactions.map(reaction => ({ user: reaction.user, created_at: reaction.createdAt })),
+        };
+      }
+      return pages;
+    }
+
+    function graphqlResponse() {
+      const nodes = pullRequests.map(pr => ({
+        number: pr.number,
+        createdAt: pr.createdAt,
+        updatedAt: pr.updatedAt,
+        mergedAt: pr.mergedAt,
+        author: { databaseId: pr.author.id },
+        reviews: {
+          totalCount: pr.reviews.length,
+          nodes: pr.reviews.map(review => ({ submittedAt: review.submittedAt, author: { databaseId: review.user.id } })),
+        },
+        reactions: {
+          totalCount: pr.reactions.length,
+          nodes: pr.reactions.map(reaction => ({ createdAt: reaction.createdAt, user: { databaseId: reaction.user.id } })),
+        },
+      }));
+      return { repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes } } };
+    }
+
+    // What the background sync stored for acme/api, with different counts than the live sources
+    const storedRows = [{ githubUserId: '1', repo: 'acme/api', prsCreated: 7, prsReviewed: 0, prsMerged: 7, totalRecentPRs: 7 }];
+
+    interface StoredActivity {
+      syncClientId: string | null;
+      dashboardClientId: string | null;
+    }
+
+    function createSourceService(activitySource: 'rest' | 'graphql', graphqlActivitySource?: unknown, stored?: StoredActivity) {
+      const { get, httpService } = fakeGitHub(restPages());
+      const post = jest.fn(() => of({ data: { data: graphqlResponse() }, headers: {} }));
+      Object.assign(httpService, { post });
+      const configService = new ConfigService({ github: { activitySource, sync: { enabled: !!stored } } });
+      const service = createService({
+        httpService,
+        configService,
+        cacheService: mapCache(),
+        dashboardUserRepository: {
+          getUsersForDashboard: async () => [
+            { user: { githubUsername: 'octocat', githubUserId: '1', displayName: null } },
+            { user: { githubUsername: 'hubot', githubUserId: '2', displayName: null } },
+          ],
+        },
+        dashboardRepositoryRepository: { getDashboardRepositories: async () => ['acme/api'] },
+        dashboardRepository: { findById: async () => ({ id: 'dashboard-1', clientId: stored?.dashboardClientId ?? null }) },
+        activityEvents: { publish: jest.fn() },
+        dashboardActivityConfigRepository: { getEnabledActivityTypeCodes: async () => [] },
+        contributionSource: { addContributions: async (results: GitHubUserActivitySummary[]) => results },
+        graphqlActivitySource: graphqlActivitySource
+          ?? new GitHubGraphQLActivitySource(httpService, {} as never, mapCache() as never, requestScheduler, configService),
+        repositoryRepository: {
+          findByFullNames: async () => [
+            { fullName: 'acme/api', syncWatermark: new Date(), syncResumePage: null, syncClientId: stored?.syncClientId ?? null },
+          ],
+        },
+        pullRequestRepository: { getDashboardActivitySummary: jest.fn(async () => storedRows) },
+      });
+      jest.spyOn(service, 'getCachedUser').mockImplementation(async login => (login === 'octocat' ? octocat : hubot));
+      return { service, get, post };
+    }
+
+    const summarize = (service: GitHubService) =>
+      service.getCachedBatchUserActivitySummaryByDashboard('dashboard-1', ['acme/api'], daysAgo(20), daysAgo(0));
+
+    it('maps GraphQL pull requests, reviews and reactions to the same summary as the REST source', async () => {
+      const rest = createSourceService('rest');
+      const graphql = createSourceService('graphql');
+
+      const [restSummary, graphqlSummary] = await Promise.all([summarize(rest.service), summarize(graphql.service)]);
+
+      expect(graphqlSummary).toEqual(restSummary);
+      expect(graphqlSummary.map(({ user, activity }) => [user.login, activity.prsCreated, activity.prsReviewed, activity.prsMerged])).toEqual([
+        ['octocat', 1, 2, 1],
+        ['hubot', 1, 1, 0],
+      ]);
+      expect(graphqlSummary[0].activity.repos).toEqual([
+        { repo: 'acme/api', prsCreated: 1, prsReviewed: 2, prsMerged: 1, totalRecentPRs: 3, truncated: false },
+      ]);
+    });
+
+    it('uses the REST source unless GITHUB_ACTIVITY_SOURCE is graphql', async () => {
+      const rest = createSourceService('rest');
+      const graphql = createSourceService('graphql');
+
+      await summarize(rest.service);
+      await summarize(graphql.service);
+
+      expect(rest.post).not.toHaveBeenCalled();
+      expect(rest.get).toHaveBeenCalledWith(`${repoUrl}/pulls?state=all&per_page=100&sort=updated&direction=desc`, expect.anything());
+      // One query per repository, shared by every user; no REST calls at all
+      expect(graphql.post).toHaveBeenCalledTimes(1);
+      expect(graphql.get).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the REST source when the GraphQL source fails', async () => {
+      const failing = { getUserActivitySummary: jest.fn().mockRejectedValue(new Error('Something went wrong')) };
+      const rest = createSourceService('rest');
+      const graphql = createSourceService('graphql', failing);
+
+      const [restSummary, fallbackSummary] = await Promise.all([summarize(rest.service), summarize(graphql.service)]);
+
+      expect(failing.getUserActivitySummary).toHaveBeenCalledTimes(2);
+      expect(fallbackSummary).toEqual(restSummary);
+    });
+
+    it('serves stored activity to dashboards of the client whose credentials synced it', async () => {
+      const { service, get } = createSourceService('rest', undefined, { syncClientId: 'client-a', dashboardClientId: 'client-a' });
+
+      const summary = await summarize(service);
+
+      expect(get).not.toHaveBeenCalled();
+      expect(summary.map(({ user, activity }) => [user.login, activity.prsCreated])).toEqual([['octocat', 7], ['hubot', 0]]);
+    });
+
+    it('computes live activity when another client synced the stored rows', async () => {
+      const rest = createSourceService('rest');
+      const other = createSourceService('rest', undefined, { syncClientId: 'client-a', dashboardClientId: 'client-b' });
+
+      const [restSummary, otherSummary] = await Promise.all([summarize(rest.service), summarize(other.service)]);
+
+      expect(otherSummary).toEqual(restSummary);
+    });
+  });
+});
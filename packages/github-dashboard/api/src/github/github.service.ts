@@ -1,24 +1,85 @@
 import { HttpService } from '@nestjs/axios';
-import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
-import { firstValueFrom } from 'rxjs';
+import { BadRequestException, Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { catchError, defer, distinctUntilChanged, EMPTY, firstValueFrom, ignoreElements, merge, mergeMap, Observable, of } from 'rxjs';
+
+import { GitHubUser as GitHubUserRecord } from '../database/entities';
+import { DashboardActivityConfigRepository } from '../database/repositories/dashboard-activity-config.repository';
+import { DashboardRepositoryRepository } from '../database/repositories/dashboard-repository.repository';
+import { DashboardUserRepository } from '../database/repositories/dashboard-user.repository';
+import { DashboardRepository } from '../database/repositories/dashboard.repository';
+import { PullRequestRepository } from '../database/repositories/pull-request.repository';
+import { RepositoryRepository } from '../database/repositories/repository.repository';
 
 import { CacheKeys } from './cache/cache-keys';
 import { GitHubCacheService } from './cache/github-cache.service';
-import { GitHubUser, GitHubRepo, GitHubPullRequest } from './interfaces';
+import { GitHubAppTokenService } from './credentials/github-app-token.service';
+import { GitHubClientContext } from './credentials/github-client-context';
+import { DashboardActivityEvents } from './events/dashboard-activity-events.service';
+import {
+  DashboardContributionOptions,
+  GitHubMember,
+  GitHubTeam,
+  GitHubUser,
+  GitHubRepo,
+  GitHubPullRequest,
+  GitHubRepoActivity,
+  GitHubReview,
+  GitHubSearchResponse,
+  GitHubUserActivitySummary,
+  PaginatedResult,
+  RepositorySearchFilters,
+  RepositorySearchPage
+} from './interfaces';
 import { RateLimitService } from './rate-limit.service';
+import { GitHubRequestScheduler, RequestQueueStats } from './request-scheduler.service';
+import { GitHubBaseService } from './services/github-base.service';
+import { GitHubContributionActivitySource } from './services/github-contribution-activity-source.service';
+import { GitHubGraphQLActivitySource } from './services/github-graphql-activity-source.service';
+
+// Upper bound on PR list pages fetched per repository (100 PRs each)
+const MAX_PR_LIST_PAGES = 30;
+// Upper bound on review list pages fetched per PR (100 reviews each)
+const REVIEW_LIST_MAX_PAGES = 10;
+// Upper bound on member and team list pages (100 entries each)
+const MEMBER_LIST_MAX_PAGES = 50;
+// The search API pages through at most the first 1000 results of a query
+const REPOSITORY_SEARCH_CAP = 1000;
 
 @Injectable()
 export class GitHubService {
   private readonly logger = new Logger(GitHubService.name);
-  private readonly baseUrl = 'https://api.github.com';
+  // REST root from GITHUB_BASE_URL (github.com or a GitHub Enterprise Server host)
+  private readonly baseUrl: string;
   private readonly githubToken = process.env.GITHUB_TOKEN;
+  // Batch summaries are fresh for a minute, then served stale while one background refresh runs
+  private readonly BATCH_FRESH_MS = 60 * 1000;
+  private readonly BATCH_MAX_STALE_MS = 15 * 60 * 1000;
+  private readonly inFlightBatches = new Map<string, Promise<GitHubUserActivitySummary[]>>();
 
   constructor(
     private readonly httpService: HttpService,
     private readonly rateLimitService: RateLimitService,
-    private readonly cacheService: GitHubCacheService
+    private readonly cacheService: GitHubCacheService,
+    private readonly dashboardUserRepository: DashboardUserRepository,
+    private readonly dashboardRepositoryRepository: DashboardRepositoryRepository,
+    private readonly dashboardRepository: DashboardRepository,
+    private readonly githubApi: GitHubBaseService,
+    private readonly graphqlActivitySource: GitHubGraphQLActivitySource,
+    private readonly configService: ConfigService,
+    private readonly requestScheduler: GitHubRequestScheduler,
+    private readonly appTokenService: GitHubAppTokenService,
+    private readonly activityEvents: DashboardActivityEvents,
+    private readonly dashboardActivityConfigRepository: DashboardActivityConfigRepository,
+    private readonly contributionSource: GitHubContributionActivitySource,
+    private readonly pullRequestRepository: PullRequestRepository,
+    private readonly repositoryRepository: RepositoryRepository
   ) {
-    if (this.githubToken) {
+    this.baseUrl = this.configService.get<string>('github.baseUrl', 'https://api.github.com');
+
+    if (this.appTokenService.isAppModeConfigured()) {
+      this.logger.log('GitHub App configured - using installation access tokens');
+    } else if (this.githubToken) {
       this.logger.log('GitHub PAT configured - using authenticated requests');
     } else {
       this.logger.warn('No GitHub PAT found - using unauthenticated requests (60/hour limit)');
@@ -30,6 +91,7 @@ export class GitHubService {
    */
   async getAuthStatus(): Promise<{
     authenticated: boolean;
+    authMode: 'app' | 'token' | 'none';
     hasToken: boolean;
     scopes: string[];
     rateLimit: {
@@ -37,19 +99,28 @@ export class GitHubService {
       remaining: number;
       reset: number;
     };
+    queue: RequestQueueStats;
   }> {
     const hasToken = !!this.githubToken;
-    
+    const queue = this.requestScheduler.getQueueStats();
+
+    if (this.appTokenService.isAppModeConfigured()) {
+      return this.getAppAuthStatus(queue);
+    }
+
     if (!hasToken) {
+      const status = this.rateLimitService.getRateLimitStatus();
       return {
         authenticated: false,
+        authMode: 'none',
         hasToken: false,
         scopes: [],
         rateLimit: {
           limit: 60,
-          remaining: this.rateLimitService['remaining'],
-          reset: this.rateLimitService['reset']
-        }
+          remaining: status?.remaining ?? 60,
+          reset: status ? status.resetTime / 1000 : Date.now() / 1000 + 3600
+        },
+        queue
       };
     }
 
@@ -69,67 +140,74 @@ export class GitHubService {
 
       // Get scopes from response headers
       const scopes = response.headers['x-oauth-scopes']?.split(', ') || [];
+      const status = this.rateLimitService.getRateLimitStatus();
       
       return {
         authenticated: true,
+        authMode: 'token',
         hasToken: true,
         scopes,
         rateLimit: {
-          limit: this.rateLimitService['limit'],
-          remaining: this.rateLimitService['remaining'],
-          reset: this.rateLimitService['reset']
-        }
+          limit: status?.limit ?? 5000,
+          remaining: status?.remaining ?? 5000,
+          reset: status ? status.resetTime / 1000 : Date.now() / 1000 + 3600
+        },
+        queue
       };
     } catch (error) {
       this.logger.error('Failed to get auth status:', error);
       return {
         authenticated: false,
+        authMode: 'token',
         hasToken: true,
         scopes: [],
         rateLimit: {
           limit: 60,
           remaining: 0,
           reset: Date.now() / 1000 + 3600
-        }
+        },
+        queue
       };
     }
   }
 
   /**
-   * Make a rate-limited request to GitHub API
+   * App mode has no token scopes; authenticated means GitHub accepts the app's JWT
    */
-  private async makeRateLimitedRequest<T>(url: string): Promise<T> {
-    // Check if we can make the request
-    if (!this.rateLimitService.canMakeRequest()) {
-      const message = this.rateLimitService.getRateLimitMessage();
-      this.logger.warn(`Rate limit exceeded: ${message}`);
-      throw new HttpException(message, HttpStatus.TOO_MANY_REQUESTS);
-    }
+  private async getAppAuthStatus(queue: RequestQueueStats): Promise<Awaited<ReturnType<GitHubService['getAuthStatus']>>> {
+    const status = this.rateLimitService.getRateLimitStatus();
+    const rateLimit = {
+      limit: status?.limit ?? 5000,
+      remaining: status?.remaining ?? 5000,
+      reset: status ? status.resetTime / 1000 : Date.now() / 1000 + 3600
+    };
 
     try {
-      // Add Authorization header if token is available
-      const headers = this.githubToken ? {
-        'Authorization': `Bearer ${this.githubToken}`,
+      await this.appTokenService.getApp();
+      return { authenticated: true, authMode: 'app', hasToken: true, scopes: [], rateLimit, queue };
+    } catch (error) {
+      this.logger.error('Failed to authenticate as GitHub App:', error);
+      return { authenticated: false, authMode: 'app', hasToken: true, scopes: [], rateLimit, queue };
+    }
+  }
+
+  /**
+   * Make a rate-limited request to GitHub API
+   */
+  private async makeRateLimitedRequest<T>(url: string): Promise<T> {
+    // Queued per rate limit bucket; credential rotation, exhausted limits and retry-after are handled by the scheduler
+    const response = await this.requestScheduler.schedule(url, (authorization) => {
+      // Add Authorization header if the leased credential has a token
+      const headers = authorization ? {
+        'Authorization': authorization,
         'Accept': 'application/vnd.github.v3+json'
       } : {
         'Accept': 'application/vnd.github.v3+json'
       };
 
-      const response = await firstValueFrom(
-        this.httpService.get(url, { headers })
-      );
-      
-      // Update rate limit info from response headers
-      this.rateLimitService.updateRateLimitInfo(response.headers);
-      
-      return response.data;
-    } catch (error) {
-      // Update rate limit info even on error
-      if (error.response?.headers) {
-        this.rateLimitService.updateRateLimitInfo(error.response.headers);
-      }
-      throw error;
-    }
+      return firstValueFrom(this.httpService.get<T>(url, { headers }));
+    });
+    return response.data;
   }
 
   /**
@@ -264,17 +342,17 @@ export class GitHubService {
    * @param owner Repository owner
    * @param repo Repository name
    * @param pullNumber Pull request number
-   * @returns Array of PR reviews
+   * @returns Every page of PR reviews, flagged when the page limit cut them short
    */
   async getPullRequestReviews(
     owner: string,
     repo: string,
     pullNumber: number
-  ): Promise<any[]> {
+  ): Promise<PaginatedResult<GitHubReview>> {
     try {
       this.logger.log(`Fetching reviews for ${owner}/${repo}#${pullNumber}`);
-      const url = `${this.baseUrl}/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`;
-      return await this.makeRateLimitedRequest<any[]>(url);
+      const url = `${this.baseUrl}/repos/${owner}/${repo}/pulls/${pullNumber}/reviews?per_page=100`;
+      return await this.githubApi.paginate<GitHubReview>(url, { maxPages: REVIEW_LIST_MAX_PAGES });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to fetch reviews for ${owner}/${repo}#${pullNumber}:`, errorMessage);
@@ -353,7 +431,7 @@ export class GitHubService {
           this.logger.debug(`Processing PR ${pr.number} created at ${prCreated.toISOString()}`);
 
           try {
-            const reviews = await this.getPullRequestReviews(owner, repoName, pr.number);
+            const { items: reviews } = await this.getPullRequestReviews(owner, repoName, pr.number);
             this.logger.debug(`Found ${reviews.length} reviews for PR ${pr.number}`);
             
             for (const review of reviews) {
@@ -367,7 +445,8 @@ export class GitHubService {
               
               // Filter reviews by submission date and include all review types
               if (reviewDate >= startDate && reviewDate <= endDate) {
-                if (['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'].includes(review.state)) {
+                // Reviews of deleted accounts have no user
+                if (['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'].includes(review.state) && review.user) {
                   const reviewer = review.user.login;
                   const prAuthor = pr.user.login;
                   
@@ -622,7 +701,7 @@ export class GitHubService {
         : `repo:${owner}/${repo} author:${username} is:pr created:${startDate}..${endDate}`;
       
       this.logger.log(`Searching with current username: ${searchQuery}`);
-      const response = await this.makeRateLimitedRequest(`https://api.github.com/search/issues?q=${encodeURIComponent(searchQuery)}&per_page=1`) as any;
+      const response = await this.makeRateLimitedRequest(`${this.baseUrl}/search/issues?q=${encodeURIComponent(searchQuery)}&per_page=1`) as any;
       
       let totalCount = 0;
       if (response && response.total_count !== undefined) {
@@ -639,21 +718,19 @@ export class GitHubService {
       // This handles cases where the user changed their username
       this.logger.log(`No results with current username, trying broader search for user ID ${userId}`);
       
-      const broaderQuery = type === 'merged'
-        ? `repo:${owner}/${repo} is:pr is:merged merged:${startDate}..${endDate}`
-        : `repo:${owner}/${repo} is:pr created:${startDate}..${endDate}`;
-      
-      // Get more results to filter by user ID
-      const broaderResponse = await this.makeRateLimitedRequest(`https://api.github.com/search/issues?q=${encodeURIComponent(broaderQuery)}&per_page=100`) as any;
-      
-      if (broaderResponse && broaderResponse.items) {
-        // Filter results by user ID to handle username changes
-        const userPRs = broaderResponse.items.filter((pr: any) => pr.user.id === userId);
-        this.logger.log(`Found ${userPRs.length} ${type} PRs for user ID ${userId} (username may have changed)`);
-        return userPRs.length;
-      }
-      
-      return 0;
+      // Page through every result to filter by user ID
+      const broaderResults = await this.githubApi.searchIssues<any>(
+        range => type === 'merged'
+          ? `repo:${owner}/${repo} is:pr is:merged merged:${range}`
+          : `repo:${owner}/${repo} is:pr created:${range}`,
+        startDate,
+        endDate
+      );
+
+      // Filter results by user ID to handle username changes
+      const userPRs = broaderResults.items.filter((pr: any) => pr.user?.id === userId);
+      this.logger.log(`Found ${userPRs.length} ${type} PRs for user ID ${userId} (username may have changed)`);
+      return userPRs.length;
     } catch (error) {
       this.logger.warn(`Failed to search for ${type} PRs for ${username} in ${owner}/${repo}:`, error);
       return 0;
@@ -668,7 +745,7 @@ export class GitHubService {
       const searchQuery = `repo:${owner}/${repo} is:pr created:${startDate}..${endDate}`;
       this.logger.log(`Searching for total recent PRs: ${searchQuery}`);
       
-      const response = await this.makeRateLimitedRequest(`https://api.github.com/search/issues?q=${encodeURIComponent(searchQuery)}&per_page=1`) as any;
+      const response = await this.makeRateLimitedRequest(`${this.baseUrl}/search/issues?q=${encodeURIComponent(searchQuery)}&per_page=1`) as any;
       
       if (response && response.total_count !== undefined) {
         return response.total_count;
@@ -723,7 +800,7 @@ export class GitHubService {
             this.logger.log(`Checking reviews and reactions for PR #${pr.number} in ${owner}/${repo}`);
             
             // Get both reviews and emoji reactions
-            const [reviews, reactions] = await Promise.all([
+            const [{ items: reviews }, reactions] = await Promise.all([
               this.getPullRequestReviews(owner, repo, pr.number),
               this.getPullRequestReactions(owner, repo, pr.number)
             ]);
@@ -743,8 +820,8 @@ export class GitHubService {
             // Check if this user has ANY review activity on this PR within the date range
             // Use both username and user ID to handle username changes
             const hasUserReview = reviews.some(review => {
-              const isUserReview = (review.user.login === username || review.user.id === userId) && review.submitted_at;
-              if (isUserReview) {
+              const isUserReview = review.user?.login === username || review.user?.id === userId;
+              if (isUserReview && review.submitted_at) {
                 const reviewDate = new Date(review.submitted_at);
                 const inRange = reviewDate >= startDateObj && reviewDate <= endDateObj;
                 if (inRange) {
@@ -883,50 +960,83 @@ export class GitHubService {
   }
 
   /**
-   * Get organization repositories (including private ones if accessible)
+   * Search an organization's repositories one page at a time, most recently updated first
    * @param orgName Organization name
-   * @returns Array of repositories
+   * @param filters Name, language, archived, visibility, topic and last pushed filters plus the page
+   * @returns One page of repositories with the total number of matches
    */
-  async getOrganizationRepositories(orgName: string): Promise<any[]> {
+  async searchOrganizationRepositories(orgName: string, filters: RepositorySearchFilters): Promise<RepositorySearchPage> {
+    if (filters.page * filters.perPage > REPOSITORY_SEARCH_CAP) {
+      throw new HttpException(`Only the first ${REPOSITORY_SEARCH_CAP} results of a search can be paged through; narrow the filters`, HttpStatus.BAD_REQUEST);
+    }
+
+    const query = this.buildRepositorySearchQuery(orgName, filters);
+    const url = `${this.baseUrl}/search/repositories?q=${encodeURIComponent(query)}&sort=updated&order=desc&per_page=${filters.perPage}&page=${filters.page}`;
     try {
-      this.logger.log(`Fetching repositories for organization: ${orgName}`);
-      const url = `${this.baseUrl}/orgs/${orgName}/repos?per_page=100&sort=updated`;
-      return await this.makeRateLimitedRequest<any[]>(url);
+      this.logger.log(`Searching repositories: ${query} (page ${filters.page})`);
+      const response = await this.makeRateLimitedRequest<GitHubSearchResponse<GitHubRepo>>(url);
+      return {
+        items: response.items,
+        totalCount: response.total_count,
+        page: filters.page,
+        perPage: filters.perPage,
+        incomplete: response.incomplete_results,
+      };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`Failed to fetch repositories for organization ${orgName}:`, errorMessage);
-      
-      if (error.response?.status === 404) {
-        throw new HttpException(`Organization '${orgName}' not found`, HttpStatus.NOT_FOUND);
+      throw this.toRepositorySearchError(orgName, error);
+    }
+  }
+
+  /**
+   * Every repository of an organization whose name matches a glob (e.g. 'service-*') and/or that has a topic
+   * @param orgName Organization name
+   * @param pattern Name glob with * and ? wildcards, matched case-insensitively
+   * @param topic Repository topic
+   * @returns Matching repositories, at most the search API's 1000
+   */
+  async matchOrganizationRepositories(orgName: string, pattern?: string, topic?: string): Promise<GitHubRepo[]> {
+    // Search narrows the candidates by the longest literal part of the glob; the glob itself is applied below
+    const literal = (pattern ?? '').split(/[*?]+/).sort((a, b) => b.length - a.length)[0];
+    const query = this.buildRepositorySearchQuery(orgName, { query: literal || undefined, topic });
+    const url = `${this.baseUrl}/search/repositories?q=${encodeURIComponent(query)}&sort=updated&order=desc&per_page=100`;
+    try {
+      this.logger.log(`Matching repositories: ${query}`);
+      const { items, truncated } = await this.githubApi.paginate<GitHubRepo>(url, { maxPages: REPOSITORY_SEARCH_CAP / 100 });
+      if (truncated) {
+        this.logger.warn(`Repository match ${query} stopped at ${REPOSITORY_SEARCH_CAP} results`);
       }
-      
-      if (error.response?.status === 403) {
-        throw new HttpException(`Access denied to organization '${orgName}'. Check SAML authorization.`, HttpStatus.FORBIDDEN);
+
+      if (!pattern) {
+        return items;
       }
-      
-      throw new HttpException('Failed to fetch organization repositories from GitHub', HttpStatus.BAD_GATEWAY);
+      const escaped = pattern.replace(/[.+^$()|[\]\\{}-]/g, '\\$&');
+      const glob = new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+      return items.filter(repo => glob.test(repo.name));
+    } catch (error) {
+      throw this.toRepositorySearchError(orgName, error);
     }
   }
 
   /**
-   * Get organization members (current and past)
+   * Get every member of an organization
    * @param orgName Organization name
    * @returns Array of members
    */
-  async getOrganizationMembers(orgName: string): Promise<any[]> {
+  async getOrganizationMembers(orgName: string): Promise<GitHubMember[]> {
     try {
       this.logger.log(`Fetching members for organization: ${orgName}`);
       const url = `${this.baseUrl}/orgs/${orgName}/members?per_page=100`;
-      return await this.makeRateLimitedRequest<any[]>(url);
+      return (await this.githubApi.paginate<GitHubMember>(url, { maxPages: MEMBER_LIST_MAX_PAGES })).items;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to fetch members for organization ${orgName}:`, errorMessage);
+      const status = (error as { response?: { status?: number } }).response?.status;
       
-      if (error.response?.status === 404) {
+      if (status === 404) {
         throw new HttpException(`Organization '${orgName}' not found`, HttpStatus.NOT_FOUND);
       }
       
-      if (error.response?.status === 403) {
+      if (status === 403) {
         throw new HttpException(`Access denied to organization '${orgName}'. Check SAML authorization.`, HttpStatus.FORBIDDEN);
       }
       
@@ -934,17 +1044,72 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Get the teams of an organization visible to the credentials in use
+   * @param orgName Organization name
+   * @returns Array of teams
+   */
+  async getOrganizationTeams(orgName: string): Promise<GitHubTeam[]> {
+    try {
+      this.logger.log(`Fetching teams for organization: ${orgName}`);
+      const url = `${this.baseUrl}/orgs/${orgName}/teams?per_page=100`;
+      return (await this.githubApi.paginate<GitHubTeam>(url, { maxPages: MEMBER_LIST_MAX_PAGES })).items;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch teams for organization ${orgName}:`, errorMessage);
+      const status = (error as { response?: { status?: number } }).response?.status;
+
+      if (status === 404) {
+        throw new HttpException(`Organization '${orgName}' not found`, HttpStatus.NOT_FOUND);
+      }
+
+      if (status === 403) {
+        throw new HttpException(`Access denied to the teams of '${orgName}'. Listing teams needs read:org access.`, HttpStatus.FORBIDDEN);
+      }
+
+      throw new HttpException('Failed to fetch organization teams from GitHub', HttpStatus.BAD_GATEWAY);
+    }
+  }
+
+  /**
+   * Get the members of a team, including the members of its child teams
+   * @param orgName Organization name
+   * @param teamSlug Team slug, e.g. 'platform-team'
+   * @returns Array of members
+   */
+  async getTeamMembers(orgName: string, teamSlug: string): Promise<GitHubMember[]> {
+    try {
+      this.logger.log(`Fetching members for team: ${orgName}/${teamSlug}`);
+      const url = `${this.baseUrl}/orgs/${orgName}/teams/${teamSlug}/members?per_page=100`;
+      return (await this.githubApi.paginate<GitHubMember>(url, { maxPages: MEMBER_LIST_MAX_PAGES })).items;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch members for team ${orgName}/${teamSlug}:`, errorMessage);
+      const status = (error as { response?: { status?: number } }).response?.status;
+
+      if (status === 404) {
+        throw new HttpException(`Team '${orgName}/${teamSlug}' not found`, HttpStatus.NOT_FOUND);
+      }
+
+      if (status === 403) {
+        throw new HttpException(`Access denied to team '${orgName}/${teamSlug}'. Listing team members needs read:org access.`, HttpStatus.FORBIDDEN);
+      }
+
+      throw new HttpException('Failed to fetch team members from GitHub', HttpStatus.BAD_GATEWAY);
+    }
+  }
+
   /**
    * Get repository information by owner and repo name
    * @param owner Repository owner
    * @param repo Repository name
    * @returns Repository information including ID
    */
-  async getRepository(owner: string, repo: string): Promise<any> {
+  async getRepository(owner: string, repo: string): Promise<GitHubRepo> {
     try {
       this.logger.log(`Fetching repository: ${owner}/${repo}`);
       const url = `${this.baseUrl}/repos/${owner}/${repo}`;
-      return await this.makeRateLimitedRequest<any>(url);
+      return await this.makeRateLimitedRequest<GitHubRepo>(url);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to fetch repository ${owner}/${repo}:`, errorMessage);
@@ -962,79 +1127,30 @@ export class GitHubService {
   }
 
   /**
-   * Get batch activity summary for multiple users by dashboard ID
-   * This optimizes API calls by processing users in parallel and reusing repository data
+   * Get batch activity summary for multiple users by dashboard ID, bypassing the cache.
+   * Same shape as the cached summary, including the per-user fallback when a user's activity can't be fetched
    */
   async getBatchUserActivitySummaryByDashboard(
     dashboardId: string, 
     repos: string[] = [], 
     startDate?: string, 
     endDate?: string
-  ): Promise<Array<{
-    user: GitHubUser;
-    activity: {
-      prsCreated: number;
-      prsReviewed: number;
-      prsMerged: number;
-      totalActivity: number;
-      repos: Array<{
-        repo: string;
-        prsCreated: number;
-        prsReviewed: number;
-        prsMerged: number;
-        totalRecentPRs: number;
-      }>;
-    };
-  }>> {
+  ): Promise<GitHubUserActivitySummary[]> {
     this.logger.log(`Getting batch activity summary for dashboard ${dashboardId}`);
-    
-    // Get dashboard users from database
-    const dashboardUsersResponse = await fetch(`http://localhost:3001/api/dashboards/${dashboardId}/users`);
-    if (!dashboardUsersResponse.ok) {
-      throw new Error(`Failed to get dashboard users: ${dashboardUsersResponse.statusText}`);
-    }
-    
-    const dashboardUsers = await dashboardUsersResponse.json();
-    
-    this.logger.log(`Found ${dashboardUsers.length} users in dashboard: ${dashboardUsers.map((du: any) => `${du.user.githubUsername} (ID: ${du.user.githubUserId})`).join(', ')}`);
-    
-    // Process all users in parallel for better performance
-    const userPromises = dashboardUsers.map(async (dashboardUser: any) => {
-      try {
-        const { githubUsername, githubUserId } = dashboardUser.user;
-        this.logger.log(`Getting activity for user ${githubUsername} (GitHub ID: ${githubUserId})`);
-        
-        // Use the GitHub user ID for more reliable searching
-        return await this.getUserActivitySummary(githubUsername, repos, startDate, endDate);
-      } catch (error) {
-        this.logger.warn(`Failed to get activity for user ${dashboardUser.user.githubUsername}:`, error);
-        // Return empty activity data for failed users
-        return {
-          user: { 
-            login: dashboardUser.user.githubUsername, 
-            id: parseInt(dashboardUser.user.githubUserId), 
-            name: dashboardUser.user.displayName || dashboardUser.user.githubUsername 
-          } as GitHubUser,
-          activity: {
-            prsCreated: 0,
-            prsReviewed: 0,
-            prsMerged: 0,
-            totalActivity: 0,
-            repos: []
-          }
-        };
-      }
-    });
-
-    const results = await Promise.all(userPromises);
-    this.logger.log(`Batch activity summary completed for ${results.length} users`);
-    
-    return results;
+    repos = await this.scopeDashboardRepositories(dashboardId, repos);
+    const contributions = await this.getDashboardContributionOptions(dashboardId);
+
+    // Fetched with the dashboard client's GitHub credentials
+    return GitHubClientContext.run(
+      await this.getDashboardClientId(dashboardId),
+      () => this.computeBatchUserActivitySummary(dashboardId, repos, startDate, endDate, true, contributions)
+    );
   }
 
   /**
    * Get cached and filtered activity summary for multiple users by dashboard ID
-   * Uses in-memory cache to minimize GitHub API calls and filters data server-side
+   * Stale-while-revalidate: stale entries are served immediately while one deduplicated
+   * background refresh runs; concurrent misses share a single in-flight computation
    * @param dashboardId Dashboard ID
    * @param repos Array of repository names (format: "owner/repo")
    * @param startDate Start date for activity tracking (optional)
@@ -1049,96 +1165,312 @@ export class GitHubService {
     includeReviews = true,
     usersFilter: string[] = [],
     noCache = false
-  ): Promise<Array<{
-    user: GitHubUser;
-    activity: {
-      prsCreated: number;
-      prsReviewed: number;
-      prsMerged: number;
-      totalActivity: number;
-      repos: Array<{
-        repo: string;
-        prsCreated: number;
-        prsReviewed: number;
-        prsMerged: number;
-        totalRecentPRs: number;
-      }>;
-    };
-  }>> {
+  ): Promise<GitHubUserActivitySummary[]> {
     this.logger.log(`Getting cached batch activity summary for dashboard ${dashboardId}`);
-
-    const startKey = startDate ? new Date(startDate).toISOString() : 'auto30d';
-    const endKey = endDate ? new Date(endDate).toISOString() : 'now';
-    const reposKey = (repos ?? []).join('|');
-    const includeKey = includeReviews ? 'rev1' : 'rev0';
-    const swrKey = `batch:${dashboardId}:${reposKey}:${startKey}:${endKey}:${includeKey}`;
-
-    if (!noCache) {
-      const cachedBatch = this.cacheService.get<any[]>(swrKey);
-      if (cachedBatch) {
-        this.logger.log(`SWR hit for ${swrKey}`);
-        // If user filter specified, filter the cached response
-        if (usersFilter && usersFilter.length > 0) {
-          return cachedBatch.filter(item => usersFilter.includes(item.user.login));
+    repos = await this.scopeDashboardRepositories(dashboardId, repos);
+
+    // Commit and issue activity types follow the dashboard's configuration
+    const contributions = await this.getDashboardContributionOptions(dashboardId);
+    const swrKey = this.getBatchCacheKey(dashboardId, repos, startDate, endDate, includeReviews, contributions);
+    // Background refreshes keep running with the dashboard client's GitHub credentials
+    const refresh = async () => GitHubClientContext.run(
+      await this.getDashboardClientId(dashboardId),
+      () => this.computeBatchUserActivitySummary(dashboardId, repos, startDate, endDate, includeReviews, contributions)
+    );
+
+    let results: GitHubUserActivitySummary[];
+    if (noCache) {
+      results = await this.revalidateBatch(dashboardId, swrKey, refresh);
+    } else {
+      const cached = await this.cacheService.get<{ data: GitHubUserActivitySummary[]; fetchedAt: number }>(swrKey);
+      if (cached) {
+        const age = Date.now() - cached.fetchedAt;
+        if (age > this.BATCH_FRESH_MS) {
+          // Stale: serve what we have and refresh once in the background
+          this.logger.log(`SWR stale hit for ${swrKey} (${Math.round(age / 1000)}s old); revalidating`);
+          this.revalidateBatch(dashboardId, swrKey, refresh).catch(error =>
+            this.logger.warn(`Background revalidation failed for ${swrKey}: ${error instanceof Error ? error.message : error}`)
+          );
+        } else {
+          this.logger.log(`SWR hit for ${swrKey}`);
         }
-        return cachedBatch;
+        results = cached.data;
+      } else {
+        results = await this.revalidateBatch(dashboardId, swrKey, refresh);
       }
     }
 
-    // Fetch dashboard users once
-    const dashboardUsersResponse = await fetch(`http://localhost:3001/api/dashboards/${dashboardId}/users`);
-    if (!dashboardUsersResponse.ok) {
-      throw new Error(`Failed to get dashboard users: ${dashboardUsersResponse.statusText}`);
+    // Users filter applies to the response only; the cached entry always covers every dashboard user
+    return usersFilter && usersFilter.length > 0
+      ? results.filter(item => usersFilter.includes(item.user.login))
+      : results;
+  }
+
+  /**
+   * Batch activity summary of a dashboard, followed by every recomputation of it: background
+   * refreshes of this range, and recomputations triggered when the dashboard's activity is invalidated
+   */
+  watchBatchUserActivitySummary(
+    dashboardId: string,
+    repos: string[] = [],
+    startDate?: string,
+    endDate?: string,
+    includeReviews = true
+  ): Observable<GitHubUserActivitySummary[]> {
+    return defer(() => Promise.all([
+      this.scopeDashboardRepositories(dashboardId, repos),
+      this.getDashboardContributionOptions(dashboardId)
+    ])).pipe(
+      mergeMap(([scopedRepos, contributions]) => {
+        const load = () => defer(() => this.getCachedBatchUserActivitySummaryByDashboard(dashboardId, scopedRepos, startDate, endDate, includeReviews));
+        const swrKey = this.getBatchCacheKey(dashboardId, scopedRepos, startDate, endDate, includeReviews, contributions);
+        const updates = this.activityEvents.forDashboard(dashboardId).pipe(
+          mergeMap(event => {
+            if (event.type === 'refreshed') {
+              return event.cacheKey === swrKey ? of(event.data) : EMPTY;
+            }
+            // Reloading recomputes the dropped entry, which arrives as a 'refreshed' event
+            return load().pipe(
+              ignoreElements(),
+              catchError(error => {
+                this.logger.warn(`Failed to recompute ${swrKey} after invalidation: ${error instanceof Error ? error.message : error}`);
+                return EMPTY;
+              })
+            );
+          })
+        );
+
+        return merge(load(), updates);
+      }),
+      // A first load that computes the entry also publishes it; skip the repeat
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Requested repositories as tracked by the dashboard; they are read with the dashboard client's
+   * credentials, so repositories the dashboard doesn't track are rejected. None requested means all of them
+   */
+  async scopeDashboardRepositories(dashboardId: string, repos: string[] = []): Promise<string[]> {
+    if (repos.length === 0) {
+      return [];
+    }
+
+    const tracked = new Map(
+      (await this.dashboardRepositoryRepository.getDashboardRepositories(dashboardId)).map(name => [name.toLowerCase(), name])
+    );
+    const untracked = repos.filter(repo => !tracked.has(repo.toLowerCase()));
+    if (untracked.length > 0) {
+      throw new BadRequestException(`Repositories not tracked by dashboard '${dashboardId}': ${untracked.join(', ')}`);
+    }
+    return [...new Set(repos.map(repo => tracked.get(repo.toLowerCase()) as string))];
+  }
+
+  /**
+   * Activity summary per dashboard user computed in SQL from synced pull requests, reviews and merges
+   * @param repos Dashboard repositories to include; empty includes all of them
+   */
+  async getStoredActivitySummary(
+    dashboardId: string,
+    start: Date,
+    end: Date,
+    repos: string[] = [],
+    includeReviews = true
+  ): Promise<GitHubUserActivitySummary[]> {
+    const [dashboardUsers, rows] = await Promise.all([
+      this.dashboardUserRepository.getUsersForDashboard(dashboardId),
+      this.pullRequestRepository.getDashboardActivitySummary(dashboardId, start, end, repos),
+    ]);
+
+    // Users stored without profile links get them from the configured GitHub host
+    const webUrl = this.configService.get<string>('github.webUrl', 'https://github.com');
+
+    return dashboardUsers.map(({ user }) => {
+      const userRepos = rows
+        .filter(row => row.githubUserId === user.githubUserId)
+        .map(({ repo, prsCreated, prsReviewed, prsMerged, totalRecentPRs }) => ({
+          repo,
+          prsCreated,
+          prsReviewed: includeReviews ? prsReviewed : 0,
+          prsMerged,
+          totalRecentPRs
+        }));
+      const prsCreated = userRepos.reduce((sum, r) => sum + r.prsCreated, 0);
+      const prsReviewed = userRepos.reduce((sum, r) => sum + r.prsReviewed, 0);
+      const prsMerged = userRepos.reduce((sum, r) => sum + r.prsMerged, 0);
+
+      return {
+        user: {
+          id: parseInt(user.githubUserId, 10),
+          login: user.githubUsername,
+          name: user.displayName || user.githubUsername,
+          avatar_url: user.avatarUrl || `${webUrl}/${user.githubUsername}.png`,
+          html_url: user.profileUrl || `${webUrl}/${user.githubUsername}`
+        } as GitHubUser,
+        activity: {
+          prsCreated,
+          prsReviewed,
+          prsMerged,
+          totalActivity: prsCreated + prsReviewed + prsMerged,
+          repos: userRepos
+        }
+      };
+    });
+  }
+
+  /**
+   * Whether the background sync has stored every change of these repositories since start: each has
+   * completed a sync with no pages left to resume, and start is within the sync's lookback window.
+   * Anything created, merged or reviewed since then updated its PR, so the PR was synced.
+   * Rows synced with another client's credentials don't count, so its private repositories stay its own
+   */
+  private async isActivityStored(repoList: string[], start: Date, clientId: string | null): Promise<boolean> {
+    if (!this.configService.get<boolean>('github.sync.enabled', true)) {
+      return false;
+    }
+
+    const lookbackDays = this.configService.get<number>('github.sync.initialLookbackDays', 90);
+    if (start.getTime() < Date.now() - lookbackDays * 24 * 60 * 60 * 1000) {
+      return false;
+    }
+
+    const stored = await this.repositoryRepository.findByFullNames(repoList);
+    return repoList.every(name => stored.some(repo =>
+      repo.fullName === name && repo.syncWatermark && repo.syncResumePage === null && repo.syncClientId === clientId
+    ));
+  }
+
+  private getBatchCacheKey(
+    dashboardId: string,
+    repos: string[],
+    startDate: string | undefined,
+    endDate: string | undefined,
+    includeReviews: boolean,
+    contributions: DashboardContributionOptions
+  ): string {
+    const startKey = startDate ? new Date(startDate).toISOString() : 'auto30d';
+    const endKey = endDate ? new Date(endDate).toISOString() : 'now';
+    const contributionsKey = [
+      contributions.commits && (contributions.excludeMergeCommits ? 'commits-nomerge' : 'commits'),
+      contributions.issuesOpened && 'issues_opened',
+      contributions.issuesClosed && 'issues_closed',
+      contributions.issuesCommented && 'issues_commented'
+    ].filter(Boolean).join(',');
+    return CacheKeys.dashboardBatch(dashboardId, repos ?? [], startKey, endKey, includeReviews, contributionsKey);
+  }
+
+  /**
+   * Commit and issue activity types enabled for a dashboard
+   */
+  private async getDashboardContributionOptions(dashboardId: string): Promise<DashboardContributionOptions> {
+    const [dashboard, codes] = await Promise.all([
+      this.dashboardRepository.findById(dashboardId),
+      this.dashboardActivityConfigRepository.getEnabledActivityTypeCodes(dashboardId)
+    ]);
+    const enabled = new Set(codes);
+    return {
+      commits: enabled.has('commits'),
+      excludeMergeCommits: !!dashboard?.excludeMergeCommits,
+      issuesOpened: enabled.has('issues_opened'),
+      issuesClosed: enabled.has('issues_closed'),
+      issuesCommented: enabled.has('issues_commented')
+    };
+  }
+
+  /**
+   * Client (tenant) owning a dashboard, which decides the GitHub credentials its requests use
+   */
+  private async getDashboardClientId(dashboardId: string): Promise<string | null> {
+    const dashboard = await this.dashboardRepository.findById(dashboardId);
+    return dashboard?.clientId ?? null;
+  }
+
+  /**
+   * Recompute a batch entry, store it and announce it to the dashboard's event streams,
+   * coalescing concurrent callers onto one in-flight computation
+   */
+  private revalidateBatch(
+    dashboardId: string,
+    swrKey: string,
+    compute: () => Promise<GitHubUserActivitySummary[]>
+  ): Promise<GitHubUserActivitySummary[]> {
+    const inFlight = this.inFlightBatches.get(swrKey);
+    if (inFlight) {
+      this.logger.log(`Joining in-flight computation for ${swrKey}`);
+      return inFlight;
     }
-    const dashboardUsers = await dashboardUsersResponse.json();
 
-    // Optionally filter the dashboard users by login
-    const filteredDashboardUsers = (usersFilter && usersFilter.length > 0)
-      ? dashboardUsers.filter((du: any) => usersFilter.includes(du.user.githubUsername))
-      : dashboardUsers;
+    const promise = compute()
+      .then(async (data) => {
+        await this.cacheService.set(swrKey, { data, fetchedAt: Date.now() }, this.BATCH_MAX_STALE_MS);
+        this.activityEvents.publish({ type: 'refreshed', dashboardId, cacheKey: swrKey, data });
+        return data;
+      })
+      .finally(() => this.inFlightBatches.delete(swrKey));
+    this.inFlightBatches.set(swrKey, promise);
+    return promise;
+  }
+
+  /**
+   * Compute activity for every user of a dashboard (uncached)
+   */
+  private async computeBatchUserActivitySummary(
+    dashboardId: string,
+    repos: string[],
+    startDate: string | undefined,
+    endDate: string | undefined,
+    includeReviews: boolean,
+    contributions: DashboardContributionOptions
+  ): Promise<GitHubUserActivitySummary[]> {
+    // Fetch dashboard users once
+    const dashboardUsers = await this.dashboardUserRepository.getUsersForDashboard(dashboardId);
 
     // Load repositories from dashboard if not explicitly provided
     let repoList = repos;
     if (!repoList || repoList.length === 0) {
       this.logger.log(`No repos provided; loading repositories for dashboard ${dashboardId} from database`);
-      const reposResponse = await fetch(`http://localhost:3001/api/dashboards/${dashboardId}/repositories`);
-      if (reposResponse.ok) {
-        const reposFromDb = await reposResponse.json();
-        repoList = (Array.isArray(reposFromDb) ? reposFromDb : []).map((r: any) => typeof r === 'string' ? r : r?.name).filter(Boolean);
-        this.logger.log(`Loaded ${repoList.length} repositories from dashboard`);
-      } else {
-        this.logger.warn(`Failed to load repositories for dashboard ${dashboardId}: ${reposResponse.statusText}`);
-      }
+      repoList = await this.dashboardRepositoryRepository.getDashboardRepositories(dashboardId);
+      this.logger.log(`Loaded ${repoList.length} repositories from dashboard`);
     }
 
     // Short-circuit: if dashboard truly has no repos, return zeros but include profiles
     if (!repoList || repoList.length === 0) {
       this.logger.log(`Dashboard has no repositories configured. Returning zero activity for all users (including profiles).`);
-      const results = await Promise.all(filteredDashboardUsers.map(async (dashboardUser: any) => {
-        const { githubUsername } = dashboardUser.user;
-        const profile = await this.getCachedUser(githubUsername);
-        return {
-          user: profile,
-          activity: {
-            prsCreated: 0,
-            prsReviewed: 0,
-            prsMerged: 0,
-            totalActivity: 0,
-            repos: []
-          }
-        };
+      const results = await Promise.all(dashboardUsers.map(async (dashboardUser) => {
+        try {
+          const profile = await this.getCachedUser(dashboardUser.user.githubUsername);
+          return {
+            user: profile,
+            activity: {
+              prsCreated: 0,
+              prsReviewed: 0,
+              prsMerged: 0,
+              totalActivity: 0,
+              repos: []
+            }
+          };
+        } catch (error) {
+          this.logger.warn(`Failed to get profile for user ${dashboardUser.user.githubUsername}:`, error);
+          return this.failedUserActivity(dashboardUser.user, error);
+        }
       }));
-      if (!noCache) this.cacheService.set(swrKey, results, 60 * 1000); // short TTL SWR
       return results;
     }
 
-    this.logger.log(`Computing activity for ${filteredDashboardUsers.length} users over ${repoList.length} repos`);
+    const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // default 30d
+    if (await this.isActivityStored(repoList, start, GitHubClientContext.currentClientId())) {
+      this.logger.log(`Summarizing stored activity for ${dashboardUsers.length} users over ${repoList.length} repos`);
+      const stored = await this.getStoredActivitySummary(dashboardId, start, endDate ? new Date(endDate) : new Date(), repos, includeReviews);
+      return this.contributionSource.addContributions(stored, repoList, contributions, startDate, endDate);
+    }
+
+    this.logger.log(`Computing activity for ${dashboardUsers.length} users over ${repoList.length} repos`);
     
-    const userPromises = filteredDashboardUsers.map(async (dashboardUser: any) => {
+    const userPromises = dashboardUsers.map(async (dashboardUser) => {
       try {
         const { githubUsername } = dashboardUser.user;
         const profile = await this.getCachedUser(githubUsername);
-        return await this.getCachedUserActivitySummaryWithFlags(
+        return await this.getUserActivitySummaryFromSource(
           profile,
           repoList,
           startDate,
@@ -1147,29 +1479,57 @@ export class GitHubService {
         );
       } catch (error) {
         this.logger.warn(`Failed to get cached activity for user ${dashboardUser.user.githubUsername}:`, error);
-        const fallbackUser = { 
-          login: dashboardUser.user.githubUsername, 
-          id: parseInt(dashboardUser.user.githubUserId), 
-          name: dashboardUser.user.displayName || dashboardUser.user.githubUsername 
-        } as GitHubUser;
-        return {
-          user: fallbackUser,
-          activity: {
-            prsCreated: 0,
-            prsReviewed: 0,
-            prsMerged: 0,
-            totalActivity: 0,
-            repos: []
-          }
-        };
+        return this.failedUserActivity(dashboardUser.user, error);
       }
     });
 
     const results = await Promise.all(userPromises);
     this.logger.log(`Cached batch activity summary completed for ${results.length} users`);
 
-    if (!noCache) this.cacheService.set(swrKey, results, 60 * 1000); // short SWR TTL
-    return results;
+    return this.contributionSource.addContributions(results, repoList, contributions, startDate, endDate);
+  }
+
+  /**
+   * Zero activity for a dashboard user whose profile or activity couldn't be fetched, named from the stored user
+   */
+  private failedUserActivity(user: GitHubUserRecord, error: unknown): GitHubUserActivitySummary {
+    return {
+      user: {
+        login: user.githubUsername,
+        id: parseInt(user.githubUserId),
+        name: user.displayName || user.githubUsername
+      } as GitHubUser,
+      activity: {
+        prsCreated: 0,
+        prsReviewed: 0,
+        prsMerged: 0,
+        totalActivity: 0,
+        repos: []
+      },
+      error: error instanceof Error ? error.message : 'Failed to fetch activity'
+    };
+  }
+
+  /**
+   * Summarize one user's activity with the configured source (GITHUB_ACTIVITY_SOURCE),
+   * falling back to the REST aggregation if the GraphQL source fails
+   */
+  private async getUserActivitySummaryFromSource(
+    user: GitHubUser,
+    repoList: string[],
+    startDate?: string,
+    endDate?: string,
+    includeReviews = true
+  ): Promise<GitHubUserActivitySummary> {
+    if (this.configService.get<string>('github.activitySource') === 'graphql') {
+      try {
+        return await this.graphqlActivitySource.getUserActivitySummary(user, repoList, startDate, endDate, includeReviews);
+      } catch (error) {
+        this.logger.warn(`GraphQL activity source failed for ${user.login}, falling back to REST: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return this.getCachedUserActivitySummaryWithFlags(user, repoList, startDate, endDate, includeReviews);
   }
 
   private async aggregateRepoActivityRepoFirst(
@@ -1177,19 +1537,17 @@ export class GitHubService {
     repo: string,
     startISO: string,
     endISO: string
-  ): Promise<{ createdByUserId: Record<number, number>; mergedByUserId: Record<number, number>; totalRecentPRs: number; }> {
-    const cacheKey = `repo:${owner}/${repo}:agg:${startISO}:${endISO}`;
-    const cached = this.cacheService.get<{ createdByUserId: Record<number, number>; mergedByUserId: Record<number, number>; totalRecentPRs: number; }>(cacheKey);
+  ): Promise<{ createdByUserId: Record<number, number>; mergedByUserId: Record<number, number>; totalRecentPRs: number; truncated: boolean; }> {
+    const cacheKey = CacheKeys.repoActivityAggregate(owner, repo, GitHubClientContext.currentClientId(), startISO, endISO);
+    const cached = await this.cacheService.get<{ createdByUserId: Record<number, number>; mergedByUserId: Record<number, number>; totalRecentPRs: number; truncated: boolean; }>(cacheKey);
     if (cached) return cached;
 
     const createdByUserId: Record<number, number> = {};
     const mergedByUserId: Record<number, number> = {};
 
-    // Search PRs created in range (all authors)
-    const createdQuery = `repo:${owner}/${repo} is:pr created:${startISO}..${endISO}`;
-    const createdResp = await this.makeRateLimitedRequest(`https://api.github.com/search/issues?q=${encodeURIComponent(createdQuery)}&per_page=100`) as any;
-    const createdItems: any[] = createdResp?.items ?? [];
-    for (const it of createdItems) {
+    // Search PRs created in range (all authors), following every page
+    const created = await this.githubApi.searchIssues<any>(range => `repo:${owner}/${repo} is:pr created:${range}`, startISO, endISO);
+    for (const it of created.items) {
       const user = it.user;
       if (user?.id != null) {
         createdByUserId[user.id] = (createdByUserId[user.id] ?? 0) + 1;
@@ -1197,24 +1555,20 @@ export class GitHubService {
     }
 
     // Search PRs merged in range (all authors)
-    const mergedQuery = `repo:${owner}/${repo} is:pr is:merged merged:${startISO}..${endISO}`;
-    const mergedResp = await this.makeRateLimitedRequest(`https://api.github.com/search/issues?q=${encodeURIComponent(mergedQuery)}&per_page=100`) as any;
-    const mergedItems: any[] = mergedResp?.items ?? [];
-    for (const it of mergedItems) {
+    const merged = await this.githubApi.searchIssues<any>(range => `repo:${owner}/${repo} is:pr is:merged merged:${range}`, startISO, endISO);
+    for (const it of merged.items) {
       const user = it.user;
       if (user?.id != null) {
         mergedByUserId[user.id] = (mergedByUserId[user.id] ?? 0) + 1;
       }
     }
 
-    // Total recent PRs in range (regardless of author) for context
-    const totalResp = await this.makeRateLimitedRequest(
-      `https://api.github.com/search/issues?q=${encodeURIComponent(`repo:${owner}/${repo} is:pr created:${startISO}..${endISO}`)}&per_page=1`
-    ) as any;
-    const totalRecentPRs = totalResp?.total_count ?? createdItems.length;
+    // Total recent PRs in range (regardless of author) comes from the created search's total_count
+    const totalRecentPRs = created.totalCount;
+    const truncated = created.truncated || merged.truncated;
 
-    const aggregated = { createdByUserId, mergedByUserId, totalRecentPRs };
-    this.cacheService.set(cacheKey, aggregated, 15 * 60 * 1000);
+    const aggregated = { createdByUserId, mergedByUserId, totalRecentPRs, truncated };
+    await this.cacheService.set(cacheKey, aggregated, 15 * 60 * 1000);
     return aggregated;
   }
 
@@ -1231,13 +1585,8 @@ export class GitHubService {
       prsReviewed: number;
       prsMerged: number;
       totalActivity: number;
-      repos: Array<{
-        repo: string;
-        prsCreated: number;
-        prsReviewed: number;
-        prsMerged: number;
-        totalRecentPRs: number;
-      }>;
+      truncated: boolean;
+      repos: GitHubRepoActivity[];
     };
   }> {
     const t0 = Date.now();
@@ -1249,13 +1598,8 @@ export class GitHubService {
       prsReviewed: 0,
       prsMerged: 0,
       totalActivity: 0,
-      repos: [] as Array<{
-        repo: string;
-        prsCreated: number;
-        prsReviewed: number;
-        prsMerged: number;
-        totalRecentPRs: number;
-      }>
+      truncated: false,
+      repos: [] as GitHubRepoActivity[]
     };
 
     const startISO = startDateObj.toISOString().split('T')[0];
@@ -1275,7 +1619,8 @@ export class GitHubService {
           const created = agg.createdByUserId[user.id] ?? 0;
           const merged = agg.mergedByUserId[user.id] ?? 0;
 
-          stats.repos.push({ repo, prsCreated: created, prsReviewed: 0, prsMerged: merged, totalRecentPRs: agg.totalRecentPRs });
+          stats.repos.push({ repo, prsCreated: created, prsReviewed: 0, prsMerged: merged, totalRecentPRs: agg.totalRecentPRs, truncated: !!agg.truncated });
+          stats.truncated = stats.truncated || !!agg.truncated;
           stats.prsCreated += created;
           stats.prsMerged += merged;
           stats.totalActivity += created + merged;
@@ -1287,7 +1632,7 @@ export class GitHubService {
       }
 
       // Reviews enabled path (fallback to detailed/cached)
-      const prs = await this.getCachedPRs(owner, repoName);
+      const { items: prs, truncated } = await this.getCachedPRs(owner, repoName, startDateObj);
       const filteredPRs = this.filterPRsByUserAndDate(prs, user.id, user.login, startDateObj, endDateObj);
 
       const prsCreated = filteredPRs.filter(pr => 
@@ -1304,8 +1649,9 @@ export class GitHubService {
       );
       const prsMergedCount = mergedArray.length;
 
-      let prsReviewed = 0;
-      prsReviewed = await this.getCachedPRsReviewed(owner, repoName, filteredPRs, user.id, user.login, startDateObj, endDateObj);
+      const reviewed = await this.getCachedPRsReviewed(owner, repoName, filteredPRs, user.id, user.login, startDateObj, endDateObj);
+      const prsReviewed = reviewed.reviewed;
+      const repoTruncated = truncated || reviewed.truncated;
 
       const totalRecentPRs = filteredPRs.length;
 
@@ -1314,8 +1660,10 @@ export class GitHubService {
         prsCreated,
         prsReviewed,
         prsMerged: prsMergedCount,
-        totalRecentPRs
+        totalRecentPRs,
+        truncated: repoTruncated
       });
+      stats.truncated = stats.truncated || repoTruncated;
       stats.prsCreated += prsCreated;
       stats.prsReviewed += prsReviewed;
       stats.prsMerged += prsMergedCount;
@@ -1329,40 +1677,44 @@ export class GitHubService {
   }
 
   /**
-   * Get cached user information
+   * Get cached user information; resolves a username to the user's immutable GitHub id
    */
-  private async getCachedUser(username: string): Promise<GitHubUser> {
+  async getCachedUser(username: string): Promise<GitHubUser> {
     const cacheKey = CacheKeys.user(username);
-    let user = this.cacheService.get<GitHubUser>(cacheKey);
+    let user = await this.cacheService.get<GitHubUser>(cacheKey);
     
     if (!user) {
       this.logger.log(`Cache miss for user: ${username}`);
       user = await this.getUser(username);
-      this.cacheService.set(cacheKey, user, 30 * 60 * 1000); // 30 minutes
+      await this.cacheService.set(cacheKey, user, 30 * 60 * 1000); // 30 minutes
     }
     
     return user;
   }
 
   /**
-   * Get cached PRs for a repository
+   * Get cached PRs for a repository updated since the given date (at least the last 90 days).
+   * Pages through PRs sorted by last update and stops once they fall out of the window.
    */
-  private async getCachedPRs(owner: string, repo: string): Promise<GitHubPullRequest[]> {
-    const cacheKey = CacheKeys.prList(owner, repo, 90); // 90 days
-    let prs = this.cacheService.get<GitHubPullRequest[]>(cacheKey);
+  private async getCachedPRs(owner: string, repo: string, since: Date): Promise<PaginatedResult<GitHubPullRequest>> {
+    const windowDays = Math.max(90, Math.ceil((Date.now() - since.getTime()) / (24 * 60 * 60 * 1000)));
+    const cacheKey = CacheKeys.prList(owner, repo, GitHubClientContext.currentClientId(), windowDays);
+    let prs = await this.cacheService.get<PaginatedResult<GitHubPullRequest>>(cacheKey);
     
     if (!prs) {
       this.logger.log(`Cache miss for PRs: ${owner}/${repo}`);
+      const windowStart = Date.now() - windowDays * 24 * 60 * 60 * 1000;
       try {
         // Use direct PRs API instead of search API for better reliability
-        const response = await this.makeRateLimitedRequest(`https://api.github.com/repos/${owner}/${repo}/pulls?state=all&per_page=100&sort=updated&direction=desc`) as any;
-        
-        prs = response || [];
-        this.logger.log(`Retrieved ${prs.length} PRs from GitHub API for ${owner}/${repo}`);
-        this.cacheService.set(cacheKey, prs, 15 * 60 * 1000); // 15 minutes
+        prs = await this.githubApi.paginate<GitHubPullRequest>(
+          `${this.baseUrl}/repos/${owner}/${repo}/pulls?state=all&per_page=100&sort=updated&direction=desc`,
+          { maxPages: MAX_PR_LIST_PAGES, stopWhen: pr => new Date(pr.updated_at).getTime() < windowStart }
+        );
+        this.logger.log(`Retrieved ${prs.items.length} PRs from GitHub API for ${owner}/${repo}${prs.truncated ? ' (truncated)' : ''}`);
+        await this.cacheService.set(cacheKey, prs, 15 * 60 * 1000); // 15 minutes
       } catch (error) {
         this.logger.error(`Failed to fetch PRs for ${owner}/${repo}:`, error);
-        prs = [];
+        prs = { items: [], totalCount: 0, truncated: false };
       }
     }
     
@@ -1393,7 +1745,7 @@ export class GitHubService {
   }
 
   /**
-   * Get cached PRs reviewed count
+   * Get cached PRs reviewed count, flagged as truncated when a PR had more reviews than were fetched
    */
   private async getCachedPRsReviewed(
     owner: string, 
@@ -1403,8 +1755,9 @@ export class GitHubService {
     username: string, 
     startDate: Date, 
     endDate: Date
-  ): Promise<number> {
+  ): Promise<{ reviewed: number; truncated: boolean }> {
     let reviewedCount = 0;
+    let truncated = false;
     
     // Process PRs in small batches to avoid overwhelming the API
     const batchSize = 3;
@@ -1419,14 +1772,15 @@ export class GitHubService {
         
         try {
           // Get cached reviews and reactions
-          const [reviews, reactions] = await Promise.all([
+          const [{ items: reviews, truncated: reviewsTruncated }, reactions] = await Promise.all([
             this.getCachedPRReviews(owner, repo, pr.number),
             this.getCachedPRReactions(owner, repo, pr.number)
           ]);
+          truncated = truncated || reviewsTruncated;
           
           // Check if user has any review activity within date range
           const hasReview = reviews.some(review => {
-            if (review.user.id === userId && review.submitted_at) {
+            if (review.user?.id === userId && review.submitted_at) {
               const reviewDate = new Date(review.submitted_at);
               return reviewDate >= startDate && reviewDate <= endDate;
             }
@@ -1458,20 +1812,20 @@ export class GitHubService {
       }
     }
     
-    return reviewedCount;
+    return { reviewed: reviewedCount, truncated };
   }
 
   /**
    * Get cached PR reviews
    */
-  private async getCachedPRReviews(owner: string, repo: string, prNumber: number): Promise<any[]> {
-    const cacheKey = CacheKeys.prReviews(owner, repo, prNumber);
-    let reviews = this.cacheService.get<any[]>(cacheKey);
+  private async getCachedPRReviews(owner: string, repo: string, prNumber: number): Promise<PaginatedResult<GitHubReview>> {
+    const cacheKey = CacheKeys.prReviews(owner, repo, GitHubClientContext.currentClientId(), prNumber);
+    let reviews = await this.cacheService.get<PaginatedResult<GitHubReview>>(cacheKey);
     
     if (!reviews) {
       this.logger.log(`Cache miss for reviews: ${owner}/${repo}#${prNumber}`);
       reviews = await this.getPullRequestReviews(owner, repo, prNumber);
-      this.cacheService.set(cacheKey, reviews, 15 * 60 * 1000); // 15 minutes
+      await this.cacheService.set(cacheKey, reviews, 15 * 60 * 1000); // 15 minutes
     }
     
     return reviews;
@@ -1481,15 +1835,47 @@ export class GitHubService {
    * Get cached PR reactions
    */
   private async getCachedPRReactions(owner: string, repo: string, prNumber: number): Promise<any[]> {
-    const cacheKey = CacheKeys.prReactions(owner, repo, prNumber);
-    let reactions = this.cacheService.get<any[]>(cacheKey);
+    const cacheKey = CacheKeys.prReactions(owner, repo, GitHubClientContext.currentClientId(), prNumber);
+    let reactions = await this.cacheService.get<any[]>(cacheKey);
     
     if (!reactions) {
       this.logger.log(`Cache miss for reactions: ${owner}/${repo}#${prNumber}`);
       reactions = await this.getPullRequestReactions(owner, repo, prNumber);
-      this.cacheService.set(cacheKey, reactions, 15 * 60 * 1000); // 15 minutes
+      await this.cacheService.set(cacheKey, reactions, 15 * 60 * 1000); // 15 minutes
     }
     
     return reactions;
   }
+
+  private buildRepositorySearchQuery(orgName: string, filters: Partial<RepositorySearchFilters>): string {
+    const qualifiers = [`org:${orgName}`];
+    if (filters.query) qualifiers.push(`${filters.query} in:name`);
+    if (filters.language) qualifiers.push(`language:"${filters.language}"`);
+    if (filters.archived !== undefined) qualifiers.push(`archived:${filters.archived}`);
+    if (filters.visibility) qualifiers.push(`is:${filters.visibility}`);
+    if (filters.topic) qualifiers.push(`topic:${filters.topic}`);
+    if (filters.pushedAfter) qualifiers.push(`pushed:>=${filters.pushedAfter}`);
+    return qualifiers.join(' ');
+  }
+
+  private toRepositorySearchError(orgName: string, error: unknown): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    this.logger.error(`Failed to search repositories of organization ${orgName}:`, errorMessage);
+    const status = (error as { response?: { status?: number } }).response?.status;
+
+    // Search answers 422 when the org qualifier names an unknown organization
+    if (status === 404 || status === 422) {
+      return new HttpException(`Organization '${orgName}' not found`, HttpStatus.NOT_FOUND);
+    }
+
+    if (status === 403) {
+      return new HttpException(`Access denied to organization '${orgName}'. Check SAML authorization.`, HttpStatus.FORBIDDEN);
+    }
+
+    return new HttpException('Failed to search organization repositories on GitHub', HttpStatus.BAD_GATEWAY);
+  }
 }
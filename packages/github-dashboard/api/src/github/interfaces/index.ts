@@ -19,6 +19,24 @@ export interface GitHubUser {
   updated_at: string;
 }
 
+// Entry of an organization or team member list (a subset of GitHubUser)
+export interface GitHubMember {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  type: string;
+}
+
+export interface GitHubTeam {
+  id: number;
+  name: string;
+  slug: string;
+  description: string | null;
+  privacy: 'secret' | 'closed';
+  parent: { slug: string } | null;
+}
+
 export interface GitHubRepo {
   id: number;
   name: string;
@@ -41,7 +59,29 @@ export interface GitHubRepo {
   pushed_at: string;
   default_branch: string;
   topics: string[];
-  visibility: 'public' | 'private';
+  visibility: 'public' | 'private' | 'internal';
+  archived: boolean;
+}
+
+// Filters of an organization repository search; unset filters match everything
+export interface RepositorySearchFilters {
+  query?: string; // part of the repository name
+  language?: string;
+  archived?: boolean;
+  visibility?: 'public' | 'private' | 'internal';
+  topic?: string;
+  pushedAfter?: string; // YYYY-MM-DD
+  page: number;
+  perPage: number;
+}
+
+// One page of an organization repository search, most recently updated first
+export interface RepositorySearchPage {
+  items: GitHubRepo[];
+  totalCount: number;
+  page: number;
+  perPage: number;
+  incomplete: boolean;
 }
 
 export interface GitHubPullRequest {
@@ -80,3 +120,101 @@ export interface GitHubPullRequest {
   deletions: number;
   changed_files: number;
 }
+
+export interface GitHubReview {
+  id: number;
+  user: { id: number; login: string } | null;
+  state: string;
+  submitted_at?: string;
+}
+
+export interface GitHubCommit {
+  sha: string;
+  // Null when the commit email isn't linked to a GitHub account
+  author: { id: number; login: string } | null;
+  parents: Array<{ sha: string }>;
+  commit: {
+    author: { date: string } | null;
+  };
+}
+
+export interface GitHubIssue {
+  number: number;
+  user: { id: number; login: string } | null;
+  created_at: string;
+  closed_at?: string | null;
+  // Present when the issue is a pull request
+  pull_request?: unknown;
+}
+
+export interface GitHubIssueEvent {
+  event: string;
+  actor: { id: number; login: string } | null;
+  created_at: string;
+  issue?: GitHubIssue;
+}
+
+export interface GitHubIssueComment {
+  id: number;
+  user: { id: number; login: string } | null;
+  issue_url: string;
+  created_at: string;
+}
+
+export interface GitHubSearchResponse<T> {
+  total_count: number;
+  incomplete_results: boolean;
+  items: T[];
+}
+
+// Result of following every page of a list or search endpoint.
+// truncated is set when GitHub had more results than were fetched.
+export interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  truncated: boolean;
+}
+
+// Dashboard activity summary interfaces
+
+// Commit and issue counts, present for the activity types a dashboard tracks
+export interface ContributionActivity {
+  commits?: number;
+  issuesOpened?: number;
+  issuesClosed?: number;
+  issuesCommented?: number;
+}
+
+export interface GitHubRepoActivity extends ContributionActivity {
+  repo: string;
+  prsCreated: number;
+  prsReviewed: number;
+  prsMerged: number;
+  totalRecentPRs: number;
+  truncated?: boolean;
+}
+
+export interface GitHubUserActivitySummary {
+  user: GitHubUser;
+  activity: ContributionActivity & {
+    prsCreated: number;
+    prsReviewed: number;
+    prsMerged: number;
+    // Opened + closed + commented
+    issues?: number;
+    totalActivity: number;
+    truncated?: boolean;
+    repos: GitHubRepoActivity[];
+  };
+  // Set when the user's activity couldn't be fetched; the counts are then zero
+  error?: string;
+}
+
+// Commit and issue activity types a dashboard tracks, from its activity configuration
+export interface DashboardContributionOptions {
+  commits: boolean;
+  excludeMergeCommits: boolean;
+  issuesOpened: boolean;
+  issuesClosed: boolean;
+  issuesCommented: boolean;
+}
@@ -6,96 +6,116 @@ interface RateLimitInfo {
   limit: number;
 }
 
+// GitHub meters REST core, search and GraphQL requests in separate buckets (x-ratelimit-resource)
+export type RateLimitResource = 'core' | 'search' | 'graphql';
+
 @Injectable()
 export class RateLimitService {
   private readonly logger = new Logger(RateLimitService.name);
-  private rateLimitInfo: RateLimitInfo | null = null;
+  private readonly buckets = new Map<string, RateLimitInfo>();
   private readonly DEFAULT_LIMIT = 60; // GitHub's default rate limit for unauthenticated requests
   private readonly DEFAULT_RESET_TIME = 60 * 60 * 1000; // 1 hour in milliseconds
 
   /**
    * Update rate limit information from GitHub API response headers
+   * The bucket is taken from x-ratelimit-resource (core when absent)
    */
   updateRateLimitInfo(headers: any): void {
+    // Responses without rate limit headers (e.g. network errors) carry no information
+    if (!headers || headers['x-ratelimit-remaining'] === undefined) {
+      return;
+    }
+
+    const resource = headers['x-ratelimit-resource'] || 'core';
     const remaining = parseInt(headers['x-ratelimit-remaining'] || '0');
     const resetTime = parseInt(headers['x-ratelimit-reset'] || '0') * 1000; // Convert to milliseconds
     const limit = parseInt(headers['x-ratelimit-limit'] || this.DEFAULT_LIMIT.toString());
 
-    this.rateLimitInfo = {
+    this.buckets.set(resource, {
       remaining,
       resetTime,
       limit,
-    };
+    });
 
-    this.logger.log(`Rate limit updated: ${remaining}/${limit} remaining, resets at ${new Date(resetTime).toISOString()}`);
+    this.logger.log(`Rate limit (${resource}) updated: ${remaining}/${limit} remaining, resets at ${new Date(resetTime).toISOString()}`);
   }
 
   /**
    * Check if we can make a request without hitting rate limits
    */
-  canMakeRequest(): boolean {
-    if (!this.rateLimitInfo) {
+  canMakeRequest(resource: RateLimitResource = 'core'): boolean {
+    const info = this.buckets.get(resource);
+    if (!info) {
       return true; // No info yet, allow request
     }
 
     const now = Date.now();
     
     // If reset time has passed, reset the counter
-    if (now >= this.rateLimitInfo.resetTime) {
-      this.rateLimitInfo.remaining = this.rateLimitInfo.limit;
-      this.logger.log('Rate limit reset - allowing requests');
+    if (now >= info.resetTime) {
+      info.remaining = info.limit;
+      this.logger.log(`Rate limit (${resource}) reset - allowing requests`);
       return true;
     }
 
-    return this.rateLimitInfo.remaining > 0;
+    return info.remaining > 0;
   }
 
   /**
    * Get time until rate limit resets (in milliseconds)
    */
-  getTimeUntilReset(): number {
-    if (!this.rateLimitInfo) {
+  getTimeUntilReset(resource: RateLimitResource = 'core'): number {
+    const info = this.buckets.get(resource);
+    if (!info) {
       return 0;
     }
 
     const now = Date.now();
-    return Math.max(0, this.rateLimitInfo.resetTime - now);
+    return Math.max(0, info.resetTime - now);
   }
 
   /**
    * Get current rate limit status
    */
-  getRateLimitStatus(): RateLimitInfo | null {
-    return this.rateLimitInfo;
+  getRateLimitStatus(resource: RateLimitResource = 'core'): RateLimitInfo | null {
+    return this.buckets.get(resource) ?? null;
+  }
+
+  /**
+   * Get the status of every rate limit bucket seen so far, keyed by resource
+   */
+  getAllRateLimitStatus(): Record<string, RateLimitInfo> {
+    return Object.fromEntries(this.buckets);
   }
 
   /**
    * Get a user-friendly message about rate limiting
    */
-  getRateLimitMessage(): string {
-    if (!this.rateLimitInfo) {
+  getRateLimitMessage(resource: RateLimitResource = 'core'): string {
+    const info = this.buckets.get(resource);
+    if (!info) {
       return 'Rate limit information not available';
     }
 
-    const timeUntilReset = this.getTimeUntilReset();
+    const timeUntilReset = this.getTimeUntilReset(resource);
     const minutesUntilReset = Math.ceil(timeUntilReset / (60 * 1000));
 
-    if (this.rateLimitInfo.remaining === 0) {
+    if (info.remaining === 0) {
       return `Rate limit exceeded. Try again in ${minutesUntilReset} minutes. Consider adding a GitHub Personal Access Token for higher limits.`;
     }
 
-    return `${this.rateLimitInfo.remaining}/${this.rateLimitInfo.limit} requests remaining. Resets in ${minutesUntilReset} minutes.`;
+    return `${info.remaining}/${info.limit} requests remaining. Resets in ${minutesUntilReset} minutes.`;
   }
 
   /**
    * Simulate rate limit for development/testing
    */
-  simulateRateLimit(): void {
-    this.rateLimitInfo = {
+  simulateRateLimit(resource: RateLimitResource = 'core'): void {
+    this.buckets.set(resource, {
       remaining: 0,
       resetTime: Date.now() + (5 * 60 * 1000), // 5 minutes from now
       limit: this.DEFAULT_LIMIT,
-    };
-    this.logger.warn('Simulated rate limit for testing');
+    });
+    this.logger.warn(`Simulated ${resource} rate limit for testing`);
   }
 }
@@ -0,0 +1,207 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosResponse, AxiosResponseHeaders, isAxiosError, RawAxiosResponseHeaders } from 'axios';
+
+import { GitHubCredentialLease, GitHubCredentialPool } from './credentials/github-credential-pool.service';
+import { RateLimitResource, RateLimitService } from './rate-limit.service';
+
+const RESOURCES: RateLimitResource[] = ['core', 'search', 'graphql'];
+const BASE_BACKOFF_MS = 1000;
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+interface Bucket {
+  concurrency: number;
+  active: number;
+  waiting: Array<() => void>;
+}
+
+export interface RequestQueueStats {
+  depth: number;
+  buckets: Record<RateLimitResource, { active: number; queued: number; concurrency: number }>;
+}
+
+/**
+ * Queues GitHub requests per rate limit bucket (core, search, GraphQL) with a concurrency cap,
+ * leases a credential with budget left (waiting for a reset when all are exhausted), and retries
+ * rate-limited or transient failures, honoring retry-after and otherwise backing off exponentially.
+ */
+@Injectable()
+export class GitHubRequestScheduler {
+  private readonly logger = new Logger(GitHubRequestScheduler.name);
+  private readonly buckets: Record<RateLimitResource, Bucket>;
+  private readonly maxRetries: number;
+  private readonly maxWaitMs: number;
+
+  constructor(
+    private readonly rateLimitService: RateLimitService,
+    private readonly credentialPool: GitHubCredentialPool,
+    configService: ConfigService
+  ) {
+    const concurrency = configService.get<number>('github.scheduler.concurrency', 4);
+    const searchConcurrency = configService.get<number>('github.scheduler.searchConcurrency', 1);
+    this.maxRetries = configService.get<number>('github.scheduler.maxRetries', 3);
+    this.maxWaitMs = configService.get<number>('github.scheduler.maxWaitMs', 60 * 1000);
+
+    this.buckets = {
+      core: { concurrency, active: 0, waiting: [] },
+      search: { concurrency: searchConcurrency, active: 0, waiting: [] },
+      graphql: { concurrency, active: 0, waiting: [] },
+    };
+  }
+
+  /**
+   * Run a request through the queue of the bucket its URL is metered against.
+   * The request receives the Authorization header value of the leased credential, if any.
+   * @param owner Org or user the request targets; derived from the URL when omitted (GraphQL URLs don't carry one)
+   */
+  async schedule<T>(
+    url: string,
+    request: (authorization?: string) => Promise<AxiosResponse<T>>,
+    owner: string | undefined = this.ownerFor(url)
+  ): Promise<AxiosResponse<T>> {
+    const resource = this.resourceFor(url);
+
+    for (let attempt = 0; ; attempt++) {
+      let retryDelay: number | null = null;
+
+      // Wait for a credential with budget before taking a slot, so the wait doesn't hold other requests up
+      const lease = await this.waitForCredential(resource, owner);
+      await this.acquire(resource);
+      try {
+        try {
+          const response = await request(lease.authorization);
+          this.recordRateLimit(lease, resource, response.headers);
+          return response;
+        } catch (error: unknown) {
+          // An exhausted credential is recorded here so the retry rotates to another one
+          if (isAxiosError(error)) this.recordRateLimit(lease, resource, error.response?.headers);
+          throw error;
+        }
+      } catch (error: unknown) {
+        retryDelay = this.getRetryDelay(error, attempt);
+        if (retryDelay === null) throw error;
+        const status = isAxiosError(error) ? error.response?.status : undefined;
+        this.logger.warn(`GitHub ${resource} request ${url} failed with ${status ?? 'network error'}; retry ${attempt + 1}/${this.maxRetries} in ${retryDelay}ms`);
+      } finally {
+        this.release(resource);
+      }
+
+      // Sleep outside the slot so other queued requests aren't held up by this one
+      await this.sleep(retryDelay);
+    }
+  }
+
+  /**
+   * Queue depth and in-flight requests per bucket
+   */
+  getQueueStats(): RequestQueueStats {
+    const buckets = {} as RequestQueueStats['buckets'];
+    let depth = 0;
+    for (const resource of RESOURCES) {
+      const bucket = this.buckets[resource];
+      buckets[resource] = { active: bucket.active, queued: bucket.waiting.length, concurrency: bucket.concurrency };
+      depth += bucket.waiting.length;
+    }
+    return { depth, buckets };
+  }
+
+  private resourceFor(url: string): RateLimitResource {
+    const { pathname } = new URL(url);
+    if (pathname.includes('/search/')) return 'search';
+    if (pathname.endsWith('/graphql')) return 'graphql';
+    return 'core';
+  }
+
+  /**
+   * The org or user a REST URL targets, so App installation tokens can be picked per org
+   */
+  private ownerFor(url: string): string | undefined {
+    const { pathname, searchParams } = new URL(url);
+    const segments = pathname.split('/').filter(Boolean);
+    const scoped = segments.findIndex(segment => segment === 'repos' || segment === 'orgs' || segment === 'users');
+    if (scoped !== -1 && segments[scoped + 1]) return segments[scoped + 1];
+
+    // Searches are scoped by repo:owner/name or org:owner qualifiers
+    const qualifier = /(?:^|\s)(?:repo:([^/\s]+)\/|org:([^\s]+))/.exec(searchParams.get('q') ?? '');
+    return qualifier ? qualifier[1] ?? qualifier[2] : undefined;
+  }
+
+  private acquire(resource: RateLimitResource): Promise<void> {
+    const bucket = this.buckets[resource];
+    if (bucket.active < bucket.concurrency) {
+      bucket.active++;
+      return Promise.resolve();
+    }
+    // The releasing request hands its slot straight to the next waiter
+    return new Promise(resolve => bucket.waiting.push(resolve));
+  }
+
+  private release(resource: RateLimitResource): void {
+    const bucket = this.buckets[resource];
+    const next = bucket.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      bucket.active--;
+    }
+  }
+
+  /**
+   * Lease a credential with budget left, holding the request until one resets
+   * or failing fast when that is too far away
+   */
+  private async waitForCredential(resource: RateLimitResource, owner?: string): Promise<GitHubCredentialLease> {
+    for (;;) {
+      const result = await this.credentialPool.acquire(resource, owner);
+      if ('lease' in result) return result.lease;
+
+      if (result.waitMs > this.maxWaitMs) {
+        const minutesUntilReset = Math.ceil(result.waitMs / (60 * 1000));
+        const message = `GitHub ${resource} rate limit exceeded for every available credential. Try again in ${minutesUntilReset} minutes.`;
+        this.logger.warn(message);
+        throw new HttpException(message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+
+      this.logger.log(`${resource} rate limit exhausted; waiting ${result.waitMs}ms for reset`);
+      await this.sleep(result.waitMs);
+    }
+  }
+
+  private recordRateLimit(lease: GitHubCredentialLease, resource: RateLimitResource, headers?: RawAxiosResponseHeaders | AxiosResponseHeaders): void {
+    if (!headers) return;
+    this.credentialPool.report(lease.credentialId, resource, headers);
+    this.rateLimitService.updateRateLimitInfo(headers);
+  }
+
+  /**
+   * Delay before retrying a failed request, or null when it shouldn't be retried
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.maxRetries) return null;
+
+    const response = isAxiosError(error) ? error.response : undefined;
+    if (!response) return null;
+
+    const { status } = response;
+    const headers = response.headers ?? {};
+    const retryAfter = parseInt(String(headers['retry-after'] ?? ''), 10);
+    const backoff = BASE_BACKOFF_MS * 2 ** attempt + Math.floor(Math.random() * BASE_BACKOFF_MS);
+
+    // Primary limit exhausted: retry right away; the next lease rotates to another credential or waits for the reset
+    if ((status === 403 || status === 429) && headers['x-ratelimit-remaining'] === '0') {
+      return 0;
+    }
+
+    // Secondary limits come back as 403/429 with retry-after
+    if (!Number.isNaN(retryAfter) && (status === 403 || RETRYABLE_STATUSES.has(status))) {
+      const retryAfterMs = retryAfter * 1000;
+      return retryAfterMs <= this.maxWaitMs ? Math.max(retryAfterMs, backoff) : null;
+    }
+
+    return RETRYABLE_STATUSES.has(status) ? backoff : null;
+  }
+
+  private sleep(ms: number | null): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms ?? 0));
+  }
+}
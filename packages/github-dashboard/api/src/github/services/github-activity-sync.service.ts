@@ -0,0 +1,179 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PullRequest, Repository } from '../../database/entities';
+import { PullRequestRepository } from '../../database/repositories/pull-request.repository';
+import { RepositoryRepository } from '../../database/repositories/repository.repository';
+import { GitHubCacheService } from '../cache/github-cache.service';
+import { GitHubClientContext } from '../credentials/github-client-context';
+import { GitHubPullRequest, GitHubReview } from '../interfaces';
+import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
+
+import { GitHubBaseService } from './github-base.service';
+import { GitHubActivitySyncServiceInterface } from './interfaces/github-activity-sync.service.interface';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_SYNC = 50;
+
+/**
+ * Background incremental sync of pull requests, reviews and merge events into the database.
+ * Each repository keeps an updated_at watermark so a run only pages through PRs changed since the last one.
+ */
+@Injectable()
+export class GitHubActivitySyncService extends GitHubBaseService implements GitHubActivitySyncServiceInterface, OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    httpService: HttpService,
+    rateLimitService: RateLimitService,
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService,
+    private readonly repositoryRepository: RepositoryRepository,
+    private readonly pullRequestRepository: PullRequestRepository
+  ) {
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
+  }
+
+  onModuleInit(): void {
+    if (!this.configService.get<boolean>('github.sync.enabled', true)) {
+      this.logger.log('Background activity sync disabled');
+      return;
+    }
+
+    const intervalMs = this.configService.get<number>('github.sync.intervalMs', 10 * 60 * 1000);
+    this.timer = setInterval(() => void this.syncAll(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Background activity sync every ${Math.round(intervalMs / 1000)}s`);
+    // Catch up on changes made while the API was down instead of waiting a full interval
+    void this.syncAll();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  async syncAll(): Promise<void> {
+    // Skip overlapping runs when a sync takes longer than the interval
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const repos = await this.repositoryRepository.findTrackedRepositories();
+      for (const repo of repos) {
+        try {
+          // Sync with the credentials of a client tracking the repository
+          const clientId = await this.repositoryRepository.findClientIdForRepository(repo.id);
+          const result = await GitHubClientContext.run(clientId, () => this.syncRepository(repo));
+          this.logger.log(`Synced ${repo.fullName}: ${result.pullRequests} PRs, ${result.reviews} reviews`);
+        } catch (error: unknown) {
+          this.logger.warn(`Sync failed for ${repo.fullName}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async syncRepository(repo: Repository): Promise<{ pullRequests: number; reviews: number }> {
+    const lookbackDays = this.configService.get<number>('github.sync.initialLookbackDays', 90);
+    const clientId = GitHubClientContext.currentClientId();
+    // Stored activity is only served to the syncing client's dashboards; when another client's
+    // credentials take over, start again so everything in the window is read with them
+    const sync = repo.syncClientId === clientId
+      ? repo
+      : { syncWatermark: null, syncResumePage: null, syncResumeWatermark: null };
+    // First sync only backfills the lookback window; afterwards stop at the watermark
+    const cutoff = sync.syncWatermark ?? new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+    // A run that hit the page cap continues where it stopped. PRs updated since then move to the first
+    // page, so later pages only shift back: some PRs are stored twice, none are skipped
+    const startPage = sync.syncResumePage ?? 1;
+
+    let newWatermark = sync.syncResumeWatermark ?? sync.syncWatermark;
+    let reviews = 0;
+
+    const { items: prs, truncated } = await this.paginate<GitHubPullRequest>(
+      `${this.baseUrl}/repos/${repo.owner}/${repo.name}/pulls?state=all&sort=updated&direction=desc&per_page=${PAGE_SIZE}&page=${startPage}`,
+      { maxPages: MAX_PAGES_PER_SYNC, stopWhen: pr => new Date(pr.updated_at) <= cutoff }
+    );
+
+    for (const pr of prs) {
+      const updatedAt = new Date(pr.updated_at);
+      reviews += await this.storePullRequest(repo, pr);
+      if (!newWatermark || updatedAt > newWatermark) newWatermark = updatedAt;
+    }
+
+    if (truncated) {
+      // Advancing the watermark now would skip the older changes on the remaining pages
+      const resumePage = startPage + MAX_PAGES_PER_SYNC;
+      this.logger.warn(`Sync of ${repo.owner}/${repo.name} stopped after ${MAX_PAGES_PER_SYNC} pages; the next run continues from page ${resumePage}`);
+      await this.repositoryRepository.updateSyncResume(repo.id, resumePage, newWatermark, clientId);
+    } else {
+      await this.repositoryRepository.updateSyncWatermark(repo.id, newWatermark, clientId);
+    }
+    return { pullRequests: prs.length, reviews };
+  }
+
+  /**
+   * Store a PR and, once merged, its merge event
+   */
+  async savePullRequest(repo: Repository, pr: GitHubPullRequest): Promise<PullRequest> {
+    const stored = await this.pullRequestRepository.upsertPullRequest({
+      repositoryId: repo.id,
+      githubPrId: pr.id,
+      number: pr.number,
+      title: pr.title,
+      state: pr.state,
+      authorGithubId: pr.user ? String(pr.user.id) : null,
+      authorLogin: pr.user?.login ?? null,
+      githubCreatedAt: new Date(pr.created_at),
+      githubUpdatedAt: new Date(pr.updated_at),
+      closedAt: pr.closed_at ? new Date(pr.closed_at) : null,
+      mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
+    });
+
+    if (pr.merged_at) {
+      await this.pullRequestRepository.upsertMergeEvent({
+        pullRequestId: stored.id,
+        repositoryId: repo.id,
+        mergeCommitSha: pr.merge_commit_sha ?? null,
+        mergedAt: new Date(pr.merged_at),
+      });
+    }
+
+    return stored;
+  }
+
+  /**
+   * Store submitted reviews of a stored PR; returns the number of reviews stored
+   */
+  async saveReviews(repo: Repository, pullRequestId: string, reviews: GitHubReview[]): Promise<number> {
+    // Pending reviews have no submitted_at and aren't visible activity yet
+    const submitted = reviews.filter(review => review.submitted_at);
+    await this.pullRequestRepository.upsertReviews(submitted.map(review => ({
+      pullRequestId,
+      repositoryId: repo.id,
+      githubReviewId: review.id,
+      reviewerGithubId: review.user ? String(review.user.id) : null,
+      reviewerLogin: review.user?.login ?? null,
+      state: review.state,
+      submittedAt: new Date(review.submitted_at as string),
+    })));
+
+    return submitted.length;
+  }
+
+  /**
+   * Store one PR with its merge event and reviews; returns the number of reviews stored
+   */
+  private async storePullRequest(repo: Repository, pr: GitHubPullRequest): Promise<number> {
+    const stored = await this.savePullRequest(repo, pr);
+    const { items: reviews } = await this.paginate<GitHubReview>(
+      `${this.baseUrl}/repos/${repo.owner}/${repo.name}/pulls/${pr.number}/reviews?per_page=${PAGE_SIZE}`
+    );
+    return this.saveReviews(repo, stored.id, reviews);
+  }
+}
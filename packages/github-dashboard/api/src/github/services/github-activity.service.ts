@@ -1,9 +1,12 @@
 import { HttpService } from '@nestjs/axios';
 import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
+import { DashboardUserRepository } from '../../database/repositories/dashboard-user.repository';
 import { GitHubCacheService } from '../cache/github-cache.service';
 import { GitHubUser } from '../interfaces';
 import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
 
 import { GitHubBaseService } from './github-base.service';
 import { GitHubActivityServiceInterface } from './interfaces/github-activity.service.interface';
@@ -13,9 +16,12 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
   constructor(
     httpService: HttpService,
     rateLimitService: RateLimitService,
-    cacheService: GitHubCacheService
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService,
+    private readonly dashboardUserRepository: DashboardUserRepository
   ) {
-    super(httpService, rateLimitService, cacheService);
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
   }
 
   /**
@@ -49,17 +55,12 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
     
     try {
       // Get dashboard users from database
-      const dashboardUsersResponse = await fetch(`http://localhost:3001/api/dashboards/${dashboardId}/users`);
-      if (!dashboardUsersResponse.ok) {
-        throw new Error(`Failed to get dashboard users: ${dashboardUsersResponse.statusText}`);
-      }
-      
-      const dashboardUsers = await dashboardUsersResponse.json() as any[];
+      const dashboardUsers = await this.dashboardUserRepository.getUsersForDashboard(dashboardId);
       
-      this.logger.log(`Found ${dashboardUsers.length} users in dashboard: ${dashboardUsers.map((du: any) => `${du.user.githubUsername} (ID: ${du.user.githubUserId})`).join(', ')}`);
+      this.logger.log(`Found ${dashboardUsers.length} users in dashboard: ${dashboardUsers.map((du) => `${du.user.githubUsername} (ID: ${du.user.githubUserId})`).join(', ')}`);
       
       // Process all users in parallel for better performance
-      const userPromises = dashboardUsers.map(async (dashboardUser: any) => {
+      const userPromises = dashboardUsers.map(async (dashboardUser) => {
         try {
           const { githubUsername, githubUserId } = dashboardUser.user;
           this.logger.log(`Getting activity for user ${githubUsername} (GitHub ID: ${githubUserId})`);
@@ -139,6 +140,7 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
           prsMerged: number;
           prsClosed: number;
           reviews: number;
+          truncated: boolean;
         }>
       };
 
@@ -146,9 +148,9 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
       const repoPromises = repos.map(async (repo) => {
         try {
           const [owner, repoName] = repo.split('/');
-          const pullRequests = await this.makeRateLimitedRequest<any[]>(`${this.baseUrl}/repos/${owner}/${repoName}/pulls?state=all&per_page=100`);
+          const { items: pullRequests, truncated } = await this.paginate<any>(`${this.baseUrl}/repos/${owner}/${repoName}/pulls?state=all&per_page=100`);
           
-          const userPRs = pullRequests.filter(pr => pr.user.login === username);
+          const userPRs = pullRequests.filter(pr => pr.user?.login === username);
           const userReviews = await this.getUserReviewsForRepo(owner, repoName, username);
           
           const repoStats = {
@@ -156,7 +158,8 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
             prsCreated: userPRs.length,
             prsMerged: userPRs.filter(pr => pr.merged_at).length,
             prsClosed: userPRs.filter(pr => pr.state === 'closed' && !pr.merged_at).length,
-            reviews: userReviews.length
+            reviews: userReviews.length,
+            truncated
           };
           
           stats.totalPRs += repoStats.prsCreated;
@@ -168,7 +171,7 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
           return repoStats;
         } catch (error: unknown) {
           this.logger.warn(`Failed to get stats for repo ${repo}:`, error);
-          return { repo, prsCreated: 0, prsMerged: 0, prsClosed: 0, reviews: 0 };
+          return { repo, prsCreated: 0, prsMerged: 0, prsClosed: 0, reviews: 0, truncated: false };
         }
       });
 
@@ -223,13 +226,13 @@ export class GitHubActivityService extends GitHubBaseService implements GitHubAc
    */
   private async getUserReviewsForRepo(owner: string, repo: string, username: string): Promise<any[]> {
     try {
-      const pullRequests = await this.makeRateLimitedRequest<any[]>(`${this.baseUrl}/repos/${owner}/${repo}/pulls?state=all&per_page=100`);
+      const { items: pullRequests } = await this.paginate<any>(`${this.baseUrl}/repos/${owner}/${repo}/pulls?state=all&per_page=100`);
       const reviews = [];
       
       for (const pr of pullRequests) {
         try {
-          const prReviews = await this.makeRateLimitedRequest<any[]>(`${this.baseUrl}/repos/${owner}/${repo}/pulls/${pr.number}/reviews`);
-          const userReviews = prReviews.filter(review => review.user.login === username);
+          const { items: prReviews } = await this.paginate<any>(`${this.baseUrl}/repos/${owner}/${repo}/pulls/${pr.number}/reviews?per_page=100`);
+          const userReviews = prReviews.filter(review => review.user?.login === username);
           reviews.push(...userReviews);
         } catch (error: unknown) {
           this.logger.warn(`Failed to get reviews for PR #${pr.number}:`, error);
@@ -0,0 +1,108 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+
+import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
+
+import { GitHubBaseService } from './github-base.service';
+
+const API = 'https://api.github.com';
+
+/**
+ * GitHub REST stand-in: answers each URL with its page and a Link header to the next one
+ */
+function fakeGitHub(pages: Record<string, { data: unknown; next?: string }>) {
+  const get = jest.fn((url: string) => {
+    const page = pages[url];
+    if (!page) throw new Error(`Unexpected request to ${url}`);
+    return of({ data: page.data, headers: page.next ? { link: `<${page.next}>; rel="next"` } : {} });
+  });
+  return { get, httpService: { get } as unknown as HttpService };
+}
+
+const rateLimitService = { canMakeRequest: () => true, updateRateLimitInfo: () => undefined } as unknown as RateLimitService;
+
+// Runs every request right away with a token, like a scheduler with one credential to spare
+const requestScheduler = {
+  schedule: (_url: string, request: (authorization?: string) => Promise<unknown>) => request('Bearer test-token'),
+} as unknown as GitHubRequestScheduler;
+
+function createService(httpService: HttpService): GitHubBaseService {
+  return new GitHubBaseService(httpService, rateLimitService, {} as never, requestScheduler, new ConfigService({}));
+}
+
+const searchUrl = (query: string) => `${API}/search/issues?q=${encodeURIComponent(query)}&per_page=100`;
+const items = (from: number, count: number) => Array.from({ length: count }, (_, i) => ({ id: from + i }));
+
+describe('GitHubBaseService', () => {
+  describe('paginate', () => {
+    const pullsUrl = `${API}/repos/acme/api/pulls?per_page=100`;
+    const pageUrl = (page: number) => (page === 1 ? pullsUrl : `${pullsUrl}&page=${page}`);
+
+    function listPages(count: number) {
+      const pages: Record<string, { data: unknown; next?: string }> = {};
+      for (let page = 1; page <= count; page++) {
+        pages[pageUrl(page)] = { data: items((page - 1) * 100, 100), next: page < count ? pageUrl(page + 1) : undefined };
+      }
+      return pages;
+    }
+
+    it('follows Link headers to the last page', async () => {
+      const { get, httpService } = fakeGitHub(listPages(3));
+
+      const result = await createService(httpService).paginate<{ id: number }>(pullsUrl);
+
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ totalCount: 300, truncated: false });
+      expect(result.items.map(item => item.id)).toEqual(Array.from({ length: 300 }, (_, i) => i));
+    });
+
+    it('flags a listing with more pages than maxPages as truncated', async () => {
+      const { get, httpService } = fakeGitHub(listPages(3));
+
+      const result = await createService(httpService).paginate(pullsUrl, { maxPages: 2 });
+
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(result.items).toHaveLength(200);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('stops at the first item matching stopWhen without flagging truncation', async () => {
+      const { get, httpService } = fakeGitHub(listPages(3));
+
+      const result = await createService(httpService).paginate<{ id: number }>(pullsUrl, { stopWhen: item => item.id === 150 });
+
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ totalCount: 150, truncated: false });
+    });
+  });
+
+  describe('searchIssues', () => {
+    const query = (range: string) => `repo:acme/api is:pr created:${range}`;
+
+    it('splits a search over the 1000-result cap into smaller date ranges', async () => {
+      const { get, httpService } = fakeGitHub({
+        [searchUrl(query('2026-01-01..2026-01-10'))]: { data: { total_count: 1500, incomplete_results: false, items: items(0, 100) } },
+        [searchUrl(query('2026-01-01..2026-01-05'))]: { data: { total_count: 2, incomplete_results: false, items: items(0, 2) } },
+        [searchUrl(query('2026-01-06..2026-01-10'))]: { data: { total_count: 3, incomplete_results: false, items: items(2, 3) } },
+      });
+
+      const result = await createService(httpService).searchIssues<{ id: number }>(query, '2026-01-01', '2026-01-10T23:59:59Z');
+
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ totalCount: 5, truncated: false });
+      expect(result.items.map(item => item.id)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('flags incomplete search results as truncated', async () => {
+      const { httpService } = fakeGitHub({
+        [searchUrl(query('2026-01-01..2026-01-10'))]: { data: { total_count: 2, incomplete_results: true, items: items(0, 2) } },
+      });
+
+      const result = await createService(httpService).searchIssues(query, '2026-01-01', '2026-01-10');
+
+      expect(result).toMatchObject({ totalCount: 2, truncated: true });
+    });
+  });
+});
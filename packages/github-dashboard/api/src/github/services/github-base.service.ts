@@ -1,23 +1,47 @@
 import { HttpService } from '@nestjs/axios';
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosResponse } from 'axios';
 import { firstValueFrom } from 'rxjs';
 
 import { GitHubCacheService } from '../cache/github-cache.service';
+import { GitHubSearchResponse, PaginatedResult } from '../interfaces';
 import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
 
-import { GitHubBaseServiceInterface } from './interfaces/github-base.service.interface';
+import { GitHubBaseServiceInterface, PaginateOptions } from './interfaces/github-base.service.interface';
+
+const PAGE_SIZE = 100;
+const DEFAULT_MAX_PAGES = 10;
+// The search API never returns more than 1000 results for a single query
+const SEARCH_RESULT_CAP = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FetchedPage<T> {
+  items: T[];
+  totalCount?: number;
+  incomplete: boolean;
+  nextUrl: string | null;
+}
 
 @Injectable()
 export class GitHubBaseService implements GitHubBaseServiceInterface {
   protected readonly logger = new Logger(this.constructor.name);
-  protected readonly baseUrl = 'https://api.github.com';
+  // REST and GraphQL roots from GITHUB_BASE_URL (github.com or a GitHub Enterprise Server host)
+  protected readonly baseUrl: string;
+  protected readonly graphqlUrl: string;
   protected readonly githubToken = process.env.GITHUB_TOKEN;
 
   constructor(
     protected readonly httpService: HttpService,
     protected readonly rateLimitService: RateLimitService,
-    protected readonly cacheService: GitHubCacheService
+    protected readonly cacheService: GitHubCacheService,
+    protected readonly requestScheduler: GitHubRequestScheduler,
+    protected readonly configService: ConfigService
   ) {
+    this.baseUrl = configService.get<string>('github.baseUrl', 'https://api.github.com');
+    this.graphqlUrl = configService.get<string>('github.graphqlUrl', `${this.baseUrl}/graphql`);
+
     if (this.githubToken) {
       this.logger.log('GitHub PAT configured - using authenticated requests');
     } else {
@@ -29,44 +53,169 @@ export class GitHubBaseService implements GitHubBaseServiceInterface {
    * Make a rate-limited request to GitHub API
    */
   async makeRateLimitedRequest<T>(url: string): Promise<T> {
-    try {
-      // Check rate limits before making request
-      if (!this.rateLimitService.canMakeRequest()) {
-        throw new Error('Rate limit exceeded');
-      }
-      
-      const headers: Record<string, string> = {
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'GitHub-Dashboard-API'
-      };
+    const response = await this.makeRateLimitedRawRequest<T>(url);
+    return response.data;
+  }
 
-      if (this.githubToken) {
-        headers['Authorization'] = `token ${this.githubToken}`;
-      }
+  /**
+   * Follow Link rel="next" headers and collect every page of a list or search endpoint.
+   * Stops early when stopWhen matches an item (the matching item is not included).
+   */
+  async paginate<T>(url: string, options: PaginateOptions<T> = {}): Promise<PaginatedResult<T>> {
+    const firstPage = await this.fetchPage<T>(url);
+    return this.collectPages(firstPage, options);
+  }
 
-      const response = await firstValueFrom(
-        this.httpService.get<T>(url, { headers })
-      );
+  /**
+   * Run an issue search over a date range, splitting the range whenever a query
+   * would exceed the 1000-result search cap.
+   * @param buildQuery Builds the search query for a `YYYY-MM-DD..YYYY-MM-DD` range
+   */
+  async searchIssues<T>(
+    buildQuery: (range: string) => string,
+    startDate: string,
+    endDate: string
+  ): Promise<PaginatedResult<T>> {
+    const start = this.toDay(startDate);
+    const end = this.toDay(endDate);
+    const url = `${this.baseUrl}/search/issues?q=${encodeURIComponent(buildQuery(`${start}..${end}`))}&per_page=${PAGE_SIZE}`;
+    const firstPage = await this.fetchPage<T>(url);
 
-      // Update rate limit info from response headers
-      this.rateLimitService.updateRateLimitInfo(response.headers);
-      
-      return response.data;
+    const totalCount = firstPage.totalCount ?? 0;
+    const spanDays = Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+    if (totalCount <= SEARCH_RESULT_CAP || spanDays < 1) {
+      // A single day over the cap can't be split further; collectPages flags it as truncated
+      return this.collectPages(firstPage, { maxPages: SEARCH_RESULT_CAP / PAGE_SIZE });
+    }
+
+    const mid = this.toDay(new Date(Date.parse(start) + Math.floor(spanDays / 2) * DAY_MS).toISOString());
+    const next = this.toDay(new Date(Date.parse(mid) + DAY_MS).toISOString());
+    this.logger.log(`Search for ${start}..${end} matched ${totalCount} results, splitting at ${mid}`);
+
+    const left = await this.searchIssues<T>(buildQuery, start, mid);
+    const right = await this.searchIssues<T>(buildQuery, next, end);
+    return {
+      items: [...left.items, ...right.items],
+      totalCount: left.totalCount + right.totalCount,
+      truncated: left.truncated || right.truncated,
+    };
+  }
+
+  /**
+   * Make a rate-limited request and return the full response, headers included
+   */
+  protected async makeRateLimitedRawRequest<T>(url: string): Promise<AxiosResponse<T>> {
+    try {
+      // The scheduler queues the request, leases a credential, tracks rate limits and retries rate-limited responses
+      return await this.requestScheduler.schedule(url, (authorization) => {
+        const headers: Record<string, string> = {
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': 'GitHub-Dashboard-API'
+        };
+
+        if (authorization) {
+          headers['Authorization'] = authorization;
+        }
+
+        return firstValueFrom(this.httpService.get<T>(url, { headers }));
+      });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`GitHub API request failed for ${url}:`, errorMessage);
-      
-      // Update rate limit info from error response headers if available
-      if (error && typeof error === 'object' && 'response' in error) {
-        const response = (error as any).response;
-        if (response?.headers) {
-          this.rateLimitService.updateRateLimitInfo(response.headers);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a GraphQL v4 query; GraphQL errors are raised even when GitHub answers 200
+   */
+  protected async makeRateLimitedGraphQLRequest<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const url = this.graphqlUrl;
+    try {
+      const response = await this.requestScheduler.schedule(url, (authorization) => {
+        if (!authorization) {
+          throw new Error('The GitHub GraphQL API requires a token');
         }
+
+        return firstValueFrom(
+          this.httpService.post<{ data?: T; errors?: Array<{ message: string }> }>(url, { query, variables }, {
+            headers: {
+              'Authorization': authorization,
+              'User-Agent': 'GitHub-Dashboard-API'
+            }
+          })
+        );
+      }, typeof variables.owner === 'string' ? variables.owner : undefined);
+
+      if (response.data.errors?.length) {
+        throw new Error(response.data.errors.map(error => error.message).join('; '));
       }
+      return response.data.data as T;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`GitHub GraphQL request failed:`, errorMessage);
       throw error;
     }
   }
 
+  private async fetchPage<T>(url: string): Promise<FetchedPage<T>> {
+    const response = await this.makeRateLimitedRawRequest<T[] | GitHubSearchResponse<T>>(url);
+    const body = response.data;
+    const nextUrl = this.parseNextLink(response.headers['link']);
+
+    if (Array.isArray(body)) {
+      return { items: body, incomplete: false, nextUrl };
+    }
+    return {
+      items: body?.items ?? [],
+      totalCount: body?.total_count,
+      incomplete: !!body?.incomplete_results,
+      nextUrl,
+    };
+  }
+
+  private async collectPages<T>(firstPage: FetchedPage<T>, options: PaginateOptions<T>): Promise<PaginatedResult<T>> {
+    const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    const items: T[] = [];
+    let page: FetchedPage<T> | null = firstPage;
+    let totalCount = firstPage.totalCount;
+    let incomplete = false;
+    let pages = 0;
+
+    while (page) {
+      pages++;
+      incomplete = incomplete || page.incomplete;
+      for (const item of page.items) {
+        if (options.stopWhen?.(item)) {
+          return { items, totalCount: totalCount ?? items.length, truncated: incomplete };
+        }
+        items.push(item);
+      }
+
+      if (!page.nextUrl || pages >= maxPages) break;
+      page = await this.fetchPage<T>(page.nextUrl);
+      totalCount = page.totalCount ?? totalCount;
+    }
+
+    const truncated = incomplete
+      || (page?.nextUrl != null && pages >= maxPages)
+      || (totalCount !== undefined && totalCount > items.length);
+    if (truncated) {
+      this.logger.warn(`Pagination truncated after ${pages} page(s): fetched ${items.length} of ${totalCount ?? 'unknown'} results`);
+    }
+    return { items, totalCount: totalCount ?? items.length, truncated };
+  }
+
+  private parseNextLink(linkHeader: unknown): string | null {
+    if (typeof linkHeader !== 'string') return null;
+    const match = linkHeader.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean);
+    return match ? match[1] : null;
+  }
+
+  private toDay(date: string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
   /**
    * Get authentication status and available scopes
    */
@@ -0,0 +1,271 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { CacheKeys } from '../cache/cache-keys';
+import { GitHubCacheService } from '../cache/github-cache.service';
+import { GitHubClientContext } from '../credentials/github-client-context';
+import {
+  DashboardContributionOptions,
+  GitHubCommit,
+  GitHubIssue,
+  GitHubIssueComment,
+  GitHubIssueEvent,
+  GitHubRepoActivity,
+  GitHubUserActivitySummary
+} from '../interfaces';
+import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
+
+import { GitHubBaseService } from './github-base.service';
+import { GitHubContributionActivitySourceInterface } from './interfaces/github-contribution-activity-source.interface';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+type CountsByUserId = Record<number, number>;
+
+// Per-user counts of one repository and range, shared by every user of a dashboard
+interface RepoContributions {
+  commits: CountsByUserId;
+  mergeCommits: CountsByUserId;
+  issuesOpened: CountsByUserId;
+  issuesClosed: CountsByUserId;
+  issuesCommented: CountsByUserId;
+  truncated: boolean;
+}
+
+/**
+ * Commit and issue activity of dashboard users, counted per repository with a few list and
+ * search calls for all authors at once:
+ * - commits: commits on the default branch in range by author, optionally without merge commits
+ * - issues opened: issues created in range by their author
+ * - issues closed: issue close events in range by the user who closed them
+ * - issues commented: comments in range on issues (not pull requests) by their author
+ */
+@Injectable()
+export class GitHubContributionActivitySource extends GitHubBaseService implements GitHubContributionActivitySourceInterface {
+  private readonly inFlight = new Map<string, Promise<RepoContributions>>();
+
+  constructor(
+    httpService: HttpService,
+    rateLimitService: RateLimitService,
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService
+  ) {
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
+  }
+
+  async addContributions(
+    summaries: GitHubUserActivitySummary[],
+    repoList: string[],
+    options: DashboardContributionOptions,
+    startDate?: string,
+    endDate?: string
+  ): Promise<GitHubUserActivitySummary[]> {
+    if (!this.getKinds(options)) {
+      return summaries;
+    }
+
+    const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // default 30d
+    const end = endDate ? new Date(endDate) : new Date();
+
+    const contributions = new Map<string, RepoContributions>();
+    for (const repo of repoList) {
+      const [owner, repoName] = repo.split('/');
+      if (!owner || !repoName) {
+        continue;
+      }
+
+      try {
+        contributions.set(repo, await this.getRepoContributions(owner, repoName, start, end, options));
+      } catch (error) {
+        this.logger.warn(`Failed to count commits and issues for ${repo}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return summaries.map(summary => this.withContributions(summary, contributions, options));
+  }
+
+  private withContributions(
+    summary: GitHubUserActivitySummary,
+    contributions: Map<string, RepoContributions>,
+    options: DashboardContributionOptions
+  ): GitHubUserActivitySummary {
+    const userId = summary.user.id;
+    const activity = { ...summary.activity, repos: [...summary.activity.repos] };
+    if (options.commits) activity.commits = 0;
+    if (options.issuesOpened) activity.issuesOpened = 0;
+    if (options.issuesClosed) activity.issuesClosed = 0;
+    if (options.issuesCommented) activity.issuesCommented = 0;
+
+    for (const [repo, counts] of contributions) {
+      const index = activity.repos.findIndex(stats => stats.repo === repo);
+      const stats: GitHubRepoActivity = index === -1
+        ? { repo, prsCreated: 0, prsReviewed: 0, prsMerged: 0, totalRecentPRs: 0 }
+        : { ...activity.repos[index] };
+
+      if (options.commits) {
+        const merges = options.excludeMergeCommits ? counts.mergeCommits[userId] ?? 0 : 0;
+        stats.commits = (counts.commits[userId] ?? 0) - merges;
+        activity.commits = (activity.commits ?? 0) + stats.commits;
+      }
+      if (options.issuesOpened) {
+        stats.issuesOpened = counts.issuesOpened[userId] ?? 0;
+        activity.issuesOpened = (activity.issuesOpened ?? 0) + stats.issuesOpened;
+      }
+      if (options.issuesClosed) {
+        stats.issuesClosed = counts.issuesClosed[userId] ?? 0;
+        activity.issuesClosed = (activity.issuesClosed ?? 0) + stats.issuesClosed;
+      }
+      if (options.issuesCommented) {
+        stats.issuesCommented = counts.issuesCommented[userId] ?? 0;
+        activity.issuesCommented = (activity.issuesCommented ?? 0) + stats.issuesCommented;
+      }
+      stats.truncated = stats.truncated || counts.truncated;
+      activity.truncated = activity.truncated || counts.truncated;
+
+      if (index === -1) {
+        activity.repos.push(stats);
+      } else {
+        activity.repos[index] = stats;
+      }
+    }
+
+    activity.issues = (activity.issuesOpened ?? 0) + (activity.issuesClosed ?? 0) + (activity.issuesCommented ?? 0);
+    activity.totalActivity += (activity.commits ?? 0) + activity.issues;
+    return { ...summary, activity };
+  }
+
+  /**
+   * Cached counts of a repository and range; concurrent callers for the same key share one fetch
+   */
+  private async getRepoContributions(
+    owner: string,
+    repo: string,
+    start: Date,
+    end: Date,
+    options: DashboardContributionOptions
+  ): Promise<RepoContributions> {
+    // Merge commits are counted separately, so one entry serves dashboards with and without them
+    const cacheKey = CacheKeys.repoContributions(owner, repo, GitHubClientContext.currentClientId(), start.toISOString(), end.toISOString(), this.getKinds(options));
+    const cached = await this.cacheService.get<RepoContributions>(cacheKey);
+    if (cached) return cached;
+
+    const inFlight = this.inFlight.get(cacheKey);
+    if (inFlight) return inFlight;
+
+    const promise = this.fetchRepoContributions(owner, repo, start, end, options)
+      .then(async (contributions) => {
+        await this.cacheService.set(cacheKey, contributions, CACHE_TTL_MS);
+        return contributions;
+      })
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, promise);
+    return promise;
+  }
+
+  private async fetchRepoContributions(
+    owner: string,
+    repo: string,
+    start: Date,
+    end: Date,
+    options: DashboardContributionOptions
+  ): Promise<RepoContributions> {
+    const t0 = Date.now();
+    const repoUrl = `${this.baseUrl}/repos/${owner}/${repo}`;
+    const inRange = (date: string) => Date.parse(date) >= start.getTime() && Date.parse(date) <= end.getTime();
+    const contributions: RepoContributions = {
+      commits: {},
+      mergeCommits: {},
+      issuesOpened: {},
+      issuesClosed: {},
+      issuesCommented: {},
+      truncated: false
+    };
+
+    if (options.commits) {
+      const commits = await this.paginate<GitHubCommit>(
+        `${repoUrl}/commits?since=${start.toISOString()}&until=${end.toISOString()}&per_page=${PAGE_SIZE}`,
+        { maxPages: MAX_PAGES }
+      );
+      for (const commit of commits.items) {
+        // Commits whose email isn't linked to an account can't be attributed to a user
+        if (commit.author?.id == null) continue;
+        this.increment(contributions.commits, commit.author.id);
+        if (commit.parents.length > 1) this.increment(contributions.mergeCommits, commit.author.id);
+      }
+      contributions.truncated = contributions.truncated || commits.truncated;
+    }
+
+    if (options.issuesOpened) {
+      const opened = await this.searchIssues<GitHubIssue>(
+        range => `repo:${owner}/${repo} is:issue created:${range}`,
+        start.toISOString(),
+        end.toISOString()
+      );
+      for (const issue of opened.items) {
+        if (issue.user?.id != null) this.increment(contributions.issuesOpened, issue.user.id);
+      }
+      contributions.truncated = contributions.truncated || opened.truncated;
+    }
+
+    if (options.issuesClosed) {
+      // Events come newest first; stop at the first one before the range
+      const events = await this.paginate<GitHubIssueEvent>(`${repoUrl}/issues/events?per_page=${PAGE_SIZE}`, {
+        maxPages: MAX_PAGES,
+        stopWhen: event => Date.parse(event.created_at) < start.getTime()
+      });
+      for (const event of events.items) {
+        if (event.event !== 'closed' || !event.issue || event.issue.pull_request || !inRange(event.created_at)) continue;
+        if (event.actor?.id != null) this.increment(contributions.issuesClosed, event.actor.id);
+      }
+      contributions.truncated = contributions.truncated || events.truncated;
+    }
+
+    if (options.issuesCommented) {
+      // Comments of issues and pull requests share one endpoint; keep those on issues commented on in range
+      const commentedIssues = await this.searchIssues<GitHubIssue>(
+        range => `repo:${owner}/${repo} is:issue comments:>0 updated:${range}`,
+        start.toISOString(),
+        end.toISOString()
+      );
+      const issueNumbers = new Set(commentedIssues.items.map(issue => issue.number));
+
+      if (issueNumbers.size > 0) {
+        const comments = await this.paginate<GitHubIssueComment>(
+          `${repoUrl}/issues/comments?since=${start.toISOString()}&per_page=${PAGE_SIZE}`,
+          { maxPages: MAX_PAGES }
+        );
+        for (const comment of comments.items) {
+          const issueNumber = parseInt(comment.issue_url.split('/').pop() ?? '', 10);
+          if (!issueNumbers.has(issueNumber) || !inRange(comment.created_at)) continue;
+          if (comment.user?.id != null) this.increment(contributions.issuesCommented, comment.user.id);
+        }
+        contributions.truncated = contributions.truncated || comments.truncated;
+      }
+      contributions.truncated = contributions.truncated || commentedIssues.truncated;
+    }
+
+    this.logger.log(`Counted commits and issues (${this.getKinds(options)}) for ${owner}/${repo}${contributions.truncated ? ' (truncated)' : ''} in ${Date.now() - t0}ms`);
+    return contributions;
+  }
+
+  /**
+   * Activity types to fetch, e.g. 'commits,issues_opened'; empty when none are tracked
+   */
+  private getKinds(options: DashboardContributionOptions): string {
+    return [
+      options.commits && 'commits',
+      options.issuesOpened && 'issues_opened',
+      options.issuesClosed && 'issues_closed',
+      options.issuesCommented && 'issues_commented'
+    ].filter(Boolean).join(',');
+  }
+
+  private increment(counts: CountsByUserId, userId: number): void {
+    counts[userId] = (counts[userId] ?? 0) + 1;
+  }
+}
@@ -0,0 +1,237 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { CacheKeys } from '../cache/cache-keys';
+import { GitHubCacheService } from '../cache/github-cache.service';
+import { GitHubClientContext } from '../credentials/github-client-context';
+import { GitHubRepoActivity, GitHubUser, GitHubUserActivitySummary } from '../interfaces';
+import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
+
+import { GitHubBaseService } from './github-base.service';
+import { GitHubActivitySourceInterface } from './interfaces/github-activity-source.interface';
+
+const PR_PAGE_SIZE = 50;
+const MAX_PR_PAGES = 20;
+const REVIEW_PAGE_SIZE = 50;
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+// PRs ordered by last update so paging can stop once they fall before the range
+const REPO_ACTIVITY_QUERY = `
+  query RepoActivity($owner: String!, $name: String!, $cursor: String, $withReviews: Boolean!) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(first: ${PR_PAGE_SIZE}, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          number
+          createdAt
+          updatedAt
+          mergedAt
+          author { ... on User { databaseId } }
+          reviews(first: ${REVIEW_PAGE_SIZE}) @include(if: $withReviews) {
+            totalCount
+            nodes { submittedAt author { ... on User { databaseId } } }
+          }
+          reactions(first: ${REVIEW_PAGE_SIZE}) @include(if: $withReviews) {
+            totalCount
+            nodes { createdAt user { databaseId } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface GraphQLActor {
+  databaseId?: number;
+}
+
+interface GraphQLPullRequest {
+  number: number;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  author: GraphQLActor | null;
+  reviews?: { totalCount: number; nodes: Array<{ submittedAt: string | null; author: GraphQLActor | null }> };
+  reactions?: { totalCount: number; nodes: Array<{ createdAt: string; user: GraphQLActor | null }> };
+}
+
+interface RepoActivityResponse {
+  repository: {
+    pullRequests: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: GraphQLPullRequest[];
+    };
+  } | null;
+}
+
+// Compact per-PR record cached per repository and range, shared by every user of a dashboard
+interface PullRequestActivity {
+  authorId: number | null;
+  createdAt: number;
+  updatedAt: number;
+  mergedAt: number | null;
+  reviews: Array<{ userId: number; at: number }>;
+  reactions: Array<{ userId: number; at: number }>;
+}
+
+interface RepoActivity {
+  pullRequests: PullRequestActivity[];
+  truncated: boolean;
+}
+
+/**
+ * Activity aggregation backed by the GraphQL v4 API.
+ * Fetches PRs together with their authors, merge info, reviews and reactions in one paginated
+ * query per repository instead of one REST call per PR, then computes per-user counts locally.
+ */
+@Injectable()
+export class GitHubGraphQLActivitySource extends GitHubBaseService implements GitHubActivitySourceInterface {
+  private readonly inFlight = new Map<string, Promise<RepoActivity>>();
+
+  constructor(
+    httpService: HttpService,
+    rateLimitService: RateLimitService,
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService
+  ) {
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
+  }
+
+  async getUserActivitySummary(
+    user: GitHubUser,
+    repoList: string[],
+    startDate?: string,
+    endDate?: string,
+    includeReviews = true
+  ): Promise<GitHubUserActivitySummary> {
+    const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // default 30d
+    const end = endDate ? new Date(endDate) : new Date();
+    const inRange = (time: number | null) => time !== null && time >= start.getTime() && time <= end.getTime();
+
+    const activity = {
+      prsCreated: 0,
+      prsReviewed: 0,
+      prsMerged: 0,
+      totalActivity: 0,
+      truncated: false,
+      repos: [] as GitHubRepoActivity[]
+    };
+
+    for (const repo of repoList) {
+      const [owner, repoName] = repo.split('/');
+      if (!owner || !repoName) {
+        continue;
+      }
+
+      const { pullRequests, truncated } = await this.getRepoActivity(owner, repoName, start, end, includeReviews);
+      const stats: GitHubRepoActivity = { repo, prsCreated: 0, prsReviewed: 0, prsMerged: 0, totalRecentPRs: 0, truncated };
+
+      for (const pr of pullRequests) {
+        const isAuthor = pr.authorId === user.id;
+        if (isAuthor && inRange(pr.createdAt)) stats.prsCreated++;
+        if (isAuthor && inRange(pr.mergedAt)) stats.prsMerged++;
+
+        if (includeReviews) {
+          // Same rules as the REST path: PRs touched in range; reviews or reactions on others' PRs
+          if (inRange(pr.createdAt) || inRange(pr.updatedAt) || inRange(pr.mergedAt)) stats.totalRecentPRs++;
+          const reviewed = pr.reviews.some(review => review.userId === user.id && inRange(review.at))
+            || pr.reactions.some(reaction => reaction.userId === user.id && inRange(reaction.at));
+          if (!isAuthor && reviewed) stats.prsReviewed++;
+        } else if (inRange(pr.createdAt)) {
+          stats.totalRecentPRs++;
+        }
+      }
+
+      activity.repos.push(stats);
+      activity.prsCreated += stats.prsCreated;
+      activity.prsReviewed += stats.prsReviewed;
+      activity.prsMerged += stats.prsMerged;
+      activity.totalActivity += stats.prsCreated + stats.prsReviewed + stats.prsMerged;
+      activity.truncated = activity.truncated || truncated;
+    }
+
+    return { user, activity };
+  }
+
+  /**
+   * Cached repository activity; concurrent callers for the same repository and range share one fetch
+   */
+  private async getRepoActivity(owner: string, repo: string, start: Date, end: Date, includeReviews: boolean): Promise<RepoActivity> {
+    const cacheKey = CacheKeys.repoActivityGraphQL(owner, repo, GitHubClientContext.currentClientId(), start.toISOString(), end.toISOString(), includeReviews);
+    const cached = await this.cacheService.get<RepoActivity>(cacheKey);
+    if (cached) return cached;
+
+    const inFlight = this.inFlight.get(cacheKey);
+    if (inFlight) return inFlight;
+
+    const promise = this.fetchRepoActivity(owner, repo, start, includeReviews)
+      .then(async (activity) => {
+        await this.cacheService.set(cacheKey, activity, CACHE_TTL_MS);
+        return activity;
+      })
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, promise);
+    return promise;
+  }
+
+  private async fetchRepoActivity(owner: string, repo: string, start: Date, includeReviews: boolean): Promise<RepoActivity> {
+    const t0 = Date.now();
+    const pullRequests: PullRequestActivity[] = [];
+    let truncated = false;
+    let cursor: string | null = null;
+
+    for (let page = 1; page <= MAX_PR_PAGES; page++) {
+      const data: RepoActivityResponse = await this.makeRateLimitedGraphQLRequest<RepoActivityResponse>(REPO_ACTIVITY_QUERY, {
+        owner,
+        name: repo,
+        cursor,
+        withReviews: includeReviews
+      });
+      if (!data.repository) {
+        throw new Error(`Repository ${owner}/${repo} not found`);
+      }
+
+      const { nodes, pageInfo } = data.repository.pullRequests;
+      let reachedStart = false;
+      for (const node of nodes) {
+        // Nothing updated before the range can have been created, merged or reviewed inside it
+        if (Date.parse(node.updatedAt) < start.getTime()) {
+          reachedStart = true;
+          break;
+        }
+        pullRequests.push(this.toActivity(node));
+        truncated = truncated
+          || (node.reviews?.totalCount ?? 0) > (node.reviews?.nodes.length ?? 0)
+          || (node.reactions?.totalCount ?? 0) > (node.reactions?.nodes.length ?? 0);
+      }
+
+      if (reachedStart || !pageInfo.hasNextPage) break;
+      if (page === MAX_PR_PAGES) truncated = true;
+      cursor = pageInfo.endCursor;
+    }
+
+    this.logger.log(`GraphQL fetched ${pullRequests.length} PRs for ${owner}/${repo}${truncated ? ' (truncated)' : ''} in ${Date.now() - t0}ms`);
+    return { pullRequests, truncated };
+  }
+
+  private toActivity(node: GraphQLPullRequest): PullRequestActivity {
+    const reviews = (node.reviews?.nodes ?? [])
+      .filter(review => review.author?.databaseId != null && review.submittedAt)
+      .map(review => ({ userId: review.author?.databaseId as number, at: Date.parse(review.submittedAt as string) }));
+    const reactions = (node.reactions?.nodes ?? [])
+      .filter(reaction => reaction.user?.databaseId != null)
+      .map(reaction => ({ userId: reaction.user?.databaseId as number, at: Date.parse(reaction.createdAt) }));
+
+    return {
+      authorId: node.author?.databaseId ?? null,
+      createdAt: Date.parse(node.createdAt),
+      updatedAt: Date.parse(node.updatedAt),
+      mergedAt: node.mergedAt ? Date.parse(node.mergedAt) : null,
+      reviews,
+      reactions
+    };
+  }
+}
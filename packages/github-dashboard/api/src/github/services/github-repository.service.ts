@@ -1,21 +1,28 @@
 import { HttpService } from '@nestjs/axios';
 import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
 import { GitHubCacheService } from '../cache/github-cache.service';
-import { GitHubRepo, GitHubPullRequest } from '../interfaces';
+import { GitHubRepo, GitHubPullRequest, GitHubReview, PaginatedResult } from '../interfaces';
 import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
 
 import { GitHubBaseService } from './github-base.service';
 import { GitHubRepositoryServiceInterface } from './interfaces/github-repository.service.interface';
 
+// Upper bound on review list pages fetched per PR (100 reviews each)
+const REVIEW_LIST_MAX_PAGES = 10;
+
 @Injectable()
 export class GitHubRepositoryService extends GitHubBaseService implements GitHubRepositoryServiceInterface {
   constructor(
     httpService: HttpService,
     rateLimitService: RateLimitService,
-    cacheService: GitHubCacheService
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService
   ) {
-    super(httpService, rateLimitService, cacheService);
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
   }
 
   /**
@@ -79,17 +86,17 @@ export class GitHubRepositoryService extends GitHubBaseService implements GitHub
   }
 
   /**
-   * Get pull request reviews
+   * Get every page of pull request reviews, flagged when the page limit cut them short
    */
   async getPullRequestReviews(
     owner: string,
     repo: string,
     pullNumber: number
-  ): Promise<any[]> {
+  ): Promise<PaginatedResult<GitHubReview>> {
     try {
       this.logger.log(`Fetching reviews for PR #${pullNumber} in ${owner}/${repo}`);
-      const url = `${this.baseUrl}/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`;
-      return await this.makeRateLimitedRequest<any[]>(url);
+      const url = `${this.baseUrl}/repos/${owner}/${repo}/pulls/${pullNumber}/reviews?per_page=100`;
+      return await this.paginate<GitHubReview>(url, { maxPages: REVIEW_LIST_MAX_PAGES });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to fetch reviews for PR #${pullNumber} in ${owner}/${repo}:`, errorMessage);
@@ -1,9 +1,11 @@
 import { HttpService } from '@nestjs/axios';
 import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
 import { GitHubCacheService } from '../cache/github-cache.service';
 import { GitHubUser } from '../interfaces';
 import { RateLimitService } from '../rate-limit.service';
+import { GitHubRequestScheduler } from '../request-scheduler.service';
 
 import { GitHubBaseService } from './github-base.service';
 import { GitHubUserServiceInterface } from './interfaces/github-user.service.interface';
@@ -13,9 +15,11 @@ export class GitHubUserService extends GitHubBaseService implements GitHubUserSe
   constructor(
     httpService: HttpService,
     rateLimitService: RateLimitService,
-    cacheService: GitHubCacheService
+    cacheService: GitHubCacheService,
+    requestScheduler: GitHubRequestScheduler,
+    configService: ConfigService
   ) {
-    super(httpService, rateLimitService, cacheService);
+    super(httpService, rateLimitService, cacheService, requestScheduler, configService);
   }
 
   /**
@@ -0,0 +1,14 @@
+import { GitHubUser, GitHubUserActivitySummary } from '../../interfaces';
+
+export interface GitHubActivitySourceInterface {
+  /**
+   * Summarize a user's PRs created, reviewed and merged across repositories in a date range
+   */
+  getUserActivitySummary(
+    user: GitHubUser,
+    repoList: string[],
+    startDate?: string,
+    endDate?: string,
+    includeReviews?: boolean
+  ): Promise<GitHubUserActivitySummary>;
+}
@@ -0,0 +1,24 @@
+import { PullRequest, Repository } from '../../../database/entities';
+import { GitHubPullRequest, GitHubReview } from '../../interfaces';
+
+export interface GitHubActivitySyncServiceInterface {
+  /**
+   * Sync pull requests, reviews and merges for every repository attached to a dashboard
+   */
+  syncAll(): Promise<void>;
+
+  /**
+   * Incrementally sync one repository from its updated_at watermark
+   */
+  syncRepository(repo: Repository): Promise<{ pullRequests: number; reviews: number }>;
+
+  /**
+   * Store a PR and, once merged, its merge event
+   */
+  savePullRequest(repo: Repository, pr: GitHubPullRequest): Promise<PullRequest>;
+
+  /**
+   * Store submitted reviews of a stored PR; returns the number of reviews stored
+   */
+  saveReviews(repo: Repository, pullRequestId: string, reviews: GitHubReview[]): Promise<number>;
+}
@@ -1,8 +1,27 @@
+import { PaginatedResult } from '../../interfaces';
+
+export interface PaginateOptions<T> {
+  /** Maximum number of pages to fetch (defaults to 10) */
+  maxPages?: number;
+  /** Stop paging at the first item matching this predicate */
+  stopWhen?: (item: T) => boolean;
+}
+
 export interface GitHubBaseServiceInterface {
   /**
    * Make a rate-limited request to GitHub API
    */
   makeRateLimitedRequest<T>(url: string): Promise<T>;
+
+  /**
+   * Follow Link headers and collect every page of a list or search endpoint
+   */
+  paginate<T>(url: string, options?: PaginateOptions<T>): Promise<PaginatedResult<T>>;
+
+  /**
+   * Search issues/PRs over a date range, splitting the range around the 1000-result cap
+   */
+  searchIssues<T>(buildQuery: (range: string) => string, startDate: string, endDate: string): Promise<PaginatedResult<T>>;
   
   /**
    * Get authentication status and available scopes
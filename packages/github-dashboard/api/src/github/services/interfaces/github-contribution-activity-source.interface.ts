@@ -0,0 +1,14 @@
+import { DashboardContributionOptions, GitHubUserActivitySummary } from '../../interfaces';
+
+export interface GitHubContributionActivitySourceInterface {
+  /**
+   * Add commit and issue counts for the tracked activity types to each user's activity summary
+   */
+  addContributions(
+    summaries: GitHubUserActivitySummary[],
+    repoList: string[],
+    options: DashboardContributionOptions,
+    startDate?: string,
+    endDate?: string
+  ): Promise<GitHubUserActivitySummary[]>;
+}
@@ -1,4 +1,4 @@
-import { GitHubRepo, GitHubPullRequest } from '../../interfaces';
+import { GitHubRepo, GitHubPullRequest, GitHubReview, PaginatedResult } from '../../interfaces';
 
 export interface GitHubRepositoryServiceInterface {
   /**
@@ -18,11 +18,11 @@ export interface GitHubRepositoryServiceInterface {
   ): Promise<GitHubPullRequest[]>;
   
   /**
-   * Get pull request reviews
+   * Get every page of pull request reviews, flagged when the page limit cut them short
    */
   getPullRequestReviews(
     owner: string,
     repo: string,
     pullNumber: number
-  ): Promise<any[]>;
+  ): Promise<PaginatedResult<GitHubReview>>;
 }
@@ -0,0 +1,141 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { BadRequestException, Injectable, Logger, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { Repository } from '../../database/entities';
+import { DashboardRepositoryRepository } from '../../database/repositories/dashboard-repository.repository';
+import { RepositoryRepository } from '../../database/repositories/repository.repository';
+import { WebhookDeliveryRepository } from '../../database/repositories/webhook-delivery.repository';
+import { CacheKeys } from '../cache/cache-keys';
+import { GitHubCacheService } from '../cache/github-cache.service';
+import { DashboardActivityEvents } from '../events/dashboard-activity-events.service';
+import { GitHubPullRequest, GitHubReview } from '../interfaces';
+import { GitHubActivitySyncService } from '../services/github-activity-sync.service';
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['pull_request', 'pull_request_review', 'push', 'issues', 'issue_comment'];
+
+export interface GitHubWebhookPayload {
+  action?: string;
+  repository?: { full_name: string };
+  pull_request?: GitHubPullRequest;
+  review?: GitHubReview;
+  ref?: string;
+}
+
+export interface GitHubWebhookDelivery {
+  event: string;
+  deliveryId?: string;
+  signature?: string;
+  rawBody?: Buffer;
+  payload: GitHubWebhookPayload;
+}
+
+export interface GitHubWebhookResult {
+  status: 'processed' | 'duplicate' | 'ignored';
+  // Dashboards whose cached activity was invalidated
+  dashboards: string[];
+}
+
+/**
+ * Applies GitHub webhook deliveries to stored activity as they happen instead of waiting for the
+ * next sync: verifies the X-Hub-Signature-256 HMAC, drops replayed delivery ids, stores PRs and
+ * reviews of tracked repositories and invalidates the cached activity of every affected dashboard,
+ * which makes open dashboard event streams recompute it.
+ */
+@Injectable()
+export class GitHubWebhookService {
+  private readonly logger = new Logger(GitHubWebhookService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly repositoryRepository: RepositoryRepository,
+    private readonly dashboardRepositoryRepository: DashboardRepositoryRepository,
+    private readonly syncService: GitHubActivitySyncService,
+    private readonly cacheService: GitHubCacheService,
+    private readonly activityEvents: DashboardActivityEvents
+  ) {}
+
+  async handleDelivery(delivery: GitHubWebhookDelivery): Promise<GitHubWebhookResult> {
+    this.verifySignature(delivery.signature, delivery.rawBody);
+
+    const { event, deliveryId, payload } = delivery;
+    if (!deliveryId) {
+      throw new BadRequestException('X-GitHub-Delivery header is required');
+    }
+    if (!SUPPORTED_WEBHOOK_EVENTS.includes(event) || !payload.repository) {
+      return { status: 'ignored', dashboards: [] };
+    }
+
+    // Recorded before processing so concurrent replays of the same delivery are dropped too
+    if (!(await this.deliveryRepository.recordDelivery(deliveryId, event))) {
+      this.logger.log(`Ignoring replayed ${event} delivery ${deliveryId}`);
+      return { status: 'duplicate', dashboards: [] };
+    }
+
+    try {
+      const dashboards = await this.applyEvent(event, payload);
+      this.logger.log(`Processed ${event}${payload.action ? `.${payload.action}` : ''} for ${payload.repository.full_name}; invalidated ${dashboards.length} dashboards`);
+      return { status: 'processed', dashboards };
+    } catch (error: unknown) {
+      // Let GitHub's redelivery of this id through
+      await this.deliveryRepository.deleteDelivery(deliveryId);
+      throw error;
+    }
+  }
+
+  private verifySignature(signature: string | undefined, rawBody: Buffer | undefined): void {
+    const secret = this.configService.get<string>('github.webhookSecret');
+    if (!secret) {
+      throw new ServiceUnavailableException('GITHUB_WEBHOOK_SECRET must be configured to receive webhooks');
+    }
+    if (!signature || !rawBody) {
+      throw new UnauthorizedException('Missing X-Hub-Signature-256');
+    }
+
+    const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`);
+    const received = Buffer.from(signature);
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new UnauthorizedException('Invalid X-Hub-Signature-256');
+    }
+  }
+
+  /**
+   * Store what the event changed and invalidate cached activity; returns the affected dashboards
+   */
+  private async applyEvent(event: string, payload: GitHubWebhookPayload): Promise<string[]> {
+    const fullName = payload.repository?.full_name as string;
+    const repo = await this.repositoryRepository.findByFullName(fullName);
+
+    if (repo && event === 'pull_request' && payload.pull_request) {
+      await this.syncService.savePullRequest(repo, payload.pull_request);
+    }
+
+    if (repo && event === 'pull_request_review' && payload.pull_request && payload.review) {
+      await this.saveReview(repo, payload.pull_request, payload.review, payload.action);
+    }
+
+    // Pushes and issue events carry no PR activity of their own but change the repository's commit and issue counts
+    return this.invalidate(fullName);
+  }
+
+  private async saveReview(repo: Repository, pr: GitHubPullRequest, review: GitHubReview, action?: string): Promise<void> {
+    const stored = await this.syncService.savePullRequest(repo, pr);
+    // Webhooks report review states in lowercase, the REST API (and stored reviews) in uppercase
+    const state = action === 'dismissed' ? 'DISMISSED' : review.state.toUpperCase();
+    await this.syncService.saveReviews(repo, stored.id, [{ ...review, state }]);
+  }
+
+  private async invalidate(fullName: string): Promise<string[]> {
+    const [owner, name] = fullName.split('/');
+    await this.cacheService.deleteByPrefix(CacheKeys.repositoryPrefix(owner, name));
+
+    const dashboards = await this.dashboardRepositoryRepository.getDashboardIdsByRepository(fullName);
+    for (const dashboardId of dashboards) {
+      await this.cacheService.deleteByPrefix(CacheKeys.dashboardBatchPrefix(dashboardId));
+      this.activityEvents.publish({ type: 'invalidated', dashboardId });
+    }
+    return dashboards;
+  }
+}
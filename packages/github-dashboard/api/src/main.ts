@@ -8,16 +8,22 @@ import { NestFactory } from '@nestjs/core';
 import { postgraphile } from 'postgraphile';
 
 import { AppModule } from './app/app.module';
+import { AuthService } from './auth/auth.service';
+import { makeMutationAuthPlugin, pgSettingsForSession } from './auth/postgraphile-auth.plugin';
 import databaseConfig from './config/database.config';
+import { ClientFeaturesService } from './features/client-features.service';
+import { makeFeatureEnforcementPlugin } from './features/postgraphile-features.plugin';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw request bodies are kept for verifying GitHub webhook signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   
   // Enable CORS for frontend access
   app.enableCors({
     origin: ['http://localhost:4202', 'http://localhost:4201'], // Allow both ports
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Demo-Client-Id'],
+    exposedHeaders: ['Content-Disposition'],
     credentials: true,
   });
   
@@ -30,6 +36,8 @@ async function bootstrap() {
   
   // Add PostGraphile middleware (embedded in NestJS like client-demographic-api)
   const dbConfig = databaseConfig();
+  const authService = app.get(AuthService);
+  const clientFeatures = app.get(ClientFeaturesService);
   app.use(
     postgraphile(
       {
@@ -48,6 +56,14 @@ async function bootstrap() {
         graphqlRoute: '/graphql',
         graphiqlRoute: '/graphiql',
         cors: true,
+        // Mutations need an editor session; premium ones are also checked against the client's tier.
+        // Later plugins wrap earlier ones, so the feature check runs before the role check.
+        appendPlugins: [makeMutationAuthPlugin(), makeFeatureEnforcementPlugin(clientFeatures)],
+        // Queries run as the restricted database role, so row-level security scopes them to the session's client
+        pgSettings: async (req) => pgSettingsForSession(await authService.authenticateRequest(req)),
+        additionalGraphQLContextFromRequest: async (req) => ({
+          session: await authService.authenticateRequest(req),
+        }),
       }
     )
   );
@@ -1,13 +1,27 @@
 import CssBaseline from '@mui/material/CssBaseline';
 import { ThemeProvider } from '@mui/material/styles';
-import { Route, BrowserRouter as Router, Routes, useLocation } from 'react-router-dom';
+import { ReactElement } from 'react';
+import { Navigate, Route, BrowserRouter as Router, Routes, useLocation } from 'react-router-dom';
 
+import { LoadingState } from './components/common/LoadingState';
+import { AuthProvider, useAuthContext } from './context/AuthContext';
 import { ClientProvider, useClientContext } from './context/ClientContext';
 import { ClientSelectionPage } from './pages/ClientSelectionPage';
 import { DashboardDetailPage } from './pages/DashboardDetailPage';
 import { DashboardListPage } from './pages/DashboardListPage';
+import { LoginPage } from './pages/LoginPage';
 import { createTierTheme } from './theme';
 
+// Pages behind sign-in send signed-out users to the login page
+function RequireAuth({ children }: { children: ReactElement }) {
+  const { user, loading } = useAuthContext();
+
+  if (loading) {
+    return <LoadingState message="Signing in..." />;
+  }
+  return user ? children : <Navigate to="/login" replace />;
+}
+
 function AppContent() {
   const { activeClient } = useClientContext();
   const location = useLocation();
@@ -15,8 +29,8 @@ function AppContent() {
   // Determine theme based on route and client selection
   let tierType: 'neutral' | 'basic' | 'premium' = 'neutral';
 
-  if (location.pathname === '/') {
-    // Client selection page - use neutral theme
+  if (location.pathname === '/' || location.pathname === '/login') {
+    // Login and client selection pages - use neutral theme
     tierType = 'neutral';
   } else if (activeClient) {
     // Dashboard pages - use client's tier theme
@@ -32,9 +46,10 @@ function AppContent() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       <Routes>
-        <Route path="/" element={<ClientSelectionPage />} />
-        <Route path="/dashboards" element={<DashboardListPage />} />
-        <Route path="/dashboard/:dashboardSlug" element={<DashboardDetailPage />} />
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/" element={<RequireAuth><ClientSelectionPage /></RequireAuth>} />
+        <Route path="/dashboards" element={<RequireAuth><DashboardListPage /></RequireAuth>} />
+        <Route path="/dashboard/:dashboardSlug" element={<RequireAuth><DashboardDetailPage /></RequireAuth>} />
       </Routes>
     </ThemeProvider>
   );
@@ -43,9 +58,11 @@ function AppContent() {
 export function App() {
   return (
     <Router>
-      <ClientProvider>
-        <AppContent />
-      </ClientProvider>
+      <AuthProvider>
+        <ClientProvider>
+          <AppContent />
+        </ClientProvider>
+      </AuthProvider>
     </Router>
   );
 }
@@ -0,0 +1,2 @@
+// Root of the dashboard API, e.g. https://dashboard-api.example.com: REST under /api, GraphQL at /graphql
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001').replace(/\/+$/, '');
@@ -0,0 +1,85 @@
+import { API_BASE_URL } from './api-base-url';
+
+const AUTH_ENDPOINT = `${API_BASE_URL}/api/auth`;
+const TOKEN_KEY = 'authToken';
+
+// Starts "Sign in with GitHub"; the API redirects back to /login with the token in the URL fragment
+export const GITHUB_LOGIN_URL = `${AUTH_ENDPOINT}/github`;
+
+export type ClientRole = 'viewer' | 'editor' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+  githubUsername: string | null;
+  avatarUrl: string | null;
+}
+
+export interface ClientMembership {
+  clientId: string;
+  clientName: string;
+  role: ClientRole;
+}
+
+export interface CurrentUser {
+  // Client the session token is scoped to
+  clientId: string | null;
+  user: AuthUser;
+  memberships: ClientMembership[];
+}
+
+export interface AuthSession extends CurrentUser {
+  token: string;
+}
+
+export class AuthRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+/**
+ * Authorization header for API and GraphQL requests of the signed-in user
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${AUTH_ENDPOINT}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init.headers },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Validation errors come back as a list of messages
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new AuthRequestError(message || `${response.status} ${response.statusText}`, response.status);
+  }
+  return body as T;
+}
+
+export const authApi = {
+  providers: () => request<{ password: boolean; github: boolean }>('/providers'),
+  login: (email: string, password: string) =>
+    request<AuthSession>('/login', { method: 'POST', body: JSON.stringify({ email, password }) }),
+  register: (email: string, password: string, displayName?: string) =>
+    request<AuthSession>('/register', { method: 'POST', body: JSON.stringify({ email, password, displayName }) }),
+  me: () => request<CurrentUser>('/me'),
+  selectClient: (clientId: string) =>
+    request<AuthSession>('/session', { method: 'POST', body: JSON.stringify({ clientId }) }),
+};
@@ -0,0 +1,64 @@
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+import { DateRangePreset } from './date-ranges';
+
+const DASHBOARDS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+
+/**
+ * Full desired configuration of a dashboard; repositories, users and activity types not listed are removed
+ */
+export interface DashboardConfiguration {
+  isPublic: boolean;
+  excludeMergeCommits?: boolean;
+  dashboardTypeCode?: string;
+  // Range the dashboard opens with; null opens the last 30 days
+  defaultDateRange?: DateRangePreset | null;
+  // First day of any sprint, for the current sprint range
+  sprintStartDate?: string | null;
+  sprintLengthDays?: number;
+  repositories: string[];
+  users: string[];
+  activityTypes: string[];
+}
+
+export interface ConfigurationItemError {
+  field: 'dashboardTypeCode' | 'defaultDateRange' | 'repositories' | 'users' | 'activityTypes';
+  value: string;
+  message: string;
+}
+
+export class DashboardConfigurationError extends Error {
+  constructor(message: string, readonly status: number, readonly errors: ConfigurationItemError[] = []) {
+    super(message);
+  }
+}
+
+/**
+ * Codes of the activity types switched on in the config modal's activity config
+ */
+export function enabledActivityTypes(activityConfig: Record<string, boolean> = {}): string[] {
+  return Object.entries(activityConfig)
+    .filter(([, enabled]) => enabled)
+    .map(([code]) => code);
+}
+
+/**
+ * Save a dashboard's configuration in one request; the API applies all of it or none of it
+ */
+export async function saveDashboardConfiguration(
+  dashboardId: string,
+  configuration: DashboardConfiguration
+): Promise<DashboardConfiguration> {
+  const response = await fetch(`${DASHBOARDS_ENDPOINT}/${dashboardId}/configuration`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(configuration),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Validation errors come back as a list of messages, invalid items as `errors`
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new DashboardConfigurationError(message || `${response.status} ${response.statusText}`, response.status, body?.errors);
+  }
+  return body as DashboardConfiguration;
+}
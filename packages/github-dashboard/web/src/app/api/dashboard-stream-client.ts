@@ -0,0 +1,22 @@
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+
+const DASHBOARDS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+
+export interface StreamTicket {
+  ticket: string;
+  expiresIn: number;
+}
+
+/**
+ * Short-lived ticket for opening a dashboard's event stream as the signed-in user, since EventSource
+ * can't send the Authorization header
+ */
+export async function fetchStreamTicket(dashboardId: string): Promise<StreamTicket> {
+  const response = await fetch(`${DASHBOARDS_ENDPOINT}/${dashboardId}/events/ticket`, { method: 'POST', headers: authHeaders() });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || `${response.status} ${response.statusText}`);
+  }
+  return body as StreamTicket;
+}
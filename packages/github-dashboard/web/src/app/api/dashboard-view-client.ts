@@ -0,0 +1,78 @@
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+import { DateRangePreset } from './date-ranges';
+
+const DASHBOARDS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+
+export type SortField = 'totalActivity' | 'prsCreated' | 'prsReviewed' | 'prsMerged';
+
+/**
+ * Filters of a dashboard view; null shows everything the dashboard tracks, and no date range keeps the dashboard's default
+ */
+export interface DashboardViewFilters {
+  dateRange: DateRangePreset | null;
+  startDate: string | null;
+  endDate: string | null;
+  users: string[] | null;
+  repositories: string[] | null;
+  activityTypes: string[] | null;
+  sortBy: SortField | null;
+}
+
+export interface SavedDashboardView extends DashboardViewFilters {
+  id: string;
+  name: string;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init.headers } });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Validation errors come back as a list of messages
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new Error(message || `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+// The API leaves out filters that aren't set
+function toBody(name: string, filters: DashboardViewFilters): string {
+  const body = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== null));
+  return JSON.stringify({ name, ...body });
+}
+
+export function fetchDashboardViews(dashboardId: string): Promise<SavedDashboardView[]> {
+  return request<SavedDashboardView[]>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/views`);
+}
+
+export function createDashboardView(dashboardId: string, name: string, filters: DashboardViewFilters): Promise<SavedDashboardView> {
+  return request<SavedDashboardView>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/views`, {
+    method: 'POST',
+    body: toBody(name, filters),
+  });
+}
+
+/**
+ * Replace a saved view's filters, e.g. to save the current filters under an existing name
+ */
+export function updateDashboardView(
+  dashboardId: string,
+  viewId: string,
+  name: string,
+  filters: DashboardViewFilters
+): Promise<SavedDashboardView> {
+  return request<SavedDashboardView>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/views/${viewId}`, {
+    method: 'PUT',
+    body: toBody(name, filters),
+  });
+}
+
+export async function deleteDashboardView(dashboardId: string, viewId: string): Promise<void> {
+  const response = await fetch(`${DASHBOARDS_ENDPOINT}/${dashboardId}/views/${viewId}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to delete the view: ${response.status} ${response.statusText}`);
+  }
+}
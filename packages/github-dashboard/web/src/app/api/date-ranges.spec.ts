@@ -0,0 +1,93 @@
+import { resolveDateRange } from './date-ranges';
+
+// Local times, like the browser's clock
+const at = (year: number, month: number, day: number, hours = 12, minutes = 0) => new Date(year, month - 1, day, hours, minutes);
+
+describe('resolveDateRange', () => {
+  describe('quarters', () => {
+    it('starts this quarter on its first day and ends it today', () => {
+      expect(resolveDateRange('this_quarter', {}, at(2026, 5, 20))).toEqual({ startDate: '2026-04-01', endDate: '2026-05-20' });
+    });
+
+    it('rolls the last quarter back into the previous year in the first quarter', () => {
+      expect(resolveDateRange('last_quarter', {}, at(2026, 1, 15))).toEqual({ startDate: '2025-10-01', endDate: '2025-12-31' });
+      expect(resolveDateRange('this_quarter', {}, at(2026, 1, 15))).toEqual({ startDate: '2026-01-01', endDate: '2026-01-15' });
+    });
+
+    it('switches quarters on the first day of the new one', () => {
+      expect(resolveDateRange('this_quarter', {}, at(2026, 4, 1, 0, 0))).toEqual({ startDate: '2026-04-01', endDate: '2026-04-01' });
+      expect(resolveDateRange('last_quarter', {}, at(2026, 4, 1, 0, 0))).toEqual({ startDate: '2026-01-01', endDate: '2026-03-31' });
+      expect(resolveDateRange('last_quarter', {}, at(2026, 3, 31, 23, 59))).toEqual({ startDate: '2025-10-01', endDate: '2025-12-31' });
+    });
+
+    it('rolls the last month back into the previous year in January', () => {
+      expect(resolveDateRange('last_month', {}, at(2026, 1, 10))).toEqual({ startDate: '2025-12-01', endDate: '2025-12-31' });
+    });
+  });
+
+  describe('current sprint', () => {
+    const sprint = { sprintStartDate: '2026-01-05', sprintLengthDays: 14 };
+
+    it('needs a sprint start date', () => {
+      expect(resolveDateRange('current_sprint', {}, at(2026, 1, 20))).toBeNull();
+      expect(resolveDateRange('current_sprint', { sprintStartDate: null }, at(2026, 1, 20))).toBeNull();
+    });
+
+    it('is the configured sprint on its first and last day', () => {
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 1, 5, 0, 0))).toEqual({ startDate: '2026-01-05', endDate: '2026-01-18' });
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 1, 18, 23, 59))).toEqual({ startDate: '2026-01-05', endDate: '2026-01-18' });
+    });
+
+    it('repeats after the configured start', () => {
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 1, 19))).toEqual({ startDate: '2026-01-19', endDate: '2026-02-01' });
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 6, 1))).toEqual({ startDate: '2026-05-25', endDate: '2026-06-07' });
+    });
+
+    it('repeats backwards before the configured start', () => {
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 1, 4))).toEqual({ startDate: '2025-12-22', endDate: '2026-01-04' });
+      expect(resolveDateRange('current_sprint', sprint, at(2025, 12, 21))).toEqual({ startDate: '2025-12-08', endDate: '2025-12-21' });
+    });
+
+    it('uses the sprint length, two weeks by default', () => {
+      expect(resolveDateRange('current_sprint', { sprintStartDate: '2026-01-05', sprintLengthDays: 7 }, at(2026, 1, 20))).toEqual({
+        startDate: '2026-01-19',
+        endDate: '2026-01-25'
+      });
+      expect(resolveDateRange('current_sprint', { sprintStartDate: '2026-01-05' }, at(2026, 1, 20))).toEqual({
+        startDate: '2026-01-19',
+        endDate: '2026-02-01'
+      });
+    });
+  });
+
+  describe.each(['UTC', 'America/New_York', 'Pacific/Auckland', 'Asia/Kolkata'])('in the %s time zone', timeZone => {
+    const originalTimeZone = process.env.TZ;
+
+    beforeEach(() => {
+      process.env.TZ = timeZone;
+    });
+
+    afterEach(() => {
+      process.env.TZ = originalTimeZone;
+    });
+
+    it('ends ranges on the local day, late at night and just after midnight', () => {
+      expect(resolveDateRange('last_7_days', {}, at(2026, 3, 31, 23, 59))).toEqual({ startDate: '2026-03-24', endDate: '2026-03-31' });
+      expect(resolveDateRange('last_7_days', {}, at(2026, 4, 1, 0, 1))).toEqual({ startDate: '2026-03-25', endDate: '2026-04-01' });
+    });
+
+    it('counts days across daylight saving changes', () => {
+      // New York moves its clocks forward on 2026-03-08, Auckland back on 2026-04-05
+      expect(resolveDateRange('last_30_days', {}, at(2026, 3, 20, 0, 30))).toEqual({ startDate: '2026-02-18', endDate: '2026-03-20' });
+      expect(resolveDateRange('last_14_days', {}, at(2026, 4, 10, 0, 30))).toEqual({ startDate: '2026-03-27', endDate: '2026-04-10' });
+    });
+
+    it('starts a sprint on the right day across daylight saving changes', () => {
+      const sprint = { sprintStartDate: '2026-03-02', sprintLengthDays: 14 };
+
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 3, 16, 0, 30))).toEqual({ startDate: '2026-03-16', endDate: '2026-03-29' });
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 3, 15, 23, 30))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-15' });
+      expect(resolveDateRange('current_sprint', sprint, at(2026, 4, 13, 0, 30))).toEqual({ startDate: '2026-04-13', endDate: '2026-04-26' });
+    });
+  });
+});
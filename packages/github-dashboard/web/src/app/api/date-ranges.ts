@@ -0,0 +1,99 @@
+// Rolling date ranges a dashboard or saved view can open with; the API stores the code, the dates are resolved here
+export type DateRangePreset =
+  | 'last_7_days'
+  | 'last_14_days'
+  | 'last_30_days'
+  | 'last_90_days'
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter'
+  | 'last_quarter'
+  | 'this_year'
+  | 'current_sprint';
+
+export const DATE_RANGE_PRESETS: { code: DateRangePreset; label: string }[] = [
+  { code: 'last_7_days', label: 'Last 7 Days' },
+  { code: 'last_14_days', label: 'Last 14 Days' },
+  { code: 'last_30_days', label: 'Last 30 Days' },
+  { code: 'last_90_days', label: 'Last 90 Days' },
+  { code: 'this_month', label: 'This Month' },
+  { code: 'last_month', label: 'Last Month' },
+  { code: 'this_quarter', label: 'This Quarter' },
+  { code: 'last_quarter', label: 'Last Quarter' },
+  { code: 'this_year', label: 'This Year' },
+  { code: 'current_sprint', label: 'Current Sprint' }
+];
+
+// Range of dashboards without a default of their own
+export const FALLBACK_DATE_RANGE: DateRangePreset = 'last_30_days';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SprintSettings {
+  // First day of any sprint, YYYY-MM-DD
+  sprintStartDate?: string | null;
+  sprintLengthDays?: number;
+}
+
+export function isDateRangePreset(value: string | null | undefined): value is DateRangePreset {
+  return DATE_RANGE_PRESETS.some(preset => preset.code === value);
+}
+
+// YYYY-MM-DD in local time, like the date inputs
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Start and end date of a preset as of today; null for the current sprint when the dashboard has no sprint start date
+ */
+export function resolveDateRange(
+  preset: DateRangePreset,
+  sprint: SprintSettings = {},
+  now: Date = new Date()
+): { startDate: string; endDate: string } | null {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const range = (start: Date, end: Date = today) => ({ startDate: formatDate(start), endDate: formatDate(end) });
+  const daysAgo = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+  const quarter = Math.floor(today.getMonth() / 3);
+
+  switch (preset) {
+    case 'last_7_days':
+      return range(daysAgo(7));
+    case 'last_14_days':
+      return range(daysAgo(14));
+    case 'last_30_days':
+      return range(daysAgo(30));
+    case 'last_90_days':
+      return range(daysAgo(90));
+    case 'this_month':
+      return range(new Date(today.getFullYear(), today.getMonth(), 1));
+    case 'last_month':
+      // Day 0 of a month is the last day of the month before
+      return range(new Date(today.getFullYear(), today.getMonth() - 1, 1), new Date(today.getFullYear(), today.getMonth(), 0));
+    case 'this_quarter':
+      return range(new Date(today.getFullYear(), quarter * 3, 1));
+    case 'last_quarter':
+      return range(new Date(today.getFullYear(), (quarter - 1) * 3, 1), new Date(today.getFullYear(), quarter * 3, 0));
+    case 'this_year':
+      return range(new Date(today.getFullYear(), 0, 1));
+    case 'current_sprint': {
+      if (!sprint.sprintStartDate) {
+        return null;
+      }
+      const length = sprint.sprintLengthDays || 14;
+      const anchor = parseDate(sprint.sprintStartDate);
+      // Sprints repeat back and forth from the anchor; rounding absorbs daylight saving shifts
+      const sprints = Math.floor(Math.round((today.getTime() - anchor.getTime()) / DAY_MS) / length);
+      const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + sprints * length);
+      return range(start, new Date(start.getFullYear(), start.getMonth(), start.getDate() + length - 1));
+    }
+  }
+}
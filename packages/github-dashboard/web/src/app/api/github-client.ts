@@ -0,0 +1,24 @@
+import { GitHubUser } from '../../types/github';
+
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+
+const GITHUB_ENDPOINT = `${API_BASE_URL}/api/github`;
+
+/**
+ * Look a username up on GitHub through the API, which resolves it to the user's immutable id.
+ * Rejects with a readable message when the user doesn't exist.
+ */
+export async function fetchGitHubUser(username: string): Promise<GitHubUser> {
+  const response = await fetch(`${GITHUB_ENDPOINT}/users/${encodeURIComponent(username)}`, {
+    headers: authHeaders(),
+  });
+  if (response.status === 404) {
+    throw new Error(`GitHub user '${username}' does not exist`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Failed to look up '${username}': ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as GitHubUser;
+}
@@ -0,0 +1,10 @@
+// Web UI host of github.com or a GitHub Enterprise Server instance, e.g. https://ghe.example.com
+const GITHUB_WEB_URL = (import.meta.env.VITE_GITHUB_WEB_URL || 'https://github.com').replace(/\/+$/, '');
+
+export function githubProfileUrl(login: string): string {
+  return `${GITHUB_WEB_URL}/${login}`;
+}
+
+export function githubAvatarUrl(login: string): string {
+  return `${GITHUB_WEB_URL}/${login}.png`;
+}
@@ -0,0 +1,93 @@
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+
+const DASHBOARDS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+const GITHUB_ENDPOINT = `${API_BASE_URL}/api/github`;
+
+export interface GitHubTeam {
+  id: number;
+  name: string;
+  slug: string;
+  description: string | null;
+}
+
+// A member of the organization or team, as shown in the import preview
+export interface MemberImportCandidate {
+  githubUserId: string;
+  githubUsername: string;
+  avatarUrl: string;
+  profileUrl: string;
+  onDashboard: boolean;
+}
+
+export interface MemberSync {
+  org: string;
+  team: string | null;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface MemberImportResult {
+  added: string[];
+  errors: { value: string; message: string }[];
+  sync: MemberSync | null;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init.headers } });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Validation errors come back as a list of messages
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new Error(message || `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+/**
+ * Teams of a GitHub organization visible to the API's credentials
+ */
+export function fetchOrganizationTeams(org: string): Promise<GitHubTeam[]> {
+  return request<GitHubTeam[]>(`${GITHUB_ENDPOINT}/org/${encodeURIComponent(org)}/teams`);
+}
+
+/**
+ * Members of an organization, or of one of its teams, marked when they already are on the dashboard
+ */
+export function previewMemberImport(dashboardId: string, org: string, team?: string): Promise<MemberImportCandidate[]> {
+  const params = new URLSearchParams({ org, ...(team && { team }) });
+  return request<MemberImportCandidate[]>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/members/import?${params}`);
+}
+
+/**
+ * Add the selected members to the dashboard right away, optionally keeping it in sync with the organization or team
+ */
+export function importMembers(
+  dashboardId: string,
+  selection: { org: string; team?: string; usernames: string[]; keepInSync: boolean }
+): Promise<MemberImportResult> {
+  return request<MemberImportResult>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/members/import`, {
+    method: 'POST',
+    body: JSON.stringify(selection),
+  });
+}
+
+/**
+ * Organization or team the dashboard keeps its members in sync with, if any
+ */
+export function fetchMemberSync(dashboardId: string): Promise<MemberSync | null> {
+  return request<MemberSync | null>(`${DASHBOARDS_ENDPOINT}/${dashboardId}/member-sync`);
+}
+
+/**
+ * Stop syncing the dashboard's members; its users stay
+ */
+export async function deleteMemberSync(dashboardId: string): Promise<void> {
+  const response = await fetch(`${DASHBOARDS_ENDPOINT}/${dashboardId}/member-sync`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to stop the member sync: ${response.status} ${response.statusText}`);
+  }
+}
@@ -1,4 +1,7 @@
-const POSTGRAPHILE_ENDPOINT = 'http://localhost:3001/graphql';
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+
+const POSTGRAPHILE_ENDPOINT = `${API_BASE_URL}/graphql`;
 
 export interface GraphQLResponse<T> {
   data?: T;
@@ -11,10 +14,12 @@ export interface GraphQLResponse<T> {
 
 export async function executeGraphQL<T>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResponse<T>> {
   try {
+    // Mutations need an editor session of the active client
     const response = await fetch(POSTGRAPHILE_ENDPOINT, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(),
       },
       body: JSON.stringify({
         query,
@@ -82,6 +87,10 @@ export const DASHBOARD_QUERIES = {
       slug
       description
       isPublic
+      excludeMergeCommits
+      defaultDateRange
+      sprintStartDate
+      sprintLengthDays
       createdAt
       updatedAt
       clientByClientId {
@@ -146,6 +155,7 @@ export const DASHBOARD_USER_QUERIES = {
         githubUserId
         githubUserByGithubUserId {
           id
+          githubUserId
           githubUsername
           displayName
           avatarUrl
@@ -163,6 +173,7 @@ export const DASHBOARD_USER_QUERIES = {
         githubUserId
         githubUserByGithubUserId {
           id
+          githubUserId
           githubUsername
           displayName
           avatarUrl
@@ -304,18 +315,13 @@ export const ACTIVITY_TYPE_QUERIES = {
   }`,
 };
 
-export const GITHUB_USER_MUTATIONS = {
-  create: `mutation CreateGithubUser($input: CreateGithubUserInput!) {
-    createGithubUser(input: $input) {
-      githubUser {
+export const DASHBOARD_TYPE_QUERIES = {
+  getAll: `query GetAllDashboardTypes {
+    allDashboardTypes {
+      nodes {
         id
-        githubUserId
-        githubUsername
-        displayName
-        avatarUrl
-        profileUrl
-        createdAt
-        updatedAt
+        code
+        name
       }
     }
   }`,
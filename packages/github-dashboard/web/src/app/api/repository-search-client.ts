@@ -0,0 +1,64 @@
+import { GitHubRepo } from '../../types/github';
+
+import { API_BASE_URL } from './api-base-url';
+import { authHeaders } from './auth-client';
+
+const GITHUB_ENDPOINT = `${API_BASE_URL}/api/github`;
+
+export interface RepositorySearchFilters {
+  q?: string;
+  language?: string;
+  // Unset includes archived and active repositories
+  archived?: boolean;
+  visibility?: 'public' | 'private' | 'internal';
+  topic?: string;
+  pushedAfter?: string; // YYYY-MM-DD
+}
+
+export interface RepositorySearchPage {
+  items: GitHubRepo[];
+  totalCount: number;
+  page: number;
+  perPage: number;
+  incomplete: boolean;
+}
+
+async function request<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: authHeaders() });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Validation errors come back as a list of messages
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new Error(message || `${response.status} ${response.statusText}`);
+  }
+  return body as T;
+}
+
+/**
+ * One page of an organization's repositories matching the filters, most recently updated first
+ */
+export function searchOrganizationRepositories(
+  org: string,
+  filters: RepositorySearchFilters,
+  page = 1,
+  perPage = 30
+): Promise<RepositorySearchPage> {
+  const params = new URLSearchParams({ page: String(page), per_page: String(perPage) });
+  if (filters.q) params.set('q', filters.q);
+  if (filters.language) params.set('language', filters.language);
+  if (filters.archived !== undefined) params.set('archived', String(filters.archived));
+  if (filters.visibility) params.set('visibility', filters.visibility);
+  if (filters.topic) params.set('topic', filters.topic);
+  if (filters.pushedAfter) params.set('pushed_after', filters.pushedAfter);
+  return request<RepositorySearchPage>(`${GITHUB_ENDPOINT}/org/${encodeURIComponent(org)}/repos?${params}`);
+}
+
+/**
+ * Every repository of an organization whose name matches a glob like `service-*` and/or that has a topic
+ */
+export function matchOrganizationRepositories(org: string, match: { pattern?: string; topic?: string }): Promise<GitHubRepo[]> {
+  const params = new URLSearchParams();
+  if (match.pattern) params.set('pattern', match.pattern);
+  if (match.topic) params.set('topic', match.topic);
+  return request<GitHubRepo[]>(`${GITHUB_ENDPOINT}/org/${encodeURIComponent(org)}/repos/match?${params}`);
+}
@@ -0,0 +1,63 @@
+import { ActivityType, DashboardType } from '../types/dashboard';
+
+import { API_BASE_URL } from './api-base-url';
+import { DASHBOARD_TYPE_QUERIES, executeGraphQL } from './postgraphile-client';
+
+const ACTIVITY_TYPES_ENDPOINT = `${API_BASE_URL}/api/dashboards/activity-types`;
+
+// Types rarely change, so each list is loaded once per page load; a failed load is retried on next use
+let activityTypesPromise: Promise<ActivityType[]> | null = null;
+let dashboardTypesPromise: Promise<DashboardType[]> | null = null;
+
+/**
+ * Activity types known to the API, in the order and with the categories of its registry
+ */
+export function loadActivityTypes(): Promise<ActivityType[]> {
+  if (!activityTypesPromise) {
+    activityTypesPromise = fetch(ACTIVITY_TYPES_ENDPOINT)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load activity types: ${response.status} ${response.statusText}`);
+        }
+        return (await response.json()) as ActivityType[];
+      })
+      .catch((error) => {
+        activityTypesPromise = null;
+        throw error;
+      });
+  }
+  return activityTypesPromise;
+}
+
+export function loadDashboardTypes(): Promise<DashboardType[]> {
+  if (!dashboardTypesPromise) {
+    dashboardTypesPromise = executeGraphQL<{ allDashboardTypes: { nodes: DashboardType[] } }>(DASHBOARD_TYPE_QUERIES.getAll)
+      .then((response) => {
+        if (response.errors) {
+          throw new Error(response.errors[0].message);
+        }
+        return response.data?.allDashboardTypes.nodes || [];
+      })
+      .catch((error) => {
+        dashboardTypesPromise = null;
+        throw error;
+      });
+  }
+  return dashboardTypesPromise;
+}
+
+export async function getActivityTypeId(code: string): Promise<string> {
+  const activityType = (await loadActivityTypes()).find(type => type.code === code);
+  if (!activityType) {
+    throw new Error(`Unknown activity type code: ${code}`);
+  }
+  return activityType.id;
+}
+
+export async function getDashboardTypeId(code: string): Promise<string> {
+  const dashboardType = (await loadDashboardTypes()).find(type => type.code === code);
+  if (!dashboardType) {
+    throw new Error(`Unknown dashboard type code: ${code}`);
+  }
+  return dashboardType.id;
+}
@@ -1,5 +1,6 @@
 import { Close } from '@mui/icons-material';
 import {
+  Alert,
   Box,
   Button,
   Dialog,
@@ -13,8 +14,10 @@ import {
 import { useEffect, useRef, useState } from 'react';
 
 import { GitHubUser } from '../../../../types/github';
+import { DashboardConfigurationError } from '../../../api/dashboard-configuration-client';
+import { DateRangePreset } from '../../../api/date-ranges';
 
-import { ActivityConfigSection, DashboardTypeSection, RepositorySection, UserSection, VisibilitySection } from './Sections';
+import { ActivityConfigSection, DashboardTypeSection, DateRangeSection, RepositorySection, UserSection, VisibilitySection } from './Sections';
 
 interface DashboardConfigModalProps {
   open: boolean;
@@ -24,14 +27,24 @@ interface DashboardConfigModalProps {
     users: GitHubUser[];
     activityConfig: Record<string, boolean>;
     isPublic: boolean;
+    excludeMergeCommits: boolean;
     dashboardTypeCode?: string;
+    defaultDateRange: DateRangePreset | null;
+    sprintStartDate: string | null;
+    sprintLengthDays: number;
   }) => void | Promise<void>;
   initialRepositories: string[];
   initialUsers: GitHubUser[];
   initialActivityConfig: Record<string, boolean>;
   initialIsPublic: boolean;
+  initialExcludeMergeCommits?: boolean;
   initialDashboardTypeCode?: string;
-  organizationRepos?: Array<{ full_name: string }>;
+  initialDefaultDateRange?: DateRangePreset | null;
+  initialSprintStartDate?: string | null;
+  initialSprintLengthDays?: number;
+  // Enables importing members from a GitHub organization or team, which saves them right away
+  dashboardId?: string;
+  onMembersImported?: () => void;
 }
 
 export function DashboardConfigModal({
@@ -42,22 +55,47 @@ export function DashboardConfigModal({
   initialUsers,
   initialActivityConfig,
   initialIsPublic,
+  initialExcludeMergeCommits = false,
   initialDashboardTypeCode = 'user_activity',
-  organizationRepos = []
+  initialDefaultDateRange = null,
+  initialSprintStartDate = null,
+  initialSprintLengthDays = 14,
+  dashboardId,
+  onMembersImported
 }: DashboardConfigModalProps): React.ReactElement {
   const [repositories, setRepositories] = useState<string[]>(initialRepositories);
   const [users, setUsers] = useState<GitHubUser[]>(initialUsers);
   const [activityConfig, setActivityConfig] = useState(initialActivityConfig);
   const [isPublic, setIsPublic] = useState<boolean>(initialIsPublic);
+  const [excludeMergeCommits, setExcludeMergeCommits] = useState<boolean>(initialExcludeMergeCommits);
   const [dashboardTypeCode, setDashboardTypeCode] = useState<string>(initialDashboardTypeCode);
+  const [defaultDateRange, setDefaultDateRange] = useState<DateRangePreset | null>(initialDefaultDateRange);
+  const [sprintStartDate, setSprintStartDate] = useState<string | null>(initialSprintStartDate);
+  const [sprintLengthDays, setSprintLengthDays] = useState<number>(initialSprintLengthDays);
   const [saving, setSaving] = useState(false);
+  // Why the last save failed; invalid repositories and users are listed individually
+  const [saveError, setSaveError] = useState<{ message: string; items: string[] } | null>(null);
   const initialValuesRef = useRef<{
     repositories: string[];
     users: GitHubUser[];
     activityConfig: Record<string, boolean>;
     isPublic: boolean;
+    excludeMergeCommits: boolean;
     dashboardTypeCode: string;
-  }>({ repositories: [], users: [], activityConfig: {}, isPublic: true, dashboardTypeCode: 'user_activity' });
+    defaultDateRange: DateRangePreset | null;
+    sprintStartDate: string | null;
+    sprintLengthDays: number;
+  }>({
+    repositories: [],
+    users: [],
+    activityConfig: {},
+    isPublic: true,
+    excludeMergeCommits: false,
+    dashboardTypeCode: 'user_activity',
+    defaultDateRange: null,
+    sprintStartDate: null,
+    sprintLengthDays: 14
+  });
 
   useEffect(() => {
     if (open) {
@@ -67,14 +105,23 @@ export function DashboardConfigModal({
         users: initialUsers || [],
         activityConfig: initialActivityConfig || {},
         isPublic: initialIsPublic ?? true,
-        dashboardTypeCode: initialDashboardTypeCode || 'user_activity'
+        excludeMergeCommits: initialExcludeMergeCommits ?? false,
+        dashboardTypeCode: initialDashboardTypeCode || 'user_activity',
+        defaultDateRange: initialDefaultDateRange ?? null,
+        sprintStartDate: initialSprintStartDate ?? null,
+        sprintLengthDays: initialSprintLengthDays ?? 14
       };
       
       setRepositories(initialValuesRef.current.repositories);
       setUsers(initialValuesRef.current.users);
       setActivityConfig(initialValuesRef.current.activityConfig);
       setIsPublic(initialValuesRef.current.isPublic);
+      setExcludeMergeCommits(initialValuesRef.current.excludeMergeCommits);
       setDashboardTypeCode(initialValuesRef.current.dashboardTypeCode);
+      setDefaultDateRange(initialValuesRef.current.defaultDateRange);
+      setSprintStartDate(initialValuesRef.current.sprintStartDate);
+      setSprintLengthDays(initialValuesRef.current.sprintLengthDays);
+      setSaveError(null);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
@@ -83,16 +130,25 @@ export function DashboardConfigModal({
   const handleSave = async () => {
     try {
       setSaving(true);
+      setSaveError(null);
       await onSave({
         repositories,
         users,
         activityConfig,
         isPublic,
-        dashboardTypeCode
+        excludeMergeCommits,
+        dashboardTypeCode,
+        defaultDateRange,
+        sprintStartDate,
+        sprintLengthDays
       });
       onClose();
     } catch (e) {
       console.error('Failed to save Dashboard Configuration', e);
+      setSaveError({
+        message: e instanceof Error ? e.message : 'Failed to save the dashboard configuration',
+        items: e instanceof DashboardConfigurationError ? e.errors.map(item => `${item.value}: ${item.message}`) : []
+      });
     } finally {
       setSaving(false);
     }
@@ -120,23 +176,45 @@ export function DashboardConfigModal({
       </DialogTitle>
       
       <DialogContent>
+        {saveError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {saveError.message}
+            {saveError.items.length > 0 && (
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {saveError.items.map(item => <li key={item}>{item}</li>)}
+              </Box>
+            )}
+          </Alert>
+        )}
         <Grid container spacing={3}>
           <RepositorySection
             repositories={repositories}
             onRepositoriesChange={setRepositories}
-            organizationRepos={organizationRepos}
           />
           
           <UserSection
             users={users}
             onUsersChange={setUsers}
+            dashboardId={dashboardId}
+            onMembersImported={onMembersImported}
           />
           
           <ActivityConfigSection
             activityConfig={activityConfig}
             onActivityConfigChange={setActivityConfig}
+            excludeMergeCommits={excludeMergeCommits}
+            onExcludeMergeCommitsChange={setExcludeMergeCommits}
           />
           
+          <DateRangeSection
+            defaultDateRange={defaultDateRange}
+            sprintStartDate={sprintStartDate}
+            sprintLengthDays={sprintLengthDays}
+            onDefaultDateRangeChange={setDefaultDateRange}
+            onSprintStartDateChange={setSprintStartDate}
+            onSprintLengthDaysChange={setSprintLengthDays}
+          />
+
           <VisibilitySection
             isPublic={isPublic}
             onIsPublicChange={setIsPublic}
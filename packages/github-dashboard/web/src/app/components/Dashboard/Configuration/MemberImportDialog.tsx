@@ -0,0 +1,253 @@
+import {
+  Alert,
+  Avatar,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useEffect, useState } from 'react';
+
+import { GitHubUser } from '../../../../types/github';
+import {
+  deleteMemberSync,
+  fetchMemberSync,
+  fetchOrganizationTeams,
+  GitHubTeam,
+  importMembers,
+  MemberImportCandidate,
+  MemberSync,
+  previewMemberImport
+} from '../../../api/member-import-client';
+
+// Team select value for the whole organization
+const WHOLE_ORGANIZATION = '';
+
+interface MemberImportDialogProps {
+  open: boolean;
+  dashboardId: string;
+  onClose: () => void;
+  // Called with the users added to the dashboard
+  onImported: (users: GitHubUser[]) => void;
+}
+
+export function MemberImportDialog({
+  open,
+  dashboardId,
+  onClose,
+  onImported
+}: MemberImportDialogProps) {
+  const [org, setOrg] = useState('');
+  const [teams, setTeams] = useState<GitHubTeam[]>([]);
+  const [team, setTeam] = useState(WHOLE_ORGANIZATION);
+  const [candidates, setCandidates] = useState<MemberImportCandidate[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [keepInSync, setKeepInSync] = useState(false);
+  const [sync, setSync] = useState<MemberSync | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setOrg('');
+      setTeams([]);
+      setTeam(WHOLE_ORGANIZATION);
+      setCandidates(null);
+      setSelected(new Set());
+      setKeepInSync(false);
+      setError(null);
+      fetchMemberSync(dashboardId).then(setSync).catch(() => setSync(null));
+    }
+  }, [open, dashboardId]);
+
+  const run = async (work: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await work();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadTeams = () => run(async () => {
+    setTeams(await fetchOrganizationTeams(org.trim()));
+    setTeam(WHOLE_ORGANIZATION);
+    setCandidates(null);
+  });
+
+  const handlePreview = () => run(async () => {
+    const members = await previewMemberImport(dashboardId, org.trim(), team || undefined);
+    setCandidates(members);
+    // Everyone not on the dashboard yet starts selected
+    setSelected(new Set(members.filter(member => !member.onDashboard).map(member => member.githubUsername)));
+  });
+
+  const handleImport = () => run(async () => {
+    const result = await importMembers(dashboardId, {
+      org: org.trim(),
+      team: team || undefined,
+      usernames: [...selected],
+      keepInSync
+    });
+    const added = new Set(result.added);
+    onImported((candidates ?? [])
+      .filter(member => added.has(member.githubUsername))
+      .map(member => ({
+        id: Number(member.githubUserId),
+        login: member.githubUsername,
+        avatar_url: member.avatarUrl,
+        html_url: member.profileUrl
+      }) as GitHubUser));
+    if (result.errors.length > 0) {
+      setError(result.errors.map(item => item.message).join(', '));
+      return;
+    }
+    onClose();
+  });
+
+  const handleStopSync = () => run(async () => {
+    await deleteMemberSync(dashboardId);
+    setSync(null);
+  });
+
+  const toggle = (username: string) => {
+    const next = new Set(selected);
+    if (next.has(username)) {
+      next.delete(username);
+    } else {
+      next.add(username);
+    }
+    setSelected(next);
+  };
+
+  const selectable = (candidates ?? []).filter(member => !member.onDashboard);
+  const allSelected = selectable.length > 0 && selectable.every(member => selected.has(member.githubUsername));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import from organization or team</DialogTitle>
+      <DialogContent>
+        {sync && (
+          <Alert
+            severity={sync.lastError ? 'warning' : 'info'}
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={handleStopSync} disabled={loading}>Stop syncing</Button>}
+          >
+            Members are kept in sync with {sync.team ? `${sync.org}/${sync.team}` : sync.org}
+            {sync.lastError && ` (last sync failed: ${sync.lastError})`}
+          </Alert>
+        )}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Box display="flex" gap={2} pt={1} mb={2}>
+          <TextField
+            fullWidth
+            label="Organization"
+            value={org}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOrg(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter' && org.trim()) {
+                e.preventDefault();
+                handleLoadTeams();
+              }
+            }}
+            placeholder="e.g., my-org"
+          />
+          <Button variant="outlined" onClick={handleLoadTeams} disabled={!org.trim() || loading}>
+            Load teams
+          </Button>
+        </Box>
+
+        <Box display="flex" gap={2} mb={2}>
+          <TextField
+            select
+            fullWidth
+            label="Team"
+            value={team}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setTeam(e.target.value);
+              setCandidates(null);
+            }}
+            disabled={teams.length === 0}
+          >
+            <MenuItem value={WHOLE_ORGANIZATION}>Whole organization</MenuItem>
+            {teams.map(option => (
+              <MenuItem key={option.slug} value={option.slug}>{option.name}</MenuItem>
+            ))}
+          </TextField>
+          <Button variant="outlined" onClick={handlePreview} disabled={!org.trim() || loading}>
+            Preview
+          </Button>
+        </Box>
+
+        {candidates && (
+          <>
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Typography variant="body2" color="text.secondary">
+                {selected.size} of {selectable.length} new members selected
+              </Typography>
+              <Button
+                size="small"
+                onClick={() => setSelected(allSelected ? new Set() : new Set(selectable.map(member => member.githubUsername)))}
+                disabled={selectable.length === 0}
+              >
+                {allSelected ? 'Select none' : 'Select all'}
+              </Button>
+            </Box>
+            <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+              {candidates.map(member => (
+                <ListItem key={member.githubUserId} disablePadding>
+                  <ListItemButton onClick={() => toggle(member.githubUsername)} disabled={member.onDashboard}>
+                    <Checkbox
+                      edge="start"
+                      checked={member.onDashboard || selected.has(member.githubUsername)}
+                      tabIndex={-1}
+                      disableRipple
+                    />
+                    <ListItemAvatar>
+                      <Avatar src={member.avatarUrl} alt={member.githubUsername} />
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={member.githubUsername}
+                      secondary={member.onDashboard ? 'Already on the dashboard' : undefined}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+            <FormControlLabel
+              control={<Switch checked={keepInSync} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKeepInSync(e.target.checked)} />}
+              label="Keep in sync: add members who join later and remove those who leave"
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>Cancel</Button>
+        <Button
+          onClick={handleImport}
+          variant="contained"
+          disabled={!candidates || (selected.size === 0 && !keepInSync) || loading}
+        >
+          {loading ? 'Working...' : `Import ${selected.size} member${selected.size === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
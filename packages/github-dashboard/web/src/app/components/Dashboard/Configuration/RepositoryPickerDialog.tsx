@@ -0,0 +1,218 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useEffect, useState } from 'react';
+
+import { GitHubRepo } from '../../../../types/github';
+import { RepositorySearchFilters, searchOrganizationRepositories } from '../../../api/repository-search-client';
+
+const PAGE_SIZE = 30;
+
+interface RepositoryPickerDialogProps {
+  open: boolean;
+  // Repositories already on the dashboard (owner/repo)
+  repositories: string[];
+  onClose: () => void;
+  onAdd: (repositories: string[]) => void;
+}
+
+export function RepositoryPickerDialog({
+  open,
+  repositories,
+  onClose,
+  onAdd
+}: RepositoryPickerDialogProps) {
+  const [org, setOrg] = useState('');
+  const [query, setQuery] = useState('');
+  const [language, setLanguage] = useState('');
+  const [visibility, setVisibility] = useState('');
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [pushedAfter, setPushedAfter] = useState('');
+  const [results, setResults] = useState<GitHubRepo[]>([]);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setResults([]);
+      setTotalCount(null);
+      setPage(1);
+      setSelected(new Set());
+      setError(null);
+    }
+  }, [open]);
+
+  const alreadyAdded = new Set(repositories.map(name => name.toLowerCase()));
+
+  const search = async (nextPage: number) => {
+    const filters: RepositorySearchFilters = {
+      q: query.trim() || undefined,
+      language: language.trim() || undefined,
+      archived: includeArchived ? undefined : false,
+      visibility: (visibility || undefined) as RepositorySearchFilters['visibility'],
+      pushedAfter: pushedAfter || undefined
+    };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await searchOrganizationRepositories(org.trim(), filters, nextPage, PAGE_SIZE);
+      setResults(nextPage === 1 ? result.items : [...results, ...result.items]);
+      setTotalCount(result.totalCount);
+      setPage(nextPage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (fullName: string) => {
+    const next = new Set(selected);
+    if (next.has(fullName)) {
+      next.delete(fullName);
+    } else {
+      next.add(fullName);
+    }
+    setSelected(next);
+  };
+
+  const handleAdd = () => {
+    onAdd([...selected]);
+    onClose();
+  };
+
+  // GitHub search only pages through the first 1000 results
+  const hasMore = totalCount !== null && results.length < Math.min(totalCount, 1000);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Find repositories</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Box display="flex" flexWrap="wrap" gap={2} pt={1} mb={2}>
+          <TextField
+            label="Organization"
+            value={org}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOrg(e.target.value)}
+            placeholder="e.g., my-org"
+            sx={{ flex: '1 1 180px' }}
+          />
+          <TextField
+            label="Name contains"
+            value={query}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === 'Enter' && org.trim()) {
+                e.preventDefault();
+                search(1);
+              }
+            }}
+            sx={{ flex: '1 1 180px' }}
+          />
+          <TextField
+            label="Language"
+            value={language}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLanguage(e.target.value)}
+            placeholder="e.g., TypeScript"
+            sx={{ flex: '1 1 140px' }}
+          />
+          <TextField
+            select
+            label="Visibility"
+            value={visibility}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVisibility(e.target.value)}
+            sx={{ flex: '1 1 140px' }}
+          >
+            <MenuItem value="">Any</MenuItem>
+            <MenuItem value="public">Public</MenuItem>
+            <MenuItem value="private">Private</MenuItem>
+            <MenuItem value="internal">Internal</MenuItem>
+          </TextField>
+          <TextField
+            type="date"
+            label="Pushed since"
+            value={pushedAfter}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPushedAfter(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: '1 1 160px' }}
+          />
+          <FormControlLabel
+            control={<Switch checked={includeArchived} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIncludeArchived(e.target.checked)} />}
+            label="Include archived"
+          />
+          <Button variant="outlined" onClick={() => search(1)} disabled={!org.trim() || loading}>
+            Search
+          </Button>
+        </Box>
+
+        {totalCount !== null && (
+          <Typography variant="body2" color="text.secondary">
+            {totalCount} repositor{totalCount === 1 ? 'y' : 'ies'} found
+          </Typography>
+        )}
+        <List dense sx={{ maxHeight: 360, overflow: 'auto' }}>
+          {results.map(repo => {
+            const added = alreadyAdded.has(repo.full_name.toLowerCase());
+            return (
+              <ListItem key={repo.id} disablePadding>
+                <ListItemButton onClick={() => toggle(repo.full_name)} disabled={added}>
+                  <Checkbox
+                    edge="start"
+                    checked={added || selected.has(repo.full_name)}
+                    tabIndex={-1}
+                    disableRipple
+                  />
+                  <ListItemText
+                    primary={repo.full_name}
+                    secondary={[
+                      repo.language,
+                      repo.pushed_at && `pushed ${new Date(repo.pushed_at).toLocaleDateString()}`,
+                      added && 'already on the dashboard'
+                    ].filter(Boolean).join(' · ')}
+                  />
+                  <Box display="flex" gap={0.5}>
+                    {repo.visibility !== 'public' && <Chip size="small" label={repo.visibility} />}
+                    {repo.archived && <Chip size="small" color="warning" label="archived" />}
+                  </Box>
+                </ListItemButton>
+              </ListItem>
+            );
+          })}
+        </List>
+        {hasMore && (
+          <Box display="flex" justifyContent="center">
+            <Button onClick={() => search(page + 1)} disabled={loading}>Load more</Button>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleAdd} variant="contained" disabled={selected.size === 0}>
+          {`Add ${selected.size} repositor${selected.size === 1 ? 'y' : 'ies'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
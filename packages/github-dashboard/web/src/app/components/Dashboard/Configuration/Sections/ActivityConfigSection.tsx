@@ -7,23 +7,23 @@ import {
   Typography
 } from '@mui/material';
 
-// Hardcoded activity types - these match the database
-// IDs are from the migration file: 0002_volatile_swarm.sql
-const ACTIVITY_TYPES = [
-  { id: '42c3b89d-2897-4109-a5e7-3406b773bbb4', code: 'prs_created', displayName: 'PRs Created' },
-  { id: 'dff9302a-d6f0-49d1-9fb3-6414801eab46', code: 'prs_merged', displayName: 'PRs Merged' },
-  { id: '7adbc498-4789-40ec-9be1-1bb3bf408e9f', code: 'prs_reviewed', displayName: 'PRs Reviewed' },
-];
+import { useTypeRegistry } from '../../../../hooks';
 
 interface ActivityConfigSectionProps {
   activityConfig: Record<string, boolean>;
   onActivityConfigChange: (activityConfig: Record<string, boolean>) => void;
+  excludeMergeCommits: boolean;
+  onExcludeMergeCommitsChange: (excludeMergeCommits: boolean) => void;
 }
 
 export function ActivityConfigSection({
   activityConfig,
-  onActivityConfigChange
+  onActivityConfigChange,
+  excludeMergeCommits,
+  onExcludeMergeCommitsChange
 }: ActivityConfigSectionProps) {
+  const { activityTypes, loading, error } = useTypeRegistry();
+
   const handleActivityConfigChange = (key: string, value: boolean) => {
     onActivityConfigChange({
       ...activityConfig,
@@ -39,8 +39,19 @@ export function ActivityConfigSection({
             Activity Types
           </Typography>
           
+          {loading && (
+            <Typography variant="body2" color="text.secondary">
+              Loading activity types...
+            </Typography>
+          )}
+          {error && (
+            <Typography variant="body2" color="error">
+              {error}
+            </Typography>
+          )}
+
           <Grid container spacing={2}>
-            {ACTIVITY_TYPES.map((activityType) => (
+            {activityTypes.map((activityType) => (
               <Grid item xs={12} sm={6} key={activityType.id}>
                 <FormControlLabel
                   control={
@@ -53,6 +64,19 @@ export function ActivityConfigSection({
                 />
               </Grid>
             ))}
+            {activityConfig['commits'] && (
+              <Grid item xs={12} sm={6}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={excludeMergeCommits}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => onExcludeMergeCommitsChange(e.target.checked)}
+                    />
+                  }
+                  label="Exclude merge commits"
+                />
+              </Grid>
+            )}
           </Grid>
         </CardContent>
       </Card>
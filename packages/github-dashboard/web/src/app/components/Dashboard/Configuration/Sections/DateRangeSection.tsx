@@ -0,0 +1,83 @@
+import {
+  Box,
+  Card,
+  CardContent,
+  Grid,
+  MenuItem,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import { DATE_RANGE_PRESETS, DateRangePreset } from '../../../../api/date-ranges';
+
+// Select value for dashboards without a default range
+const NO_DEFAULT = '';
+
+interface DateRangeSectionProps {
+  defaultDateRange: DateRangePreset | null;
+  sprintStartDate: string | null;
+  sprintLengthDays: number;
+  onDefaultDateRangeChange: (defaultDateRange: DateRangePreset | null) => void;
+  onSprintStartDateChange: (sprintStartDate: string | null) => void;
+  onSprintLengthDaysChange: (sprintLengthDays: number) => void;
+}
+
+export function DateRangeSection({
+  defaultDateRange,
+  sprintStartDate,
+  sprintLengthDays,
+  onDefaultDateRangeChange,
+  onSprintStartDateChange,
+  onSprintLengthDaysChange
+}: DateRangeSectionProps) {
+  const needsSprint = defaultDateRange === 'current_sprint' && !sprintStartDate;
+
+  return (
+    <Grid item xs={12}>
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Default Date Range
+          </Typography>
+
+          <Box display="flex" flexWrap="wrap" gap={2}>
+            <TextField
+              select
+              label="Opens with"
+              value={defaultDateRange ?? NO_DEFAULT}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onDefaultDateRangeChange((e.target.value || null) as DateRangePreset | null)}
+              sx={{ flex: '1 1 200px' }}
+            >
+              <MenuItem value={NO_DEFAULT}>Last 30 Days (standard)</MenuItem>
+              {DATE_RANGE_PRESETS.map(preset => (
+                <MenuItem key={preset.code} value={preset.code}>{preset.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="date"
+              label="Sprint starts on"
+              value={sprintStartDate ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSprintStartDateChange(e.target.value || null)}
+              InputLabelProps={{ shrink: true }}
+              error={needsSprint}
+              helperText={needsSprint ? 'The current sprint needs the first day of any sprint' : 'First day of any sprint'}
+              sx={{ flex: '1 1 180px' }}
+            />
+            <TextField
+              type="number"
+              label="Sprint length (days)"
+              value={sprintLengthDays}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSprintLengthDaysChange(Number(e.target.value))}
+              inputProps={{ min: 1, max: 56 }}
+              sx={{ flex: '1 1 140px' }}
+            />
+          </Box>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Rolling ranges move with today; links with a date range in them open that range instead
+          </Typography>
+        </CardContent>
+      </Card>
+    </Grid>
+  );
+}
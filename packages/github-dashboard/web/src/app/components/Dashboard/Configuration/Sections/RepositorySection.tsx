@@ -1,43 +1,76 @@
-import { Add, Delete } from '@mui/icons-material';
+import { Add, Delete, Search } from '@mui/icons-material';
 import {
   Box,
   Button,
   Card,
   CardContent,
   Chip,
-  FormControl,
   Grid,
-  InputLabel,
-  MenuItem,
-  Select,
   TextField,
   Typography
 } from '@mui/material';
 import { useState } from 'react';
 
+import { matchOrganizationRepositories } from '../../../../api/repository-search-client';
+import { RepositoryPickerDialog } from '../RepositoryPickerDialog';
+
+// owner/repo, owner/service-* (name glob) or owner/topic:backend
+const REPOSITORY_PATTERN = /^([\w.-]+)\/([\w.-]+)$/;
+const GLOB_PATTERN = /^([\w.-]+)\/([\w.*?-]*[*?][\w.*?-]*)$/;
+const TOPIC_PATTERN = /^([\w.-]+)\/topic:([a-z0-9][a-z0-9-]*)$/;
+
 interface RepositorySectionProps {
   repositories: string[];
   onRepositoriesChange: (repositories: string[]) => void;
-  organizationRepos?: Array<{ full_name: string }>;
 }
 
 export function RepositorySection({
   repositories,
-  onRepositoriesChange,
-  organizationRepos = []
+  onRepositoriesChange
 }: RepositorySectionProps) {
   const [selectedRepoToAdd, setSelectedRepoToAdd] = useState<string>('');
-  const hasOrgRepos = (organizationRepos?.length ?? 0) > 0;
+  const [matching, setMatching] = useState(false);
+  const [repoMessage, setRepoMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
 
-  const addRepoFromInput = () => {
+  const addRepositories = (names: string[]) => {
+    const known = new Set(repositories.map(name => name.toLowerCase()));
+    const added = names.filter(name => !known.has(name.toLowerCase()));
+    if (added.length > 0) {
+      onRepositoriesChange([...repositories, ...added]);
+    }
+    return added.length;
+  };
+
+  const addRepoFromInput = async () => {
     const value = selectedRepoToAdd.trim();
-    if (!value) return;
-    // Minimal owner/repo validation when free text
-    const isValid = hasOrgRepos || /.+\/.+/.test(value);
-    if (!isValid) return;
-    if (!repositories.includes(value)) {
-      onRepositoriesChange([...repositories, value]);
+    if (!value || matching) return;
+    setRepoMessage(null);
+
+    const glob = GLOB_PATTERN.exec(value);
+    const topic = TOPIC_PATTERN.exec(value);
+    if (glob || topic) {
+      // Patterns are expanded to the repositories matching them now; later matches aren't added automatically
+      const [, org, term] = (glob ?? topic) as RegExpExecArray;
+      setMatching(true);
+      try {
+        const matches = await matchOrganizationRepositories(org, glob ? { pattern: term } : { topic: term });
+        const added = addRepositories(matches.map(repo => repo.full_name));
+        setRepoMessage({ text: `${matches.length} matched, ${added} added`, error: matches.length === 0 });
+        setSelectedRepoToAdd('');
+      } catch (err) {
+        setRepoMessage({ text: err instanceof Error ? err.message : `Couldn't match '${value}'`, error: true });
+      } finally {
+        setMatching(false);
+      }
+      return;
+    }
+
+    if (!REPOSITORY_PATTERN.test(value)) {
+      setRepoMessage({ text: 'Use owner/repo, owner/name-* or owner/topic:name', error: true });
+      return;
     }
+    addRepositories([value]);
     setSelectedRepoToAdd('');
   };
 
@@ -56,57 +89,41 @@ export function RepositorySection({
           <Typography variant="h6" gutterBottom>
             Repositories
           </Typography>
-          
+
           <Box display="flex" gap={2} mb={2}>
-            {hasOrgRepos ? (
-              <FormControl fullWidth>
-                <InputLabel>Add Repository</InputLabel>
-                <Select
-                  value={selectedRepoToAdd}
-                  onChange={(e: React.ChangeEvent<{ value: unknown }>) => setSelectedRepoToAdd(e.target.value as string)}
-                  MenuProps={{
-                    PaperProps: {
-                      style: {
-                        maxHeight: 300,
-                        zIndex: 9999
-                      }
-                    }
-                  }}
-                >
-                  {(organizationRepos || [])
-                    .filter(repo => !repositories.includes(repo.full_name))
-                    .map(repo => (
-                      <MenuItem key={repo.full_name} value={repo.full_name}>
-                        {repo.full_name}
-                      </MenuItem>
-                    ))
-                  }
-                </Select>
-              </FormControl>
-            ) : (
-              <TextField
-                fullWidth
-                label="Repository (owner/name)"
-                placeholder="e.g., vercel/next.js"
-                value={selectedRepoToAdd}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSelectedRepoToAdd(e.target.value)}
-                onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
-                  if (e.key === 'Enter') {
-                    e.preventDefault();
-                    addRepoFromInput();
-                  }
-                }}
-                helperText="Press Enter to add"
-              />
-            )}
+            <TextField
+              fullWidth
+              label="Repository (owner/name)"
+              placeholder="e.g., vercel/next.js, acme/service-* or acme/topic:backend"
+              value={selectedRepoToAdd}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setSelectedRepoToAdd(e.target.value);
+                setRepoMessage(null);
+              }}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addRepoFromInput();
+                }
+              }}
+              error={!!repoMessage?.error}
+              helperText={repoMessage?.text || (matching ? 'Looking up matching repositories...' : 'Press Enter to add')}
+            />
             <Button
               variant="outlined"
               startIcon={<Add />}
               onClick={handleAddRepository}
-              disabled={!selectedRepoToAdd}
+              disabled={!selectedRepoToAdd.trim() || matching}
             >
               Add
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Search />}
+              onClick={() => setPickerOpen(true)}
+            >
+              Browse
+            </Button>
           </Box>
 
           <Box display="flex" flexWrap="wrap" gap={1}>
@@ -121,6 +138,12 @@ export function RepositorySection({
           </Box>
         </CardContent>
       </Card>
+      <RepositoryPickerDialog
+        open={pickerOpen}
+        repositories={repositories}
+        onClose={() => setPickerOpen(false)}
+        onAdd={addRepositories}
+      />
     </Grid>
   );
 }
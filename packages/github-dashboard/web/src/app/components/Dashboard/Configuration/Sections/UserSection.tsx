@@ -1,4 +1,4 @@
-import { Add, Delete } from '@mui/icons-material';
+import { Add, Delete, GroupAdd } from '@mui/icons-material';
 import {
   Box,
   Button,
@@ -12,45 +12,62 @@ import {
 import { useState } from 'react';
 
 import { GitHubUser } from '../../../../../types/github';
+import { fetchGitHubUser } from '../../../../api/github-client';
+import { MemberImportDialog } from '../MemberImportDialog';
 
 interface UserSectionProps {
   users: GitHubUser[];
   onUsersChange: (users: GitHubUser[]) => void;
+  // Importing from an organization or team saves right away, so it needs the dashboard
+  dashboardId?: string;
+  onMembersImported?: () => void;
 }
 
 export function UserSection({
   users,
-  onUsersChange
+  onUsersChange,
+  dashboardId,
+  onMembersImported
 }: UserSectionProps) {
   const [selectedUserToAdd, setSelectedUserToAdd] = useState<string>('');
+  const [checkingUser, setCheckingUser] = useState(false);
+  const [userError, setUserError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
-  const addUserFromInput = () => {
-    const raw = selectedUserToAdd.trim();
-    if (!raw) return;
-    const username = raw.replace(/^@/, '');
-    if (!users.find(u => (u as GitHubUser).login === username)) {
-      const newUser = {
-        id: Date.now(),
-        login: username,
-        name: username,
-        avatar_url: `https://github.com/${username}.png`,
-        html_url: `https://github.com/${username}`,
-        public_repos: 0,
-        followers: 0,
-        following: 0,
-        public_gists: 0,
-        created_at: '',
-        updated_at: ''
-      } as GitHubUser;
-      onUsersChange([...users, newUser]);
+  // Users are looked up on GitHub before they're added, so only real accounts (with their ids) are saved
+  const addUserFromInput = async () => {
+    const username = selectedUserToAdd.trim().replace(/^@/, '');
+    if (!username || checkingUser) return;
+    if (users.find(u => u.login.toLowerCase() === username.toLowerCase())) {
+      setSelectedUserToAdd('');
+      return;
+    }
+
+    setCheckingUser(true);
+    setUserError(null);
+    try {
+      const user = await fetchGitHubUser(username);
+      // The lookup follows renames, so the resolved login may already be listed
+      if (!users.find(u => u.id === user.id)) {
+        onUsersChange([...users, user]);
+      }
+      setSelectedUserToAdd('');
+    } catch (err) {
+      setUserError(err instanceof Error ? err.message : `Couldn't look up '${username}'`);
+    } finally {
+      setCheckingUser(false);
     }
-    setSelectedUserToAdd('');
   };
 
   const handleAddUser = () => {
     addUserFromInput();
   };
 
+  const handleMembersImported = (imported: GitHubUser[]) => {
+    onUsersChange([...users, ...imported.filter(user => !users.find(u => u.id === user.id))]);
+    onMembersImported?.();
+  };
+
   const handleRemoveUser = (userLogin: string) => {
     onUsersChange(users.filter(u => (u as GitHubUser).login !== userLogin));
   };
@@ -68,7 +85,10 @@ export function UserSection({
               fullWidth
               label="GitHub Username"
               value={selectedUserToAdd}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSelectedUserToAdd(e.target.value)}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setSelectedUserToAdd(e.target.value);
+                setUserError(null);
+              }}
               onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
                 if (e.key === 'Enter') {
                   e.preventDefault();
@@ -76,16 +96,27 @@ export function UserSection({
                 }
               }}
               placeholder="e.g., octocat"
-              helperText="Press Enter to add"
+              error={!!userError}
+              helperText={userError || (checkingUser ? 'Looking up user on GitHub...' : 'Press Enter to add')}
             />
             <Button
               variant="outlined"
               startIcon={<Add />}
               onClick={handleAddUser}
-              disabled={!selectedUserToAdd.trim()}
+              disabled={!selectedUserToAdd.trim() || checkingUser}
             >
               Add
             </Button>
+            {dashboardId && (
+              <Button
+                variant="outlined"
+                startIcon={<GroupAdd />}
+                onClick={() => setImportOpen(true)}
+                sx={{ whiteSpace: 'nowrap' }}
+              >
+                Import
+              </Button>
+            )}
           </Box>
 
           <Box display="flex" flexWrap="wrap" gap={1}>
@@ -102,6 +133,14 @@ export function UserSection({
           </Box>
         </CardContent>
       </Card>
+      {dashboardId && (
+        <MemberImportDialog
+          open={importOpen}
+          dashboardId={dashboardId}
+          onClose={() => setImportOpen(false)}
+          onImported={handleMembersImported}
+        />
+      )}
     </Grid>
   );
 }
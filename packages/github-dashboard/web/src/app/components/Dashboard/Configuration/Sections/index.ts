@@ -1,5 +1,6 @@
 export { ActivityConfigSection } from './ActivityConfigSection';
 export { DashboardTypeSection } from './DashboardTypeSection';
+export { DateRangeSection } from './DateRangeSection';
 export { RepositorySection } from './RepositorySection';
 export { UserSection } from './UserSection';
 export { VisibilitySection } from './VisibilitySection';
@@ -14,6 +14,9 @@ interface DashboardHeaderProps {
   dashboardName: string;
   dashboardDescription?: string;
   dashboardId: string;
+  // Date range of exports
+  startDate?: string;
+  endDate?: string;
   onBackClick: () => void;
   onConfigureClick: () => void;
 }
@@ -22,10 +25,12 @@ export function DashboardHeader({
   dashboardName,
   dashboardDescription,
   dashboardId,
+  startDate,
+  endDate,
   onBackClick,
   onConfigureClick
 }: DashboardHeaderProps): React.ReactElement {
-  const { isPremium, hasFeature } = useClientContext();
+  const { isPremium, hasFeature, canEdit } = useClientContext();
 
   return (
     <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
@@ -61,15 +66,17 @@ export function DashboardHeader({
       </Box>
       <Box display="flex" gap={2}>
         {hasFeature('export') && (
-          <ExportButton dashboardId={dashboardId} dashboardName={dashboardName} />
+          <ExportButton dashboardId={dashboardId} dashboardName={dashboardName} startDate={startDate} endDate={endDate} />
+        )}
+        {canEdit && (
+          <Button
+            variant="outlined"
+            startIcon={<SettingsIcon />}
+            onClick={onConfigureClick}
+          >
+            Configure Dashboard
+          </Button>
         )}
-        <Button
-          variant="outlined"
-          startIcon={<SettingsIcon />}
-          onClick={onConfigureClick}
-        >
-          Configure Dashboard
-        </Button>
       </Box>
     </Box>
   );
@@ -1,16 +1,22 @@
-import { Box, Card, CardContent, Grid, Typography } from '@mui/material';
+import { Box, Card, CardContent, CircularProgress, Grid, Typography } from '@mui/material';
 import React from 'react';
 
 interface UserActivity {
   user: {
     login: string;
-    name: string;
+    name?: string;
     avatar_url: string;
   };
-  totalActivity: number;
-  prsCreated: number;
-  prsReviewed: number;
-  prsMerged: number;
+  activity: {
+    totalActivity: number;
+    prsCreated: number;
+    prsReviewed: number;
+    prsMerged: number;
+    commits?: number;
+    issues?: number;
+  };
+  loading?: boolean;
+  error?: string;
 }
 
 interface DashboardLayoutsProps {
@@ -23,15 +29,15 @@ interface DashboardLayoutsProps {
 function UserActivityLayout({ userActivities, sortBy }: { userActivities: UserActivity[]; sortBy: string }) {
   return (
     <Grid container spacing={3}>
-      {userActivities.map((activity, index) => (
-        <Grid item xs={12} sm={6} md={4} key={activity.user.login}>
+      {userActivities.map((userActivity) => (
+        <Grid item xs={12} sm={6} md={4} key={userActivity.user.login}>
           <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
             <CardContent sx={{ flexGrow: 1 }}>
               <Box display="flex" alignItems="center" mb={2}>
                 <Box
                   component="img"
-                  src={activity.user.avatar_url}
-                  alt={activity.user.name}
+                  src={userActivity.user.avatar_url}
+                  alt={userActivity.user.name}
                   sx={{
                     width: 40,
                     height: 40,
@@ -41,41 +47,66 @@ function UserActivityLayout({ userActivities, sortBy }: { userActivities: UserAc
                 />
                 <Box>
                   <Typography variant="h6" component="div">
-                    {activity.user.name}
+                    {userActivity.user.name}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
-                    @{activity.user.login}
+                    @{userActivity.user.login}
                   </Typography>
                 </Box>
+                {userActivity.loading && <CircularProgress size={20} sx={{ ml: 'auto' }} />}
               </Box>
+
+              {userActivity.error && (
+                <Typography variant="body2" color="error" mb={1}>
+                  {userActivity.error}
+                </Typography>
+              )}
               
               <Box display="flex" justifyContent="space-between" mb={1}>
                 <Typography variant="body2">Total Activity:</Typography>
                 <Typography variant="body2" fontWeight="bold">
-                  {activity.totalActivity || 0}
+                  {userActivity.activity.totalActivity || 0}
                 </Typography>
               </Box>
               
               <Box display="flex" justifyContent="space-between" mb={1}>
                 <Typography variant="body2">PRs Created:</Typography>
                 <Typography variant="body2" fontWeight="bold" color="primary.main">
-                  {activity.prsCreated || 0}
+                  {userActivity.activity.prsCreated || 0}
                 </Typography>
               </Box>
               
               <Box display="flex" justifyContent="space-between" mb={1}>
                 <Typography variant="body2">PRs Reviewed:</Typography>
                 <Typography variant="body2" fontWeight="bold" color="secondary.main">
-                  {activity.prsReviewed || 0}
+                  {userActivity.activity.prsReviewed || 0}
                 </Typography>
               </Box>
               
               <Box display="flex" justifyContent="space-between">
                 <Typography variant="body2">PRs Merged:</Typography>
                 <Typography variant="body2" fontWeight="bold" color="success.main">
-                  {activity.prsMerged || 0}
+                  {userActivity.activity.prsMerged || 0}
                 </Typography>
               </Box>
+
+              {userActivity.activity.commits !== undefined && (
+                <Box display="flex" justifyContent="space-between" mt={1}>
+                  <Typography variant="body2">Commits:</Typography>
+                  <Typography variant="body2" fontWeight="bold" color="info.main">
+                    {userActivity.activity.commits}
+                  </Typography>
+                </Box>
+              )}
+
+              {userActivity.activity.issues !== undefined && (
+                <Box display="flex" justifyContent="space-between" mt={1}>
+                  <Typography variant="body2">Issues:</Typography>
+                  <Typography variant="body2" fontWeight="bold" color="warning.main">
+                    {userActivity.activity.issues}
+                  </Typography>
+                </Box>
+              )}
             </CardContent>
           </Card>
         </Grid>
@@ -87,14 +118,19 @@ function UserActivityLayout({ userActivities, sortBy }: { userActivities: UserAc
 // Team Overview Layout - Team-wide summary with charts
 function TeamOverviewLayout({ userActivities, sortBy }: { userActivities: UserActivity[]; sortBy: string }) {
   const totalStats = userActivities.reduce(
-    (acc, activity) => ({
-      totalActivity: acc.totalActivity + (activity.totalActivity || 0),
-      prsCreated: acc.prsCreated + (activity.prsCreated || 0),
-      prsReviewed: acc.prsReviewed + (activity.prsReviewed || 0),
-      prsMerged: acc.prsMerged + (activity.prsMerged || 0),
+    (acc, userActivity) => ({
+      totalActivity: acc.totalActivity + (userActivity.activity.totalActivity || 0),
+      prsCreated: acc.prsCreated + (userActivity.activity.prsCreated || 0),
+      prsReviewed: acc.prsReviewed + (userActivity.activity.prsReviewed || 0),
+      prsMerged: acc.prsMerged + (userActivity.activity.prsMerged || 0),
+      commits: acc.commits + (userActivity.activity.commits || 0),
+      issues: acc.issues + (userActivity.activity.issues || 0),
     }),
-    { totalActivity: 0, prsCreated: 0, prsReviewed: 0, prsMerged: 0 }
+    { totalActivity: 0, prsCreated: 0, prsReviewed: 0, prsMerged: 0, commits: 0, issues: 0 }
   );
+  // Commit and issue totals only for dashboards that track them
+  const tracksCommits = userActivities.some(userActivity => userActivity.activity.commits !== undefined);
+  const tracksIssues = userActivities.some(userActivity => userActivity.activity.issues !== undefined);
 
   return (
     <Box>
@@ -148,6 +184,34 @@ function TeamOverviewLayout({ userActivities, sortBy }: { userActivities: UserAc
             </CardContent>
           </Card>
         </Grid>
+        {tracksCommits && (
+          <Grid item xs={12} sm={6} md={3}>
+            <Card>
+              <CardContent>
+                <Typography variant="h4" color="info.main" gutterBottom>
+                  {totalStats.commits}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Commits
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+        {tracksIssues && (
+          <Grid item xs={12} sm={6} md={3}>
+            <Card>
+              <CardContent>
+                <Typography variant="h4" color="warning.main" gutterBottom>
+                  {totalStats.issues}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Issues
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
       </Grid>
 
       {/* Team Members List */}
@@ -157,13 +221,13 @@ function TeamOverviewLayout({ userActivities, sortBy }: { userActivities: UserAc
             Team Members ({userActivities.length})
           </Typography>
           <Grid container spacing={2}>
-            {userActivities.map((activity) => (
-              <Grid item xs={12} sm={6} md={4} key={activity.user.login}>
+            {userActivities.map((userActivity) => (
+              <Grid item xs={12} sm={6} md={4} key={userActivity.user.login}>
                 <Box display="flex" alignItems="center" p={2} sx={{ border: 1, borderColor: 'divider', borderRadius: 1 }}>
                   <Box
                     component="img"
-                    src={activity.user.avatar_url}
-                    alt={activity.user.name}
+                    src={userActivity.user.avatar_url}
+                    alt={userActivity.user.name}
                     sx={{
                       width: 32,
                       height: 32,
@@ -173,10 +237,10 @@ function TeamOverviewLayout({ userActivities, sortBy }: { userActivities: UserAc
                   />
                   <Box flexGrow={1}>
                     <Typography variant="body2" fontWeight="bold">
-                      {activity.user.name}
+                      {userActivity.user.name}
                     </Typography>
                     <Typography variant="caption" color="text.secondary">
-                      {activity.totalActivity || 0} total activity
+                      {userActivity.activity.totalActivity || 0} total activity
                     </Typography>
                   </Box>
                 </Box>
@@ -192,9 +256,9 @@ function TeamOverviewLayout({ userActivities, sortBy }: { userActivities: UserAc
 // Project Focus Layout - Repository and project metrics
 function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserActivity[]; sortBy: string }) {
   // Group by activity level for project focus
-  const highActivityUsers = userActivities.filter(a => (a.totalActivity || 0) > 10);
-  const mediumActivityUsers = userActivities.filter(a => (a.totalActivity || 0) > 5 && (a.totalActivity || 0) <= 10);
-  const lowActivityUsers = userActivities.filter(a => (a.totalActivity || 0) <= 5);
+  const highActivityUsers = userActivities.filter(a => (a.activity.totalActivity || 0) > 10);
+  const mediumActivityUsers = userActivities.filter(a => (a.activity.totalActivity || 0) > 5 && (a.activity.totalActivity || 0) <= 10);
+  const lowActivityUsers = userActivities.filter(a => (a.activity.totalActivity || 0) <= 5);
 
   return (
     <Box>
@@ -209,13 +273,13 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
             High Activity Contributors ({highActivityUsers.length})
           </Typography>
           <Grid container spacing={2}>
-            {highActivityUsers.map((activity) => (
-              <Grid item xs={12} sm={6} md={4} key={activity.user.login}>
+            {highActivityUsers.map((userActivity) => (
+              <Grid item xs={12} sm={6} md={4} key={userActivity.user.login}>
                 <Box display="flex" alignItems="center" p={2} sx={{ bgcolor: 'success.light', borderRadius: 1 }}>
                   <Box
                     component="img"
-                    src={activity.user.avatar_url}
-                    alt={activity.user.name}
+                    src={userActivity.user.avatar_url}
+                    alt={userActivity.user.name}
                     sx={{
                       width: 40,
                       height: 40,
@@ -225,10 +289,10 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
                   />
                   <Box>
                     <Typography variant="body2" fontWeight="bold">
-                      {activity.user.name}
+                      {userActivity.user.name}
                     </Typography>
                     <Typography variant="caption">
-                      {activity.totalActivity || 0} activities
+                      {userActivity.activity.totalActivity || 0} activities
                     </Typography>
                   </Box>
                 </Box>
@@ -245,13 +309,13 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
             Medium Activity Contributors ({mediumActivityUsers.length})
           </Typography>
           <Grid container spacing={2}>
-            {mediumActivityUsers.map((activity) => (
-              <Grid item xs={12} sm={6} md={4} key={activity.user.login}>
+            {mediumActivityUsers.map((userActivity) => (
+              <Grid item xs={12} sm={6} md={4} key={userActivity.user.login}>
                 <Box display="flex" alignItems="center" p={2} sx={{ bgcolor: 'warning.light', borderRadius: 1 }}>
                   <Box
                     component="img"
-                    src={activity.user.avatar_url}
-                    alt={activity.user.name}
+                    src={userActivity.user.avatar_url}
+                    alt={userActivity.user.name}
                     sx={{
                       width: 40,
                       height: 40,
@@ -261,10 +325,10 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
                   />
                   <Box>
                     <Typography variant="body2" fontWeight="bold">
-                      {activity.user.name}
+                      {userActivity.user.name}
                     </Typography>
                     <Typography variant="caption">
-                      {activity.totalActivity || 0} activities
+                      {userActivity.activity.totalActivity || 0} activities
                     </Typography>
                   </Box>
                 </Box>
@@ -281,13 +345,13 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
             Low Activity Contributors ({lowActivityUsers.length})
           </Typography>
           <Grid container spacing={2}>
-            {lowActivityUsers.map((activity) => (
-              <Grid item xs={12} sm={6} md={4} key={activity.user.login}>
+            {lowActivityUsers.map((userActivity) => (
+              <Grid item xs={12} sm={6} md={4} key={userActivity.user.login}>
                 <Box display="flex" alignItems="center" p={2} sx={{ bgcolor: 'info.light', borderRadius: 1 }}>
                   <Box
                     component="img"
-                    src={activity.user.avatar_url}
-                    alt={activity.user.name}
+                    src={userActivity.user.avatar_url}
+                    alt={userActivity.user.name}
                     sx={{
                       width: 40,
                       height: 40,
@@ -297,10 +361,10 @@ function ProjectFocusLayout({ userActivities, sortBy }: { userActivities: UserAc
                   />
                   <Box>
                     <Typography variant="body2" fontWeight="bold">
-                      {activity.user.name}
+                      {userActivity.user.name}
                     </Typography>
                     <Typography variant="caption">
-                      {activity.totalActivity || 0} activities
+                      {userActivity.activity.totalActivity || 0} activities
                     </Typography>
                   </Box>
                 </Box>
@@ -2,6 +2,7 @@ import { Box, Chip, Typography } from '@mui/material';
 import React, { useState } from 'react';
 
 import { executeGraphQL } from '../../../api/postgraphile-client';
+import { getDashboardTypeId } from '../../../api/type-registry';
 
 interface DashboardTypeChipsProps {
   dashboardId: string;
@@ -15,13 +16,6 @@ const DASHBOARD_TYPES = [
   { code: 'project_focus', name: 'Project Focus', description: 'Repository and project metrics' },
 ];
 
-// Dashboard type UUID mapping
-const DASHBOARD_TYPE_UUID_MAP: Record<string, string> = {
-  'user_activity': '48bfc042-81aa-4814-9d56-4d0f841bcb92',
-  'team_overview': '79e67172-ff4b-4237-906f-14e7a6c7deb0',
-  'project_focus': '91fc99b6-05d0-4dad-bba2-2f82ff912f1d',
-};
-
 const UPDATE_DASHBOARD_TYPE_MUTATION = `
   mutation UpdateDashboardType($dashboardId: UUID!, $dashboardTypeId: UUID!) {
     updateDashboardById(
@@ -52,12 +46,8 @@ export function DashboardTypeChips({ dashboardId, currentTypeCode, onTypeChange
     try {
       setUpdating(true);
       
-      // Map type code to UUID
-      const dashboardTypeId = DASHBOARD_TYPE_UUID_MAP[typeCode];
-      if (!dashboardTypeId) {
-        throw new Error(`Unknown dashboard type code: ${typeCode}`);
-      }
-      
+      const dashboardTypeId = await getDashboardTypeId(typeCode);
+
       const response = await executeGraphQL(UPDATE_DASHBOARD_TYPE_MUTATION, {
         dashboardId,
         dashboardTypeId,
@@ -6,7 +6,8 @@ import { GradientCard } from '../../common';
 
 interface DashboardListProps {
   dashboards: DashboardType[];
-  onCreateDashboard: () => void;
+  // Omitted for viewers, who can't create dashboards
+  onCreateDashboard?: () => void;
   onViewDashboard: (dashboard: DashboardType) => void;
 }
 
@@ -21,13 +22,15 @@ export function DashboardList({
       <Grid item xs={12}>
         <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
           <Typography variant="h4">My Dashboards</Typography>
-          <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={onCreateDashboard}
-          >
-            Create Dashboard
-          </Button>
+          {onCreateDashboard && (
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={onCreateDashboard}
+            >
+              Create Dashboard
+            </Button>
+          )}
         </Box>
       </Grid>
 
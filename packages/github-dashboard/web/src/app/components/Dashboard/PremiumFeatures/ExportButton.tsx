@@ -1,43 +1,52 @@
 import { Download } from '@mui/icons-material';
-import { Alert, Button, Snackbar } from '@mui/material';
+import { Alert, Button, Menu, MenuItem, Snackbar } from '@mui/material';
 import React, { useState } from 'react';
 
+import { API_BASE_URL } from '../../../api/api-base-url';
+import { authHeaders } from '../../../api/auth-client';
 import { useClientContext } from '../../../context/ClientContext';
 
 interface ExportButtonProps {
   dashboardId: string;
   dashboardName: string;
+  startDate?: string;
+  endDate?: string;
 }
 
-export function ExportButton({ dashboardId, dashboardName }: ExportButtonProps): React.ReactElement {
+type ExportFormat = 'csv' | 'xlsx';
+
+const DASHBOARDS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+
+// Server-chosen file name from Content-Disposition, e.g. attachment; filename="team-activity-2024-01-01-2024-12-31.csv"
+function filenameFrom(response: Response): string | null {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  return /filename="([^"]+)"/.exec(disposition)?.[1] ?? null;
+}
+
+export function ExportButton({ dashboardId, dashboardName, startDate, endDate }: ExportButtonProps): React.ReactElement {
   const { activeClient } = useClientContext();
   const [loading, setLoading] = useState(false);
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
   const [snackbar, setSnackbar] = useState<{
     open: boolean;
     message: string;
     severity: 'success' | 'error' | 'info';
   }>({ open: false, message: '', severity: 'info' });
 
-  const handleExport = async () => {
+  const handleExport = async (format: ExportFormat) => {
+    setMenuAnchor(null);
     if (!activeClient) return;
 
     setLoading(true);
     
     try {
-      // TODO: Implement backend endpoint GET /api/dashboards/:id/export.csv
-      // For now, show a placeholder message
-      setSnackbar({
-        open: true,
-        message: 'Export feature coming soon! Backend endpoint needs to be implemented.',
-        severity: 'info',
-      });
+      const params = new URLSearchParams();
+      if (startDate) params.set('start_date', startDate);
+      if (endDate) params.set('end_date', endDate);
 
-      // Future implementation would be:
-      /*
-      const response = await fetch(`/api/dashboards/${dashboardId}/export.csv`, {
-        headers: {
-          'X-Demo-Client-Id': activeClient.id,
-        },
+      // The session's client must have the export feature and own the dashboard
+      const response = await fetch(`${DASHBOARDS_ENDPOINT}/${dashboardId}/export.${format}?${params}`, {
+        headers: authHeaders(),
       });
 
       if (response.status === 403) {
@@ -50,14 +59,14 @@ export function ExportButton({ dashboardId, dashboardName }: ExportButtonProps):
       }
 
       if (!response.ok) {
-        throw new Error('Export failed');
+        throw new Error(`Export failed: ${response.status} ${response.statusText}`);
       }
 
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${dashboardName}-activity-export.csv`;
+      a.download = filenameFrom(response) || `${dashboardName}-activity-export.${format}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -68,7 +77,6 @@ export function ExportButton({ dashboardId, dashboardName }: ExportButtonProps):
         message: 'Export completed successfully!',
         severity: 'success',
       });
-      */
     } catch (error) {
       console.error('Export error:', error);
       setSnackbar({
@@ -90,7 +98,7 @@ export function ExportButton({ dashboardId, dashboardName }: ExportButtonProps):
       <Button
         variant="contained"
         startIcon={<Download />}
-        onClick={handleExport}
+        onClick={(event: React.MouseEvent<HTMLElement>) => setMenuAnchor(event.currentTarget)}
         disabled={loading}
         sx={{
           background: 'linear-gradient(45deg, #bd93f9 30%, #ff79c6 90%)',
@@ -99,9 +107,14 @@ export function ExportButton({ dashboardId, dashboardName }: ExportButtonProps):
           },
         }}
       >
-        {loading ? 'Exporting...' : 'Export CSV'}
+        {loading ? 'Exporting...' : 'Export'}
       </Button>
 
+      <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={() => setMenuAnchor(null)}>
+        <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+        <MenuItem onClick={() => handleExport('xlsx')}>Excel (XLSX)</MenuItem>
+      </Menu>
+
       <Snackbar
         open={snackbar.open}
         autoHideDuration={6000}
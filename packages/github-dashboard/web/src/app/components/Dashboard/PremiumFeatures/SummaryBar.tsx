@@ -1,4 +1,4 @@
-import { CheckCircle, Code, Message, TrendingUp } from '@mui/icons-material';
+import { BugReport, CheckCircle, Code, Message, TrendingUp } from '@mui/icons-material';
 import { Box, Card, CardContent, Grid, Typography } from '@mui/material';
 import React from 'react';
 
@@ -52,9 +52,11 @@ export function SummaryBar({ userActivities }: SummaryBarProps): React.ReactElem
       totalMerged: acc.totalMerged + userActivity.activity.prsMerged,
       totalReviewed: acc.totalReviewed + userActivity.activity.prsReviewed,
       totalCommits: acc.totalCommits + (userActivity.activity.commits || 0),
+      totalIssues: acc.totalIssues + (userActivity.activity.issues || 0),
     }),
-    { totalPRs: 0, totalMerged: 0, totalReviewed: 0, totalCommits: 0 }
+    { totalPRs: 0, totalMerged: 0, totalReviewed: 0, totalCommits: 0, totalIssues: 0 }
   );
+  const tracksIssues = userActivities.some(userActivity => userActivity.activity.issues !== undefined);
 
   const stats = [
     {
@@ -81,6 +83,12 @@ export function SummaryBar({ userActivities }: SummaryBarProps): React.ReactElem
       icon: <TrendingUp sx={{ fontSize: 32 }} />,
       color: '#8be9fd',
     },
+    ...(tracksIssues ? [{
+      title: 'Issues',
+      value: totals.totalIssues,
+      icon: <BugReport sx={{ fontSize: 32 }} />,
+      color: '#ff5555',
+    }] : []),
   ];
 
   return (
@@ -90,7 +98,7 @@ export function SummaryBar({ userActivities }: SummaryBarProps): React.ReactElem
       </Typography>
       <Grid container spacing={2}>
         {stats.map((stat, index) => (
-          <Grid item xs={12} sm={6} md={3} key={index}>
+          <Grid item xs={12} sm={6} md key={index}>
             <StatCard {...stat} />
           </Grid>
         ))}
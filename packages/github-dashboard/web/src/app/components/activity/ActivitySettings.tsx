@@ -1,50 +1,109 @@
-import { 
-  Box, 
-  Typography, 
-  TextField, 
-  Button, 
-  Card, 
-  CardContent, 
-  Grid, 
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Card,
+  CardContent,
+  Grid,
   FormControl,
   InputLabel,
   Select,
-  MenuItem
+  SelectChangeEvent,
+  MenuItem,
+  Checkbox,
+  ListItemText
 } from '@mui/material';
 import React from 'react';
 
+import { SortField } from '../../api/dashboard-view-client';
+import { DATE_RANGE_PRESETS, DateRangePreset } from '../../api/date-ranges';
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
 interface ActivitySettingsProps {
   startDate: string;
   endDate: string;
-  sortBy: 'prsCreated' | 'prsReviewed' | 'prsMerged' | 'totalActivity';
-  onStartDateChange: (date: string) => void;
-  onEndDateChange: (date: string) => void;
-  onSortByChange: (sortBy: 'prsCreated' | 'prsReviewed' | 'prsMerged' | 'totalActivity') => void;
+  // Preset the dates come from; null for custom dates
+  dateRange: DateRangePreset | null;
+  sortBy: SortField;
+  onDateRangeChange: (preset: DateRangePreset) => void;
+  onCustomDatesChange: (startDate: string, endDate: string) => void;
+  onSortByChange: (sortBy: SortField) => void;
   onRefreshStats: () => void;
+  // The current sprint preset needs the dashboard's sprint start date
+  sprintConfigured?: boolean;
+  // What the dashboard tracks, and the subset shown; null shows all of it
+  userOptions?: FilterOption[];
+  repositoryOptions?: FilterOption[];
+  activityTypeOptions?: FilterOption[];
+  users?: string[] | null;
+  repositories?: string[] | null;
+  activityTypes?: string[] | null;
+  onUsersChange?: (users: string[] | null) => void;
+  onRepositoriesChange?: (repositories: string[] | null) => void;
+  onActivityTypesChange?: (activityTypes: string[] | null) => void;
   disabled?: boolean;
 }
 
+interface FilterSelectProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[] | null;
+  onChange?: (selected: string[] | null) => void;
+}
+
+// Multi-select where nothing selected means everything
+const FilterSelect: React.FC<FilterSelectProps> = ({ label, options, selected, onChange }) => (
+  <FormControl fullWidth size="small">
+    <InputLabel shrink>{label}</InputLabel>
+    <Select
+      multiple
+      displayEmpty
+      value={selected ?? []}
+      onChange={(e: SelectChangeEvent<string[]>) => {
+        const value = e.target.value as string[];
+        onChange?.(value.length > 0 ? value : null);
+      }}
+      label={label}
+      renderValue={(value: string[]) => value.length > 0 ? `${value.length} of ${options.length}` : 'All'}
+      disabled={options.length === 0 || !onChange}
+    >
+      {options.map(option => (
+        <MenuItem key={option.value} value={option.value}>
+          <Checkbox size="small" checked={!!selected?.includes(option.value)} />
+          <ListItemText primary={option.label} />
+        </MenuItem>
+      ))}
+    </Select>
+  </FormControl>
+);
+
 export const ActivitySettings: React.FC<ActivitySettingsProps> = ({
   startDate,
   endDate,
+  dateRange,
   sortBy,
-  onStartDateChange,
-  onEndDateChange,
+  onDateRangeChange,
+  onCustomDatesChange,
   onSortByChange,
   onRefreshStats,
+  sprintConfigured = false,
+  userOptions = [],
+  repositoryOptions = [],
+  activityTypeOptions = [],
+  users = null,
+  repositories = null,
+  activityTypes = null,
+  onUsersChange,
+  onRepositoriesChange,
+  onActivityTypesChange,
   disabled = false
 }) => {
-  const handlePresetDateRange = (days: number) => {
-    const today = new Date();
-    const startDate = new Date(today.getTime() - days * 24 * 60 * 60 * 1000);
-    onStartDateChange(startDate.toISOString().split('T')[0]);
-    onEndDateChange(today.toISOString().split('T')[0]);
-  };
-
-  const handleAll2024 = () => {
-    onStartDateChange('2024-01-01');
-    onEndDateChange('2024-12-31');
-  };
+  const presets = DATE_RANGE_PRESETS.filter(preset => preset.code !== 'current_sprint' || sprintConfigured);
 
   return (
     <Grid container spacing={3} sx={{ mb: 3 }}>
@@ -61,7 +120,7 @@ export const ActivitySettings: React.FC<ActivitySettingsProps> = ({
                   label="Start Date"
                   type="date"
                   value={startDate}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onStartDateChange(e.target.value)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onCustomDatesChange(e.target.value, endDate)}
                   InputLabelProps={{ shrink: true }}
                 />
               </Grid>
@@ -71,7 +130,7 @@ export const ActivitySettings: React.FC<ActivitySettingsProps> = ({
                   label="End Date"
                   type="date"
                   value={endDate}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onEndDateChange(e.target.value)}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => onCustomDatesChange(startDate, e.target.value)}
                   InputLabelProps={{ shrink: true }}
                 />
               </Grid>
@@ -80,7 +139,7 @@ export const ActivitySettings: React.FC<ActivitySettingsProps> = ({
                   <InputLabel>Sort By</InputLabel>
                   <Select
                     value={sortBy}
-                    onChange={(e) => onSortByChange(e.target.value as any)}
+                    onChange={(e: SelectChangeEvent<SortField>) => onSortByChange(e.target.value as SortField)}
                     label="Sort By"
                   >
                     <MenuItem value="totalActivity">Total Activity</MenuItem>
@@ -101,43 +160,38 @@ export const ActivitySettings: React.FC<ActivitySettingsProps> = ({
                 </Button>
               </Grid>
             </Grid>
-            
-            {/* Preset Date Range Buttons */}
+
+            {/* Preset Date Ranges; rolling ranges move with today, also in shared links */}
             <Box mt={2}>
               <Typography variant="body2" color="text.secondary" gutterBottom>
                 Quick Date Ranges:
               </Typography>
               <Box display="flex" gap={1} flexWrap="wrap">
-                <Button
-                  size="small"
-                  variant="outlined"
-                  onClick={() => handlePresetDateRange(7)}
-                >
-                  Last 7 Days
-                </Button>
-                <Button
-                  size="small"
-                  variant="outlined"
-                  onClick={() => handlePresetDateRange(30)}
-                >
-                  Last 30 Days
-                </Button>
-                <Button
-                  size="small"
-                  variant="outlined"
-                  onClick={() => handlePresetDateRange(90)}
-                >
-                  Last 90 Days
-                </Button>
-                <Button
-                  size="small"
-                  variant="outlined"
-                  onClick={handleAll2024}
-                >
-                  All 2024
-                </Button>
+                {presets.map(preset => (
+                  <Button
+                    key={preset.code}
+                    size="small"
+                    variant={preset.code === dateRange ? 'contained' : 'outlined'}
+                    onClick={() => onDateRangeChange(preset.code)}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
               </Box>
             </Box>
+
+            {/* Subset of the dashboard's users, repositories and activity types */}
+            <Grid container spacing={2} mt={1}>
+              <Grid item xs={12} md={4}>
+                <FilterSelect label="Users" options={userOptions} selected={users} onChange={onUsersChange} />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <FilterSelect label="Repositories" options={repositoryOptions} selected={repositories} onChange={onRepositoriesChange} />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <FilterSelect label="Activity Types" options={activityTypeOptions} selected={activityTypes} onChange={onActivityTypesChange} />
+              </Grid>
+            </Grid>
           </CardContent>
         </Card>
       </Grid>
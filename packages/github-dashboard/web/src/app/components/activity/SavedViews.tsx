@@ -0,0 +1,158 @@
+import { Delete, Link, Save } from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+
+import {
+  createDashboardView,
+  DashboardViewFilters,
+  deleteDashboardView,
+  fetchDashboardViews,
+  SavedDashboardView,
+  updateDashboardView
+} from '../../api/dashboard-view-client';
+
+// Select value for the dashboard's own defaults
+const DEFAULT_VIEW = '';
+
+interface SavedViewsProps {
+  dashboardId: string;
+  // Filters on screen, saved as they are
+  filters: DashboardViewFilters;
+  // Saved view the filters came from, if they weren't changed since
+  viewId: string | null;
+  // Called with null to go back to the dashboard's defaults
+  onApplyView: (view: SavedDashboardView | null) => void;
+}
+
+export const SavedViews: React.FC<SavedViewsProps> = ({
+  dashboardId,
+  filters,
+  viewId,
+  onApplyView
+}) => {
+  const [views, setViews] = useState<SavedDashboardView[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  useEffect(() => {
+    fetchDashboardViews(dashboardId)
+      .then(setViews)
+      .catch((err) => console.error('Failed to load saved views:', err));
+  }, [dashboardId]);
+
+  const selectedView = views.find(view => view.id === viewId);
+
+  const openSaveDialog = () => {
+    setName(selectedView?.name ?? '');
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    // Saving under an existing name replaces that view's filters
+    const existing = views.find(view => view.name === trimmed);
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = existing
+        ? await updateDashboardView(dashboardId, existing.id, trimmed, filters)
+        : await createDashboardView(dashboardId, trimmed, filters);
+      setViews([...views.filter(view => view.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      onApplyView(saved);
+      setDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the view');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedView) return;
+    try {
+      await deleteDashboardView(dashboardId, selectedView.id);
+      setViews(views.filter(view => view.id !== selectedView.id));
+      onApplyView(null);
+    } catch (err) {
+      console.error('Failed to delete the view:', err);
+    }
+  };
+
+  // The URL carries every filter, so the link shows teammates the same view
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <Box display="flex" gap={1} alignItems="center" flexWrap="wrap" mb={3}>
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <InputLabel shrink>Saved View</InputLabel>
+        <Select
+          displayEmpty
+          value={selectedView?.id ?? DEFAULT_VIEW}
+          onChange={(e: SelectChangeEvent<string>) => onApplyView(views.find(view => view.id === e.target.value) ?? null)}
+          label="Saved View"
+        >
+          <MenuItem value={DEFAULT_VIEW}>Dashboard default</MenuItem>
+          {views.map(view => (
+            <MenuItem key={view.id} value={view.id}>{view.name}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Button size="small" startIcon={<Save />} onClick={openSaveDialog}>
+        Save View
+      </Button>
+      {selectedView && (
+        <Button size="small" color="error" startIcon={<Delete />} onClick={handleDelete}>
+          Delete View
+        </Button>
+      )}
+      <Button size="small" startIcon={<Link />} onClick={handleCopyLink}>
+        {linkCopied ? 'Link Copied' : 'Copy Link'}
+      </Button>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            helperText={views.some(view => view.name === name.trim()) ? 'Replaces the saved view with this name' : undefined}
+            inputProps={{ maxLength: 100 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained" disabled={!name.trim() || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
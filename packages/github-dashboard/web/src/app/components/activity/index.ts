@@ -1 +1,2 @@
 export { ActivitySettings } from './ActivitySettings';
+export { SavedViews } from './SavedViews';
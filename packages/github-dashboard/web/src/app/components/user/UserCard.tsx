@@ -51,6 +51,12 @@ export const UserCard: React.FC<UserCardProps> = React.memo(({ userActivity, rev
             <Chip label={`${activity.prsCreated} created`} size="small" color="primary" variant="outlined" />
             <Chip label={`${activity.prsMerged} merged`} size="small" color="success" variant="outlined" />
             <Chip label={`${activity.prsReviewed} reviewed`} size="small" color="info" variant="outlined" />
+            {activity.commits !== undefined && (
+              <Chip label={`${activity.commits} commits`} size="small" color="secondary" variant="outlined" />
+            )}
+            {activity.issues !== undefined && (
+              <Chip label={`${activity.issues} issues`} size="small" color="warning" variant="outlined" />
+            )}
           </Box>
         </Box>
         
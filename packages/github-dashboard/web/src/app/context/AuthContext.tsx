@@ -0,0 +1,119 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+
+import {
+  AuthRequestError,
+  AuthSession,
+  AuthUser,
+  authApi,
+  ClientMembership,
+  ClientRole,
+  CurrentUser,
+  getAuthToken,
+  setAuthToken
+} from '../api/auth-client';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  memberships: ClientMembership[];
+  // Client the session is scoped to and the user's role in it
+  clientId: string | null;
+  role: ClientRole | null;
+  // True while a stored token is being checked
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  register: (email: string, password: string, displayName?: string) => Promise<void>;
+  // Finish "Sign in with GitHub" with the token the API redirected back with
+  completeGitHubLogin: (token: string) => Promise<void>;
+  selectClient: (clientId: string) => Promise<void>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps): React.ReactElement {
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(() => !!getAuthToken());
+
+  const applySession = useCallback((session: AuthSession) => {
+    const { token, ...current } = session;
+    setAuthToken(token);
+    setCurrentUser(current);
+  }, []);
+
+  const logout = useCallback(() => {
+    setAuthToken(null);
+    setCurrentUser(null);
+  }, []);
+
+  const loadCurrentUser = useCallback(async () => {
+    try {
+      setCurrentUser(await authApi.me());
+    } catch (err) {
+      // An expired or revoked token signs the user out; other failures keep the token for a retry
+      if (err instanceof AuthRequestError && err.status === 401) {
+        setAuthToken(null);
+      }
+      console.error('Error loading the signed-in user:', err);
+      setCurrentUser(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Restore the session of a stored token on load
+  useEffect(() => {
+    if (getAuthToken()) {
+      loadCurrentUser();
+    }
+  }, [loadCurrentUser]);
+
+  const login = useCallback(async (email: string, password: string) => {
+    applySession(await authApi.login(email, password));
+  }, [applySession]);
+
+  const register = useCallback(async (email: string, password: string, displayName?: string) => {
+    applySession(await authApi.register(email, password, displayName));
+  }, [applySession]);
+
+  const completeGitHubLogin = useCallback(async (token: string) => {
+    setAuthToken(token);
+    setLoading(true);
+    await loadCurrentUser();
+  }, [loadCurrentUser]);
+
+  const selectClient = useCallback(async (clientId: string) => {
+    applySession(await authApi.selectClient(clientId));
+  }, [applySession]);
+
+  const clientId = currentUser?.clientId ?? null;
+  const contextValue: AuthContextType = {
+    user: currentUser?.user ?? null,
+    memberships: currentUser?.memberships ?? [],
+    clientId,
+    role: currentUser?.memberships.find(membership => membership.clientId === clientId)?.role ?? null,
+    loading,
+    login,
+    register,
+    completeGitHubLogin,
+    selectClient,
+    logout,
+  };
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  ) as React.ReactElement;
+}
+
+export function useAuthContext(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -1,7 +1,10 @@
 import React, { createContext, ReactNode, useContext } from 'react';
 
+import { ClientRole } from '../api/auth-client';
 import { useClientData } from '../hooks/useClientData';
 
+import { useAuthContext } from './AuthContext';
+
 interface Feature {
   id: string;
   code: string;
@@ -29,9 +32,12 @@ interface ClientContextType {
   activeClient: Client | null;
   activeClientId: string | null;
   isPremium: boolean;
+  // The signed-in user's role in the active client; viewers can't change dashboards
+  role: ClientRole | null;
+  canEdit: boolean;
   loading: boolean;
   error: string | null;
-  setActiveClientId: (clientId: string) => void;
+  setActiveClientId: (clientId: string) => Promise<void>;
   hasFeature: (featureCode: string) => boolean;
   getFeatures: () => Feature[];
 }
@@ -45,6 +51,7 @@ interface ClientProviderProps {
 export function ClientProvider({ children }: ClientProviderProps): React.ReactElement {
   // Use real data from GraphQL
   const clientData = useClientData();
+  const { role } = useAuthContext();
   
   // Compute isPremium from active client's tier type
   const isPremium = clientData.activeClient?.tierTypeByTierTypeId?.code === 'premium';
@@ -72,6 +79,8 @@ export function ClientProvider({ children }: ClientProviderProps): React.ReactEl
   const contextValue: ClientContextType = {
     ...clientData,
     isPremium,
+    role,
+    canEdit: role === 'editor' || role === 'admin',
     hasFeature,
     getFeatures,
   };
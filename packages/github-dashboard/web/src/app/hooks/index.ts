@@ -1,6 +1,7 @@
 // Data fetching hooks
 export { useClientData } from './useClientData';
 export { useDashboardData } from './useDashboardData';
+export { useTypeRegistry } from './useTypeRegistry';
 
 // Mutation operation hooks
 export { useActivityConfigs } from './useActivityConfigs';
@@ -10,5 +11,6 @@ export { useDashboardUsers } from './useDashboardUsers';
 
 // Complex logic hooks
 export { useDashboardConfigHandler } from './useDashboardConfigHandler';
+export { useDashboardViewParams } from './useDashboardViewParams';
 export { useUserActivityManager } from './useUserActivityManager';
 
@@ -5,15 +5,9 @@ import {
     ACTIVITY_TYPE_QUERIES,
     executeGraphQL
 } from '../api/postgraphile-client';
+import { getActivityTypeId } from '../api/type-registry';
 import { ActivityConfig } from '../types/dashboard';
 
-// Activity type mapping - these match the database UUIDs
-const ACTIVITY_TYPE_MAP: Record<string, string> = {
-  'prs_created': '42c3b89d-2897-4109-a5e7-3406b773bbb4',
-  'prs_merged': 'dff9302a-d6f0-49d1-9fb3-6414801eab46',
-  'prs_reviewed': '7adbc498-4789-40ec-9be1-1bb3bf408e9f',
-};
-
 export function useActivityConfigs() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,11 +17,7 @@ export function useActivityConfigs() {
     setError(null);
 
     try {
-      // Map activity code to UUID
-      const activityTypeId = ACTIVITY_TYPE_MAP[activityTypeCode];
-      if (!activityTypeId) {
-        throw new Error(`Unknown activity type code: ${activityTypeCode}`);
-      }
+      const activityTypeId = await getActivityTypeId(activityTypeCode);
 
       const response = await executeGraphQL<{
         createDashboardActivityConfig: { dashboardActivityConfig: ActivityConfig };
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 
 import { executeGraphQL } from '../api/postgraphile-client';
+import { useAuthContext } from '../context/AuthContext';
 
 interface Feature {
   id: string;
@@ -58,16 +59,27 @@ const CLIENTS_QUERY = `
   }
 `;
 
+/**
+ * Clients the signed-in user is a member of; the active client is the one their session is scoped to
+ */
 export function useClientData(): ClientData & {
-  setActiveClientId: (clientId: string) => void;
+  setActiveClientId: (clientId: string) => Promise<void>;
 } {
+  const { user, memberships, clientId: activeClientId, selectClient } = useAuthContext();
   const [clients, setClients] = useState<Client[]>([]);
-  const [activeClientId, setActiveClientId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load clients on mount
+  // Reload when the memberships change, e.g. after signing in as someone else
+  const membershipKey = memberships.map(membership => membership.clientId).sort().join(',');
+
   useEffect(() => {
+    if (!user) {
+      setClients([]);
+      setLoading(false);
+      return;
+    }
+
     const fetchClients = async () => {
       try {
         setLoading(true);
@@ -81,16 +93,8 @@ export function useClientData(): ClientData & {
           throw new Error(response.errors[0].message);
         }
         
-        const clientsData = response.data?.allClients.nodes || [];
-        setClients(clientsData);
-        
-        // Set default active client (first one, or from localStorage)
-        const savedClientId = localStorage.getItem('activeClientId');
-        if (savedClientId && clientsData.find((c: Client) => c.id === savedClientId)) {
-          setActiveClientId(savedClientId);
-        } else if (clientsData.length > 0) {
-          setActiveClientId(clientsData[0].id);
-        }
+        const memberClientIds = membershipKey.split(',');
+        setClients((response.data?.allClients.nodes || []).filter((c: Client) => memberClientIds.includes(c.id)));
       } catch (err) {
         console.error('Error fetching clients:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch clients');
@@ -100,14 +104,7 @@ export function useClientData(): ClientData & {
     };
 
     fetchClients();
-  }, []);
-
-  // Save active client to localStorage when it changes
-  useEffect(() => {
-    if (activeClientId) {
-      localStorage.setItem('activeClientId', activeClientId);
-    }
-  }, [activeClientId]);
+  }, [user, membershipKey]);
 
   const activeClient = clients.find(c => c.id === activeClientId) || null;
 
@@ -117,6 +114,6 @@ export function useClientData(): ClientData & {
     activeClient,
     loading,
     error,
-    setActiveClientId,
+    setActiveClientId: selectClient,
   };
 }
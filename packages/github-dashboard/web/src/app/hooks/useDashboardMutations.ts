@@ -41,6 +41,7 @@ export function useDashboardMutations() {
     slug?: string;
     description?: string;
     isPublic?: boolean;
+    excludeMergeCommits?: boolean;
   }) => {
     setLoading(true);
     setError(null);
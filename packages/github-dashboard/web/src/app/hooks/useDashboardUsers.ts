@@ -3,7 +3,6 @@ import { useState } from 'react';
 import {
     DASHBOARD_USER_QUERIES,
     executeGraphQL,
-    GITHUB_USER_MUTATIONS,
     GITHUB_USER_QUERIES
 } from '../api/postgraphile-client';
 import { DashboardUser } from '../types/dashboard';
@@ -88,42 +87,10 @@ export function useDashboardUsers() {
     }
   };
 
-  const createGithubUser = async (username: string, name?: string, avatarUrl?: string) => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await executeGraphQL<{
-        createGithubUser: { githubUser: unknown };
-      }>(GITHUB_USER_MUTATIONS.create, {
-        input: {
-          githubUser: {
-            githubUserId: username, // Use username as the GitHub user ID
-            githubUsername: username, // Use githubUsername field name
-            avatarUrl: avatarUrl || `https://github.com/${username}.png`
-          }
-        }
-      });
-
-      if (response.errors) {
-        throw new Error(response.errors[0].message);
-      }
-
-      return response.data?.createGithubUser.githubUser;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to create GitHub user';
-      setError(errorMessage);
-      throw error;
-    } finally {
-      setLoading(false);
-    }
-  };
-
   return {
     addUserToDashboard,
     removeUserFromDashboard,
     getGithubUserByUsername,
-    createGithubUser,
     loading,
     error,
   };
@@ -0,0 +1,147 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+import { DashboardViewFilters, SavedDashboardView, SortField } from '../api/dashboard-view-client';
+import { DateRangePreset, FALLBACK_DATE_RANGE, isDateRangePreset, resolveDateRange } from '../api/date-ranges';
+
+const SORT_FIELDS: SortField[] = ['totalActivity', 'prsCreated', 'prsReviewed', 'prsMerged'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface UseDashboardViewParamsProps {
+  selectedDashboard: any;
+}
+
+function parseList(value: string | null): string[] | null {
+  return value === null ? null : value.split(',').filter(Boolean);
+}
+
+function writeList(params: URLSearchParams, key: string, values: string[] | null) {
+  if (values === null) {
+    params.delete(key);
+  } else {
+    params.set(key, values.join(','));
+  }
+}
+
+/**
+ * The dashboard's current view, kept in the URL so a shared link shows the same filters:
+ * `range` (a preset) or `start`/`end`, `users`, `repos`, `types`, `sort` and the saved `view` they came from.
+ * Without a range the dashboard's default applies.
+ */
+export function useDashboardViewParams({ selectedDashboard }: UseDashboardViewParamsProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const sprint = useMemo(() => ({
+    sprintStartDate: selectedDashboard?.sprintStartDate,
+    sprintLengthDays: selectedDashboard?.sprintLengthDays
+  }), [selectedDashboard?.sprintStartDate, selectedDashboard?.sprintLengthDays]);
+
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+  const hasCustomDates = !!start && !!end && DATE_PATTERN.test(start) && DATE_PATTERN.test(end);
+  const rangeParam = searchParams.get('range');
+
+  // Custom dates win over a preset; a preset that can't be resolved falls back to the last 30 days
+  let dateRange: DateRangePreset | null = null;
+  if (!hasCustomDates) {
+    const defaultRange = isDateRangePreset(selectedDashboard?.defaultDateRange) ? selectedDashboard.defaultDateRange : FALLBACK_DATE_RANGE;
+    dateRange = isDateRangePreset(rangeParam) ? rangeParam : defaultRange;
+  }
+  const resolved = dateRange
+    ? resolveDateRange(dateRange, sprint) ?? resolveDateRange(FALLBACK_DATE_RANGE)
+    : { startDate: start as string, endDate: end as string };
+
+  const sortParam = searchParams.get('sort') as SortField | null;
+  const sortBy: SortField = sortParam && SORT_FIELDS.includes(sortParam) ? sortParam : 'totalActivity';
+
+  // Parsed once per URL change so the activity isn't refetched on every render
+  const usersParam = searchParams.get('users');
+  const reposParam = searchParams.get('repos');
+  const typesParam = searchParams.get('types');
+  const users = useMemo(() => parseList(usersParam), [usersParam]);
+  const repositories = useMemo(() => parseList(reposParam), [reposParam]);
+  const activityTypes = useMemo(() => parseList(typesParam), [typesParam]);
+  const viewId = searchParams.get('view');
+
+  // Filters as they would be saved in a view; without a range in the URL the view follows the dashboard's default
+  const filters: DashboardViewFilters = {
+    dateRange: !hasCustomDates && isDateRangePreset(rangeParam) ? rangeParam : null,
+    startDate: hasCustomDates ? start : null,
+    endDate: hasCustomDates ? end : null,
+    users,
+    repositories,
+    activityTypes,
+    sortBy: sortParam && SORT_FIELDS.includes(sortParam) ? sortParam : null
+  };
+
+  // Changing a filter by hand leaves the saved view it came from
+  const update = useCallback((change: (params: URLSearchParams) => void) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      change(next);
+      next.delete('view');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setDateRange = useCallback((preset: DateRangePreset) => update(params => {
+    params.set('range', preset);
+    params.delete('start');
+    params.delete('end');
+  }), [update]);
+
+  const setCustomDates = useCallback((startDate: string, endDate: string) => update(params => {
+    params.set('start', startDate);
+    params.set('end', endDate);
+    params.delete('range');
+  }), [update]);
+
+  const setSortBy = useCallback((value: SortField) => update(params => params.set('sort', value)), [update]);
+
+  const setUsers = useCallback((value: string[] | null) => update(params => writeList(params, 'users', value)), [update]);
+
+  const setRepositories = useCallback((value: string[] | null) => update(params => writeList(params, 'repos', value)), [update]);
+
+  const setActivityTypes = useCallback((value: string[] | null) => update(params => writeList(params, 'types', value)), [update]);
+
+  // Replaces every filter with the view's; null goes back to the dashboard's defaults
+  const applyView = useCallback((view: SavedDashboardView | null) => {
+    setSearchParams(() => {
+      const next = new URLSearchParams();
+      if (!view) {
+        return next;
+      }
+      if (view.startDate && view.endDate) {
+        next.set('start', view.startDate);
+        next.set('end', view.endDate);
+      } else if (view.dateRange) {
+        next.set('range', view.dateRange);
+      }
+      writeList(next, 'users', view.users);
+      writeList(next, 'repos', view.repositories);
+      writeList(next, 'types', view.activityTypes);
+      if (view.sortBy) next.set('sort', view.sortBy);
+      next.set('view', view.id);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  return {
+    startDate: resolved?.startDate ?? '',
+    endDate: resolved?.endDate ?? '',
+    dateRange,
+    sortBy,
+    users,
+    repositories,
+    activityTypes,
+    viewId,
+    filters,
+    setDateRange,
+    setCustomDates,
+    setSortBy,
+    setUsers,
+    setRepositories,
+    setActivityTypes,
+    applyView
+  };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+import { loadActivityTypes, loadDashboardTypes } from '../api/type-registry';
+import { ActivityType, DashboardType } from '../types/dashboard';
+
+interface TypeRegistry {
+  activityTypes: ActivityType[];
+  dashboardTypes: DashboardType[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useTypeRegistry(): TypeRegistry {
+  const [activityTypes, setActivityTypes] = useState<ActivityType[]>([]);
+  const [dashboardTypes, setDashboardTypes] = useState<DashboardType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadActivityTypes(), loadDashboardTypes()])
+      .then(([activity, dashboard]) => {
+        if (cancelled) return;
+        setActivityTypes(activity);
+        setDashboardTypes(dashboard);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error loading activity and dashboard types:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load activity and dashboard types');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    activityTypes,
+    dashboardTypes,
+    loading,
+    error,
+  };
+}
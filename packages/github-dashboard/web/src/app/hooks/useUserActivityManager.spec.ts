@@ -0,0 +1,203 @@
+import { act, renderHook } from '@testing-library/react';
+
+import { useUserActivityManager } from './useUserActivityManager';
+
+interface PendingRequest {
+  url: string;
+  signal: AbortSignal;
+  respond: (body: unknown, status?: number) => void;
+}
+
+// jsdom has no EventSource; the live updates stream stays silent unless a test fires its events
+class FakeEventSource {
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 0;
+  private readonly listeners = new Map<string, (event: Event) => void>();
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: Event) => void): void {
+    this.listeners.set(type, listener);
+  }
+
+  close(): void {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  // The browser gave up reconnecting, e.g. because the server refused the ticket
+  refuse(): void {
+    this.readyState = FakeEventSource.CLOSED;
+    this.listeners.get('error')?.(new Event('error'));
+  }
+}
+
+const githubUsers = [
+  { githubUserByGithubUserId: { id: '1', githubUsername: 'octocat', displayName: 'The Octocat' } },
+  { githubUserByGithubUserId: { id: '2', githubUsername: 'hubot', displayName: null } }
+];
+
+function summary(login: string, prsCreated: number, error?: string) {
+  return {
+    user: { login },
+    activity: { prsCreated, prsReviewed: 0, prsMerged: 0, totalActivity: prsCreated, repos: [] },
+    error
+  };
+}
+
+describe('useUserActivityManager', () => {
+  let requests: PendingRequest[];
+
+  beforeEach(() => {
+    requests = [];
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    // Each request waits until the test answers it
+    vi.stubGlobal('fetch', vi.fn((url: string, init: RequestInit) => new Promise(resolve => {
+      requests.push({
+        url,
+        signal: init.signal as AbortSignal,
+        respond: (body, status = 200) => resolve({ ok: status < 400, status, statusText: '', json: async () => body })
+      });
+    })));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function renderManager(startDate = '2026-01-01') {
+    return renderHook(props => useUserActivityManager(props), {
+      initialProps: {
+        selectedDashboard: { id: 'dashboard-1' },
+        githubUsers,
+        dashboardRepositories: [],
+        startDate,
+        endDate: '2026-01-31'
+      }
+    });
+  }
+
+  it('shows each user with their own error when the server could not fetch them', async () => {
+    const { result } = renderManager();
+    expect(result.current.userActivities.map(activity => activity.loading)).toEqual([true, true]);
+
+    await act(async () => requests[0].respond([summary('octocat', 3), summary('hubot', 0, 'Not Found')]));
+
+    expect(result.current.fetchingUsers).toBe(false);
+    expect(result.current.userActivities.map(({ user, activity, error }) => [user.login, activity.prsCreated, error])).toEqual([
+      ['octocat', 3, undefined],
+      ['hubot', 0, 'Not Found']
+    ]);
+  });
+
+  it('flags users the server returned nothing for', async () => {
+    const { result } = renderManager();
+
+    await act(async () => requests[0].respond([summary('octocat', 3)]));
+
+    expect(result.current.userActivities[1]).toMatchObject({ activity: { prsCreated: 0 }, error: 'No activity returned for this user' });
+  });
+
+  it('marks every user as failed when the request fails', async () => {
+    const { result } = renderManager();
+
+    await act(async () => requests[0].respond({ message: 'Internal server error' }, 500));
+
+    expect(result.current.userActivities.map(activity => activity.error)).toEqual([
+      'Failed to fetch activity: 500 ',
+      'Failed to fetch activity: 500 '
+    ]);
+    expect(result.current.userActivities.every(activity => !activity.loading)).toBe(true);
+  });
+
+  it('cancels a request superseded by new filters and ignores its late answer', async () => {
+    const { result, rerender } = renderManager();
+    const first = requests[0];
+
+    rerender({
+      selectedDashboard: { id: 'dashboard-1' },
+      githubUsers,
+      dashboardRepositories: [],
+      startDate: '2026-01-15',
+      endDate: '2026-01-31'
+    });
+
+    expect(first.signal.aborted).toBe(true);
+    expect(requests[1].url).toContain('start_date=2026-01-15');
+
+    await act(async () => requests[1].respond([summary('octocat', 5), summary('hubot', 2)]));
+    await act(async () => first.respond([summary('octocat', 1), summary('hubot', 1)]));
+
+    expect(result.current.userActivities.map(activity => activity.activity.prsCreated)).toEqual([5, 2]);
+    expect(result.current.fetchingUsers).toBe(false);
+  });
+
+  it('keeps the previous counts on screen while refreshed ones load', async () => {
+    const { result } = renderManager();
+    await act(async () => requests[0].respond([summary('octocat', 3), summary('hubot', 1)]));
+
+    act(() => result.current.handleRefreshStats());
+
+    expect(requests[1].url).toContain('no_cache=true');
+    expect(result.current.userActivities.map(({ activity, loading }) => [activity.prsCreated, loading])).toEqual([
+      [3, true],
+      [1, true]
+    ]);
+    await act(async () => requests[1].respond([summary('octocat', 4), summary('hubot', 1)]));
+    expect(result.current.userActivities[0].activity.prsCreated).toBe(4);
+  });
+
+  it('opens the event stream with a dashboard ticket rather than the session token when signed in', async () => {
+    localStorage.setItem('authToken', 'session-token');
+    renderManager();
+
+    const ticketRequest = requests.find(request => request.url.endsWith('/api/dashboards/dashboard-1/events/ticket'));
+    expect(ticketRequest).toBeDefined();
+    expect(FakeEventSource.instances).toHaveLength(0);
+
+    await act(async () => ticketRequest?.respond({ ticket: 'ticket-1', expiresIn: 60 }));
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(FakeEventSource.instances[0].url).toContain('ticket=ticket-1');
+    expect(FakeEventSource.instances[0].url).not.toContain('session-token');
+  });
+
+  it('opens the event stream of a public dashboard without a ticket when signed out', () => {
+    renderManager();
+
+    expect(requests.some(request => request.url.includes('/events/ticket'))).toBe(false);
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(FakeEventSource.instances[0].url).not.toContain('ticket=');
+  });
+
+  it('reopens a refused stream with a new ticket', async () => {
+    vi.useFakeTimers();
+    localStorage.setItem('authToken', 'session-token');
+    renderManager();
+    const ticketRequests = () => requests.filter(request => request.url.endsWith('/events/ticket'));
+    await act(async () => ticketRequests()[0].respond({ ticket: 'ticket-1', expiresIn: 60 }));
+
+    act(() => FakeEventSource.instances[0].refuse());
+    await act(async () => vi.advanceTimersByTime(5000));
+    await act(async () => ticketRequests()[1].respond({ ticket: 'ticket-2', expiresIn: 60 }));
+
+    expect(FakeEventSource.instances).toHaveLength(2);
+    expect(FakeEventSource.instances[1].url).toContain('ticket=ticket-2');
+  });
+
+  it('aborts the running request on unmount', () => {
+    const { unmount } = renderManager();
+
+    unmount();
+
+    expect(requests[0].signal.aborted).toBe(true);
+  });
+});
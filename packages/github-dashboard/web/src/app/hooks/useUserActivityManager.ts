@@ -1,6 +1,10 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { GitHubUser } from '../../types/github';
+import { API_BASE_URL } from '../api/api-base-url';
+import { authHeaders, getAuthToken } from '../api/auth-client';
+import { fetchStreamTicket } from '../api/dashboard-stream-client';
+import { githubAvatarUrl, githubProfileUrl } from '../api/github-urls';
 
 interface UserActivity {
   user: GitHubUser;
@@ -13,92 +17,222 @@ interface UserActivity {
     issues?: number;
   };
   repos?: any[];
+  // True until the user's activity for the current filters has loaded
+  loading?: boolean;
+  error?: string;
+}
+
+interface ActivitySummary {
+  user: GitHubUser;
+  activity: UserActivity['activity'] & { repos?: any[] };
+  error?: string;
 }
 
 interface UseUserActivityManagerProps {
   selectedDashboard: any;
   githubUsers: any[];
   dashboardRepositories: any[];
+  activityConfigs?: any[];
+  startDate?: string;
+  endDate?: string;
+}
+
+const BATCH_ACTIVITY_ENDPOINT = `${API_BASE_URL}/api/github/users/cached-batch-activity-summary`;
+const DASHBOARD_EVENTS_ENDPOINT = `${API_BASE_URL}/api/dashboards`;
+// Wait before reopening a stream the server refused to resume, e.g. because its ticket expired
+const STREAM_RECONNECT_DELAY_MS = 5000;
+
+const EMPTY_ACTIVITY: UserActivity['activity'] = {
+  prsCreated: 0,
+  prsReviewed: 0,
+  prsMerged: 0,
+  totalActivity: 0
+};
+
+// Convert a dashboard_github_user row to the GitHubUser format expected by the layouts
+function toGitHubUser(dashboardUser: any): GitHubUser {
+  const githubUser = dashboardUser.githubUserByGithubUserId;
+  return {
+    id: parseInt(githubUser.id) || 0,
+    login: githubUser.githubUsername,
+    name: githubUser.displayName || githubUser.githubUsername || '',
+    avatar_url: githubUser.avatarUrl || githubAvatarUrl(githubUser.githubUsername),
+    html_url: githubUser.profileUrl || githubProfileUrl(githubUser.githubUsername),
+    public_repos: 0,
+    followers: 0,
+    following: 0,
+    public_gists: 0,
+    created_at: '',
+    updated_at: ''
+  };
 }
 
 export function useUserActivityManager({
   selectedDashboard,
   githubUsers,
-  dashboardRepositories
+  dashboardRepositories,
+  activityConfigs = [],
+  startDate,
+  endDate
 }: UseUserActivityManagerProps) {
   const [userActivities, setUserActivities] = useState<UserActivity[]>([]);
   const [fetchingUsers, setFetchingUsers] = useState(false);
-  const fetchingRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const fetchUserActivities = useCallback(async () => {
-    if (!selectedDashboard || githubUsers.length === 0) {
-      return;
-    }
+  const dashboardId: string | undefined = selectedDashboard?.id;
+  const users = useMemo(
+    () => githubUsers.filter(dashboardUser => dashboardUser?.githubUserByGithubUserId).map(toGitHubUser),
+    [githubUsers]
+  );
+  // Filters as strings so re-fetched but unchanged dashboard data doesn't trigger a new request
+  const repos = dashboardRepositories
+    .map((dashboardRepo: any) => dashboardRepo.repositoryByRepositoryId?.fullName)
+    .filter(Boolean)
+    .join(',');
+  const activityCodes: string[] = activityConfigs
+    .map((config: any) => config.activityTypeByActivityTypeId?.code)
+    .filter(Boolean);
+  // Reviews are the expensive part of the PR activity; skip them unless the dashboard tracks them
+  const includeReviews = activityCodes.length === 0 || activityCodes.includes('prs_reviewed');
 
-    const cacheKey = `${selectedDashboard.id}-${githubUsers.length}`;
-    if (fetchingRef.current === cacheKey) {
+  const fetchUserActivities = useCallback(async (noCache = false) => {
+    if (!dashboardId || users.length === 0 || !startDate || !endDate) {
+      setUserActivities([]);
       return;
     }
-    fetchingRef.current = cacheKey;
+
+    // A newer request supersedes one still running for older filters
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Keep the users on screen, with their last counts, while the new ones load
+    setUserActivities(current => users.map(user => {
+      const previous = current.find(userActivity => userActivity.user.login === user.login);
+      return { user, activity: previous?.activity ?? EMPTY_ACTIVITY, repos: previous?.repos ?? [], loading: true };
+    }));
+    setFetchingUsers(true);
+
+    const params = new URLSearchParams({ dashboard_id: dashboardId, start_date: startDate, end_date: endDate });
+    if (repos) params.set('repos', repos);
+    if (!includeReviews) params.set('include_reviews', 'false');
+    if (noCache) params.set('no_cache', 'true');
 
     try {
-      setFetchingUsers(true);
-      
-      // For now, create user activities with mock data since we don't have the batch activity summary query
-      // TODO: Implement proper activity data fetching when the backend query is available
-      const activities = githubUsers.map(dashboardUser => {
-        if (!dashboardUser?.githubUserByGithubUserId) {
-          return null;
-        }
-        
-        // Convert to GitHubUser format expected by UserActivityGrid
-        const githubUser: GitHubUser = {
-          id: parseInt(dashboardUser.githubUserByGithubUserId.id) || 0,
-          login: dashboardUser.githubUserByGithubUserId.githubUsername,
-          name: dashboardUser.githubUserByGithubUserId.displayName || dashboardUser.githubUserByGithubUserId.githubUsername || '',
-          avatar_url: dashboardUser.githubUserByGithubUserId.avatarUrl || `https://github.com/${dashboardUser.githubUserByGithubUserId.githubUsername}.png`,
-          html_url: dashboardUser.githubUserByGithubUserId.profileUrl || `https://github.com/${dashboardUser.githubUserByGithubUserId.githubUsername}`,
-          public_repos: 0,
-          followers: 0,
-          following: 0,
-          public_gists: 0,
-          created_at: '',
-          updated_at: ''
-        };
-        
-        // Mock activity data for now
-        const mockActivity = {
-          prsCreated: Math.floor(Math.random() * 10),
-          prsReviewed: Math.floor(Math.random() * 15),
-          prsMerged: Math.floor(Math.random() * 8),
-          totalActivity: 0, // Will be calculated
-          commits: Math.floor(Math.random() * 20),
-          issues: Math.floor(Math.random() * 5)
-        };
-        mockActivity.totalActivity = mockActivity.prsCreated + mockActivity.prsReviewed + mockActivity.prsMerged;
-        
-        return {
-          user: githubUser,
-          activity: mockActivity,
-          repos: [],
-        };
-      }).filter(Boolean) || [];
+      const response = await fetch(`${BATCH_ACTIVITY_ENDPOINT}?${params}`, { headers: authHeaders(), signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch activity: ${response.status} ${response.statusText}`);
+      }
+      const summaries: ActivitySummary[] = await response.json();
+      if (controller.signal.aborted) {
+        return;
+      }
+      const byLogin = new Map(summaries.map(summary => [summary.user.login.toLowerCase(), summary]));
 
-      setUserActivities(activities.filter((activity: any): activity is UserActivity => activity !== null) as UserActivity[]);
+      setUserActivities(users.map(user => {
+        const summary = byLogin.get(user.login.toLowerCase());
+        if (!summary) {
+          return { user, activity: EMPTY_ACTIVITY, repos: [], error: 'No activity returned for this user' };
+        }
+        const { repos: activityRepos, ...activity } = summary.activity;
+        return { user: { ...user, ...summary.user }, activity, repos: activityRepos ?? [], error: summary.error };
+      }));
     } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error('Error fetching user activities:', error);
+      const message = error instanceof Error ? error.message : 'Failed to fetch activity';
+      setUserActivities(current => current.map(userActivity => ({ ...userActivity, loading: false, error: message })));
     } finally {
-      setFetchingUsers(false);
-      fetchingRef.current = null;
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setFetchingUsers(false);
+      }
     }
-  }, [selectedDashboard, dashboardRepositories, githubUsers]);
+  }, [dashboardId, users, repos, includeReviews, startDate, endDate]);
 
   useEffect(() => {
     fetchUserActivities();
   }, [fetchUserActivities]);
 
+  // Cancel the request still running when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Live updates: the server pushes recomputed activity after cache refreshes and webhook deliveries
+  useEffect(() => {
+    if (!dashboardId) {
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (repos) params.set('repos', repos);
+    if (startDate) params.set('start_date', startDate);
+    if (endDate) params.set('end_date', endDate);
+    if (!includeReviews) params.set('include_reviews', 'false');
+
+    const onActivity = (event: Event) => {
+      const summaries: ActivitySummary[] = JSON.parse((event as MessageEvent).data);
+      const byLogin = new Map(summaries.map(summary => [summary.user.login.toLowerCase(), summary]));
+
+      // Update counts in place so the grid and summary bar keep their users and order
+      setUserActivities(current => current.map(userActivity => {
+        const summary = byLogin.get(userActivity.user.login.toLowerCase());
+        if (!summary) return userActivity;
+        const { repos: activityRepos, ...activity } = summary.activity;
+        return {
+          ...userActivity,
+          activity: { ...userActivity.activity, ...activity },
+          repos: activityRepos ?? userActivity.repos,
+          loading: false,
+          error: summary.error
+        };
+      }));
+    };
+    const onActivityError = (event: Event) => {
+      console.error('Dashboard activity stream error:', JSON.parse((event as MessageEvent).data).message);
+    };
+
+    let events: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    // EventSource can't send an Authorization header, so signed-in users open the stream with a
+    // short-lived ticket. The browser's own reconnects reuse it until it expires; then we get a new one
+    const connect = async () => {
+      const signedIn = !!getAuthToken();
+      if (signedIn) {
+        try {
+          params.set('ticket', (await fetchStreamTicket(dashboardId)).ticket);
+        } catch (error) {
+          console.error('Failed to open the dashboard activity stream:', error);
+          return;
+        }
+      }
+      if (closed) return;
+
+      const source = new EventSource(`${DASHBOARD_EVENTS_ENDPOINT}/${dashboardId}/events?${params}`);
+      events = source;
+      source.addEventListener('activity', onActivity);
+      source.addEventListener('activity-error', onActivityError);
+      source.addEventListener('error', () => {
+        if (signedIn && !closed && source.readyState === EventSource.CLOSED) {
+          reconnectTimer = setTimeout(connect, STREAM_RECONNECT_DELAY_MS);
+        }
+      });
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      events?.close();
+    };
+  }, [dashboardId, repos, startDate, endDate, includeReviews]);
+
+  // Refresh bypasses the server cache
   const handleRefreshStats = useCallback(() => {
-    fetchUserActivities();
+    fetchUserActivities(true);
   }, [fetchUserActivities]);
 
   return {
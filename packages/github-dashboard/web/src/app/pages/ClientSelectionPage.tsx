@@ -1,19 +1,28 @@
-import { Box, Container, Typography } from '@mui/material';
-import React from 'react';
+import { Logout } from '@mui/icons-material';
+import { Alert, Box, Button, Container, Typography } from '@mui/material';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 import { ClientCard } from '../components/client/ClientCard';
 import { ErrorState } from '../components/common/ErrorState';
 import { LoadingState } from '../components/common/LoadingState';
+import { useAuthContext } from '../context/AuthContext';
 import { useClientContext } from '../context/ClientContext';
 
 export const ClientSelectionPage: React.FC = (): React.ReactElement => {
   const navigate = useNavigate();
+  const { user, memberships, logout } = useAuthContext();
   const { clients, loading, error, setActiveClientId } = useClientContext();
+  const [selectError, setSelectError] = useState<string | null>(null);
 
-  const handleClientSelect = (clientId: string) => {
-    setActiveClientId(clientId);
-    navigate('/dashboards');
+  const handleClientSelect = async (clientId: string) => {
+    try {
+      setSelectError(null);
+      await setActiveClientId(clientId);
+      navigate('/dashboards');
+    } catch (err) {
+      setSelectError(err instanceof Error ? err.message : 'Failed to select client');
+    }
   };
 
   if (loading) {
@@ -26,18 +35,39 @@ export const ClientSelectionPage: React.FC = (): React.ReactElement => {
 
   return (
     <Container maxWidth="lg" sx={{ py: 8 }}>
+      <Box display="flex" justifyContent="flex-end" alignItems="center" gap={2} mb={2}>
+        <Typography variant="body2" color="text.secondary">
+          Signed in as {user?.displayName || user?.email || user?.githubUsername}
+        </Typography>
+        <Button variant="outlined" size="small" startIcon={<Logout />} onClick={logout}>
+          Sign out
+        </Button>
+      </Box>
+
       <Box textAlign="center" mb={6}>
         <Typography variant="h2" component="h1" gutterBottom fontWeight="bold">
           Welcome to GitHub Dashboard
         </Typography>
         <Typography variant="h5" color="text.secondary" mb={4}>
-          Choose your client experience to get started
+          {clients.length > 0 ? 'Choose a client to get started' : "You aren't a member of any client yet"}
         </Typography>
+        {clients.length === 0 && (
+          <Typography variant="body1" color="text.secondary">
+            Ask an admin of your client to add you; they'll need the email or GitHub username you signed in with.
+          </Typography>
+        )}
       </Box>
 
+      {selectError && (
+        <Alert severity="error" sx={{ mb: 4 }}>
+          {selectError}
+        </Alert>
+      )}
+
       <Box display="flex" justifyContent="center" gap={4} flexWrap="wrap">
         {clients.map((client) => {
           const isPremium = client.tierTypeByTierTypeId?.code === 'premium';
+          const role = memberships.find(membership => membership.clientId === client.id)?.role;
 
           return (
             <ClientCard
@@ -47,7 +77,7 @@ export const ClientSelectionPage: React.FC = (): React.ReactElement => {
               tierName={client.tierTypeByTierTypeId?.name}
               isPremium={isPremium}
               onClick={() => handleClientSelect(client.id)}
-              buttonLabel={`Select ${client.name}`}
+              buttonLabel={role ? `Select ${client.name} (${role})` : `Select ${client.name}`}
             />
           );
         })}
@@ -1,12 +1,14 @@
 import styled from '@emotion/styled';
 import { Box, Button, Typography } from '@mui/material';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 
-import { ActivitySettings } from '../components/Activity';
+import { isDateRangePreset } from '../api/date-ranges';
+import { githubAvatarUrl, githubProfileUrl } from '../api/github-urls';
+import { ActivitySettings, SavedViews } from '../components/Activity';
 import { DashboardConfigModal, DashboardHeader, DashboardLayouts, DashboardNotFound, SummaryBar } from '../components/Dashboard';
 import { useClientContext } from '../context/ClientContext';
-import { useDashboardConfigHandler, useDashboardData, useUserActivityManager } from '../hooks';
+import { useDashboardConfigHandler, useDashboardData, useDashboardViewParams, useUserActivityManager } from '../hooks';
 
 
 const DashboardContainer = styled(Box)`
@@ -29,9 +31,6 @@ export function DashboardDetailPage() {
   } = useDashboardData(dashboardSlug || '');
 
   // State management
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
-  const [sortBy, setSortBy] = useState<'totalActivity' | 'prsCreated' | 'prsReviewed' | 'prsMerged'>('totalActivity');
   const [configModalOpen, setConfigModalOpen] = useState(false);
   const [dashboardTypeCode, setDashboardTypeCode] = useState<string>('user_activity');
 
@@ -40,6 +39,30 @@ export function DashboardDetailPage() {
   const githubUsers = postgraphileUsers;
   const dashboardRepositories = postgraphileRepositories;
 
+  // Date range, sort and filters live in the URL, so links reproduce the view
+  const view = useDashboardViewParams({ selectedDashboard });
+  const { startDate, endDate, sortBy } = view;
+
+  // Narrow what the dashboard tracks to the view's users, repositories and activity types
+  const viewUsers = useMemo(() => {
+    const selected = view.users?.map(login => login.toLowerCase());
+    return selected
+      ? githubUsers.filter((dashboardUser: any) => selected.includes(dashboardUser.githubUserByGithubUserId?.githubUsername?.toLowerCase()))
+      : githubUsers;
+  }, [githubUsers, view.users]);
+  const viewRepositories = useMemo(() => {
+    const selected = view.repositories?.map(name => name.toLowerCase());
+    return selected
+      ? dashboardRepositories.filter((dashboardRepo: any) => selected.includes(dashboardRepo.repositoryByRepositoryId?.fullName?.toLowerCase()))
+      : dashboardRepositories;
+  }, [dashboardRepositories, view.repositories]);
+  const viewActivityConfigs = useMemo(() => {
+    const selected = view.activityTypes;
+    return selected
+      ? postgraphileActivityConfigs.filter((config: any) => selected.includes(config.activityTypeByActivityTypeId?.code))
+      : postgraphileActivityConfigs;
+  }, [postgraphileActivityConfigs, view.activityTypes]);
+
   // Convert activity configs to the format expected by the modal
   const currentActivityConfig = postgraphileActivityConfigs.reduce((acc: Record<string, boolean>, config: any) => {
     if (config.activityTypeByActivityTypeId?.code) {
@@ -50,11 +73,12 @@ export function DashboardDetailPage() {
 
   // Convert users to the format expected by the modal
   const currentUsers = postgraphileUsers.map((dashboardUser: any) => ({
-    id: dashboardUser.githubUserByGithubUserId?.id || '',
+    // GitHub's numeric user id, as returned by the GitHub user lookup
+    id: Number(dashboardUser.githubUserByGithubUserId?.githubUserId) || 0,
     login: dashboardUser.githubUserByGithubUserId?.githubUsername || '',
     name: dashboardUser.githubUserByGithubUserId?.displayName || dashboardUser.githubUserByGithubUserId?.githubUsername || '',
-    avatar_url: dashboardUser.githubUserByGithubUserId?.avatarUrl || `https://github.com/${dashboardUser.githubUserByGithubUserId?.githubUsername}.png`,
-    html_url: dashboardUser.githubUserByGithubUserId?.profileUrl || `https://github.com/${dashboardUser.githubUserByGithubUserId?.githubUsername}`,
+    avatar_url: dashboardUser.githubUserByGithubUserId?.avatarUrl || githubAvatarUrl(dashboardUser.githubUserByGithubUserId?.githubUsername ?? ''),
+    html_url: dashboardUser.githubUserByGithubUserId?.profileUrl || githubProfileUrl(dashboardUser.githubUserByGithubUserId?.githubUsername ?? ''),
     public_repos: 0,
     followers: 0,
     following: 0,
@@ -71,18 +95,15 @@ export function DashboardDetailPage() {
   // Use extracted hooks for complex logic
   const { userActivities, fetchingUsers, handleRefreshStats } = useUserActivityManager({
     selectedDashboard,
-    githubUsers,
-    dashboardRepositories
+    githubUsers: viewUsers,
+    dashboardRepositories: viewRepositories,
+    activityConfigs: viewActivityConfigs,
+    startDate,
+    endDate
   });
 
   const { handleConfigSave } = useDashboardConfigHandler({
     selectedDashboard,
-    postgraphileRepositories,
-    postgraphileUsers,
-    postgraphileActivityConfigs,
-    currentRepositories,
-    currentUsers,
-    currentActivityConfig,
     refetch
   });
 
@@ -96,16 +117,6 @@ export function DashboardDetailPage() {
   };
 
 
-  // Set default date range (last 30 days)
-  useEffect(() => {
-    const end = new Date();
-    const start = new Date();
-    start.setDate(start.getDate() - 30);
-    
-    setEndDate(end.toISOString().split('T')[0]);
-    setStartDate(start.toISOString().split('T')[0]);
-  }, []);
-
   // Set dashboard type from selected dashboard
   useEffect(() => {
     if (selectedDashboard?.dashboardTypeByDashboardTypeId?.code) {
@@ -151,6 +162,8 @@ export function DashboardDetailPage() {
         dashboardName={selectedDashboard.name}
         dashboardDescription={selectedDashboard.description}
         dashboardId={selectedDashboard.id}
+        startDate={startDate}
+        endDate={endDate}
         onBackClick={() => navigate('/dashboards')}
         onConfigureClick={openConfigModal}
       />
@@ -161,22 +174,44 @@ export function DashboardDetailPage() {
         <SummaryBar userActivities={userActivities} />
       )}
 
+      {/* Saved Views */}
+      <SavedViews
+        dashboardId={selectedDashboard.id}
+        filters={view.filters}
+        viewId={view.viewId}
+        onApplyView={view.applyView}
+      />
+
       {/* Activity Settings */}
       <ActivitySettings
         startDate={startDate}
         endDate={endDate}
+        dateRange={view.dateRange}
         sortBy={sortBy}
-        onStartDateChange={setStartDate}
-        onEndDateChange={setEndDate}
-        onSortByChange={setSortBy}
+        onDateRangeChange={view.setDateRange}
+        onCustomDatesChange={view.setCustomDates}
+        onSortByChange={view.setSortBy}
         onRefreshStats={handleRefreshStats}
+        sprintConfigured={!!selectedDashboard.sprintStartDate}
+        userOptions={currentUsers.map(user => ({ value: user.login, label: user.login }))}
+        repositoryOptions={currentRepositories.map((name: string) => ({ value: name, label: name }))}
+        activityTypeOptions={postgraphileActivityConfigs.map((config: any) => ({
+          value: config.activityTypeByActivityTypeId?.code,
+          label: config.activityTypeByActivityTypeId?.displayName || config.activityTypeByActivityTypeId?.code
+        }))}
+        users={view.users}
+        repositories={view.repositories}
+        activityTypes={view.activityTypes}
+        onUsersChange={view.setUsers}
+        onRepositoriesChange={view.setRepositories}
+        onActivityTypesChange={view.setActivityTypes}
         disabled={!startDate || !endDate || fetchingUsers}
       />
 
       {/* Dynamic Dashboard Layout */}
       <DashboardLayouts
         dashboardTypeCode={dashboardTypeCode}
-        userActivities={userActivities as any}
+        userActivities={userActivities}
         sortBy={sortBy}
       />
 
@@ -189,7 +224,13 @@ export function DashboardDetailPage() {
         initialUsers={currentUsers}
         initialActivityConfig={currentActivityConfig}
         initialIsPublic={selectedDashboard?.isPublic ?? true}
+        initialExcludeMergeCommits={selectedDashboard?.excludeMergeCommits ?? false}
+        initialDefaultDateRange={isDateRangePreset(selectedDashboard?.defaultDateRange) ? selectedDashboard.defaultDateRange : null}
+        initialSprintStartDate={selectedDashboard?.sprintStartDate ?? null}
+        initialSprintLengthDays={selectedDashboard?.sprintLengthDays ?? 14}
         initialDashboardTypeCode={dashboardTypeCode}
+        dashboardId={selectedDashboard?.id}
+        onMembersImported={refetch}
       />
     </DashboardContainer>
   );
@@ -3,10 +3,12 @@ import { Box, Button, Typography } from '@mui/material';
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
+import { enabledActivityTypes, saveDashboardConfiguration } from '../api/dashboard-configuration-client';
+import { DateRangePreset } from '../api/date-ranges';
 import { ErrorState, LoadingState } from '../components/common';
 import { CreateDashboardDialog, DashboardConfigModal, DashboardList } from '../components/Dashboard';
 import { useClientContext } from '../context/ClientContext';
-import { useActivityConfigs, useDashboardData, useDashboardMutations, useDashboardRepositories, useDashboardUsers } from '../hooks';
+import { useDashboardData, useDashboardMutations } from '../hooks';
 import { Dashboard as DashboardType } from '../types/dashboard';
 
 export const DashboardListPage = () => {
@@ -18,6 +20,7 @@ export const DashboardListPage = () => {
   // Client data - get the active client from context
   const { 
     activeClient, 
+    canEdit,
     loading: clientsLoading,
     error: clientsError
   } = useClientContext();
@@ -30,26 +33,10 @@ export const DashboardListPage = () => {
 
   const { 
     createDashboard, 
-    updateDashboard,
     loading: creating, 
     error: createError
   } = useDashboardMutations();
 
-  const { 
-    addUserToDashboard,
-    createGithubUser,
-    getGithubUserByUsername
-  } = useDashboardUsers();
-
-  const { 
-    addRepositoryToDashboard,
-    upsertRepository
-  } = useDashboardRepositories();
-
-  const { 
-    addActivityTypeToDashboard
-  } = useActivityConfigs();
-
   const handleViewDashboard = (dashboard: DashboardType) => {
     navigate(`/dashboard/${dashboard.slug}`);
   };
@@ -120,7 +107,7 @@ export const DashboardListPage = () => {
       {/* Dashboard List */}
       <DashboardList
         dashboards={dashboards}
-        onCreateDashboard={() => setCreateDialogOpen(true)}
+        onCreateDashboard={canEdit ? () => setCreateDialogOpen(true) : undefined}
         onViewDashboard={handleViewDashboard}
       />
 
@@ -137,104 +124,37 @@ export const DashboardListPage = () => {
         onClose={() => setConfigDialogOpen(false)}
         onSave={async (config: {
           repositories: string[];
-          users: Array<{ login: string; githubUsername?: string; name?: string; avatar_url?: string }>;
+          users: Array<{ login: string }>;
           activityConfig: Record<string, boolean>;
           isPublic: boolean;
+          excludeMergeCommits: boolean;
+          defaultDateRange: DateRangePreset | null;
+          sprintStartDate: string | null;
+          sprintLengthDays: number;
         }) => {
-
           if (!newDashboardId) {
-            console.log('No newDashboardId, returning early');
             return;
           }
 
-          try {
-            // Persist dashboard visibility
-            await updateDashboard(newDashboardId, { isPublic: config.isPublic });
-
-            // Resolve and persist repositories
-            for (const full of (config.repositories || [])) {
-              try {
-                const value = (full || '').trim();
-                if (!value) continue;
-                const [owner, repo] = value.split('/');
-                if (!owner || !repo) continue;
-                // get repo details for id via backend proxy (handles auth/rate limits)
-                const resp = await fetch(`http://localhost:3001/api/github/repos/${owner}/${repo}`);
-                if (!resp.ok) continue;
-                const repoInfo = await resp.json();
-                const githubRepoId = repoInfo?.id;
-                if (!githubRepoId) continue;
-                const ownerName = repoInfo?.owner?.login || owner;
-                const displayName = repoInfo?.name || repo;
-                const fullName = repoInfo?.full_name || `${owner}/${repo}`;
-                
-                // First create/upsert the repository
-                const repository = await upsertRepository({
-                  githubRepoId,
-                  name: displayName,
-                  owner: ownerName,
-                  fullName
-                });
-                
-                // Then add it to the dashboard
-                if (repository && typeof repository === 'object' && 'id' in repository) {
-                  await addRepositoryToDashboard(newDashboardId, (repository as { id: string }).id);
-                }
-              } catch (err) {
-                console.error('Failed to resolve/persist repo', full, err);
-              }
-            }
-
-            // Ensure users exist and add them to the dashboard (best-effort per user)
-            for (const user of (config.users || [])) {
-              try {
-                const username = user.login || user.githubUsername;
-                if (!username) continue;
-                let ghUser: { id: string } | null = null;
-                try {
-                  const result = await getGithubUserByUsername(username);
-                  ghUser = result && typeof result === 'object' && 'id' in result ? result as { id: string } : null;
-                } catch {
-                  const result = await createGithubUser(username, user.name || username, user.avatar_url || '');
-                  ghUser = result && typeof result === 'object' && 'id' in result ? result as { id: string } : null;
-                }
-                if (ghUser?.id) {
-                  await addUserToDashboard(newDashboardId, ghUser.id);
-                }
-              } catch (err) {
-                console.error('Failed to attach user to dashboard', err);
-              }
-            }
-
-            // Persist activity types (date range is frontend-only)
-            if (config.activityConfig && Object.keys(config.activityConfig).length > 0) {
-              try {
-                // Save each selected activity type using the code directly
-                for (const [activityCode, enabled] of Object.entries(config.activityConfig)) {
-                  if (enabled) {
-                    // Add activity type to dashboard using code (will resolve to ID in backend)
-                    await addActivityTypeToDashboard(newDashboardId, activityCode);
-                  }
-                }
-              } catch (err) {
-                console.error('Failed to save activity configuration', err);
-              }
-            } else {
-              console.log('No activity config to save');
-            }
-          } catch (e) {
-            console.error('Failed to save dashboard configuration', e);
-            throw e;
-          } finally {
-            setConfigDialogOpen(false);
-          }
+          // Saved in one request; invalid repositories or users keep the modal open with the API's errors
+          await saveDashboardConfiguration(newDashboardId, {
+            isPublic: config.isPublic,
+            excludeMergeCommits: config.excludeMergeCommits,
+            defaultDateRange: config.defaultDateRange,
+            sprintStartDate: config.sprintStartDate,
+            sprintLengthDays: config.sprintLengthDays,
+            repositories: config.repositories || [],
+            users: (config.users || []).map(user => user.login),
+            activityTypes: enabledActivityTypes(config.activityConfig)
+          });
+          setConfigDialogOpen(false);
         }}
         initialRepositories={[]}
         initialUsers={[]}
         initialActivityConfig={{ prs_created: true, prs_merged: true, prs_reviewed: true }}
         initialDateRange={{ start: '', end: '' }}
         initialIsPublic={true}
-        organizationRepos={[]}
+        dashboardId={newDashboardId ?? undefined}
       />
 
       {creating && <LoadingState message="Creating dashboard..." maxWidth={false} py={2} />}
@@ -0,0 +1,147 @@
+import { GitHub } from '@mui/icons-material';
+import { Alert, Box, Button, Container, Divider, Link, Paper, TextField, Typography } from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+
+import { authApi, GITHUB_LOGIN_URL } from '../api/auth-client';
+import { LoadingState } from '../components/common/LoadingState';
+import { useAuthContext } from '../context/AuthContext';
+
+export const LoginPage: React.FC = (): React.ReactElement => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, loading, login, register, completeGitHubLogin } = useAuthContext();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [githubEnabled, setGithubEnabled] = useState(false);
+
+  useEffect(() => {
+    authApi.providers()
+      .then(providers => setGithubEnabled(providers.github))
+      .catch(err => console.error('Error loading sign-in methods:', err));
+  }, []);
+
+  // The GitHub sign-in callback returns here with #token=... or #error=...
+  useEffect(() => {
+    const params = new URLSearchParams(location.hash.slice(1));
+    const token = params.get('token');
+    const callbackError = params.get('error');
+    if (!token && !callbackError) return;
+
+    navigate('/login', { replace: true });
+    if (token) {
+      completeGitHubLogin(token);
+    } else {
+      setError(callbackError);
+    }
+  }, [location.hash, navigate, completeGitHubLogin]);
+
+  if (loading) {
+    return <LoadingState message="Signing in..." />;
+  }
+
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'login') {
+        await login(email, password);
+      } else {
+        await register(email, password, displayName || undefined);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 8 }}>
+      <Box textAlign="center" mb={4}>
+        <Typography variant="h3" component="h1" gutterBottom fontWeight="bold">
+          GitHub Dashboard
+        </Typography>
+        <Typography variant="h6" color="text.secondary">
+          {mode === 'login' ? 'Sign in to your account' : 'Create an account'}
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 4 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box component="form" onSubmit={handleSubmit} display="flex" flexDirection="column" gap={2}>
+          {mode === 'register' && (
+            <TextField
+              label="Name"
+              value={displayName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDisplayName(e.target.value)}
+              autoComplete="name"
+            />
+          )}
+          <TextField
+            label="Email"
+            type="email"
+            value={email}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            helperText={mode === 'register' ? 'At least 8 characters' : undefined}
+            required
+          />
+          <Button type="submit" variant="contained" size="large" disabled={submitting}>
+            {mode === 'login' ? 'Sign in' : 'Create account'}
+          </Button>
+        </Box>
+
+        {githubEnabled && (
+          <>
+            <Divider sx={{ my: 3 }}>or</Divider>
+            <Button
+              fullWidth
+              variant="outlined"
+              size="large"
+              startIcon={<GitHub />}
+              href={GITHUB_LOGIN_URL}
+            >
+              Sign in with GitHub
+            </Button>
+          </>
+        )}
+
+        <Box textAlign="center" mt={3}>
+          <Link
+            component="button"
+            type="button"
+            onClick={() => {
+              setMode(mode === 'login' ? 'register' : 'login');
+              setError(null);
+            }}
+          >
+            {mode === 'login' ? "Don't have an account? Create one" : 'Already have an account? Sign in'}
+          </Link>
+        </Box>
+      </Paper>
+    </Container>
+  );
+};
@@ -4,6 +4,11 @@ export interface Dashboard {
   slug: string;
   description?: string;
   isPublic: boolean;
+  excludeMergeCommits?: boolean;
+  // Preset code the dashboard opens with, e.g. 'last_14_days'
+  defaultDateRange?: string | null;
+  sprintStartDate?: string | null;
+  sprintLengthDays?: number;
   createdAt: string;
   updatedAt: string;
   dashboardType: DashboardType;
@@ -33,6 +38,8 @@ export interface DashboardUser {
   githubUserId: string;
   githubUserByGithubUserId: {
     id: string;
+    // GitHub's immutable numeric user id
+    githubUserId: string;
     githubUsername: string;
     displayName?: string;
     avatarUrl?: string;
@@ -64,9 +71,9 @@ export interface ActivityType {
   code: string;
   displayName: string;
   description?: string;
-  category?: string;
-  createdAt: string;
-  updatedAt: string;
+  category?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 export interface ActivityConfig {
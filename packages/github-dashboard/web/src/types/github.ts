@@ -41,7 +41,8 @@ export interface GitHubRepo {
   pushed_at: string;
   default_branch: string;
   topics: string[];
-  visibility: 'public' | 'private';
+  visibility: 'public' | 'private' | 'internal';
+  archived: boolean;
 }
 
 export interface GitHubPullRequest {